@@ -5,9 +5,31 @@
 import { getStorageManager } from '../src/services/StorageManager';
 import { getTabTracker } from '../src/services/TabTracker';
 import { getWindowTracker } from '../src/services/WindowTracker';
+import { getTabGroupTracker } from '../src/services/TabGroupTracker';
 import { getRelationshipManager } from '../src/services/RelationshipManager';
 import { getInitializationService } from '../src/services/InitializationService';
-import { TIMING, ALARM_NAMES } from '../src/constants';
+import { getImportService } from '../src/services/ImportService';
+import { getSessionRestoreService } from '../src/services/SessionRestoreService';
+import { getWorkspaceService } from '../src/services/WorkspaceService';
+import { getExportQueryService } from '../src/services/ExportQueryService';
+import { getSearchService } from '../src/services/SearchService';
+import { getQueryService } from '../src/services/QueryService';
+import { getIdleTracker } from '../src/services/IdleTracker';
+import { getSessionPolicyService } from '../src/services/SessionPolicyService';
+import { getSessionEditService } from '../src/services/SessionEditService';
+import { getSessionSummaryService } from '../src/services/SessionSummaryService';
+import { getSessionDiffService } from '../src/services/SessionDiffService';
+import { getRetentionService } from '../src/services/RetentionService';
+import { getArchiveService } from '../src/services/ArchiveService';
+import { getSettingsService, DEFAULT_SETTINGS } from '../src/services/SettingsService';
+import { getTagService } from '../src/services/TagService';
+import { getAutoTagService } from '../src/services/AutoTagService';
+import { getAnalyticsService } from '../src/services/AnalyticsService';
+import { getReportService } from '../src/services/ReportService';
+import { createRpcHandlers, createRpcRouter, type RecentEvent } from '../src/rpc';
+import { createDataStreamHandler } from '../src/rpc/streamHandler';
+import { ALARM_NAMES, PORT_NAMES } from '../src/constants';
+import type { Settings, TimingSettings } from '../src/db/types';
 
 export default defineBackground(() => {
   console.log('[UNOS] Background service worker starting...');
@@ -16,10 +38,17 @@ export default defineBackground(() => {
   const storageManager = getStorageManager();
   const tabTracker = getTabTracker();
   const windowTracker = getWindowTracker();
+  const tabGroupTracker = getTabGroupTracker();
   const relationshipManager = getRelationshipManager();
+  const searchService = getSearchService();
+  const queryService = getQueryService();
+  const idleTracker = getIdleTracker();
+  const sessionPolicyService = getSessionPolicyService();
+  const settingsService = getSettingsService();
+  const tagService = getTagService();
 
   // Event logging helper for debugging
-  const recentEvents: Array<{ type: string; data: string; timestamp: number }> = [];
+  const recentEvents: RecentEvent[] = [];
   const MAX_EVENTS = 50;
 
   function logEvent(type: string, data: any) {
@@ -36,6 +65,16 @@ export default defineBackground(() => {
     chrome.storage.local.set({ recentEvents: recentEvents.slice(0, 10) }).catch(console.error);
   }
 
+  // Settings for startup work; the defaults stand in if they cannot be read
+  async function getStartupSettings(): Promise<Settings> {
+    try {
+      return await settingsService.getSettings();
+    } catch (err) {
+      console.error('[UNOS] ✗ Settings unavailable, using the defaults:', err);
+      return DEFAULT_SETTINGS;
+    }
+  }
+
   // ============================================
   // TAB EVENTS - Register synchronously
   // ============================================
@@ -53,6 +92,8 @@ export default defineBackground(() => {
       }
 
       if (tabRecord) {
+        searchService.scheduleReindex(tabRecord.persistentId);
+
         // Track sibling relationships
         const sessionId = storageManager.getCurrentSessionId();
         if (sessionId) {
@@ -82,6 +123,19 @@ export default defineBackground(() => {
     if (changeInfo.url || changeInfo.title || changeInfo.favIconUrl || changeInfo.status === 'complete') {
       tabTracker.handleTabUpdated(tabId, changeInfo, tab);
     }
+
+    // Group membership changes arrive here rather than on chrome.tabGroups
+    if (changeInfo.groupId !== undefined) {
+      tabGroupTracker.handleTabGroupChanged(tabId, changeInfo.groupId).catch(console.error);
+    }
+
+    // Keep the search index in step with titles and URLs
+    if (changeInfo.url || changeInfo.title) {
+      const persistentId = storageManager.getPersistentTabId(tabId);
+      if (persistentId) {
+        searchService.scheduleReindex(persistentId);
+      }
+    }
   });
 
   chrome.tabs.onMoved.addListener((tabId, moveInfo) => {
@@ -114,6 +168,43 @@ export default defineBackground(() => {
     windowTracker.handleWindowFocusChanged(windowId);
   });
 
+  // ============================================
+  // TAB GROUP EVENTS - Register synchronously
+  // ============================================
+
+  chrome.tabGroups.onCreated.addListener((group) => {
+    console.log('[UNOS] Tab group created:', group.id);
+    tabGroupTracker.handleGroupCreated(group).catch(console.error);
+  });
+
+  chrome.tabGroups.onUpdated.addListener((group) => {
+    tabGroupTracker.handleGroupUpdated(group).catch(console.error);
+  });
+
+  chrome.tabGroups.onMoved.addListener((group) => {
+    tabGroupTracker.handleGroupMoved(group).catch(console.error);
+  });
+
+  chrome.tabGroups.onRemoved.addListener((group) => {
+    console.log('[UNOS] Tab group removed:', group.id);
+    tabGroupTracker.handleGroupRemoved(group).catch(console.error);
+  });
+
+  // ============================================
+  // IDLE EVENTS - Pause active time while the user is away
+  // ============================================
+
+  settingsService
+    .getSettings()
+    .then(({ timing }) => chrome.idle.setDetectionInterval(timing.idleDetectionSeconds))
+    .catch(console.error);
+
+  chrome.idle.onStateChanged.addListener((state) => {
+    console.log('[UNOS] Idle state:', state);
+    logEvent('IDLE_STATE', state);
+    idleTracker.handleStateChanged(state).catch(console.error);
+  });
+
   // ============================================
   // LIFECYCLE EVENTS
   // ============================================
@@ -122,18 +213,14 @@ export default defineBackground(() => {
     console.log('[UNOS] Extension installed/updated:', details.reason);
     logEvent('EXTENSION_INSTALLED', details.reason);
 
-    // Create alarms for periodic tasks
-    chrome.alarms.create(ALARM_NAMES.FLUSH_WRITES, {
-      periodInMinutes: TIMING.FLUSH_ALARM_MINUTES,
-    });
-
-    chrome.alarms.create(ALARM_NAMES.CLEANUP, {
-      periodInMinutes: TIMING.CLEANUP_ALARM_MINUTES,
-    });
+    // Retention lifetimes stored locally before they joined the synced settings
+    await getRetentionService().migrateStoredPolicy().catch(console.error);
 
-    chrome.alarms.create(ALARM_NAMES.RELATIONSHIPS, {
-      periodInMinutes: TIMING.RELATIONSHIP_ALARM_MINUTES,
-    });
+    // Create alarms for periodic tasks
+    const { timing } = await getStartupSettings();
+    for (const [name, periodInMinutes] of Object.entries(alarmPeriods(timing))) {
+      chrome.alarms.create(name, { periodInMinutes });
+    }
 
     // CRITICAL: Wait for initialization to complete
     try {
@@ -142,6 +229,11 @@ export default defineBackground(() => {
       const status = await initService.getStatus();
       console.log('[UNOS] ✓ Initialization complete:', status);
       logEvent('INIT_COMPLETE', JSON.stringify(status));
+
+      // Index tabs tracked before the search index existed
+      await searchService.ensureIndexed();
+      await tagService.recountUsage();
+      await idleTracker.syncState();
     } catch (err) {
       console.error('[UNOS] ✗ Initialization failed:', err);
       logEvent('INIT_FAILED', err instanceof Error ? err.message : String(err));
@@ -152,29 +244,14 @@ export default defineBackground(() => {
     console.log('[UNOS] Browser startup detected');
 
     // Ensure alarms exist
-    chrome.alarms.get(ALARM_NAMES.FLUSH_WRITES, (alarm) => {
-      if (!alarm) {
-        chrome.alarms.create(ALARM_NAMES.FLUSH_WRITES, {
-          periodInMinutes: TIMING.FLUSH_ALARM_MINUTES,
-        });
-      }
-    });
-
-    chrome.alarms.get(ALARM_NAMES.CLEANUP, (alarm) => {
-      if (!alarm) {
-        chrome.alarms.create(ALARM_NAMES.CLEANUP, {
-          periodInMinutes: TIMING.CLEANUP_ALARM_MINUTES,
-        });
-      }
-    });
-
-    chrome.alarms.get(ALARM_NAMES.RELATIONSHIPS, (alarm) => {
-      if (!alarm) {
-        chrome.alarms.create(ALARM_NAMES.RELATIONSHIPS, {
-          periodInMinutes: TIMING.RELATIONSHIP_ALARM_MINUTES,
-        });
-      }
-    });
+    const { timing } = await getStartupSettings();
+    for (const [name, periodInMinutes] of Object.entries(alarmPeriods(timing))) {
+      chrome.alarms.get(name, (alarm) => {
+        if (!alarm) {
+          chrome.alarms.create(name, { periodInMinutes });
+        }
+      });
+    }
 
     // CRITICAL: Wait for initialization to complete
     try {
@@ -182,6 +259,9 @@ export default defineBackground(() => {
       await initService.initialize();
       const status = await initService.getStatus();
       console.log('[UNOS] ✓ Startup reconciliation complete:', status);
+      await searchService.ensureIndexed();
+      await tagService.recountUsage();
+      await idleTracker.syncState();
     } catch (err) {
       console.error('[UNOS] ✗ Startup reconciliation failed:', err);
     }
@@ -191,6 +271,16 @@ export default defineBackground(() => {
   // ALARMS - For periodic tasks
   // ============================================
 
+  function alarmPeriods(timing: TimingSettings): Record<string, number> {
+    return {
+      [ALARM_NAMES.FLUSH_WRITES]: timing.flushAlarmMinutes,
+      [ALARM_NAMES.CLEANUP]: timing.cleanupAlarmMinutes,
+      [ALARM_NAMES.RELATIONSHIPS]: timing.relationshipAlarmMinutes,
+      [ALARM_NAMES.SESSION_BOUNDARY]: timing.sessionBoundaryAlarmMinutes,
+      [ALARM_NAMES.REPORTS]: timing.reportAlarmMinutes,
+    };
+  }
+
   chrome.alarms.onAlarm.addListener((alarm) => {
     console.log('[UNOS] Alarm fired:', alarm.name);
 
@@ -200,13 +290,54 @@ export default defineBackground(() => {
         break;
 
       case ALARM_NAMES.CLEANUP:
-        storageManager.cleanupExpiredSessions().catch(console.error);
+        // Deleted tabs and sessions no longer count towards their tags
+        getRetentionService()
+          .run()
+          .then(() => tagService.recountUsage())
+          .catch(console.error);
         relationshipManager.pruneWeakRelationships().catch(console.error);
         break;
 
       case ALARM_NAMES.RELATIONSHIPS:
         relationshipManager.recalculateTemporalRelationships().catch(console.error);
         break;
+
+      case ALARM_NAMES.SESSION_BOUNDARY:
+        // Catches the day rolling over while the user keeps working
+        sessionPolicyService.checkBoundary().catch(console.error);
+        break;
+
+      case ALARM_NAMES.REPORTS:
+        // Reports of the days and weeks that have ended since the last run
+        getReportService().runSchedule().catch(console.error);
+        break;
+    }
+  });
+
+  // ============================================
+  // SETTINGS - Apply changes from the options page or another browser
+  // ============================================
+
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    settingsService.handleStorageChange(changes, areaName).catch(console.error);
+  });
+
+  settingsService.onChange(({ timing, retention }, previous) => {
+    if (timing.idleDetectionSeconds !== previous.timing.idleDetectionSeconds) {
+      chrome.idle.setDetectionInterval(timing.idleDetectionSeconds);
+    }
+
+    // A new session lifetime applies to the unsaved sessions already stored
+    if (retention.sessionTtlDays !== previous.retention.sessionTtlDays) {
+      getRetentionService().applySessionLifetime(retention.sessionTtlDays).catch(console.error);
+    }
+
+    // Creating an alarm again replaces it with the new period
+    const previousPeriods = alarmPeriods(previous.timing);
+    for (const [name, periodInMinutes] of Object.entries(alarmPeriods(timing))) {
+      if (periodInMinutes !== previousPeriods[name]) {
+        chrome.alarms.create(name, { periodInMinutes });
+      }
     }
   });
 
@@ -214,184 +345,50 @@ export default defineBackground(() => {
   // MESSAGE HANDLING (for popup communication)
   // ============================================
 
+  const handleMessage = createRpcRouter(
+    createRpcHandlers({
+      storageManager,
+      tabTracker,
+      windowTracker,
+      relationshipManager,
+      initService: getInitializationService(),
+      searchService,
+      queryService,
+      idleTracker,
+      importService: getImportService(),
+      sessionRestoreService: getSessionRestoreService(),
+      workspaceService: getWorkspaceService(),
+      sessionPolicyService,
+      sessionEditService: getSessionEditService(),
+      sessionSummaryService: getSessionSummaryService(),
+      sessionDiffService: getSessionDiffService(),
+      retentionService: getRetentionService(),
+      archiveService: getArchiveService(),
+      settingsService,
+      tagService,
+      autoTagService: getAutoTagService(),
+      analyticsService: getAnalyticsService(),
+      reportService: getReportService(),
+    })
+  );
+
   chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
-    console.log('[UNOS] Message received:', message.type);
-
-    // Handle async operations
-    (async () => {
-      try {
-        switch (message.type) {
-          case 'GET_CURRENT_TAB': {
-            const persistentId = storageManager.getActiveTabPersistentId();
-            if (persistentId) {
-              const tab = await tabTracker.getTab(persistentId);
-              sendResponse({ success: true, data: tab });
-            } else {
-              sendResponse({ success: false, error: 'No active tab' });
-            }
-            break;
-          }
-
-          case 'GET_CURRENT_SESSION': {
-            const sessionId = storageManager.getCurrentSessionId();
-            sendResponse({ success: true, data: { sessionId } });
-            break;
-          }
-
-          case 'GET_TABS_IN_SESSION': {
-            const sessionId = message.sessionId || storageManager.getCurrentSessionId();
-            if (sessionId) {
-              const tabs = await tabTracker.getTabsInSession(sessionId);
-              sendResponse({ success: true, data: tabs });
-            } else {
-              sendResponse({ success: false, error: 'No session' });
-            }
-            break;
-          }
-
-          case 'GET_WINDOWS_IN_SESSION': {
-            const sessionId = message.sessionId || storageManager.getCurrentSessionId();
-            if (sessionId) {
-              const windows = await windowTracker.getWindowsInSession(sessionId);
-              sendResponse({ success: true, data: windows });
-            } else {
-              sendResponse({ success: false, error: 'No session' });
-            }
-            break;
-          }
-
-          case 'UPDATE_TAB_METADATA': {
-            const { persistentId, tags, notes, customMetadata } = message;
-            await tabTracker.updateTabMetadata(persistentId, { tags, notes, customMetadata });
-            sendResponse({ success: true });
-            break;
-          }
-
-          case 'SAVE_TAB': {
-            const { persistentId } = message;
-            await tabTracker.saveTab(persistentId);
-            sendResponse({ success: true });
-            break;
-          }
-
-          case 'GET_TAB_RELATIONSHIPS': {
-            const { persistentId } = message;
-            const relationships = await relationshipManager.getAllRelationships(persistentId);
-            sendResponse({ success: true, data: relationships });
-            break;
-          }
-
-          case 'GET_TAB_VISITS': {
-            const { persistentId, limit } = message;
-            const visits = await tabTracker.getTabVisits(persistentId, limit);
-            sendResponse({ success: true, data: visits });
-            break;
-          }
-
-          case 'PING': {
-            sendResponse({ success: true, data: { pong: true, timestamp: Date.now() } });
-            break;
-          }
-
-          case 'SWITCH_TO_TAB': {
-            const { chromeTabId, chromeWindowId } = message;
-            // Focus the window first, then activate the tab
-            await chrome.windows.update(chromeWindowId, { focused: true });
-            await chrome.tabs.update(chromeTabId, { active: true });
-            sendResponse({ success: true });
-            break;
-          }
-
-          case 'CLOSE_TAB': {
-            const { chromeTabId } = message;
-            await chrome.tabs.remove(chromeTabId);
-            sendResponse({ success: true });
-            break;
-          }
-
-          case 'MOVE_TAB_TO_WINDOW': {
-            const { chromeTabId, targetWindowId, index } = message;
-            await chrome.tabs.move(chromeTabId, { windowId: targetWindowId, index: index ?? -1 });
-            sendResponse({ success: true });
-            break;
-          }
-
-          case 'REORDER_TAB': {
-            const { chromeTabId, newIndex } = message;
-            await chrome.tabs.move(chromeTabId, { index: newIndex });
-            sendResponse({ success: true });
-            break;
-          }
-
-          case 'GET_ALL_DATA': {
-            // Get all data for export - runs in background context with full DB access
-            const db = storageManager.getDB();
-            const sessionId = message.sessionId || storageManager.getCurrentSessionId();
-
-            const [sessions, windows, tabs, visits, relationships, tags] = await Promise.all([
-              sessionId ? db.sessions.where('id').equals(sessionId).toArray() : db.sessions.toArray(),
-              sessionId ? db.windows.where('sessionId').equals(sessionId).toArray() : db.windows.toArray(),
-              sessionId ? db.tabs.where('sessionId').equals(sessionId).toArray() : db.tabs.toArray(),
-              db.tabVisits.toArray(),
-              db.tabRelationships.toArray(),
-              db.tags.toArray(),
-            ]);
-
-            sendResponse({
-              success: true,
-              data: { sessions, windows, tabs, visits, relationships, tags }
-            });
-            break;
-          }
-
-          case 'GET_DEBUG_STATS': {
-            const db = storageManager.getDB();
-            const initService = getInitializationService();
-            const initStatus = await initService.getStatus();
-            const stats = {
-              ...initStatus,
-              visitCount: await db.tabVisits.count(),
-              relationshipCount: await db.tabRelationships.count(),
-            };
-            sendResponse({ success: true, data: stats });
-            break;
-          }
-
-          case 'GET_RECENT_EVENTS': {
-            // Get recent events from storage if available
-            const events = (await chrome.storage.local.get('recentEvents')).recentEvents || [];
-            sendResponse({ success: true, data: events });
-            break;
-          }
-
-          case 'FORCE_RECONCILE': {
-            const initService = getInitializationService();
-            await initService.initialize();
-            const status = await initService.getStatus();
-            sendResponse({ success: true, data: status });
-            break;
-          }
-
-          case 'FORCE_INIT': {
-            const initService = getInitializationService();
-            await initService.initialize();
-            const status = await initService.getStatus();
-            sendResponse({ success: true, data: status });
-            break;
-          }
-
-          default:
-            sendResponse({ success: false, error: `Unknown message type: ${message.type}` });
-        }
-      } catch (error) {
-        console.error('[UNOS] Message handling error:', error);
-        sendResponse({ success: false, error: String(error) });
-      }
-    })();
+    console.log('[UNOS] Message received:', message?.type);
+
+    handleMessage(message).then(sendResponse);
 
     // Return true to indicate we'll send response asynchronously
     return true;
   });
 
+  // Paged data channel - export data is pulled page by page instead of in one message
+  const handleDataPort = createDataStreamHandler(getExportQueryService());
+
+  chrome.runtime.onConnect.addListener((port) => {
+    if (port.name === PORT_NAMES.DATA) {
+      handleDataPort(port);
+    }
+  });
+
   console.log('[UNOS] Background service worker initialized');
 });
@@ -0,0 +1,142 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AnalyticsService, rollUpVisits } from '../services/AnalyticsService';
+import { RetentionService } from '../services/RetentionService';
+import { SettingsService } from '../services/SettingsService';
+import { getDatabase, closeDatabase } from '../db/schema';
+import type { TabVisit } from '../db/types';
+import * as fixtures from './helpers/fixtures';
+
+const MINUTE = 60 * 1000;
+
+// Noon on 10-12 March 2024, local time
+const DAY_1 = new Date(2024, 2, 10, 12).getTime();
+const DAY_2 = new Date(2024, 2, 11, 12).getTime();
+const DAY_3 = new Date(2024, 2, 12, 12).getTime();
+const midnight = (timestamp: number) => new Date(new Date(timestamp).setHours(0, 0, 0, 0)).getTime();
+
+function createVisit(url: string, activatedAt: number, minutes: number | null, overrides: Partial<TabVisit> = {}): TabVisit {
+  return fixtures.createVisit({
+    url,
+    urlHash: `hash-${url}`,
+    title: url,
+    activatedAt,
+    deactivatedAt: minutes === null ? null : activatedAt + minutes * MINUTE,
+    duration: (minutes ?? 0) * MINUTE,
+    ...overrides,
+  });
+}
+
+describe('rollUpVisits', () => {
+  it('should add up reading time and visits per site per day', () => {
+    const rows = rollUpVisits([
+      createVisit('https://www.github.com/a', DAY_1, 10, { awayDuration: 4 * MINUTE }),
+      createVisit('https://github.com/b', DAY_1 + 60 * MINUTE, 5),
+      createVisit('https://github.com/c', DAY_2, 1),
+      createVisit('chrome://newtab', DAY_1, 30),
+    ]);
+
+    expect(rows).toEqual([
+      { domain: 'github.com', day: midnight(DAY_1), activeTime: 11 * MINUTE, visitCount: 2 },
+      { domain: 'github.com', day: midnight(DAY_2), activeTime: 1 * MINUTE, visitCount: 1 },
+    ]);
+  });
+});
+
+describe('AnalyticsService', () => {
+  let service: AnalyticsService;
+
+  const db = () => getDatabase();
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(DAY_3);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    service = new AnalyticsService();
+
+    await db().tabVisits.bulkAdd([
+      createVisit('https://github.com/a', DAY_1, 30),
+      createVisit('https://news.ycombinator.com/', DAY_1, 10),
+      createVisit('https://github.com/b', DAY_3, 20),
+      createVisit('https://docs.rs/dexie', DAY_3, 5),
+    ]);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    await getDatabase().delete();
+    await closeDatabase();
+  });
+
+  it('should roll up each visit once, waiting for open visits to close', async () => {
+    const openId = await db().tabVisits.add(createVisit('https://github.com/c', DAY_3, null));
+
+    expect(await service.refresh()).toBe(4);
+    expect(await service.refresh()).toBe(0);
+
+    await db().tabVisits.update(openId, { deactivatedAt: DAY_3 + 15 * MINUTE, duration: 15 * MINUTE });
+    await db().tabVisits.add(createVisit('https://github.com/d', DAY_3, 5));
+    expect(await service.refresh()).toBe(2);
+
+    expect(await db().domainStats.get(['github.com', midnight(DAY_3)])).toMatchObject({
+      activeTime: 40 * MINUTE,
+      visitCount: 3,
+    });
+    expect(await db().domains.get('github.com')).toMatchObject({
+      firstSeenDay: midnight(DAY_1),
+      lastSeenDay: midnight(DAY_3),
+      visitCount: 4,
+    });
+  });
+
+  it('should total a range per site and per day, telling new sites from returning ones', async () => {
+    const analytics = await service.getAnalytics({ from: DAY_2, to: DAY_3 });
+
+    expect(analytics).toMatchObject({
+      from: midnight(DAY_2),
+      to: midnight(DAY_3),
+      activeTime: 25 * MINUTE,
+      domainCount: 2,
+      newDomainCount: 1,
+    });
+    expect(analytics.domains.map((d) => [d.domain, d.activeTime, d.isNew])).toEqual([
+      ['github.com', 20 * MINUTE, false],
+      ['docs.rs', 5 * MINUTE, true],
+    ]);
+    expect(analytics.days.map((d) => [d.day, d.domainCount, d.newDomainCount])).toEqual([
+      [midnight(DAY_2), 0, 0],
+      [midnight(DAY_3), 2, 1],
+    ]);
+  });
+
+  it('should default to recent days, starting no earlier than the first visit', async () => {
+    const analytics = await service.getAnalytics({ limit: 1 });
+
+    expect(analytics.from).toBe(midnight(DAY_1));
+    expect(analytics.days).toHaveLength(3);
+    expect(analytics.domains.map((d) => d.domain)).toEqual(['github.com']);
+    expect(analytics.domainCount).toBe(3);
+    await expect(service.getAnalytics({ from: DAY_3, to: DAY_1 })).rejects.toThrow('start before it ends');
+  });
+
+  it('should give one site its days and lifetime totals', async () => {
+    const history = await service.getDomainHistory(' WWW.GitHub.com ');
+
+    expect(history?.domain).toMatchObject({ domain: 'github.com', activeTime: 50 * MINUTE, visitCount: 2 });
+    expect(history?.days.map((d) => d.day)).toEqual([midnight(DAY_1), midnight(DAY_3)]);
+    expect(await service.getDomainHistory('example.com')).toBeNull();
+  });
+
+  it('should keep the totals of visits retention prunes, until rebuilt', async () => {
+    const settingsService = new SettingsService();
+    const retention = new RetentionService(undefined, service, settingsService);
+    await settingsService.updateSettings({ retention: { visitTtlDays: 1 } });
+
+    expect((await retention.run()).expiredVisits).toBe(2);
+    expect((await service.getDomainHistory('news.ycombinator.com'))?.domain.visitCount).toBe(1);
+
+    expect(await service.rebuild()).toBe(2);
+    expect(await service.getDomainHistory('news.ycombinator.com')).toBeNull();
+  });
+});
@@ -0,0 +1,182 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ArchiveService, buildSessionArchive } from '../services/ArchiveService';
+import { SearchService } from '../services/SearchService';
+import { ValidationError } from '../services/errors';
+import type { StorageManager } from '../services/StorageManager';
+import { getDatabase, closeDatabase } from '../db/schema';
+import type { TrackedTab, TrackedWindow, TabVisit, Session } from '../db/types';
+import * as fixtures from './helpers/fixtures';
+
+const T0 = fixtures.T0;
+const HOUR = 60 * 60 * 1000;
+
+function createSession(id: string): Session {
+  return fixtures.createSession({
+    id,
+    name: 'Rust research',
+    isNamedByUser: true,
+    endedAt: T0 + HOUR,
+    isActive: false,
+    tabCount: 2,
+    totalActiveTime: 30 * 60 * 1000,
+    expiresAt: T0,
+    tags: ['rust'],
+  });
+}
+
+function createWindow(persistentId: string, sessionId: string): TrackedWindow {
+  return fixtures.createWindow({
+    persistentId,
+    chromeWindowId: 7,
+    sessionId,
+    state: 'maximized',
+    totalFocusTime: HOUR,
+    tabCount: 2,
+  });
+}
+
+function createTab(persistentId: string, sessionId: string, overrides: Partial<TrackedTab> = {}): TrackedTab {
+  return fixtures.createTab({
+    persistentId,
+    chromeTabId: 12,
+    chromeWindowId: 7,
+    sessionId,
+    urlHash: `hash-${persistentId}`,
+    title: persistentId,
+    groupId: 3,
+    groupPersistentId: 'group-1',
+    visitCount: 1,
+    customMetadata: { source: 'test' },
+    ...overrides,
+  });
+}
+
+function createVisit(tab: TrackedTab): TabVisit {
+  return fixtures.createVisit({
+    tabPersistentId: tab.persistentId,
+    sessionId: tab.sessionId,
+    url: tab.url,
+    urlHash: tab.urlHash,
+    title: tab.title,
+    deactivatedAt: T0 + 60_000,
+    duration: 60_000,
+    windowPersistentId: tab.windowPersistentId,
+  });
+}
+
+describe('buildSessionArchive', () => {
+  it('should keep what tabs were and drop how they were tracked', () => {
+    const tab = createTab('tab-book', 'session-1', { tags: ['rust'], notes: 'chapter 4', totalActiveTime: 5000 });
+    const archive = buildSessionArchive(createSession('session-1'), [createWindow('win-1', 'session-1')], [tab], 9, T0);
+
+    expect(archive).toMatchObject({ id: 'session-1', name: 'Rust research', visitCount: 9, archivedAt: T0 });
+    expect(archive.tabs).toEqual([
+      {
+        persistentId: 'tab-book',
+        windowPersistentId: 'win-1',
+        url: 'https://example.com',
+        urlHash: 'hash-tab-book',
+        title: 'tab-book',
+        faviconUrl: null,
+        index: 0,
+        pinned: false,
+        isSaved: false,
+        tags: ['rust'],
+        notes: 'chapter 4',
+        createdAt: T0,
+        lastActivatedAt: T0,
+        totalActiveTime: 5000,
+        visitCount: 1,
+        closedAt: null,
+      },
+    ]);
+    expect(archive.windows[0]).not.toHaveProperty('chromeWindowId');
+  });
+});
+
+describe('ArchiveService', () => {
+  let service: ArchiveService;
+  let searchService: SearchService;
+
+  const db = () => getDatabase();
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    searchService = new SearchService({ flushWrites: () => Promise.resolve() } as unknown as StorageManager);
+    service = new ArchiveService(searchService);
+
+    const book = createTab('tab-book', 'session-1', {
+      title: 'The Rust Programming Language',
+      url: 'https://doc.rust-lang.org/book',
+      notes: 'ownership chapter',
+    });
+    const crates = createTab('tab-crates', 'session-1', { title: 'crates.io', url: 'https://crates.io', index: 1 });
+    await db().sessions.add(createSession('session-1'));
+    await db().windows.add(createWindow('win-1', 'session-1'));
+    await db().tabs.bulkAdd([book, crates]);
+    await db().tabVisits.bulkAdd([createVisit(book), createVisit(book), createVisit(crates)]);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await getDatabase().delete();
+    await closeDatabase();
+  });
+
+  it('should archive a stored session and count the visits it drops', async () => {
+    const archive = await service.archiveSession('session-1');
+
+    expect(archive).toMatchObject({ tabCount: 2, visitCount: 3, tags: ['rust'] });
+    expect(await db().archivedSessions.get('session-1')).toEqual(archive);
+    // The session itself is left to the caller
+    expect(await db().sessions.get('session-1')).toBeDefined();
+    expect(await service.archiveSession('missing')).toBeNull();
+  });
+
+  it('should find archived tabs only when every term matches', async () => {
+    await service.archiveSession('session-1');
+
+    const results = await searchService.searchArchives('rust owner');
+    expect(results).toMatchObject([
+      { sessionId: 'session-1', sessionName: 'Rust research', tab: { persistentId: 'tab-book' } },
+    ]);
+    expect(results[0]!.matchedFields.sort()).toEqual(['notes', 'title', 'url']);
+    expect(await searchService.searchArchives('crates')).toHaveLength(1);
+    expect(await searchService.searchArchives('rust python')).toEqual([]);
+  });
+
+  it('should restore an archive to a saved session, leaving records stored elsewhere', async () => {
+    await service.archiveSession('session-1');
+    await db().tabs.where('sessionId').equals('session-1').delete();
+    await db().windows.clear();
+    await db().sessions.delete('session-1');
+    // The crates tab stayed open into a later session
+    await db().tabs.add(createTab('tab-crates', 'session-2'));
+
+    const session = await service.restoreArchive('session-1');
+
+    expect(session).toMatchObject({ id: 'session-1', isSaved: true, isActive: false, expiresAt: null });
+    // Counted from the records restored: the crates tab is not among them
+    expect(await db().sessions.get('session-1')).toMatchObject({ windowCount: 1, tabCount: 1 });
+    expect(await db().archivedSessions.count()).toBe(0);
+    expect(await db().windows.where('sessionId').equals('session-1').toArray()).toMatchObject([
+      { persistentId: 'win-1', chromeWindowId: -1, tabCount: 1, closedAt: T0 + HOUR },
+    ]);
+    expect(await db().tabs.where('sessionId').equals('session-1').toArray()).toMatchObject([
+      { persistentId: 'tab-book', chromeTabId: -1, notes: 'ownership chapter', closedAt: T0 + HOUR },
+    ]);
+    expect((await db().tabs.where('persistentId').equals('tab-crates').first())?.sessionId).toBe('session-2');
+    expect((await searchService.search('ownership')).map((r) => r.tab.persistentId)).toEqual(['tab-book']);
+  });
+
+  it('should refuse to restore over a stored session', async () => {
+    await service.archiveSession('session-1');
+
+    await expect(service.restoreArchive('session-1')).rejects.toThrow(ValidationError);
+    await expect(service.restoreArchive('session-1')).rejects.toThrow('still exists');
+    expect(await service.restoreArchive('missing')).toBeNull();
+    expect(await service.deleteArchive('session-1')).toBe(true);
+    expect(await service.getArchives()).toEqual([]);
+  });
+});
@@ -0,0 +1,208 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { localStorage } from './setup';
+import {
+  AutoTagService,
+  compileUrlPattern,
+  matchesAutoTagRule,
+  evaluateAutoTagRules,
+  type AutoTagSubject,
+} from '../services/AutoTagService';
+import { TagService } from '../services/TagService';
+import { SearchService } from '../services/SearchService';
+import { TabTracker } from '../services/TabTracker';
+import type { StorageManager } from '../services/StorageManager';
+import { getDatabase, closeDatabase } from '../db/schema';
+import type { TrackedTab, TrackedWindow, AutoTagRule } from '../db/types';
+import * as fixtures from './helpers/fixtures';
+
+const T0 = fixtures.T0;
+
+function createTab(persistentId: string, overrides: Partial<TrackedTab> = {}): TrackedTab {
+  return fixtures.createTab({
+    persistentId,
+    urlHash: `hash-${persistentId}`,
+    title: persistentId,
+    visitCount: 1,
+    ...overrides,
+  });
+}
+
+function createRule(match: AutoTagRule['match'], tags: string[], overrides: Partial<AutoTagRule> = {}): AutoTagRule {
+  return { name: tags.join(', '), enabled: true, match, tags, stopAfter: false, ...overrides };
+}
+
+function createSubject(overrides: Partial<AutoTagSubject> = {}): AutoTagSubject {
+  return {
+    url: 'https://github.com/unos/unos/issues/12',
+    title: 'Auto-tagging rules · Issue #12',
+    windowPersistentId: 'win-1',
+    incognito: false,
+    openers: [],
+    ...overrides,
+  };
+}
+
+describe('auto-tagging rules', () => {
+  it('should match URLs by glob over the whole URL, or by regex', () => {
+    expect(compileUrlPattern('*://GitHub.com/*/issues/*').test('https://github.com/unos/unos/issues/12')).toBe(true);
+    expect(compileUrlPattern('https://github.com/*').test('https://gist.github.com/x')).toBe(false);
+    expect(compileUrlPattern('https://example.com/?').test('https://example.com/a')).toBe(true);
+    expect(compileUrlPattern('/issues\\/\\d+$/g').test('https://github.com/unos/unos/issues/12')).toBe(true);
+    expect(() => compileUrlPattern('/(unclosed/')).toThrow();
+  });
+
+  it('should need every condition of a rule to hold', () => {
+    const subject = createSubject({ openers: [{ url: 'https://news.ycombinator.com/item', tags: ['reading/news'] }] });
+
+    expect(matchesAutoTagRule({ domain: 'github.com', titleKeywords: ['pull request', 'issue'] }, subject)).toBe(true);
+    expect(matchesAutoTagRule({ domain: 'github.com', titleKeywords: ['pull request'] }, subject)).toBe(false);
+    // Whole words only
+    expect(matchesAutoTagRule({ titleKeywords: ['tag'] }, subject)).toBe(false);
+    expect(matchesAutoTagRule({ openerDomain: 'ycombinator.com', openerTag: 'reading' }, subject)).toBe(true);
+    expect(matchesAutoTagRule({ openerTag: 'news' }, subject)).toBe(false);
+    expect(matchesAutoTagRule({ windowPersistentId: 'win-2' }, subject)).toBe(false);
+    expect(matchesAutoTagRule({ incognito: false }, subject)).toBe(true);
+  });
+
+  it('should add the tags of every matching rule until one stops the rest', () => {
+    const rules = [
+      createRule({ domain: 'github.com' }, ['code']),
+      createRule({ domain: 'github.com' }, ['disabled'], { enabled: false }),
+      createRule({ titleKeywords: ['issue'] }, ['code', 'triage'], { stopAfter: true }),
+      createRule({ url: '*' }, ['everything']),
+    ];
+
+    expect(evaluateAutoTagRules(rules, createSubject())).toEqual({ tags: ['code', 'triage'], rules: [0, 2] });
+    expect(evaluateAutoTagRules(rules, createSubject({ title: 'Pulls' }))).toEqual({
+      tags: ['code', 'everything'],
+      rules: [0, 3],
+    });
+  });
+});
+
+describe('AutoTagService', () => {
+  let service: AutoTagService;
+  let tagService: TagService;
+  let searchService: SearchService;
+
+  const db = () => getDatabase();
+  const tabTags = async (persistentId: string) =>
+    (await db().tabs.where('persistentId').equals(persistentId).first())?.tags;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    searchService = new SearchService({ flushWrites: () => Promise.resolve() } as unknown as StorageManager);
+    vi.spyOn(searchService, 'scheduleReindex').mockImplementation(() => {});
+    tagService = new TagService(searchService);
+    service = new AutoTagService(tagService, searchService);
+
+    await db().tabs.bulkAdd([
+      createTab('hn', { url: 'https://news.ycombinator.com/', tags: ['reading'], createdAt: T0 }),
+      createTab('article', { url: 'https://blog.example.com/post', openerPersistentId: 'hn', createdAt: T0 + 1 }),
+      createTab('linked', { url: 'https://example.org/', openerPersistentId: 'article', createdAt: T0 + 2 }),
+      createTab('docs', { url: 'https://docs.rs/dexie', title: 'Dexie docs', sessionId: 'session-2', createdAt: T0 + 3 }),
+    ]);
+    await tagService.recountUsage();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await getDatabase().delete();
+    await closeDatabase();
+  });
+
+  it('should store rules with tags resolved and blank conditions dropped', async () => {
+    await tagService.createTag('javascript');
+    await tagService.addAlias('javascript', 'js');
+
+    const [rule] = await service.updateRules([
+      { name: ' ', enabled: true, match: { domain: 'https://www.GitHub.com/x', url: ' ' }, tags: ['JS', ' '] },
+    ] as AutoTagRule[]);
+
+    expect(rule).toEqual({
+      name: 'javascript',
+      enabled: true,
+      match: { domain: 'github.com' },
+      tags: ['javascript'],
+      stopAfter: false,
+    });
+    expect(localStorage.autoTagRules).toEqual([rule]);
+    expect(await new AutoTagService(tagService, searchService).getRules()).toEqual([rule]);
+  });
+
+  it('should reject rules that could not match or would tag everything', async () => {
+    await expect(service.updateRules([createRule({ url: '/(/' }, ['x'])])).rejects.toThrow(
+      'Rule 1 has an invalid URL pattern'
+    );
+    await expect(service.updateRules([createRule({ titleKeywords: ['the'] }, ['x'])])).rejects.toThrow(
+      'too short or common'
+    );
+    await expect(service.updateRules([createRule({ domain: 'a.com' }, ['x']), createRule({}, ['y'])])).rejects.toThrow(
+      'Rule 2 needs at least one condition'
+    );
+    await expect(service.updateRules([createRule({ domain: 'a.com' }, [])])).rejects.toThrow('at least one tag');
+    expect(localStorage.autoTagRules).toBeUndefined();
+  });
+
+  it('should tag a tab from where it was opened, up the opener chain', async () => {
+    await service.updateRules([createRule({ openerTag: 'reading' }, ['Reading/Follow-up'])]);
+    const linked = (await db().tabs.where('persistentId').equals('linked').first())!;
+
+    expect(await service.applyToTab(linked)).toEqual(['reading/follow-up']);
+    expect(await tabTags('linked')).toEqual(['reading/follow-up']);
+    expect((await tagService.getTag('reading/follow-up'))?.usageCount).toBe(1);
+    expect(searchService.scheduleReindex).toHaveBeenCalledWith('linked');
+    // Nothing new the second time
+    expect(await service.applyToTab({ ...linked, tags: ['reading/follow-up'] })).toEqual([]);
+  });
+
+  it('should preview tags for past tabs, then add them when asked', async () => {
+    await service.updateRules([
+      createRule({ openerDomain: 'ycombinator.com' }, ['from-hn']),
+      createRule({ openerTag: 'from-hn' }, ['hn-rabbit-hole']),
+    ]);
+
+    const preview = await service.run({ dryRun: true, sessionIds: ['session-1'] });
+
+    expect(preview).toMatchObject({ dryRun: true, scanned: 3, tagged: 2, ruleMatches: [2, 1] });
+    // Tags given to an opener in the same run count for the tabs opened from it
+    expect(preview.tabs.map((t) => [t.persistentId, t.tags])).toEqual([
+      ['linked', ['from-hn', 'hn-rabbit-hole']],
+      ['article', ['from-hn']],
+    ]);
+    expect(await tabTags('article')).toEqual([]);
+
+    const report = await service.run({ limit: 1 });
+
+    expect(report).toMatchObject({ dryRun: false, scanned: 4, tagged: 2 });
+    expect(report.tabs).toHaveLength(1);
+    expect(await tabTags('linked')).toEqual(['from-hn', 'hn-rabbit-hole']);
+    expect((await tagService.getTag('from-hn'))?.usageCount).toBe(2);
+  });
+
+  it('should preview rules that are not saved yet', async () => {
+    const report = await service.run({ dryRun: true, rules: [createRule({ titleKeywords: ['dexie'] }, ['Rust'])] });
+
+    expect(report.tabs.map((t) => [t.persistentId, t.tags])).toEqual([['docs', ['rust']]]);
+    expect(await service.getRules()).toEqual([]);
+  });
+
+  it('should let the tab tracker tag windows of a kind as tabs navigate', async () => {
+    await db().windows.add({ persistentId: 'win-1', incognito: true } as TrackedWindow);
+    await service.updateRules([createRule({ incognito: true, domain: 'example.com' }, ['private'])]);
+    const storageManager = {
+      getCurrentSessionId: () => 'session-1',
+      getPersistentTabId: () => 'hn',
+    } as unknown as StorageManager;
+    const tabTracker = new TabTracker(storageManager, undefined, service);
+
+    await tabTracker['_handleTabUpdated'](
+      1,
+      { url: 'https://www.example.com/' },
+      { url: 'https://www.example.com/' } as chrome.tabs.Tab
+    );
+
+    expect(await tabTags('hn')).toEqual(['reading', 'private']);
+  });
+});
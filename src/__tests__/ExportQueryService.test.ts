@@ -0,0 +1,249 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ExportQueryService, type ExportQuery, type ExportPage } from '../services/ExportQueryService';
+import type { StorageManager } from '../services/StorageManager';
+import { getDatabase, closeDatabase } from '../db/schema';
+import { T0, createSession, createWindow, createTab, createTabGroup, createVisit } from './helpers/fixtures';
+import type { TabVisit, TabRelationship } from '../db/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Mock data factories
+function createRelationship(overrides: Partial<TabRelationship> = {}): TabRelationship {
+  return {
+    sourceTabPersistentId: 'tab-1',
+    targetTabPersistentId: 'tab-2',
+    relationshipType: 'sibling',
+    createdAt: T0,
+    strength: 0.8,
+    metadata: {},
+    ...overrides,
+  };
+}
+
+function createQuery(overrides: Partial<ExportQuery> = {}): ExportQuery {
+  return {
+    scope: 'session',
+    filters: {},
+    includeRelationships: true,
+    ...overrides,
+  };
+}
+
+describe('ExportQueryService', () => {
+  let service: ExportQueryService;
+
+  beforeEach(async () => {
+    const storageManager = {
+      getCurrentSessionId: () => 'session-1',
+      getActiveWindowPersistentId: () => 'win-1',
+    } as unknown as StorageManager;
+    service = new ExportQueryService(storageManager);
+
+    const db = getDatabase();
+    await db.sessions.bulkAdd([
+      createSession(),
+      createSession({ id: 'session-2', isActive: false, startedAt: T0 - 10 * DAY, endedAt: T0 - 9 * DAY }),
+    ]);
+    await db.windows.bulkAdd([
+      createWindow(),
+      createWindow({ persistentId: 'win-incognito', chromeWindowId: 2, incognito: true }),
+      createWindow({ persistentId: 'win-old', sessionId: 'session-2', createdAt: T0 - 10 * DAY }),
+    ]);
+    await db.tabs.bulkAdd([
+      createTab({ tags: ['research'] }),
+      createTab({ persistentId: 'tab-2', index: 1, createdAt: T0 + 2 * DAY, tags: ['work'] }),
+      createTab({ persistentId: 'tab-private', windowPersistentId: 'win-incognito', chromeWindowId: 2 }),
+      createTab({ persistentId: 'tab-old', windowPersistentId: 'win-old', sessionId: 'session-2', createdAt: T0 - 10 * DAY, closedAt: T0 - 9 * DAY }),
+    ]);
+    await db.tabVisits.bulkAdd([
+      createVisit(),
+      createVisit({ activatedAt: T0 + 3 * DAY }),
+      createVisit({ tabPersistentId: 'tab-private', windowPersistentId: 'win-incognito' }),
+      createVisit({ tabPersistentId: 'tab-old', sessionId: 'session-2', activatedAt: T0 - 10 * DAY }),
+    ]);
+    await db.tabRelationships.bulkAdd([
+      createRelationship(),
+      createRelationship({ targetTabPersistentId: 'tab-private' }),
+    ]);
+    await db.tags.bulkAdd([
+      { name: 'research', color: '#6366f1', createdAt: T0, usageCount: 1, parent: null, aliases: [] },
+      { name: 'work', color: '#10b981', createdAt: T0, usageCount: 1, parent: null, aliases: [] },
+      { name: 'unused', color: '#f59e0b', createdAt: T0, usageCount: 0, parent: null, aliases: [] },
+    ]);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await getDatabase().delete();
+    await closeDatabase();
+  });
+
+  it('should scope to the current session by default', async () => {
+    const result = await service.query(createQuery());
+
+    expect(result.filters.sessionIds).toEqual(['session-1']);
+    expect(result.sessions.map(s => s.id)).toEqual(['session-1']);
+    expect(result.tabs.map(t => t.persistentId)).not.toContain('tab-old');
+  });
+
+  it('should leave out incognito windows and their tabs, visits and relationships', async () => {
+    const result = await service.query(createQuery({ filters: { includeIncognito: false } }));
+
+    expect(result.windows.map(w => w.persistentId)).toEqual(['win-1']);
+    expect(result.tabs.map(t => t.persistentId).sort()).toEqual(['tab-1', 'tab-2']);
+    expect(result.visits.every(v => v.tabPersistentId !== 'tab-private')).toBe(true);
+    expect(result.relationships).toHaveLength(1);
+  });
+
+  it('should include incognito windows when asked', async () => {
+    const result = await service.query(createQuery({ filters: { includeIncognito: true } }));
+
+    expect(result.windows).toHaveLength(2);
+    expect(result.relationships).toHaveLength(2);
+  });
+
+  it('should restrict tabs and visits to the date range', async () => {
+    const result = await service.query(createQuery({
+      scope: 'custom',
+      filters: { dateRange: { start: T0 + DAY, end: T0 + 4 * DAY } },
+    }));
+
+    // tab-1 is still open, so it overlaps the range; tab-old closed long before
+    expect(result.sessions.map(s => s.id)).toEqual(['session-1']);
+    expect(result.tabs.map(t => t.persistentId)).toContain('tab-2');
+    expect(result.visits).toHaveLength(1);
+    expect(result.visits[0]?.activatedAt).toBe(T0 + 3 * DAY);
+  });
+
+  it('should filter tabs by tag and keep only matching tag definitions', async () => {
+    const result = await service.query(createQuery({
+      scope: 'custom',
+      filters: { tags: ['work'] },
+    }));
+
+    expect(result.tabs.map(t => t.persistentId)).toEqual(['tab-2']);
+    expect(result.windows.map(w => w.persistentId)).toEqual(['win-1']);
+    expect(result.tags.map(t => t.name)).toEqual(['work']);
+    expect(result.relationships).toHaveLength(0);
+  });
+
+  it('should filter tabs by a query-language string', async () => {
+    const result = await service.query(createQuery({
+      scope: 'all-windows',
+      filters: { query: 'is:closed OR tag:research' },
+    }));
+
+    expect(result.tabs.map(t => t.persistentId).sort()).toEqual(['tab-1', 'tab-old']);
+    expect(result.windows.map(w => w.persistentId).sort()).toEqual(['win-1', 'win-old']);
+    expect(result.tags.map(t => t.name)).toEqual(['research']);
+  });
+
+  it('should resolve the current window scope', async () => {
+    const result = await service.query(createQuery({ scope: 'current-window' }));
+
+    expect(result.filters.windowIds).toEqual(['win-1']);
+    expect(result.tabs.every(t => t.windowPersistentId === 'win-1')).toBe(true);
+  });
+
+  it('should export every session and tag definition for an all-sessions export', async () => {
+    const result = await service.query(createQuery({ scope: 'all-windows' }));
+
+    expect(result.sessions).toHaveLength(2);
+    expect(result.tabs).toHaveLength(4);
+    expect(result.visits).toHaveLength(4);
+    expect(result.tags).toHaveLength(3);
+  });
+
+  it('should export archives unless narrowed to tabs, windows or a query', async () => {
+    const session = createSession({ id: 'archived' });
+    await getDatabase().archivedSessions.add({ ...session, visitCount: 0, windows: [], tabs: [], archivedAt: T0 });
+
+    expect((await service.query(createQuery({ scope: 'all-windows' }))).archives.map(a => a.id)).toEqual(['archived']);
+    expect((await service.query(createQuery())).archives).toEqual([]);
+    expect((await service.query(createQuery({ scope: 'custom', filters: { tags: ['work'] } }))).archives).toEqual([]);
+  });
+
+  it('should send the groups holding exported tabs with the plan', async () => {
+    const db = getDatabase();
+    await db.tabGroups.bulkAdd([
+      createTabGroup(),
+      createTabGroup({ persistentId: 'group-private', chromeGroupId: 2, windowPersistentId: 'win-incognito' }),
+      createTabGroup({ persistentId: 'group-empty', chromeGroupId: 3 }),
+    ]);
+    await db.tabs.where('persistentId').equals('tab-1').modify({ groupId: 1, groupPersistentId: 'group-1' });
+    await db.tabs.where('persistentId').equals('tab-private').modify({ groupId: 2, groupPersistentId: 'group-private' });
+
+    const plan = await service.prepare(createQuery({ filters: { includeIncognito: false } }));
+
+    expect(plan.tabGroups.map(g => g.persistentId)).toEqual(['group-1']);
+  });
+
+  it('should skip visit history and relationships when excluded', async () => {
+    const result = await service.query(createQuery({
+      filters: { includeVisitHistory: false },
+      includeRelationships: false,
+    }));
+
+    expect(result.visits).toEqual([]);
+    expect(result.navigations).toEqual([]);
+    expect(result.relationships).toEqual([]);
+  });
+
+  it('should page a table from a cursor until it runs out', async () => {
+    const plan = await service.prepare(createQuery({ scope: 'all-windows' }));
+
+    const first = await service.page(plan, 'tabs', 0, 3);
+    const second = await service.page(plan, 'tabs', first.cursor ?? -1, 3);
+
+    expect(first.rows).toHaveLength(3);
+    expect(first.cursor).toBe(first.rows.at(-1)?.id);
+    expect(second.rows).toHaveLength(1);
+    expect(second.cursor).toBeNull();
+    expect([...first.rows, ...second.rows].map(t => t.persistentId).sort()).toEqual([
+      'tab-1', 'tab-2', 'tab-old', 'tab-private',
+    ]);
+  });
+
+  it('should page a narrowed export\'s history tab by tab through the per-tab indexes', async () => {
+    const db = getDatabase();
+    await db.tabVisits.bulkAdd([
+      createVisit({ tabPersistentId: 'tab-2', activatedAt: T0 + 3 * DAY }),
+      createVisit({ tabPersistentId: 'tab-2', activatedAt: T0 + 3 * DAY }),
+      createVisit({ activatedAt: T0 + DAY }),
+    ]);
+    const where = vi.spyOn(db.tabVisits, 'where');
+    const plan = await service.prepare(createQuery());
+    expect(plan.scanAll).toBe(false);
+
+    const visits: TabVisit[] = [];
+    for (let cursor: number | null = 0; cursor !== null; ) {
+      const page: ExportPage<'visits'> = await service.page(plan, 'visits', cursor, 2);
+      visits.push(...page.rows);
+      cursor = page.cursor;
+    }
+
+    expect(visits.map(v => [v.tabPersistentId, v.activatedAt])).toEqual([
+      ['tab-1', T0],
+      ['tab-1', T0 + DAY],
+      ['tab-1', T0 + 3 * DAY],
+      ['tab-2', T0 + 3 * DAY],
+      ['tab-2', T0 + 3 * DAY],
+      ['tab-private', T0],
+    ]);
+    expect(new Set(visits.map(v => v.id)).size).toBe(6);
+    expect(where.mock.calls.map(([index]) => index)).not.toContain('id');
+    expect((await service.prepare(createQuery({ scope: 'all-windows' }))).scanAll).toBe(true);
+  });
+
+  it('should estimate rows per table without loading them', async () => {
+    const plan = await service.prepare(createQuery({ filters: { includeIncognito: false } }));
+
+    expect(await service.estimate(plan)).toEqual({
+      tabs: 2,
+      visits: 3,
+      navigations: 0,
+      relationships: 2,
+    });
+  });
+});
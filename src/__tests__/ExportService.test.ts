@@ -1,7 +1,16 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { ExportService, getExportService } from '../services/ExportService';
-import { mockSendMessage } from './setup';
-import type { TrackedTab, TrackedWindow, Session, TabVisit, TabRelationship, Tag } from '../db/types';
+import { mockDataStream } from './helpers/portHarness';
+import type {
+  TrackedTab,
+  TrackedWindow,
+  TrackedTabGroup,
+  Session,
+  TabVisit,
+  TabNavigation,
+  TabRelationship,
+  Tag,
+} from '../db/types';
 
 // Mock data factories
 function createMockTab(overrides: Partial<TrackedTab> = {}): TrackedTab {
@@ -20,6 +29,7 @@ function createMockTab(overrides: Partial<TrackedTab> = {}): TrackedTab {
     pinned: false,
     isPinned: false,
     groupId: -1,
+    groupPersistentId: null,
     openerPersistentId: null,
     createdAt: Date.now(),
     lastActivatedAt: Date.now(),
@@ -59,11 +69,30 @@ function createMockWindow(overrides: Partial<TrackedWindow> = {}): TrackedWindow
   };
 }
 
+function createMockTabGroup(overrides: Partial<TrackedTabGroup> = {}): TrackedTabGroup {
+  return {
+    id: 1,
+    persistentId: 'group-1',
+    chromeGroupId: 7,
+    chromeWindowId: 1,
+    windowPersistentId: 'win-1',
+    sessionId: 'session-1',
+    title: 'Research',
+    color: 'blue',
+    collapsed: false,
+    createdAt: Date.now(),
+    closedAt: null,
+    updatedAt: Date.now(),
+    ...overrides,
+  };
+}
+
 function createMockSession(overrides: Partial<Session> = {}): Session {
   return {
     id: 'session-1',
     name: 'Test Session',
     description: 'A test session',
+    isNamedByUser: false,
     startedAt: Date.now() - 3600000,
     endedAt: null,
     isActive: true,
@@ -91,12 +120,30 @@ function createMockVisit(overrides: Partial<TabVisit> = {}): TabVisit {
     activatedAt: Date.now() - 60000,
     deactivatedAt: Date.now(),
     duration: 60000,
+    awayDuration: 0,
     windowPersistentId: 'win-1',
     fromTabPersistentId: null,
     ...overrides,
   };
 }
 
+function createMockNavigation(overrides: Partial<TabNavigation> = {}): TabNavigation {
+  return {
+    id: 1,
+    tabPersistentId: 'tab-1',
+    sessionId: 'session-1',
+    url: 'https://example.com',
+    urlHash: 'hash123',
+    title: 'Example Page',
+    navigatedAt: Date.now() - 90000,
+    leftAt: Date.now(),
+    dwellTime: 90000,
+    previousNavigationId: null,
+    windowPersistentId: 'win-1',
+    ...overrides,
+  };
+}
+
 function createMockRelationship(overrides: Partial<TabRelationship> = {}): TabRelationship {
   return {
     id: 1,
@@ -114,6 +161,8 @@ function createMockTag(overrides: Partial<Tag> = {}): Tag {
   return {
     id: 1,
     name: 'work',
+    parent: null,
+    aliases: [],
     color: '#6366f1',
     createdAt: Date.now(),
     usageCount: 5,
@@ -273,6 +322,28 @@ describe('ExportService', () => {
       expect(csv).toContain('tabPersistentId');
       expect(csv).toContain('activatedAt');
       expect(csv).toContain('durationMinutes');
+      expect(csv).toContain('awayMinutes');
+    });
+  });
+
+  describe('navigationsToCSV', () => {
+    it('should generate navigation CSV', () => {
+      const navigations = [createMockNavigation()];
+      const toCSV = (exportService as unknown as { navigationsToCSV: (n: TabNavigation[]) => string }).navigationsToCSV.bind(exportService);
+      const csv = toCSV(navigations);
+
+      expect(csv).toContain('navigatedAt');
+      expect(csv).toContain('previousNavigationId');
+      expect(csv).toContain('dwellTimeSeconds');
+    });
+
+    it('should report dwell time in seconds and link previous navigations', () => {
+      const navigations = [createMockNavigation({ id: 2, dwellTime: 90000, previousNavigationId: 1 })];
+      const toCSV = (exportService as unknown as { navigationsToCSV: (n: TabNavigation[]) => string }).navigationsToCSV.bind(exportService);
+      const csv = toCSV(navigations);
+      const lines = csv.split('\n');
+
+      expect(lines[1]).toContain(',90,1,');
     });
   });
 
@@ -289,6 +360,17 @@ describe('ExportService', () => {
     });
   });
 
+  describe('tabGroupsToCSV', () => {
+    it('should generate tab group CSV', () => {
+      const groups = [createMockTabGroup({ title: 'Reading, later', collapsed: true })];
+      const toCSV = (exportService as unknown as { tabGroupsToCSV: (g: TrackedTabGroup[]) => string }).tabGroupsToCSV.bind(exportService);
+      const lines = toCSV(groups).split('\n');
+
+      expect(lines[0]).toBe('persistentId,chromeGroupId,title,color,collapsed,windowPersistentId,chromeWindowId,sessionId,createdAt,closedAt,updatedAt');
+      expect(lines[1]).toContain('group-1,7,"Reading, later",blue,true,win-1,1,session-1');
+    });
+  });
+
   describe('tagsToCSV', () => {
     it('should generate tag CSV', () => {
       const tags = [createMockTag()];
@@ -303,22 +385,18 @@ describe('ExportService', () => {
   });
 
   describe('export', () => {
+    let requests: ReturnType<typeof mockDataStream>;
+
     beforeEach(() => {
-      // Mock the sendMessage to return test data
-      mockSendMessage.mockImplementation((message, callback) => {
-        if (message.type === 'GET_ALL_DATA') {
-          callback({
-            success: true,
-            data: {
-              sessions: [createMockSession()],
-              windows: [createMockWindow()],
-              tabs: [createMockTab()],
-              visits: [createMockVisit()],
-              relationships: [createMockRelationship()],
-              tags: [createMockTag()],
-            },
-          });
-        }
+      // Serve test data over a fake data port
+      requests = mockDataStream({
+        sessions: [createMockSession()],
+        windows: [createMockWindow()],
+        tabs: [createMockTab()],
+        visits: [createMockVisit()],
+        navigations: [createMockNavigation()],
+        relationships: [createMockRelationship()],
+        tags: [createMockTag()],
       });
     });
 
@@ -332,6 +410,94 @@ describe('ExportService', () => {
       expect(parsed.tabs).toBeDefined();
     });
 
+    it('should include navigations in JSON only with visit history', async () => {
+      const withHistory = JSON.parse(await exportService.export({ format: 'json', scope: 'session', includeVisitHistory: true }) as string);
+      expect(withHistory.navigations).toHaveLength(1);
+
+      const withoutHistory = JSON.parse(await exportService.export({ format: 'json', scope: 'session', includeVisitHistory: false }) as string);
+      expect(withoutHistory.navigations).toBeUndefined();
+    });
+
+    it('should send scope and filters to the background query', async () => {
+      await exportService.export({
+        format: 'json',
+        scope: 'custom',
+        includeVisitHistory: false,
+        includeRelationships: true,
+        filters: { includeIncognito: false, tags: ['research'] },
+      });
+
+      expect(requests[0]).toEqual({
+        type: 'START',
+        query: {
+          scope: 'custom',
+          includeRelationships: true,
+          filters: { includeIncognito: false, includeVisitHistory: false, tags: ['research'] },
+        },
+      });
+    });
+
+    it('should collect every page and report progress', async () => {
+      const tabs = ['tab-1', 'tab-2', 'tab-3', 'tab-4', 'tab-5'].map((id) => createMockTab({ persistentId: id }));
+      requests = mockDataStream({ sessions: [createMockSession()], windows: [createMockWindow()], tabs, tags: [] });
+      const onProgress = vi.fn();
+
+      const result = await exportService.export({ format: 'json', scope: 'session', onProgress });
+
+      expect(JSON.parse(result as string).tabs).toHaveLength(5);
+      expect(requests.filter((r) => r.type === 'NEXT').map((r) => r.type === 'NEXT' && r.cursor)).toEqual([0, 2, 4]);
+      expect(onProgress.mock.calls.map(([p]) => p)).toEqual([
+        { loaded: 0, total: 5 },
+        { loaded: 2, total: 5 },
+        { loaded: 4, total: 5 },
+        { loaded: 5, total: 5 },
+        { loaded: 5, total: 5 },
+      ]);
+    });
+
+    it('should describe the applied filters and exported counts in the manifest', async () => {
+      const appliedFilters = {
+        sessionIds: ['session-1'],
+        dateRange: { start: 0, end: 1000 },
+        includeIncognito: false,
+        includeVisitHistory: true,
+      };
+      mockDataStream({
+        filters: appliedFilters,
+        sessions: [createMockSession()],
+        windows: [createMockWindow()],
+        tabs: [createMockTab(), createMockTab({ persistentId: 'tab-2' })],
+        visits: [createMockVisit()],
+        navigations: [],
+        relationships: [],
+        tags: [],
+      });
+
+      const result = await exportService.export({ format: 'json', scope: 'custom', includeVisitHistory: true });
+      const { manifest } = JSON.parse(result as string);
+
+      expect(manifest.exportType).toBe('filtered');
+      expect(manifest.filters).toEqual(appliedFilters);
+      expect(manifest.stats).toEqual({ sessionCount: 1, windowCount: 1, tabCount: 2, visitCount: 1 });
+    });
+
+    it('should include tab groups in JSON only when there are any', async () => {
+      const withoutGroups = JSON.parse(await exportService.export({ format: 'json', scope: 'session' }) as string);
+      expect(withoutGroups.tabGroups).toBeUndefined();
+
+      const group = createMockTabGroup();
+      mockDataStream({
+        sessions: [createMockSession()],
+        windows: [createMockWindow()],
+        tabGroups: [group],
+        tabs: [createMockTab({ groupId: 7, groupPersistentId: 'group-1' })],
+        tags: [],
+      });
+      const withGroups = JSON.parse(await exportService.export({ format: 'json', scope: 'session' }) as string);
+      expect(withGroups.tabGroups).toEqual([group]);
+      expect(withGroups.tabs[0].groupPersistentId).toBe('group-1');
+    });
+
     it('should export as CSV', async () => {
       const result = await exportService.export({ format: 'csv', scope: 'session' });
       expect(typeof result).toBe('string');
@@ -0,0 +1,161 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mockIdle } from './setup';
+import { IdleTracker } from '../services/IdleTracker';
+import { TabTracker } from '../services/TabTracker';
+import type { StorageManager } from '../services/StorageManager';
+import type { SessionPolicyService } from '../services/SessionPolicyService';
+import { getDatabase, closeDatabase } from '../db/schema';
+import { T0, createSession, createTab, createVisit } from './helpers/fixtures';
+import type { IdleState } from '../db/types';
+
+const MINUTE = 60 * 1000;
+
+// Working state held in memory - tab-1 has been active since T0
+function createStorageManager() {
+  const state = {
+    activeTab: 'tab-1' as string | null,
+    activatedAt: T0,
+    idleState: 'active' as IdleState,
+    blurredAt: 0,
+  };
+  const storageManager = {
+    ensureInitialized: async () => {},
+    getCurrentSessionId: () => 'session-1',
+    getActiveTabPersistentId: () => state.activeTab,
+    getTabActivationTimestamp: () => state.activatedAt,
+    setActiveTab: async (persistentId: string | null, timestamp: number) => {
+      state.activeTab = persistentId;
+      state.activatedAt = timestamp;
+    },
+    getIdleState: () => state.idleState,
+    setIdleState: async (idleState: IdleState) => {
+      state.idleState = idleState;
+    },
+    getBrowserBlurTimestamp: () => state.blurredAt,
+  } as unknown as StorageManager;
+  return { state, storageManager };
+}
+
+describe('IdleTracker', () => {
+  let state: ReturnType<typeof createStorageManager>['state'];
+  let idleTracker: IdleTracker;
+  const checkBoundary = vi.fn(async () => null);
+
+  beforeEach(async () => {
+    const created = createStorageManager();
+    state = created.state;
+    checkBoundary.mockClear();
+    const sessionPolicyService = { checkBoundary } as unknown as SessionPolicyService;
+    idleTracker = new IdleTracker(created.storageManager, new TabTracker(created.storageManager), sessionPolicyService);
+
+    const db = getDatabase();
+    await db.sessions.add(createSession());
+    await db.tabs.add(createTab());
+    await db.tabVisits.add(createVisit());
+  });
+
+  afterEach(async () => {
+    await getDatabase().delete();
+    await closeDatabase();
+  });
+
+  it('should stop the clock when the user went idle, back-dated by the detection interval', async () => {
+    await idleTracker.handleStateChanged('idle', T0 + 10 * MINUTE);
+
+    const db = getDatabase();
+    expect((await db.tabs.toCollection().first())?.totalActiveTime).toBe(9 * MINUTE);
+    expect((await db.sessions.get('session-1'))?.totalActiveTime).toBe(9 * MINUTE);
+    expect(await db.tabVisits.toArray()).toMatchObject([{ deactivatedAt: T0 + 9 * MINUTE, duration: 9 * MINUTE }]);
+    expect(await db.idlePeriods.toArray()).toMatchObject([
+      { state: 'idle', startedAt: T0 + 9 * MINUTE, endedAt: null, tabPersistentId: 'tab-1' },
+    ]);
+    expect(state).toMatchObject({ activeTab: 'tab-1', activatedAt: 0, idleState: 'idle' });
+  });
+
+  it('should split the visit and leave time away out of the totals', async () => {
+    const back = T0 + 8 * 60 * MINUTE;
+    await idleTracker.handleStateChanged('idle', T0 + 10 * MINUTE);
+    await idleTracker.handleStateChanged('active', back);
+    await idleTracker.handleStateChanged('locked', back + 5 * MINUTE);
+
+    const db = getDatabase();
+    const visits = await db.tabVisits.orderBy('id').toArray();
+    expect(visits).toMatchObject([
+      { activatedAt: T0, duration: 9 * MINUTE },
+      { activatedAt: back, duration: 5 * MINUTE, fromTabPersistentId: 'tab-1' },
+    ]);
+    expect((await db.tabs.toCollection().first())?.totalActiveTime).toBe(14 * MINUTE);
+
+    const periods = await db.idlePeriods.orderBy('startedAt').toArray();
+    expect(periods).toMatchObject([
+      { state: 'idle', endedAt: back, duration: back - (T0 + 9 * MINUTE) },
+      { state: 'locked', startedAt: back + 5 * MINUTE, endedAt: null },
+    ]);
+  });
+
+  it('should check the session boundary from when the user left before resuming', async () => {
+    const back = T0 + 90 * MINUTE;
+    await idleTracker.handleStateChanged('idle', T0 + 10 * MINUTE);
+    await idleTracker.handleStateChanged('locked', T0 + 20 * MINUTE);
+    await idleTracker.handleStateChanged('active', back);
+
+    expect(checkBoundary).toHaveBeenCalledTimes(1);
+    expect(checkBoundary).toHaveBeenCalledWith(back, T0 + 9 * MINUTE);
+  });
+
+  it('should keep one period when an idle user locks the screen', async () => {
+    await idleTracker.handleStateChanged('idle', T0 + 10 * MINUTE);
+    await idleTracker.handleStateChanged('locked', T0 + 20 * MINUTE);
+
+    const periods = await getDatabase().idlePeriods.toArray();
+    expect(periods).toHaveLength(1);
+    expect(periods[0]).toMatchObject({ state: 'locked', startedAt: T0 + 9 * MINUTE });
+  });
+
+  it('should not open a second visit when a tab switch already restarted the clock', async () => {
+    await idleTracker.handleStateChanged('locked', T0 + 10 * MINUTE);
+    // TabTracker.handleTabActivated opened a visit and restarted the clock
+    await getDatabase().tabVisits.add({ ...createVisit(), activatedAt: T0 + 30 * MINUTE });
+    state.activatedAt = T0 + 30 * MINUTE;
+
+    await idleTracker.handleStateChanged('active', T0 + 31 * MINUTE);
+
+    expect(await getDatabase().tabVisits.count()).toBe(2);
+    expect(state.activatedAt).toBe(T0 + 30 * MINUTE);
+  });
+
+  it('should close periods left open by an earlier run and apply the current state', async () => {
+    const db = getDatabase();
+    await db.idlePeriods.add({
+      sessionId: 'session-0',
+      state: 'locked',
+      startedAt: T0 - 60 * MINUTE,
+      endedAt: null,
+      duration: 0,
+      tabPersistentId: null,
+    });
+    mockIdle.queryState.mockResolvedValueOnce('locked');
+
+    await idleTracker.syncState(T0 + MINUTE);
+
+    const periods = await db.idlePeriods.orderBy('startedAt').toArray();
+    expect(periods).toMatchObject([
+      { sessionId: 'session-0', endedAt: T0 + MINUTE, duration: 61 * MINUTE },
+      { sessionId: 'session-1', state: 'locked', startedAt: T0 + MINUTE, endedAt: null },
+    ]);
+    expect(state.idleState).toBe('locked');
+  });
+
+  it('should list a session\'s idle periods, most recent first', async () => {
+    await getDatabase().idlePeriods.bulkAdd([
+      { sessionId: 'session-1', state: 'idle', startedAt: T0 + 1, endedAt: T0 + 2, duration: 1, tabPersistentId: null },
+      { sessionId: 'session-1', state: 'locked', startedAt: T0 + 3, endedAt: T0 + 4, duration: 1, tabPersistentId: null },
+      { sessionId: 'session-2', state: 'idle', startedAt: T0 + 5, endedAt: T0 + 6, duration: 1, tabPersistentId: null },
+    ]);
+
+    const periods = await idleTracker.getIdlePeriods('session-1');
+
+    expect(periods.map((p) => p.startedAt)).toEqual([T0 + 3, T0 + 1]);
+  });
+});
@@ -0,0 +1,330 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import JSZip from 'jszip';
+import { ImportService } from '../services/ImportService';
+import { ExportService } from '../services/ExportService';
+import { getDatabase, closeDatabase } from '../db/schema';
+import { mockDataStream } from './helpers/portHarness';
+import { createSession, createWindow, createTab, createTabGroup, createVisit } from './helpers/fixtures';
+import type { TrackedTab, TabNavigation, Tag, ExportData } from '../db/types';
+
+const EXPORTED_AT = 1_700_100_000_000;
+
+// Mock data factories
+function createNavigation(overrides: Partial<TabNavigation> = {}): TabNavigation {
+  return {
+    id: 1,
+    tabPersistentId: 'tab-1',
+    sessionId: 'session-1',
+    url: 'https://example.com/article',
+    urlHash: 'hash-1',
+    title: 'Example Article',
+    navigatedAt: 1_700_000_000_000,
+    leftAt: null,
+    dwellTime: 0,
+    previousNavigationId: null,
+    windowPersistentId: 'win-1',
+    ...overrides,
+  };
+}
+
+function createTag(overrides: Partial<Tag> = {}): Tag {
+  return {
+    id: 1,
+    name: 'research',
+    parent: null,
+    aliases: [],
+    color: '#6366f1',
+    createdAt: 1_700_000_000_000,
+    usageCount: 1,
+    ...overrides,
+  };
+}
+
+function createExport(overrides: Partial<ExportData> = {}): ExportData {
+  return {
+    manifest: {
+      version: '1.0.0',
+      exportedAt: EXPORTED_AT,
+      exportType: 'full',
+      filters: { includeIncognito: true, includeVisitHistory: true },
+      stats: { sessionCount: 1, windowCount: 1, tabCount: 1, visitCount: 1 },
+    },
+    sessions: [createSession()],
+    windows: [createWindow()],
+    tabs: [createTab()],
+    visits: [createVisit()],
+    navigations: [createNavigation()],
+    relationships: [],
+    tags: [createTag()],
+    ...overrides,
+  };
+}
+
+describe('ImportService', () => {
+  let importService: ImportService;
+
+  beforeEach(() => {
+    importService = new ImportService();
+  });
+
+  afterEach(async () => {
+    await getDatabase().delete();
+    await closeDatabase();
+  });
+
+  describe('parseJSON', () => {
+    it('should accept a 1.x export', () => {
+      const data = importService.parseJSON(JSON.stringify(createExport()));
+      expect(data.tabs).toHaveLength(1);
+      expect(data.manifest.version).toBe('1.0.0');
+    });
+
+    it('should reject an unsupported major version', () => {
+      const data = createExport();
+      data.manifest.version = '2.0.0';
+      expect(() => importService.parseJSON(JSON.stringify(data))).toThrow('Unsupported export version');
+    });
+
+    it('should reject invalid JSON', () => {
+      expect(() => importService.parseJSON('not json')).toThrow('not valid JSON');
+    });
+  });
+
+  describe('importData', () => {
+    it('should add every record to an empty database', async () => {
+      const report = await importService.importData(createExport({ tabs: [createTab({ notes: 'Read later' })] }));
+
+      expect(report.sessions.added).toBe(1);
+      expect(report.windows.added).toBe(1);
+      expect(report.tabs.added).toBe(1);
+      expect(report.visits.added).toBe(1);
+      expect(report.navigations.added).toBe(1);
+      expect(report.tags.added).toBe(1);
+      expect(report.remappedIds).toBe(0);
+
+      const db = getDatabase();
+      const session = await db.sessions.get('session-1');
+      expect(session?.isActive).toBe(false);
+      const tab = await db.tabs.where('persistentId').equals('tab-1').first();
+      expect(tab?.notes).toBe('Read later');
+      expect(tab?.closedAt).toBe(EXPORTED_AT);
+    });
+
+    it('should skip everything when the same export is imported twice', async () => {
+      await importService.importData(createExport());
+      const report = await importService.importData(createExport());
+
+      expect(report.sessions).toEqual({ added: 0, skipped: 1, conflicted: 0 });
+      expect(report.tabs).toEqual({ added: 0, skipped: 1, conflicted: 0 });
+      expect(report.visits).toEqual({ added: 0, skipped: 1, conflicted: 0 });
+      expect(report.navigations).toEqual({ added: 0, skipped: 1, conflicted: 0 });
+      expect(report.tags).toEqual({ added: 0, skipped: 1, conflicted: 0 });
+      expect(await getDatabase().tabVisits.count()).toBe(1);
+    });
+
+    it('should add archives unless the session is stored in full', async () => {
+      const archive = (id: string) => ({
+        ...createSession({ id }),
+        visitCount: 2,
+        windows: [],
+        tabs: [],
+        archivedAt: EXPORTED_AT,
+      });
+      const report = await importService.importData(createExport({ archives: [archive('session-1'), archive('old')] }));
+
+      expect(report.archives).toEqual({ added: 1, skipped: 1, conflicted: 0 });
+      expect(await getDatabase().archivedSessions.toCollection().primaryKeys()).toEqual(['old']);
+    });
+
+    it('should remap colliding persistent IDs and follow them in visits', async () => {
+      await importService.importData(createExport());
+
+      // Same IDs, but a different tab and window on another machine
+      const other = createExport({
+        sessions: [createSession({ id: 'session-2' })],
+        windows: [createWindow({ sessionId: 'session-2', createdAt: 1_700_050_000_000 })],
+        tabs: [createTab({ sessionId: 'session-2', createdAt: 1_700_050_000_000, url: 'https://other.com' })],
+        visits: [createVisit({ sessionId: 'session-2', activatedAt: 1_700_050_010_000 })],
+        navigations: [],
+      });
+      const report = await importService.importData(other);
+
+      expect(report.tabs.added).toBe(1);
+      expect(report.remappedIds).toBe(2);
+
+      const db = getDatabase();
+      const imported = await db.tabs.where('sessionId').equals('session-2').first();
+      expect(imported?.persistentId).not.toBe('tab-1');
+
+      const window = await db.windows.where('sessionId').equals('session-2').first();
+      expect(imported?.windowPersistentId).toBe(window?.persistentId);
+
+      const visit = await db.tabVisits.where('sessionId').equals('session-2').first();
+      expect(visit?.tabPersistentId).toBe(imported?.persistentId);
+      expect(visit?.windowPersistentId).toBe(window?.persistentId);
+    });
+
+    it('should import tab groups closed and keep tabs pointing at them', async () => {
+      const grouped = createExport({
+        tabGroups: [createTabGroup()],
+        tabs: [createTab({ groupId: 7, groupPersistentId: 'group-1' })],
+      });
+      await importService.importData(grouped);
+
+      // Same group ID from another session on another machine
+      const other = createExport({
+        sessions: [createSession({ id: 'session-2' })],
+        windows: [createWindow({ sessionId: 'session-2', createdAt: 1_700_050_000_000 })],
+        tabGroups: [createTabGroup({ sessionId: 'session-2', createdAt: 1_700_050_000_000 })],
+        tabs: [createTab({ sessionId: 'session-2', createdAt: 1_700_050_000_000, groupPersistentId: 'group-1' })],
+        visits: [],
+        navigations: [],
+      });
+      const report = await importService.importData(other);
+
+      expect(report.tabGroups.added).toBe(1);
+
+      const db = getDatabase();
+      const original = await db.tabGroups.where('persistentId').equals('group-1').first();
+      expect(original?.closedAt).toBe(EXPORTED_AT);
+
+      const group = await db.tabGroups.where('sessionId').equals('session-2').first();
+      const window = await db.windows.where('sessionId').equals('session-2').first();
+      const tab = await db.tabs.where('sessionId').equals('session-2').first();
+      expect(group?.persistentId).not.toBe('group-1');
+      expect(group?.windowPersistentId).toBe(window?.persistentId);
+      expect(tab?.groupPersistentId).toBe(group?.persistentId);
+    });
+
+    it('should leave tabs ungrouped when importing an export without groups', async () => {
+      const { groupPersistentId: _, ...olderTab } = createTab();
+      await importService.importData(createExport({ tabs: [olderTab as TrackedTab] }));
+
+      const tab = await getDatabase().tabs.where('persistentId').equals('tab-1').first();
+      expect(tab?.groupPersistentId).toBeNull();
+    });
+
+    it('should union tags and keep local notes on conflict', async () => {
+      await importService.importData(createExport({ tabs: [createTab({ tags: ['research'], notes: 'Read later' })] }));
+
+      const report = await importService.importData(createExport({
+        tabs: [createTab({ tags: ['Work', ' Research'], notes: 'Different note' })],
+      }));
+
+      expect(report.tabs.conflicted).toBe(1);
+      expect(report.conflicts[0]).toContain('Notes');
+
+      const tab = await getDatabase().tabs.where('persistentId').equals('tab-1').first();
+      expect(tab?.tags).toEqual(['research', 'work']);
+      expect(tab?.notes).toBe('Read later');
+    });
+
+    it('should relink imported navigation chains', async () => {
+      const report = await importService.importData(createExport({
+        navigations: [
+          createNavigation({ id: 7, leftAt: 1_700_000_050_000, dwellTime: 50_000 }),
+          createNavigation({
+            id: 8,
+            url: 'https://example.com/next',
+            navigatedAt: 1_700_000_050_000,
+            previousNavigationId: 7,
+          }),
+        ],
+      }));
+
+      expect(report.navigations.added).toBe(2);
+
+      const history = await getDatabase().tabNavigations
+        .where('[tabPersistentId+navigatedAt]')
+        .between(['tab-1', 0], ['tab-1', Infinity])
+        .toArray();
+      expect(history[1]?.previousNavigationId).toBe(history[0]?.id);
+    });
+
+    it('should report a tag color conflict and keep the local color', async () => {
+      await importService.importData(createExport());
+
+      const report = await importService.importData(createExport({
+        tags: [createTag({ color: '#ef4444' })],
+      }));
+
+      expect(report.tags.conflicted).toBe(1);
+      const tag = await getDatabase().tags.where('name').equals('research').first();
+      expect(tag?.color).toBe('#6366f1');
+    });
+  });
+
+  describe('parseZip', () => {
+    it('should round-trip a ZIP export through data.json', async () => {
+      mockDataStream({
+        sessions: [createSession()],
+        windows: [createWindow()],
+        tabs: [createTab()],
+        visits: [createVisit({ deactivatedAt: 1_700_000_100_500, duration: 90_500 })],
+        navigations: [createNavigation()],
+        relationships: [],
+        tags: [createTag()],
+      });
+
+      const blob = await new ExportService().export({ format: 'zip', scope: 'session' }) as Blob;
+      const data = await importService.parseZip(await blob.arrayBuffer());
+
+      expect(data.tabs[0]).toEqual(createTab());
+      expect(data.visits?.[0]?.duration).toBe(90_500);
+      expect(data.navigations).toHaveLength(1);
+    });
+
+    it('should rebuild records from CSV files when data.json is missing', async () => {
+      const zip = new JSZip();
+      zip.file('manifest.json', JSON.stringify({
+        version: '1.0.0',
+        exportedAt: new Date(EXPORTED_AT).toISOString(),
+      }));
+      zip.file('tabs_2023-11-16.csv', '﻿' + [
+        'persistentId,chromeTabId,url,title,createdAt,lastActivatedAt,totalActiveTimeMinutes,windowPersistentId,chromeWindowId,sessionId,index,pinned,groupId,tags,notes,isIncognito,isSaved,closedAt',
+        'tab-1,1,https://example.com,"Title, with comma",2023-11-14T22:13:20.000Z,2023-11-14T22:15:00.000Z,2,win-1,1,session-1,0,false,-1,"research; work","Line one\nLine ""two""",false,true,',
+      ].join('\n'));
+
+      const data = await importService.parseZip(await zip.generateAsync({ type: 'arraybuffer' }));
+
+      expect(data.tabs).toHaveLength(1);
+      expect(data.tabs[0]?.title).toBe('Title, with comma');
+      expect(data.tabs[0]?.tags).toEqual(['research', 'work']);
+      expect(data.tabs[0]?.notes).toBe('Line one\nLine "two"');
+      expect(data.tabs[0]?.totalActiveTime).toBe(120_000);
+      expect(data.tabs[0]?.createdAt).toBe(1_700_000_000_000);
+      expect(data.tabs[0]?.urlHash).toMatch(/^[a-f0-9]{64}$/);
+    });
+
+    it('should read nested tags and aliases from the tags CSV', async () => {
+      const zip = new JSZip();
+      zip.file('manifest.json', JSON.stringify({
+        version: '1.3.0',
+        exportedAt: new Date(EXPORTED_AT).toISOString(),
+      }));
+      zip.file('tags_2023-11-16.csv', '﻿' + [
+        'id,name,parent,aliases,color,createdAt,usageCount',
+        '1,project/unos,project,"unos; unos-ext",#22c55e,2023-11-14T22:13:20.000Z,3',
+      ].join('\n'));
+
+      const data = await importService.parseZip(await zip.generateAsync({ type: 'arraybuffer' }));
+
+      expect(data.tags?.[0]).toMatchObject({
+        name: 'project/unos',
+        parent: 'project',
+        aliases: ['unos', 'unos-ext'],
+        usageCount: 3,
+      });
+    });
+
+    it('should reject a ZIP without a manifest', async () => {
+      const zip = new JSZip();
+      zip.file('tabs.csv', 'persistentId');
+
+      await expect(
+        importService.parseZip(await zip.generateAsync({ type: 'arraybuffer' }))
+      ).rejects.toThrow('no manifest.json');
+    });
+  });
+});
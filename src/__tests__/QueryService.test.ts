@@ -0,0 +1,129 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { QueryService } from '../services/QueryService';
+import type { StorageManager } from '../services/StorageManager';
+import { getDatabase, closeDatabase } from '../db/schema';
+import { QuerySyntaxError } from '../query';
+import { createTab, createVisit } from './helpers/fixtures';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.now();
+
+describe('QueryService', () => {
+  let service: QueryService;
+
+  beforeEach(async () => {
+    const storageManager = {
+      getCurrentSessionId: () => 'session-1',
+    } as unknown as StorageManager;
+    service = new QueryService(storageManager);
+
+    await getDatabase().tabs.bulkAdd([
+      createTab({
+        persistentId: 'tab-github',
+        url: 'https://github.com/unos',
+        tags: ['research'],
+        totalActiveTime: 40 * 60 * 1000,
+        lastActivatedAt: NOW - 1000,
+      }),
+      createTab({
+        persistentId: 'tab-closed',
+        sessionId: 'session-old',
+        url: 'https://docs.github.com/actions',
+        tags: ['research', 'ci'],
+        closedAt: NOW - 2 * DAY,
+        lastActivatedAt: NOW - 3 * DAY,
+      }),
+      createTab({
+        persistentId: 'tab-news',
+        url: 'https://news.example.com',
+        isSaved: true,
+        lastActivatedAt: NOW - 2000,
+      }),
+    ]);
+  });
+
+  afterEach(async () => {
+    await getDatabase().delete();
+    await closeDatabase();
+  });
+
+  it('should combine indexed and in-memory clauses', async () => {
+    const tabs = await service.run('tag:research domain:github.com active>30m');
+    expect(tabs.map(t => t.persistentId)).toEqual(['tab-github']);
+  });
+
+  it('should return the union of OR groups, most recent first', async () => {
+    const tabs = await service.run('closed:last-week OR is:saved');
+    expect(tabs.map(t => t.persistentId)).toEqual(['tab-news', 'tab-closed']);
+  });
+
+  it('should resolve session:current and negation', async () => {
+    const tabs = await service.run('session:current -tag:research');
+    expect(tabs.map(t => t.persistentId)).toEqual(['tab-news']);
+  });
+
+  it('should match a tag the same whether or not the tag index seeds the query', async () => {
+    const seeded = await service.run('tag:Research');
+    const filtered = await service.run('session:current tag:Research');
+
+    expect(seeded.map(t => t.persistentId)).toEqual(['tab-github', 'tab-closed']);
+    expect(filtered.map(t => t.persistentId)).toEqual(['tab-github']);
+  });
+
+  it('should match tags nested under a tag and resolve aliases', async () => {
+    await getDatabase().tabs.add(createTab({
+      persistentId: 'tab-paper',
+      tags: ['research/papers'],
+      lastActivatedAt: NOW - 500,
+    }));
+    await getDatabase().tags.add({
+      name: 'research',
+      parent: null,
+      aliases: ['reading'],
+      color: '#6366f1',
+      createdAt: NOW,
+      usageCount: 2,
+    });
+
+    expect((await service.run('tag:research')).map(t => t.persistentId)).toEqual([
+      'tab-paper',
+      'tab-github',
+      'tab-closed',
+    ]);
+    expect((await service.run('tag:reading/papers')).map(t => t.persistentId)).toEqual(['tab-paper']);
+  });
+
+  it('should match visited: against the visit history', async () => {
+    await getDatabase().tabVisits.add(createVisit({
+      tabPersistentId: 'tab-closed',
+      activatedAt: NOW - 2 * DAY - 1000,
+    }));
+
+    const tabs = await service.run('visited:last-week');
+    expect(tabs.map(t => t.persistentId)).toEqual(['tab-closed']);
+  });
+
+  it('should throw syntax errors for invalid queries', async () => {
+    await expect(service.run('tag:research is:starred')).rejects.toBeInstanceOf(QuerySyntaxError);
+  });
+
+  it('should save, update and delete searches by name', async () => {
+    const first = await service.saveSearch('Research', 'tag:research');
+    await service.saveSearch(' Research ', 'tag:research is:open');
+    await service.saveSearch('Saved', 'is:saved');
+
+    let searches = await service.getSavedSearches();
+    expect(searches.map(s => s.name).sort()).toEqual(['Research', 'Saved']);
+    expect(searches.find(s => s.name === 'Research')?.query).toBe('tag:research is:open');
+
+    await service.deleteSavedSearch(first.id!);
+    searches = await service.getSavedSearches();
+    expect(searches.map(s => s.name)).toEqual(['Saved']);
+  });
+
+  it('should refuse to save invalid or unnamed searches', async () => {
+    await expect(service.saveSearch('Bad', 'colour:red')).rejects.toBeInstanceOf(QuerySyntaxError);
+    await expect(service.saveSearch('  ', 'tag:a')).rejects.toThrow('needs a name');
+  });
+});
@@ -0,0 +1,209 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  ReportService,
+  getReportRange,
+  renderReportMarkdown,
+  renderReportHtml,
+} from '../services/ReportService';
+import { SettingsService } from '../services/SettingsService';
+import { TabTracker } from '../services/TabTracker';
+import type { StorageManager } from '../services/StorageManager';
+import { getDatabase, closeDatabase } from '../db/schema';
+import type { TrackedTab, TabVisit, Session, WindowFocusEvent } from '../db/types';
+import * as fixtures from './helpers/fixtures';
+
+const MINUTE = 60 * 1000;
+
+// Sunday 10 to Tuesday 12 March 2024, local time
+const at = (day: number, hour: number, minute = 0) => new Date(2024, 2, day, hour, minute).getTime();
+const SUNDAY = at(10, 0);
+const MONDAY = at(11, 0);
+const TUESDAY = at(12, 0);
+
+function createTab(persistentId: string, url: string, overrides: Partial<TrackedTab> = {}): TrackedTab {
+  return fixtures.createTab({
+    persistentId,
+    sessionId: 'monday',
+    url,
+    urlHash: `hash-${persistentId}`,
+    title: persistentId,
+    createdAt: SUNDAY,
+    lastActivatedAt: SUNDAY,
+    visitCount: 1,
+    updatedAt: SUNDAY,
+    ...overrides,
+  });
+}
+
+function createVisit(tab: TrackedTab, activatedAt: number, minutes: number | null, awayMinutes = 0): TabVisit {
+  return fixtures.createVisit({
+    tabPersistentId: tab.persistentId,
+    sessionId: tab.sessionId,
+    url: tab.url,
+    urlHash: tab.urlHash,
+    title: tab.title,
+    activatedAt,
+    deactivatedAt: minutes === null ? null : activatedAt + minutes * MINUTE,
+    duration: (minutes ?? 0) * MINUTE,
+    awayDuration: awayMinutes * MINUTE,
+  });
+}
+
+function createSession(id: string, startedAt: number, endedAt: number | null): Session {
+  return fixtures.createSession({
+    id,
+    name: id,
+    startedAt,
+    endedAt,
+    isActive: endedAt === null,
+    createdAt: startedAt,
+    updatedAt: startedAt,
+  });
+}
+
+function createFocus(focusedAt: number, unfocusedAt: number): WindowFocusEvent {
+  return {
+    windowPersistentId: 'win-1',
+    sessionId: 'monday',
+    focusedAt,
+    unfocusedAt,
+    duration: unfocusedAt - focusedAt,
+    previousWindowPersistentId: null,
+  };
+}
+
+describe('getReportRange', () => {
+  it('should cover the local day, or the week from the day weeks start on', () => {
+    expect(getReportRange('daily', at(12, 15), 1)).toEqual({ from: TUESDAY, to: at(13, 0) });
+    expect(getReportRange('weekly', at(12, 15), 1)).toEqual({ from: MONDAY, to: at(18, 0) });
+    expect(getReportRange('weekly', at(12, 15), 0)).toEqual({ from: SUNDAY, to: at(17, 0) });
+    expect(getReportRange('weekly', SUNDAY, 1)).toEqual({ from: at(4, 0), to: MONDAY });
+  });
+});
+
+describe('ReportService', () => {
+  let service: ReportService;
+  let settingsService: SettingsService;
+
+  const db = () => getDatabase();
+  const github = createTab('github', 'https://github.com/unos/unos', { tags: ['code'] });
+  const hn = createTab('hn', 'https://news.ycombinator.com/', { title: 'Ask HN | <b>bold</b>' });
+  const docs = createTab('docs', 'https://docs.rs/dexie', { sessionId: 'sunday' });
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(at(12, 12));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    settingsService = new SettingsService();
+    service = new ReportService(settingsService);
+
+    await db().tabs.bulkAdd([github, hn, docs]);
+    await db().tabVisits.bulkAdd([
+      createVisit(docs, at(10, 12), 5),
+      createVisit(github, at(11, 9), 30),
+      createVisit(hn, at(11, 10), 10, 2),
+      createVisit(github, at(11, 11), 20),
+      // Still open, 30 minutes in
+      createVisit(github, at(12, 11, 30), null),
+    ]);
+    await db().windowFocusEvents.bulkAdd([createFocus(at(10, 23), at(11, 1)), createFocus(at(11, 9), at(11, 12))]);
+    await db().sessions.bulkAdd([
+      createSession('sunday', at(10, 12), at(10, 13)),
+      createSession('monday', at(11, 8), null),
+    ]);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    await getDatabase().delete();
+    await closeDatabase();
+  });
+
+  it('should report a day from its visits, focus time, sessions and saved tabs', async () => {
+    vi.setSystemTime(at(11, 14));
+    const storageManager = { getPersistentTabId: () => null } as unknown as StorageManager;
+    await new TabTracker(storageManager, settingsService).saveTab('docs');
+    vi.setSystemTime(at(12, 12));
+
+    const report = await service.generate('daily', at(11, 12));
+
+    expect(report).toMatchObject({
+      from: MONDAY,
+      to: TUESDAY,
+      activeTime: 58 * MINUTE,
+      focusTime: 240 * MINUTE,
+      visitCount: 3,
+    });
+    expect(report.topDomains).toEqual([
+      { domain: 'github.com', activeTime: 50 * MINUTE, visitCount: 2 },
+      { domain: 'news.ycombinator.com', activeTime: 8 * MINUTE, visitCount: 1 },
+    ]);
+    expect(report.topTags).toEqual([{ tag: 'code', activeTime: 50 * MINUTE, tabCount: 1 }]);
+    expect(report.mostSwitchedTabs.map((t) => [t.persistentId, t.switchCount])).toEqual([
+      ['github', 2],
+      ['hn', 1],
+    ]);
+    // The running session started Monday; Sunday's ended before it
+    expect(report.sessions).toMatchObject([{ id: 'monday', activeTime: 58 * MINUTE, endedAt: null }]);
+    expect(report.newSavedTabs).toMatchObject([{ persistentId: 'docs', savedAt: at(11, 14) }]);
+    // The day is over, so the report is kept, and outlives the visits it came from
+    expect(await service.listReports()).toEqual([report]);
+    await db().tabVisits.clear();
+    expect(await service.getReport('daily', MONDAY)).toEqual(report);
+  });
+
+  it('should count open visits so far and not store a period still running', async () => {
+    const report = await service.generate('weekly');
+
+    expect(report).toMatchObject({ from: MONDAY, activeTime: 88 * MINUTE, visitCount: 4 });
+    expect(report.days).toHaveLength(7);
+    expect(report.days.slice(0, 2).map((d) => [d.activeTime, d.focusTime])).toEqual([
+      [58 * MINUTE, 240 * MINUTE],
+      [30 * MINUTE, 0],
+    ]);
+    expect(await service.listReports()).toEqual([]);
+  });
+
+  it('should render reports as Markdown and HTML, linking only web pages', async () => {
+    const report = await service.generate('daily', MONDAY);
+    report.mostSwitchedTabs.push({
+      persistentId: 'js',
+      url: 'javascript:alert(1)',
+      title: 'x',
+      switchCount: 1,
+      activeTime: 0,
+    });
+
+    const markdown = renderReportMarkdown(report);
+    expect(markdown).toContain('| github.com | 50m | 2 |');
+    expect(markdown).toContain('[Ask HN \\| \\<b\\>bold\\</b\\>](<https://news.ycombinator.com/>)');
+    expect(markdown).toContain('_No tabs saved_');
+    expect(markdown).not.toContain('](<javascript');
+
+    const html = renderReportHtml(report);
+    expect(html).toContain('<td>github.com</td><td>50m</td><td>2</td>');
+    expect(html).toContain('<a href="https://news.ycombinator.com/">Ask HN | &#60;b&#62;bold&#60;/b&#62;</a>');
+    expect(html).not.toContain('<b>bold');
+    expect(html).not.toContain('href="javascript');
+  });
+
+  it('should generate ended days and weeks on schedule, keeping as many as the settings say', async () => {
+    expect(await service.runSchedule()).toBe(3);
+    expect((await service.listReports()).map((r) => [r.period, r.from])).toEqual([
+      ['daily', MONDAY],
+      ['daily', SUNDAY],
+      ['weekly', at(4, 0)],
+    ]);
+    expect(await service.runSchedule()).toBe(0);
+
+    await settingsService.updateSettings({ reports: { dailyReportsKept: 1, weeklyReportsKept: 0 } });
+    await service.runSchedule();
+
+    expect((await service.listReports()).map((r) => [r.period, r.from])).toEqual([
+      ['daily', MONDAY],
+      ['weekly', at(4, 0)],
+    ]);
+  });
+});
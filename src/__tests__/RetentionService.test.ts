@@ -0,0 +1,244 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { localStorage, syncStorage } from './setup';
+import { RetentionService, matchesRetentionRule } from '../services/RetentionService';
+import { SettingsService, DEFAULT_SETTINGS } from '../services/SettingsService';
+import { ValidationError } from '../services/errors';
+import { getDatabase, closeDatabase } from '../db/schema';
+import type { TrackedTab, TrackedWindow, TabVisit, Session, RetentionRule } from '../db/types';
+import * as fixtures from './helpers/fixtures';
+
+const DAY = 24 * 60 * 60 * 1000;
+const T0 = fixtures.T0;
+const NOW = T0 + 40 * DAY;
+
+function createSession(id: string, overrides: Partial<Session> = {}): Session {
+  return fixtures.createSession({
+    id,
+    name: id,
+    endedAt: T0 + DAY,
+    isActive: false,
+    expiresAt: T0 + 7 * DAY,
+    ...overrides,
+  });
+}
+
+function createWindow(persistentId: string, sessionId: string, incognito = false): TrackedWindow {
+  return fixtures.createWindow({ persistentId, sessionId, incognito });
+}
+
+function createTab(persistentId: string, sessionId: string, overrides: Partial<TrackedTab> = {}): TrackedTab {
+  return fixtures.createTab({
+    persistentId,
+    windowPersistentId: `win-${sessionId}`,
+    sessionId,
+    urlHash: `hash-${persistentId}`,
+    title: persistentId,
+    visitCount: 1,
+    ...overrides,
+  });
+}
+
+function createVisit(tab: TrackedTab, activatedAt: number, overrides: Partial<TabVisit> = {}): TabVisit {
+  return fixtures.createVisit({
+    tabPersistentId: tab.persistentId,
+    sessionId: tab.sessionId,
+    url: tab.url,
+    urlHash: tab.urlHash,
+    title: tab.title,
+    activatedAt,
+    deactivatedAt: activatedAt + 60_000,
+    duration: 60_000,
+    windowPersistentId: tab.windowPersistentId,
+    ...overrides,
+  });
+}
+
+describe('matchesRetentionRule', () => {
+  const subject = { tags: ['ref'], domains: ['docs.github.com'], saved: false, incognito: true };
+
+  it('should require every condition given', () => {
+    expect(matchesRetentionRule({}, subject)).toBe(true);
+    expect(matchesRetentionRule({ tag: 'ref', domain: 'github.com' }, subject)).toBe(true);
+    expect(matchesRetentionRule({ tag: 'ref', saved: true }, subject)).toBe(false);
+    expect(matchesRetentionRule({ domain: 'hub.com' }, subject)).toBe(false);
+    expect(matchesRetentionRule({ incognito: false }, subject)).toBe(false);
+  });
+});
+
+describe('RetentionService', () => {
+  let service: RetentionService;
+  let settingsService: SettingsService;
+
+  const db = () => getDatabase();
+  const visitTabs = async () => (await db().tabVisits.orderBy('id').toArray()).map((v) => v.tabPersistentId);
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    settingsService = new SettingsService();
+    service = new RetentionService(undefined, undefined, settingsService);
+
+    // 'old' and 'ref' expired a month ago; 'recent' is within its week; 'running' is still going
+    await db().sessions.bulkAdd([
+      createSession('old'),
+      createSession('ref', { tags: ['ref'] }),
+      createSession('recent', { startedAt: NOW - 2 * DAY, endedAt: NOW - DAY, expiresAt: NOW + 5 * DAY }),
+      createSession('running', { isActive: true, endedAt: null }),
+    ]);
+    await db().windows.bulkAdd([
+      createWindow('win-old', 'old'),
+      createWindow('win-recent', 'recent'),
+      createWindow('win-private', 'recent', true),
+    ]);
+    const oldTab = createTab('tab-old', 'old');
+    const docs = createTab('tab-docs', 'recent', { url: 'https://docs.example.com' });
+    const saved = createTab('tab-saved', 'recent', { isSaved: true });
+    const secret = createTab('tab-secret', 'recent', { windowPersistentId: 'win-private' });
+    await db().tabs.bulkAdd([oldTab, docs, saved, secret]);
+    await db().tabVisits.bulkAdd([
+      createVisit(oldTab, T0),
+      createVisit(docs, NOW - 35 * DAY),
+      createVisit(docs, NOW - 3 * DAY),
+      createVisit(saved, NOW - 35 * DAY),
+      createVisit(secret, NOW - 2 * DAY),
+      createVisit(docs, NOW - 35 * DAY, { deactivatedAt: null }),
+    ]);
+    await db().searchDocuments.put({ tabPersistentId: 'tab-old', length: 1, indexedAt: T0 });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    await getDatabase().delete();
+    await closeDatabase();
+  });
+
+  it('should report without deleting on a dry run', async () => {
+    const report = await service.run({ dryRun: true });
+
+    expect(report).toMatchObject({
+      dryRun: true,
+      sessions: [
+        { sessionId: 'old', expiredAt: T0 + 7 * DAY, rule: null, archived: true },
+        { sessionId: 'ref', rule: null },
+      ],
+      expiredVisits: 1,
+      excessVisits: 0,
+    });
+    expect(await db().sessions.count()).toBe(4);
+    expect(await db().tabVisits.count()).toBe(6);
+    expect(await db().archivedSessions.count()).toBe(0);
+  });
+
+  it('should delete expired sessions with their records and old visits', async () => {
+    await service.run();
+
+    expect((await db().sessions.toCollection().primaryKeys()).sort()).toEqual(['recent', 'running']);
+    expect(await db().tabs.where('sessionId').equals('old').count()).toBe(0);
+    expect(await db().windows.where('sessionId').equals('old').count()).toBe(0);
+    expect(await db().searchDocuments.get('tab-old')).toBeUndefined();
+    // The 35-day-old docs visit is gone; the saved tab's and the running one stay
+    expect(await visitTabs()).toEqual(['tab-docs', 'tab-saved', 'tab-secret', 'tab-docs']);
+  });
+
+  it('should let the first matching rule decide', async () => {
+    await service.updateRules([
+      { appliesTo: 'sessions', match: { tag: 'ref' }, keepDays: null },
+      { appliesTo: 'visits', match: { incognito: true }, keepDays: 1 },
+      { appliesTo: 'visits', match: { domain: 'example.com', saved: true }, keepDays: 30 },
+    ]);
+
+    const report = await service.run();
+
+    expect(report.sessions.map((s) => s.sessionId)).toEqual(['old']);
+    expect(await db().sessions.get('ref')).toBeDefined();
+    // Incognito visit after a day; the saved tab's visit under the 30-day rule
+    expect(await visitTabs()).toEqual(['tab-docs', 'tab-docs']);
+  });
+
+  it('should expire a session under a rule before its own expiry', async () => {
+    await db().sessions.update('recent', { isSaved: true, expiresAt: null });
+    await service.updateRules([{ appliesTo: 'sessions', match: { saved: true }, keepDays: 1 }]);
+
+    const report = await service.run({ dryRun: true });
+
+    expect(report.sessions).toMatchObject([
+      { sessionId: 'old', rule: null },
+      { sessionId: 'recent', expiredAt: NOW - DAY, rule: 0 },
+      { sessionId: 'ref', rule: null },
+    ]);
+  });
+
+  it('should cap the visits kept per tab, oldest first', async () => {
+    await settingsService.updateSettings({ retention: { visitTtlDays: 0, maxVisitsPerTab: 1 } });
+
+    const report = await service.run({ dryRun: true });
+    expect(report).toMatchObject({ expiredVisits: 0, excessVisits: 2 });
+
+    await service.run();
+    expect(await db().tabVisits.where('tabPersistentId').equals('tab-docs').toArray()).toMatchObject([
+      { activatedAt: NOW - 3 * DAY },
+    ]);
+  });
+
+  it('should read its lifetimes from the settings and validate rules', async () => {
+    expect(await service.getPolicy()).toEqual({ ...DEFAULT_SETTINGS.retention, rules: [] });
+    await expect(settingsService.updateSettings({ retention: { sessionTtlDays: 0 } })).rejects.toThrow(
+      'Keep unsaved sessions'
+    );
+    await expect(settingsService.updateSettings({ retention: { maxVisitsPerTab: 2.5 } })).rejects.toThrow('whole');
+    await expect(service.updateRules([{ appliesTo: 'tabs' as never, match: {}, keepDays: 1 }])).rejects.toThrow(
+      'Rule 1'
+    );
+    await expect(service.updateRules([{ appliesTo: 'visits', match: {}, keepDays: -1 }])).rejects.toThrow(
+      ValidationError
+    );
+    expect(await service.getSessionExpiry(NOW)).toBe(NOW + 7 * DAY);
+  });
+
+  it('should move a locally stored policy into the settings once', async () => {
+    const rule: RetentionRule = { appliesTo: 'sessions', match: { tag: 'ref' }, keepDays: null };
+    localStorage.retentionPolicy = { visitTtlDays: 90, archiveExpired: false, rules: [rule] };
+
+    expect(await service.getPolicy()).toEqual({
+      ...DEFAULT_SETTINGS.retention,
+      visitTtlDays: 90,
+      archiveExpired: false,
+      rules: [rule],
+    });
+    expect(syncStorage.settings).toMatchObject({ retention: { visitTtlDays: 90, archiveExpired: false } });
+    expect(localStorage).toEqual({ retentionRules: [rule] });
+
+    // Values the settings no longer accept fall back to the defaults
+    localStorage.retentionPolicy = { sessionTtlDays: 0.5 };
+    await service.migrateStoredPolicy();
+    expect((await settingsService.getSettings()).retention.sessionTtlDays).toBe(7);
+    expect(localStorage.retentionPolicy).toBeUndefined();
+  });
+
+  it('should archive expired sessions unless the policy turns it off', async () => {
+    await service.run();
+    expect(await db().archivedSessions.get('old')).toMatchObject({
+      tabs: [{ persistentId: 'tab-old' }],
+      visitCount: 1,
+    });
+
+    await db().archivedSessions.clear();
+    await db().sessions.add(createSession('again'));
+    await settingsService.updateSettings({ retention: { archiveExpired: false } });
+    expect((await service.run()).sessions).toMatchObject([{ sessionId: 'again', archived: false }]);
+    expect(await db().archivedSessions.count()).toBe(0);
+  });
+
+  it('should apply a new session lifetime to stored sessions', async () => {
+    await settingsService.updateSettings({ retention: { sessionTtlDays: 60 } });
+    await service.applySessionLifetime(60);
+
+    expect((await db().sessions.get('old'))?.expiresAt).toBe(T0 + 60 * DAY);
+    expect(await service.getSessionExpiry(NOW)).toBe(NOW + 60 * DAY);
+    expect((await service.run()).sessions).toEqual([]);
+  });
+});
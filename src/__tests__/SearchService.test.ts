@@ -0,0 +1,143 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SearchService, buildSearchPostings } from '../services/SearchService';
+import type { StorageManager } from '../services/StorageManager';
+import { getDatabase, closeDatabase } from '../db/schema';
+import { T0, createTab, createVisit } from './helpers/fixtures';
+
+describe('buildSearchPostings', () => {
+  it('should create one posting per token and field', () => {
+    const { postings, length } = buildSearchPostings(
+      createTab({ title: 'Rust borrow checker', url: 'https://doc.rust-lang.org/book', tags: ['rust'], notes: 'borrow rules' }),
+      ['Rust borrow checker', 'Ownership basics']
+    );
+
+    const titleRust = postings.find(p => p.token === 'rust' && p.field === 'title');
+    expect(titleRust?.termFrequency).toBe(1);
+    expect(postings.some(p => p.token === 'rust' && p.field === 'tags')).toBe(true);
+    expect(postings.some(p => p.token === 'borrow' && p.field === 'notes')).toBe(true);
+    // The current title is not repeated as a visit title
+    expect(postings.some(p => p.token === 'checker' && p.field === 'visit')).toBe(false);
+    expect(postings.some(p => p.token === 'ownership' && p.field === 'visit')).toBe(true);
+    expect(length).toBe(postings.reduce((sum, p) => sum + p.termFrequency, 0));
+  });
+});
+
+describe('SearchService', () => {
+  let service: SearchService;
+
+  beforeEach(async () => {
+    const storageManager = {
+      flushWrites: () => Promise.resolve(),
+    } as unknown as StorageManager;
+    service = new SearchService(storageManager);
+
+    const db = getDatabase();
+    await db.tabs.bulkAdd([
+      createTab({
+        persistentId: 'tab-article',
+        sessionId: 'session-old',
+        title: 'Understanding CRDTs for collaborative editing',
+        url: 'https://blog.example.com/crdt-intro',
+        closedAt: T0 + 1000,
+      }),
+      createTab({
+        persistentId: 'tab-docs',
+        title: 'Dexie.js documentation',
+        url: 'https://dexie.org/docs',
+        tags: ['research'],
+      }),
+      createTab({
+        persistentId: 'tab-notes',
+        title: 'Team meeting',
+        url: 'https://calendar.example.com',
+        notes: 'Discuss collaborative editing roadmap',
+      }),
+    ]);
+    await db.tabVisits.add(createVisit({
+      tabPersistentId: 'tab-docs',
+      title: 'IndexedDB transactions explained',
+    }));
+
+    await service.ensureIndexed();
+  });
+
+  afterEach(async () => {
+    await getDatabase().delete();
+    await closeDatabase();
+  });
+
+  it('should index every tab once', async () => {
+    expect(await getDatabase().searchDocuments.count()).toBe(3);
+    expect(await service.ensureIndexed()).toBe(0);
+  });
+
+  it('should find closed tabs from other sessions', async () => {
+    const results = await service.search('crdt');
+
+    expect(results.map(r => r.tab.persistentId)).toEqual(['tab-article']);
+    expect(results[0]?.matchedFields).toContain('title');
+  });
+
+  it('should leave out closed tabs when asked', async () => {
+    const results = await service.search('crdt', { includeClosed: false });
+    expect(results).toHaveLength(0);
+  });
+
+  it('should rank title matches above notes matches', async () => {
+    const results = await service.search('collaborative editing');
+
+    expect(results.map(r => r.tab.persistentId)).toEqual(['tab-article', 'tab-notes']);
+    expect(results[0]!.score).toBeGreaterThan(results[1]!.score);
+  });
+
+  it('should match token prefixes', async () => {
+    const results = await service.search('collab');
+    expect(results).toHaveLength(2);
+  });
+
+  it('should keep exact matches when a term has many longer expansions', async () => {
+    const letters = 'abcdefghijklmnopqrstuvwxyz';
+    const tabs = Array.from({ length: 60 }, (_, i) => createTab({
+      persistentId: `tab-crdt-${i}`,
+      title: `crdt${letters[Math.floor(i / 26)]}${letters[i % 26]}`,
+    }));
+    await getDatabase().tabs.bulkAdd(tabs);
+    await service.ensureIndexed();
+
+    const results = await service.search('crdt', { limit: 100 });
+
+    expect(results.map(r => r.tab.persistentId)).toContain('tab-article');
+    expect(results).toHaveLength(51);
+  });
+
+  it('should search tags and visit titles', async () => {
+    expect((await service.search('research'))[0]?.matchedFields).toEqual(['tags']);
+    expect((await service.search('transactions'))[0]?.tab.persistentId).toBe('tab-docs');
+  });
+
+  it('should restrict results to a session', async () => {
+    const results = await service.search('collaborative', { sessionId: 'session-1' });
+    expect(results.map(r => r.tab.persistentId)).toEqual(['tab-notes']);
+  });
+
+  it('should pick up changes when a tab is reindexed', async () => {
+    const db = getDatabase();
+    await db.tabs.where('persistentId').equals('tab-notes').modify({ notes: 'Quarterly planning' });
+    await service.indexTab('tab-notes');
+
+    expect(await service.search('roadmap')).toHaveLength(0);
+    expect((await service.search('quarterly'))[0]?.tab.persistentId).toBe('tab-notes');
+  });
+
+  it('should drop index entries for deleted tabs', async () => {
+    await service.removeTabs(['tab-article']);
+
+    expect(await service.search('crdt')).toHaveLength(0);
+    expect(await getDatabase().searchDocuments.count()).toBe(2);
+  });
+
+  it('should return nothing for queries without searchable terms', async () => {
+    expect(await service.search('the a')).toEqual([]);
+  });
+});
@@ -0,0 +1,118 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SessionDiffService, diffSessionPages, type SessionPage } from '../services/SessionDiffService';
+import { getDatabase, closeDatabase } from '../db/schema';
+import type { TrackedTab, TabVisit, Session } from '../db/types';
+import * as fixtures from './helpers/fixtures';
+
+const MINUTE = 60 * 1000;
+const T0 = fixtures.T0;
+
+function createSession(id: string, startedAt: number): Session {
+  return fixtures.createSession({ id, name: id, startedAt, isActive: false, createdAt: startedAt, updatedAt: startedAt });
+}
+
+function createTab(persistentId: string, sessionId: string, url: string): TrackedTab {
+  return fixtures.createTab({ persistentId, sessionId, url, urlHash: `hash-${url}`, title: persistentId, visitCount: 1 });
+}
+
+function createVisit(sessionId: string, url: string, duration: number, awayDuration = 0): TabVisit {
+  return fixtures.createVisit({
+    tabPersistentId: `tab-${url}`,
+    sessionId,
+    url,
+    urlHash: `hash-${url}`,
+    title: url,
+    deactivatedAt: T0 + duration,
+    duration,
+    awayDuration,
+  });
+}
+
+function page(url: string, activeTime: number): SessionPage {
+  return { urlHash: `hash-${url}`, url, title: url, activeTime };
+}
+
+describe('diffSessionPages', () => {
+  it('should sort pages into added, dropped and kept', () => {
+    const diff = diffSessionPages(
+      [page('https://a.com/1', 10 * MINUTE), page('https://a.com/2', 2 * MINUTE), page('https://b.com', 5 * MINUTE)],
+      [page('https://a.com/1', 3 * MINUTE), page('https://c.com', MINUTE), page('https://c.com/x', 4 * MINUTE)]
+    );
+
+    expect(diff.added.map((t) => t.url)).toEqual(['https://c.com/x', 'https://c.com']);
+    expect(diff.dropped.map((t) => t.url)).toEqual(['https://b.com', 'https://a.com/2']);
+    expect(diff.kept).toEqual([
+      {
+        urlHash: 'hash-https://a.com/1',
+        url: 'https://a.com/1',
+        title: 'https://a.com/1',
+        baseActiveTime: 10 * MINUTE,
+        compareActiveTime: 3 * MINUTE,
+      },
+    ]);
+  });
+
+  it('should total the shift in active time per domain, biggest first', () => {
+    const diff = diffSessionPages(
+      [page('https://a.com/1', 10 * MINUTE), page('https://www.a.com/2', 2 * MINUTE), page('chrome://newtab', MINUTE)],
+      [page('https://a.com/1', 3 * MINUTE), page('https://c.com', 4 * MINUTE)]
+    );
+
+    expect(diff.domains).toEqual([
+      { domain: 'a.com', baseActiveTime: 12 * MINUTE, compareActiveTime: 3 * MINUTE, change: -9 * MINUTE },
+      { domain: 'c.com', baseActiveTime: 0, compareActiveTime: 4 * MINUTE, change: 4 * MINUTE },
+    ]);
+  });
+});
+
+describe('SessionDiffService', () => {
+  let service: SessionDiffService;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    service = new SessionDiffService();
+
+    // The docs tab stayed open into session-2, so its record moved there;
+    // the visit in session-1 still places it in both
+    const db = getDatabase();
+    await db.sessions.bulkAdd([createSession('session-1', T0), createSession('session-2', T0 + 60 * MINUTE)]);
+    await db.tabs.bulkAdd([
+      createTab('tab-docs', 'session-2', 'https://docs.com'),
+      createTab('tab-mail', 'session-1', 'https://mail.com'),
+      createTab('tab-news', 'session-2', 'https://news.com'),
+    ]);
+    await db.tabVisits.bulkAdd([
+      createVisit('session-1', 'https://docs.com', 20 * MINUTE, 5 * MINUTE),
+      createVisit('session-1', 'https://mail.com', 5 * MINUTE),
+      createVisit('session-2', 'https://docs.com', 30 * MINUTE),
+    ]);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await getDatabase().delete();
+    await closeDatabase();
+  });
+
+  it('should compare the pages and time of two stored sessions', async () => {
+    const diff = await service.diffSessions('session-1', 'session-2');
+
+    expect(diff).toMatchObject({
+      base: { id: 'session-1' },
+      compare: { id: 'session-2' },
+      added: [{ url: 'https://news.com', baseActiveTime: 0, compareActiveTime: 0 }],
+      dropped: [{ url: 'https://mail.com', baseActiveTime: 5 * MINUTE }],
+      kept: [{ url: 'https://docs.com', baseActiveTime: 15 * MINUTE, compareActiveTime: 30 * MINUTE }],
+    });
+    expect(diff!.domains.map((d) => [d.domain, d.change])).toEqual([
+      ['docs.com', 15 * MINUTE],
+      ['mail.com', -5 * MINUTE],
+      ['news.com', 0],
+    ]);
+  });
+
+  it('should return null when a session does not exist', async () => {
+    expect(await service.diffSessions('session-1', 'missing')).toBeNull();
+  });
+});
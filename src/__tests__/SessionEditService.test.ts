@@ -0,0 +1,249 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SessionEditService } from '../services/SessionEditService';
+import { StorageManager } from '../services/StorageManager';
+import { ValidationError } from '../services/errors';
+import { getDatabase, closeDatabase } from '../db/schema';
+import type { TrackedTab, TabVisit, TabNavigation, Session } from '../db/types';
+import * as fixtures from './helpers/fixtures';
+
+const MINUTE = 60 * 1000;
+const T0 = fixtures.T0;
+const ENDED_AT = T0 + 60 * MINUTE;
+const NOW = T0 + 120 * MINUTE;
+
+function createSession(overrides: Partial<Session> = {}): Session {
+  return fixtures.createSession({
+    name: 'Morning',
+    endedAt: ENDED_AT,
+    isActive: false,
+    totalActiveTime: 20 * MINUTE,
+    expiresAt: ENDED_AT + 7 * 24 * 60 * MINUTE,
+    tags: ['work'],
+    updatedAt: ENDED_AT,
+    ...overrides,
+  });
+}
+
+function createTab(persistentId: string, overrides: Partial<TrackedTab> = {}): TrackedTab {
+  return fixtures.createTab({
+    persistentId,
+    url: `https://example.com/${persistentId}`,
+    urlHash: `hash-${persistentId}`,
+    title: persistentId,
+    visitCount: 1,
+    ...overrides,
+  });
+}
+
+function createVisit(tabPersistentId: string, activatedAt: number, duration: number, awayDuration = 0): TabVisit {
+  return fixtures.createVisit({
+    tabPersistentId,
+    url: `https://example.com/${tabPersistentId}`,
+    urlHash: `hash-${tabPersistentId}`,
+    title: tabPersistentId,
+    activatedAt,
+    deactivatedAt: activatedAt + duration,
+    duration,
+    awayDuration,
+  });
+}
+
+function createNavigation(tabPersistentId: string, navigatedAt: number): TabNavigation {
+  return {
+    tabPersistentId,
+    sessionId: 'session-1',
+    url: `https://example.com/${tabPersistentId}`,
+    urlHash: `hash-${tabPersistentId}`,
+    title: tabPersistentId,
+    navigatedAt,
+    leftAt: null,
+    dwellTime: 0,
+    previousNavigationId: null,
+    windowPersistentId: 'win-1',
+  };
+}
+
+describe('SessionEditService', () => {
+  let storageManager: StorageManager;
+  let service: SessionEditService;
+
+  const session = (id: string) => getDatabase().sessions.get(id);
+  const sessionOf = async (table: 'tabs' | 'windows' | 'tabGroups', persistentId: string) =>
+    (await getDatabase()[table].where('persistentId').equals(persistentId).first())?.sessionId;
+  const visitSessions = async () => (await getDatabase().tabVisits.orderBy('id').toArray()).map((v) => v.sessionId);
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    storageManager = new StorageManager();
+    await storageManager.initializeWorkingState('session-2');
+    service = new SessionEditService(storageManager);
+
+    // session-1 ended an hour ago; session-2 is running with one window
+    const db = getDatabase();
+    await db.sessions.bulkAdd([
+      createSession(),
+      createSession({
+        id: 'session-2',
+        name: 'Afternoon',
+        startedAt: ENDED_AT + 30 * MINUTE,
+        endedAt: null,
+        isActive: true,
+        totalActiveTime: 5 * MINUTE,
+        tags: ['reading'],
+      }),
+    ]);
+    await db.windows.bulkAdd([
+      fixtures.createWindow({ tabCount: 2 }),
+      fixtures.createWindow({ persistentId: 'win-2', chromeWindowId: 2, sessionId: 'session-2', tabCount: 2, createdAt: ENDED_AT + 30 * MINUTE }),
+    ]);
+    await db.tabs.bulkAdd([
+      createTab('tab-1', { closedAt: T0 + 20 * MINUTE }),
+      createTab('tab-2', { chromeTabId: 2, createdAt: T0 + 35 * MINUTE }),
+      createTab('tab-3', { chromeTabId: 3, windowPersistentId: 'win-2', chromeWindowId: 2, sessionId: 'session-2' }),
+    ]);
+    await db.tabGroups.add(fixtures.createTabGroup({ chromeGroupId: 3, title: 'Reading', color: 'green' }));
+    await db.tabVisits.bulkAdd([
+      createVisit('tab-1', T0, 10 * MINUTE),
+      createVisit('tab-2', T0 + 40 * MINUTE, 12 * MINUTE, 2 * MINUTE),
+    ]);
+    await db.tabNavigations.bulkAdd([createNavigation('tab-1', T0), createNavigation('tab-2', T0 + 35 * MINUTE)]);
+    await db.windowFocusEvents.add({
+      windowPersistentId: 'win-1',
+      sessionId: 'session-1',
+      focusedAt: T0,
+      unfocusedAt: ENDED_AT,
+      duration: 60 * MINUTE,
+      previousWindowPersistentId: null,
+    });
+    await db.idlePeriods.add({
+      sessionId: 'session-1',
+      state: 'idle',
+      startedAt: T0 + 45 * MINUTE,
+      endedAt: T0 + 50 * MINUTE,
+      duration: 5 * MINUTE,
+      tabPersistentId: 'tab-2',
+    });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    await getDatabase().delete();
+    await closeDatabase();
+  });
+
+  it('should merge a session into another and delete it', async () => {
+    await getDatabase().workspaces.add({
+      name: 'Research',
+      description: '',
+      windows: [],
+      tabPersistentIds: [],
+      sourceSessionId: 'session-1',
+      openedAt: null,
+      closedAt: null,
+      createdAt: T0,
+      updatedAt: T0,
+    });
+
+    const merged = await service.mergeSessions('session-2', 'session-1');
+
+    const db = getDatabase();
+    expect(merged).toMatchObject({
+      id: 'session-2',
+      startedAt: T0,
+      endedAt: null,
+      isActive: true,
+      totalActiveTime: 25 * MINUTE,
+      windowCount: 2,
+      tabCount: 2,
+      tags: ['reading', 'work'],
+    });
+    expect(await session('session-1')).toBeUndefined();
+    expect(await db.tabs.where('sessionId').equals('session-2').count()).toBe(3);
+    expect(await visitSessions()).toEqual(['session-2', 'session-2']);
+    expect(await db.idlePeriods.toArray()).toMatchObject([{ sessionId: 'session-2' }]);
+    expect(await db.windowFocusEvents.toArray()).toMatchObject([{ sessionId: 'session-2' }]);
+    expect((await db.workspaces.toCollection().first())?.sourceSessionId).toBe('session-2');
+  });
+
+  it('should follow the running session when it is merged away', async () => {
+    const merged = await service.mergeSessions('session-1', 'session-2');
+
+    expect(merged).toMatchObject({ id: 'session-1', isActive: true, endedAt: null, startedAt: T0 });
+    expect(storageManager.getCurrentSessionId()).toBe('session-1');
+    await expect(service.mergeSessions('session-1', 'session-1')).rejects.toThrow(ValidationError);
+    await expect(service.mergeSessions('session-1', 'session-1')).rejects.toThrow('into itself');
+    expect(await service.mergeSessions('session-1', 'missing')).toBeNull();
+  });
+
+  it('should split a session at a timestamp', async () => {
+    const splitAt = T0 + 30 * MINUTE;
+
+    const later = await service.splitSession('session-1', splitAt);
+
+    const db = getDatabase();
+    expect(later).toMatchObject({
+      startedAt: splitAt,
+      endedAt: ENDED_AT,
+      isActive: false,
+      totalActiveTime: 10 * MINUTE,
+      windowCount: 1,
+      tabCount: 1,
+      tags: ['work'],
+    });
+    expect(await session('session-1')).toMatchObject({ endedAt: splitAt, totalActiveTime: 10 * MINUTE, tabCount: 0 });
+    // tab-1 closed before the split; tab-2, its window and group carry on
+    expect(await sessionOf('tabs', 'tab-1')).toBe('session-1');
+    expect(await sessionOf('tabs', 'tab-2')).toBe(later!.id);
+    expect(await sessionOf('windows', 'win-1')).toBe(later!.id);
+    expect(await sessionOf('tabGroups', 'group-1')).toBe(later!.id);
+    expect(await visitSessions()).toEqual(['session-1', later!.id]);
+    expect((await db.tabNavigations.orderBy('navigatedAt').toArray()).map((n) => n.sessionId)).toEqual([
+      'session-1',
+      later!.id,
+    ]);
+    expect(await db.windowFocusEvents.toArray()).toMatchObject([{ sessionId: 'session-1' }]);
+    expect(await db.idlePeriods.toArray()).toMatchObject([{ sessionId: later!.id }]);
+  });
+
+  it('should hand the running session over to its later half', async () => {
+    const later = await service.splitSession('session-2', NOW - 10 * MINUTE);
+
+    expect(later).toMatchObject({ isActive: true, endedAt: null });
+    expect(await session('session-2')).toMatchObject({ isActive: false, endedAt: NOW - 10 * MINUTE });
+    expect(storageManager.getCurrentSessionId()).toBe(later!.id);
+  });
+
+  it('should refuse a split outside the session', async () => {
+    await expect(service.splitSession('session-1', T0)).rejects.toThrow(ValidationError);
+    await expect(service.splitSession('session-1', ENDED_AT + MINUTE)).rejects.toThrow('inside the session');
+    expect(await service.splitSession('missing', T0)).toBeNull();
+  });
+
+  it('should move a tab with its visits and navigations', async () => {
+    const target = await service.moveToSession('session-2', { tabPersistentIds: ['tab-2'] });
+
+    const db = getDatabase();
+    expect(target).toMatchObject({ tabCount: 2, windowCount: 1, totalActiveTime: 15 * MINUTE });
+    expect(await session('session-1')).toMatchObject({ tabCount: 0, windowCount: 1, totalActiveTime: 10 * MINUTE });
+    expect(await visitSessions()).toEqual(['session-1', 'session-2']);
+    expect(await db.tabNavigations.where('sessionId').equals('session-2').count()).toBe(1);
+    expect(await db.idlePeriods.toArray()).toMatchObject([{ sessionId: 'session-1' }]);
+  });
+
+  it('should move a window with its tabs, groups and focus events', async () => {
+    await service.moveToSession('session-2', { windowPersistentIds: ['win-1'] });
+
+    const db = getDatabase();
+    expect(await db.tabs.where('sessionId').equals('session-2').count()).toBe(3);
+    expect(await sessionOf('tabGroups', 'group-1')).toBe('session-2');
+    expect(await db.windowFocusEvents.toArray()).toMatchObject([{ sessionId: 'session-2' }]);
+    expect(await session('session-1')).toMatchObject({ tabCount: 0, windowCount: 0, totalActiveTime: 0 });
+    expect(await session('session-2')).toMatchObject({ tabCount: 2, windowCount: 2, totalActiveTime: 25 * MINUTE });
+    expect(await service.moveToSession('missing', { windowPersistentIds: ['win-1'] })).toBeNull();
+  });
+});
@@ -0,0 +1,205 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { localStorage } from './setup';
+import {
+  SessionPolicyService,
+  DEFAULT_SESSION_POLICY,
+  findSessionBoundary,
+} from '../services/SessionPolicyService';
+import { getDayStart } from '../utils/time';
+import { ValidationError } from '../services/errors';
+import { StorageManager } from '../services/StorageManager';
+import { TabTracker } from '../services/TabTracker';
+import { getDatabase, closeDatabase } from '../db/schema';
+import type { TrackedTab, TabVisit, Session } from '../db/types';
+import * as fixtures from './helpers/fixtures';
+
+const MINUTE = 60 * 1000;
+// Local times, so the day boundaries hold in any time zone
+const T0 = new Date(2024, 2, 11, 9).getTime();
+const NEXT_MORNING = new Date(2024, 2, 12, 9).getTime();
+
+function createSession(overrides: Partial<Session> = {}): Session {
+  return fixtures.createSession({ startedAt: T0, tabCount: 2, createdAt: T0, updatedAt: T0, ...overrides });
+}
+
+function createTab(persistentId: string, overrides: Partial<TrackedTab> = {}): TrackedTab {
+  return fixtures.createTab({
+    persistentId,
+    url: `https://example.com/${persistentId}`,
+    urlHash: `hash-${persistentId}`,
+    title: persistentId,
+    createdAt: T0,
+    lastActivatedAt: T0,
+    visitCount: 1,
+    updatedAt: T0,
+    ...overrides,
+  });
+}
+
+function createVisit(activatedAt: number): TabVisit {
+  return fixtures.createVisit({ url: 'https://example.com/tab-1', urlHash: 'hash-tab-1', title: 'tab-1', activatedAt });
+}
+
+describe('session boundaries', () => {
+  const policy = DEFAULT_SESSION_POLICY;
+
+  it('should roll the day over at the configured hour', () => {
+    expect(getDayStart(new Date(2024, 2, 12, 2).getTime(), 4)).toBe(new Date(2024, 2, 11, 4).getTime());
+    expect(getDayStart(new Date(2024, 2, 12, 4).getTime(), 4)).toBe(new Date(2024, 2, 12, 4).getTime());
+    expect(getDayStart(new Date(2024, 2, 12, 23).getTime(), 0)).toBe(new Date(2024, 2, 12).getTime());
+  });
+
+  it('should end a session after a long enough absence', () => {
+    expect(findSessionBoundary(policy, { startedAt: T0 }, T0 + 60 * MINUTE, T0 + 120 * MINUTE)).toBe('idle-gap');
+    expect(findSessionBoundary(policy, { startedAt: T0 }, T0 + 60 * MINUTE, T0 + 90 * MINUTE)).toBeNull();
+    expect(findSessionBoundary({ ...policy, idleGapMinutes: 0 }, { startedAt: T0 }, T0, T0 + 600 * MINUTE)).toBeNull();
+  });
+
+  it('should end a session when the day rolls over', () => {
+    const lateEvening = new Date(2024, 2, 11, 23).getTime();
+    const smallHours = new Date(2024, 2, 12, 2).getTime();
+
+    const daily = { ...policy, splitDaily: true };
+
+    expect(findSessionBoundary(daily, { startedAt: lateEvening }, smallHours, smallHours)).toBeNull();
+    expect(findSessionBoundary(daily, { startedAt: lateEvening }, NEXT_MORNING, NEXT_MORNING)).toBe('new-day');
+    // Off unless the user turns it on
+    expect(findSessionBoundary(policy, { startedAt: lateEvening }, NEXT_MORNING, NEXT_MORNING)).toBeNull();
+  });
+});
+
+describe('SessionPolicyService', () => {
+  let storageManager: StorageManager;
+  let service: SessionPolicyService;
+
+  const session = (id: string) => getDatabase().sessions.get(id);
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(T0);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    storageManager = new StorageManager();
+    await storageManager.initializeWorkingState('session-1');
+    service = new SessionPolicyService(storageManager, new TabTracker(storageManager));
+
+    const db = getDatabase();
+    await db.sessions.add(createSession());
+    await db.windows.add(fixtures.createWindow({ tabCount: 2, activeTabPersistentId: 'tab-1', createdAt: T0 }));
+    await db.tabs.bulkAdd([
+      createTab('tab-1', { groupId: 3, groupPersistentId: 'group-1' }),
+      createTab('tab-2', { chromeTabId: 2, index: 1 }),
+      createTab('tab-closed', { chromeTabId: 3, closedAt: T0 + MINUTE }),
+    ]);
+    await db.tabGroups.add(fixtures.createTabGroup({ chromeGroupId: 3, title: 'Reading', color: 'green', createdAt: T0 }));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    await getDatabase().delete();
+    await closeDatabase();
+  });
+
+  it('should merge the stored policy over the defaults and validate changes', async () => {
+    localStorage.sessionPolicy = { idleGapMinutes: 30 };
+
+    expect(await service.getPolicy()).toEqual({ ...DEFAULT_SESSION_POLICY, idleGapMinutes: 30 });
+    expect(await service.updatePolicy({ dayStartHour: 6 })).toMatchObject({ idleGapMinutes: 30, dayStartHour: 6 });
+    expect(localStorage.sessionPolicy).toMatchObject({ dayStartHour: 6 });
+    await expect(service.updatePolicy({ dayStartHour: 24 })).rejects.toThrow(ValidationError);
+    await expect(service.updatePolicy({ dayStartHour: 24 })).rejects.toThrow('whole hour');
+    await expect(service.updatePolicy({ idleGapMinutes: -5 })).rejects.toThrow('Idle gap');
+  });
+
+  it('should continue after a restart only within the rules', async () => {
+    expect(await service.continuesAfterRestart(createSession({ updatedAt: T0 + 5 * MINUTE }), T0 + 30 * MINUTE)).toBe(true);
+    expect(await service.continuesAfterRestart(createSession({ updatedAt: T0 + 5 * MINUTE }), T0 + 120 * MINUTE)).toBe(false);
+  });
+
+  it('should move open records into the next session when the user returns after a gap', async () => {
+    const leftAt = T0 + 30 * MINUTE;
+    const back = T0 + 150 * MINUTE;
+    vi.setSystemTime(back);
+
+    const next = await service.checkBoundary(back, leftAt);
+
+    const db = getDatabase();
+    expect(next).toMatchObject({ isActive: true, startedAt: back, windowCount: 1, tabCount: 2 });
+    expect(storageManager.getCurrentSessionId()).toBe(next!.id);
+    // Named after the tab it kept
+    expect(await session('session-1')).toMatchObject({ isActive: false, endedAt: leftAt, name: 'example.com' });
+    expect(await db.tabs.where('sessionId').equals(next!.id).toArray()).toMatchObject([
+      { persistentId: 'tab-1' },
+      { persistentId: 'tab-2' },
+    ]);
+    expect((await db.tabs.where('persistentId').equals('tab-closed').first())?.sessionId).toBe('session-1');
+    expect((await db.windows.toCollection().first())?.sessionId).toBe(next!.id);
+    expect((await db.tabGroups.toCollection().first())?.sessionId).toBe(next!.id);
+    expect(await session('session-1')).toMatchObject({ windowCount: 0, tabCount: 0 });
+  });
+
+  it('should leave a saved session\'s open records with it', async () => {
+    await getDatabase().sessions.update('session-1', { isSaved: true });
+
+    const next = await service.startNewSession('manual');
+
+    const db = getDatabase();
+    expect(next).toMatchObject({ isSaved: false, windowCount: 0, tabCount: 0 });
+    expect(await session('session-1')).toMatchObject({ isActive: false, windowCount: 1, tabCount: 2 });
+    expect(await db.tabs.where('sessionId').equals('session-1').count()).toBe(3);
+    expect((await db.windows.toCollection().first())?.sessionId).toBe('session-1');
+    expect((await db.tabGroups.toCollection().first())?.sessionId).toBe('session-1');
+  });
+
+  it('should split the running visit at a manual boundary', async () => {
+    await getDatabase().tabVisits.add(createVisit(T0));
+    await storageManager.setActiveTab('tab-1', T0);
+
+    vi.setSystemTime(T0 + 10 * MINUTE);
+    const next = await service.startNewSession('manual');
+
+    expect(await session('session-1')).toMatchObject({ isActive: false, endedAt: T0 + 10 * MINUTE });
+    expect(await getDatabase().tabVisits.orderBy('id').toArray()).toMatchObject([
+      { sessionId: 'session-1', duration: 10 * MINUTE },
+      { sessionId: next.id, activatedAt: T0 + 10 * MINUTE, deactivatedAt: null },
+    ]);
+  });
+
+  it('should end the session at the rollover when the day changes', async () => {
+    await service.updatePolicy({ splitDaily: true });
+    vi.setSystemTime(NEXT_MORNING);
+
+    const next = await service.checkBoundary(NEXT_MORNING);
+
+    expect(next).not.toBeNull();
+    expect(await session('session-1')).toMatchObject({ endedAt: new Date(2024, 2, 12, 4).getTime() });
+  });
+
+  it('should leave the session alone while no rule applies or the user is away', async () => {
+    expect(await service.checkBoundary(T0 + 30 * MINUTE)).toBeNull();
+    expect(await service.checkBoundary(NEXT_MORNING)).toBeNull();
+
+    await service.updatePolicy({ splitDaily: true });
+    await storageManager.setIdleState('locked');
+    expect(await service.checkBoundary(NEXT_MORNING)).toBeNull();
+    expect((await session('session-1'))?.isActive).toBe(true);
+  });
+
+  it('should give new windows their own session under per-window sessions', async () => {
+    expect(await service.startWindowSession()).toBeNull();
+
+    await service.updatePolicy({ perWindow: true });
+    storageManager.setWindowSession('win-1', 'session-1');
+    const own = await service.startWindowSession();
+    storageManager.setWindowSession('win-2', own!.id);
+
+    await service.endWindowSession('win-1', T0 + 5 * MINUTE);
+
+    expect(await session('session-1')).toMatchObject({ isActive: false, endedAt: T0 + 5 * MINUTE });
+    expect(storageManager.getCurrentSessionId()).toBe(own!.id);
+    expect(storageManager.getSessionIdForWindow('win-2')).toBe(own!.id);
+    expect(storageManager.getWindowSessionIds()).toEqual([own!.id]);
+  });
+});
@@ -0,0 +1,222 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mockTabs, mockWindows, mockTabGroups } from './setup';
+import { SessionRestoreService } from '../services/SessionRestoreService';
+import { StorageManager } from '../services/StorageManager';
+import { TabTracker } from '../services/TabTracker';
+import { WindowTracker } from '../services/WindowTracker';
+import { TabGroupTracker } from '../services/TabGroupTracker';
+import { getDatabase, closeDatabase } from '../db/schema';
+import type { TrackedTab, Session } from '../db/types';
+import * as fixtures from './helpers/fixtures';
+
+const MINUTE = 60 * 1000;
+const T0 = fixtures.T0;
+const ENDED_AT = T0 + 60 * MINUTE;
+
+function createSession(overrides: Partial<Session> = {}): Session {
+  return fixtures.createSession({
+    name: 'Saved work',
+    endedAt: ENDED_AT,
+    isActive: false,
+    isSaved: true,
+    tabCount: 3,
+    ...overrides,
+  });
+}
+
+function createTab(index: number, overrides: Partial<TrackedTab> = {}): TrackedTab {
+  return fixtures.createTab({
+    persistentId: `tab-${index + 1}`,
+    chromeTabId: index + 1,
+    url: `https://example.com/${index + 1}`,
+    urlHash: `hash-${index + 1}`,
+    index,
+    ...overrides,
+  });
+}
+
+function createChromeTab(id: number, windowId: number, url: string, active: boolean): chrome.tabs.Tab {
+  return { id, windowId, index: 0, url: '', pendingUrl: url, title: '', active, pinned: false, groupId: -1, status: 'loading' } as chrome.tabs.Tab;
+}
+
+describe('SessionRestoreService', () => {
+  let storageManager: StorageManager;
+  let tabTracker: TabTracker;
+  let service: SessionRestoreService;
+
+  const tab = (persistentId: string) => getDatabase().tabs.where('persistentId').equals(persistentId).first();
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(ENDED_AT + 24 * 60 * MINUTE);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    storageManager = new StorageManager();
+    await storageManager.initializeWorkingState('session-2');
+    tabTracker = new TabTracker(storageManager);
+    const windowTracker = new WindowTracker(storageManager, tabTracker);
+    const tabGroupTracker = new TabGroupTracker(storageManager);
+    service = new SessionRestoreService(storageManager);
+
+    // Chrome fires the creation events before its API calls resolve
+    let nextId = 100;
+    mockWindows.create.mockImplementation(async (data?: chrome.windows.CreateData) => {
+      const window = { id: nextId++, type: 'normal', state: 'normal', focused: true, incognito: false } as chrome.windows.Window;
+      const firstTab = createChromeTab(nextId++, window.id!, data?.url as string, true);
+      await windowTracker.handleWindowCreated(window);
+      await tabTracker.handleTabCreated(firstTab);
+      return { ...window, tabs: [firstTab] };
+    });
+    mockTabs.create.mockImplementation(async ({ windowId, url }: chrome.tabs.CreateProperties) => {
+      const chromeTab = createChromeTab(nextId++, windowId!, url!, false);
+      await tabTracker.handleTabCreated(chromeTab);
+      return chromeTab;
+    });
+    mockTabs.group.mockImplementation(async ({ tabIds, createProperties }: chrome.tabs.GroupOptions) => {
+      const group = { id: 9, windowId: createProperties!.windowId!, title: '', color: 'grey', collapsed: false };
+      await tabGroupTracker.handleGroupCreated(group as chrome.tabGroups.TabGroup);
+      for (const tabId of tabIds as number[]) {
+        await tabGroupTracker.handleTabGroupChanged(tabId, group.id);
+      }
+      return group.id;
+    });
+    mockTabGroups.update.mockImplementation(async (groupId: number, props: chrome.tabGroups.UpdateProperties) => {
+      const group = { id: groupId, windowId: 100, ...props } as chrome.tabGroups.TabGroup;
+      await tabGroupTracker.handleGroupUpdated(group);
+      return group;
+    });
+
+    const db = getDatabase();
+    await db.sessions.bulkAdd([
+      createSession(),
+      createSession({ id: 'session-2', isActive: true, isSaved: false, startedAt: ENDED_AT, endedAt: null }),
+    ]);
+    await db.windows.bulkAdd([
+      fixtures.createWindow({ state: 'maximized', left: 10, top: 20, tabCount: 3, activeTabPersistentId: 'tab-2' }),
+      fixtures.createWindow({ persistentId: 'win-closed', chromeWindowId: 2, closedAt: T0 + 10 * MINUTE }),
+    ]);
+    await db.tabs.bulkAdd([
+      createTab(0, { pinned: true, tags: ['research'], notes: 'Keep reading' }),
+      createTab(1, { groupId: 3, groupPersistentId: 'group-1' }),
+      createTab(2, { groupId: 3, groupPersistentId: 'group-1', closedAt: ENDED_AT }),
+      createTab(3, { closedAt: T0 + 5 * MINUTE }),
+      createTab(0, { persistentId: 'tab-elsewhere', windowPersistentId: 'win-closed', closedAt: T0 + 10 * MINUTE }),
+    ]);
+    await db.tabGroups.add(fixtures.createTabGroup({
+      chromeGroupId: 3,
+      title: 'Reading',
+      color: 'green',
+      collapsed: true,
+      closedAt: ENDED_AT,
+      updatedAt: ENDED_AT,
+    }));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    await getDatabase().delete();
+    await closeDatabase();
+  });
+
+  it('should reopen the windows and tabs open when the session ended', async () => {
+    const report = await service.restoreSession('session-1');
+
+    expect(report).toEqual({ windows: 1, tabs: 3, groups: 1, skipped: 0, failed: 0 });
+    expect(mockWindows.create).toHaveBeenCalledTimes(1);
+    expect(mockWindows.create).toHaveBeenCalledWith(expect.objectContaining({
+      url: 'https://example.com/1',
+      left: 10,
+      top: 20,
+      width: 1280,
+      height: 800,
+    }));
+    expect(mockWindows.update).toHaveBeenCalledWith(100, { state: 'maximized' });
+    expect(mockTabs.create.mock.calls.map(([props]) => props)).toEqual([
+      { windowId: 100, url: 'https://example.com/2', pinned: false, active: false },
+      { windowId: 100, url: 'https://example.com/3', pinned: false, active: false },
+    ]);
+    expect(mockTabs.update).toHaveBeenCalledWith(101, { pinned: true });
+    expect(mockTabs.update).toHaveBeenCalledWith(102, { active: true });
+  });
+
+  it('should relink the new Chrome IDs to the stored records', async () => {
+    await service.restoreSession('session-1');
+    const db = getDatabase();
+
+    expect(await db.tabs.count()).toBe(5);
+    expect(await db.windows.count()).toBe(2);
+    expect(await tab('tab-1')).toMatchObject({
+      chromeTabId: 101,
+      chromeWindowId: 100,
+      sessionId: 'session-1',
+      tags: ['research'],
+      notes: 'Keep reading',
+      closedAt: null,
+    });
+    expect(storageManager.getPersistentTabId(102)).toBe('tab-2');
+    expect(storageManager.getPersistentWindowId(100)).toBe('win-1');
+    expect(await db.windows.where('persistentId').equals('win-1').first()).toMatchObject({
+      chromeWindowId: 100,
+      tabCount: 3,
+      closedAt: null,
+    });
+  });
+
+  it('should move an unsaved session\'s records into the session they reopen in', async () => {
+    const db = getDatabase();
+    await db.sessions.update('session-1', { isSaved: false, expiresAt: ENDED_AT + 24 * 60 * MINUTE });
+    await db.sessions.update('session-2', { tabCount: 0, windowCount: 0 });
+
+    await service.restoreSession('session-1');
+
+    expect(await tab('tab-1')).toMatchObject({ sessionId: 'session-2', closedAt: null });
+    expect(await db.windows.where('persistentId').equals('win-1').first()).toMatchObject({ sessionId: 'session-2' });
+    expect(await db.tabGroups.toArray()).toMatchObject([{ persistentId: 'group-1', sessionId: 'session-2' }]);
+    expect(await db.sessions.get('session-2')).toMatchObject({ tabCount: 3, windowCount: 1 });
+    // Nothing open is left for the old session's expiry to remove
+    expect(await db.tabs.where('sessionId').equals('session-1').filter((t) => t.closedAt === null).count()).toBe(0);
+  });
+
+  it('should regroup tabs into their stored group', async () => {
+    await service.restoreSession('session-1');
+
+    expect(mockTabs.group).toHaveBeenCalledWith({ tabIds: [102, 103], createProperties: { windowId: 100 } });
+    expect(mockTabGroups.update).toHaveBeenCalledWith(9, { title: 'Reading', color: 'green', collapsed: true });
+    expect(await getDatabase().tabGroups.toArray()).toMatchObject([
+      { persistentId: 'group-1', chromeGroupId: 9, title: 'Reading', closedAt: null },
+    ]);
+    expect(await tab('tab-3')).toMatchObject({ groupId: 9, groupPersistentId: 'group-1' });
+  });
+
+  it('should discard background tabs when restoring lazily', async () => {
+    await service.restoreSession('session-1', { lazy: true });
+
+    expect(mockTabs.discard.mock.calls.map(([id]) => id)).toEqual([101, 103]);
+  });
+
+  it('should skip tabs that are already open', async () => {
+    storageManager.setTabMapping(1, 'tab-1');
+
+    const report = await service.restoreSession('session-1');
+
+    expect(report).toMatchObject({ tabs: 2, skipped: 1 });
+    expect(mockWindows.create).toHaveBeenCalledWith(expect.objectContaining({ url: 'https://example.com/2' }));
+  });
+
+  it('should count a window Chrome refuses as failed and drop its claims', async () => {
+    mockWindows.create.mockRejectedValueOnce(new Error('Incognito not allowed'));
+
+    const report = await service.restoreSession('session-1');
+    const reopened = await tabTracker.handleTabCreated(createChromeTab(200, 1, 'https://example.com/1', false));
+
+    expect(report).toMatchObject({ windows: 0, tabs: 0, failed: 4 });
+    expect(reopened?.persistentId).not.toBe('tab-1');
+  });
+
+  it('should return null for an unknown session', async () => {
+    expect(await service.restoreSession('missing')).toBeNull();
+  });
+});
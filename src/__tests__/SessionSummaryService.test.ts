@@ -0,0 +1,170 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { localStorage } from './setup';
+import {
+  SessionSummaryService,
+  DEFAULT_SUMMARY_RULES,
+  summarizeSession,
+  type TabActivity,
+} from '../services/SessionSummaryService';
+import { getDatabase, closeDatabase } from '../db/schema';
+import type { TrackedTab, TabVisit, Session } from '../db/types';
+import * as fixtures from './helpers/fixtures';
+
+const MINUTE = 60 * 1000;
+const T0 = fixtures.T0;
+
+function createSession(overrides: Partial<Session> = {}): Session {
+  return fixtures.createSession({
+    name: 'Session 1',
+    endedAt: T0 + 90 * MINUTE,
+    isActive: false,
+    tags: ['work'],
+    ...overrides,
+  });
+}
+
+function createTab(persistentId: string, url: string, overrides: Partial<TrackedTab> = {}): TrackedTab {
+  return fixtures.createTab({
+    persistentId,
+    url,
+    urlHash: `hash-${persistentId}`,
+    title: persistentId,
+    visitCount: 1,
+    ...overrides,
+  });
+}
+
+function createVisit(tabPersistentId: string, url: string, title: string, duration: number): TabVisit {
+  return fixtures.createVisit({
+    tabPersistentId,
+    url,
+    urlHash: `hash-${tabPersistentId}`,
+    title,
+    deactivatedAt: T0 + duration,
+    duration,
+  });
+}
+
+function activity(url: string, title: string, activeTime: number, tags: string[] = []): TabActivity {
+  return { url, title, activeTime, tags };
+}
+
+describe('summarizeSession', () => {
+  it('should name a session after its most active domains and tags', () => {
+    const summary = summarizeSession(
+      { name: 'Session 1', tags: ['work'] },
+      [
+        activity('https://github.com/a', 'PR #12', 40 * MINUTE, ['code']),
+        activity('https://www.github.com/b', 'Issues', 5 * MINUTE, ['code']),
+        activity('https://developer.mozilla.org/x', 'Array.prototype.at', 30 * MINUTE),
+        activity('https://news.ycombinator.com', 'Hacker News', 2 * MINUTE),
+        activity('http://localhost:3000', 'Dev server', 60 * MINUTE),
+      ],
+      DEFAULT_SUMMARY_RULES
+    );
+
+    expect(summary.name).toBe('github.com, developer.mozilla.org · #code #work');
+    expect(summary.description).toBe(
+      '2h 17m active across 5 tabs on 3 sites. Most active: "Dev server", "PR #12", "Array.prototype.at"'
+    );
+  });
+
+  it('should rank domains by tab count when no time was recorded', () => {
+    const summary = summarizeSession(
+      { name: 'Session 1', tags: [] },
+      [activity('https://a.com', '', 0), activity('https://b.com/1', '', 0), activity('https://b.com/2', '', 0)],
+      { ...DEFAULT_SUMMARY_RULES, maxDomains: 1 }
+    );
+
+    expect(summary).toEqual({ name: 'b.com', description: '0m active across 3 tabs on 2 sites.' });
+  });
+
+  it('should keep the name when there is nothing to name it from', () => {
+    const tabs = [activity('chrome://newtab', 'New Tab', 0)];
+
+    expect(summarizeSession({ name: 'Session 1', tags: [] }, tabs, DEFAULT_SUMMARY_RULES)).toEqual({
+      name: 'Session 1',
+      description: '0m active across 1 tab on 0 sites.',
+    });
+  });
+});
+
+describe('SessionSummaryService', () => {
+  let service: SessionSummaryService;
+
+  const session = (id: string) => getDatabase().sessions.get(id);
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(T0 + 2 * 60 * MINUTE);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    service = new SessionSummaryService();
+
+    // tab-2 moved on to the next session, but its visit stays here
+    const db = getDatabase();
+    await db.sessions.add(createSession());
+    await db.tabs.bulkAdd([
+      createTab('tab-1', 'https://github.com/a', { tags: ['code'], closedAt: T0 + 30 * MINUTE }),
+      createTab('tab-2', 'https://docs.python.org/3/', { sessionId: 'session-2' }),
+    ]);
+    await db.tabVisits.bulkAdd([
+      createVisit('tab-1', 'https://github.com/a', 'Pull request', 10 * MINUTE),
+      createVisit('tab-2', 'https://docs.python.org/3/', 'Python docs', 25 * MINUTE),
+    ]);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    await getDatabase().delete();
+    await closeDatabase();
+  });
+
+  it('should summarize from the time spent in the session', async () => {
+    const summarized = await service.summarize('session-1');
+
+    expect(summarized).toMatchObject({
+      name: 'docs.python.org, github.com · #work #code',
+      description: '35m active across 2 tabs on 2 sites. Most active: "Python docs", "Pull request"',
+      isNamedByUser: false,
+    });
+    expect(await session('session-1')).toMatchObject({ name: summarized!.name });
+    expect(await service.summarize('missing')).toBeNull();
+  });
+
+  it('should leave a name the user set unless forced', async () => {
+    await service.rename('session-1', '  Tax return  ', 'Forms and receipts');
+    expect(await session('session-1')).toMatchObject({
+      name: 'Tax return',
+      description: 'Forms and receipts',
+      isNamedByUser: true,
+    });
+
+    await service.summarize('session-1');
+    expect((await session('session-1'))?.name).toBe('Tax return');
+
+    await service.summarize('session-1', { force: true });
+    expect(await session('session-1')).toMatchObject({
+      name: 'docs.python.org, github.com · #work #code',
+      isNamedByUser: false,
+    });
+
+    await expect(service.rename('session-1', ' ')).rejects.toThrow('cannot be empty');
+  });
+
+  it('should merge the stored rules over the defaults and validate changes', async () => {
+    localStorage.summaryRules = { maxTags: 0 };
+
+    expect(await service.getRules()).toEqual({ ...DEFAULT_SUMMARY_RULES, maxTags: 0 });
+    expect(await service.updateRules({ ignoredDomains: [' GitHub.com ', ''] })).toMatchObject({
+      maxTags: 0,
+      ignoredDomains: ['github.com'],
+    });
+    expect(localStorage.summaryRules).toMatchObject({ ignoredDomains: ['github.com'] });
+    await expect(service.updateRules({ maxTitles: 1.5 })).rejects.toThrow('maxTitles');
+
+    expect((await service.summarize('session-1'))?.name).toBe('docs.python.org');
+  });
+});
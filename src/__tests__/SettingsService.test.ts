@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { syncStorage } from './setup';
+import {
+  SettingsService,
+  DEFAULT_SETTINGS,
+  SettingsValidationError,
+  migrateSettings,
+  validateSettings,
+  type SettingsMigration,
+} from '../services/SettingsService';
+
+describe('migrateSettings', () => {
+  it('should fill in defaults and drop settings that no longer exist', () => {
+    const settings = migrateSettings({
+      version: 1,
+      timing: { tabUpdateDebounceMs: 250, removedSetting: 5 },
+      retention: { archiveExpired: false, visitTtlDays: 'forever' },
+      legacy: { anything: true },
+    });
+
+    expect(settings.timing.tabUpdateDebounceMs).toBe(250);
+    // Values of the wrong type fall back to the default
+    expect(settings.retention).toMatchObject({ archiveExpired: false, visitTtlDays: 30 });
+    expect(settings.timing.windowFocusDebounceMs).toBe(DEFAULT_SETTINGS.timing.windowFocusDebounceMs);
+    expect(settings.timing).not.toHaveProperty('removedSetting');
+    expect(settings).not.toHaveProperty('legacy');
+    expect(migrateSettings(undefined)).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('should only run migrations newer than the stored version', () => {
+    const migrations: SettingsMigration[] = [
+      { version: 1, description: 'Initial', migrate: vi.fn((stored) => stored) },
+      {
+        version: 2,
+        description: 'Proximity in minutes instead of seconds',
+        migrate: ({ relationships, ...rest }) => {
+          const { proximitySeconds } = relationships as { proximitySeconds: number };
+          return { ...rest, relationships: { temporalProximityMinutes: proximitySeconds / 60 } };
+        },
+      },
+    ];
+
+    const settings = migrateSettings({ version: 1, relationships: { proximitySeconds: 900 } }, migrations);
+
+    expect(migrations[0]!.migrate).not.toHaveBeenCalled();
+    expect(settings.version).toBe(2);
+    expect(settings.relationships.temporalProximityMinutes).toBe(15);
+  });
+});
+
+describe('validateSettings', () => {
+  it('should apply changes that are in range', () => {
+    const settings = validateSettings({ storage: { dataPageSize: 1000 } });
+
+    expect(settings.storage.dataPageSize).toBe(1000);
+    expect(DEFAULT_SETTINGS.storage.dataPageSize).toBe(500);
+  });
+
+  it('should reject unknown, out-of-range and inconsistent settings', () => {
+    expect(() => validateSettings({ timing: { idleDetectionSeconds: 5 } })).toThrow(
+      'Idle after (seconds) must be between 15 and 3600'
+    );
+    expect(() => validateSettings({ timing: { tabUpdateDebounceMs: 12.5 } })).toThrow('must be a whole number');
+    expect(() => validateSettings({ timing: { nope: 1 } } as never)).toThrow('Unknown setting: timing.nope');
+    expect(() => validateSettings({ timing: { tabUpdateDebounceMs: 1000, tabUpdateMaxWaitMs: 500 } })).toThrow(
+      SettingsValidationError
+    );
+    expect(() => validateSettings({ storage: { dataPageSize: 6000 } })).toThrow('must not exceed');
+    expect(() => validateSettings({ retention: { archiveExpired: 0 } } as never)).toThrow('must be on or off');
+    expect(validateSettings({ retention: { archiveExpired: false } }).retention.archiveExpired).toBe(false);
+  });
+});
+
+describe('SettingsService', () => {
+  let service: SettingsService;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    service = new SettingsService();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should load stored settings and fall back to the defaults before loading', async () => {
+    syncStorage.settings = { version: 1, relationships: { weakRelationshipThreshold: 0.5 } };
+
+    expect(service.getCurrent()).toEqual(DEFAULT_SETTINGS);
+    expect((await service.getSettings()).relationships.weakRelationshipThreshold).toBe(0.5);
+    expect(service.getCurrent().relationships.weakRelationshipThreshold).toBe(0.5);
+  });
+
+  it('should store updates in sync storage and tell listeners', async () => {
+    const listener = vi.fn();
+    const unsubscribe = service.onChange(listener);
+
+    await service.updateSettings({ timing: { flushAlarmMinutes: 2 } });
+
+    expect((syncStorage.settings as typeof DEFAULT_SETTINGS).timing.flushAlarmMinutes).toBe(2);
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ timing: expect.objectContaining({ flushAlarmMinutes: 2 }) }),
+      DEFAULT_SETTINGS
+    );
+
+    unsubscribe();
+    await service.resetSettings();
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(service.getCurrent()).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('should leave settings alone when an update is rejected', async () => {
+    await expect(service.updateSettings({ storage: { maxPendingWrites: 0 } })).rejects.toThrow(
+      SettingsValidationError
+    );
+    expect(syncStorage.settings).toBeUndefined();
+  });
+
+  it('should take in settings synced from another browser once', async () => {
+    const listener = vi.fn();
+    service.onChange(listener);
+    const synced = { ...DEFAULT_SETTINGS, timing: { ...DEFAULT_SETTINGS.timing, idleDetectionSeconds: 120 } };
+
+    await service.handleStorageChange({ settings: { newValue: synced } }, 'sync');
+    await service.handleStorageChange({ settings: { newValue: synced } }, 'sync');
+    await service.handleStorageChange({ settings: { newValue: DEFAULT_SETTINGS } }, 'local');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(service.getCurrent().timing.idleDetectionSeconds).toBe(120);
+  });
+
+  it('should compare a change arriving before the first load with the stored settings', async () => {
+    const listener = vi.fn();
+    service.onChange(listener);
+    const stored = { ...DEFAULT_SETTINGS, timing: { ...DEFAULT_SETTINGS.timing, idleDetectionSeconds: 120 } };
+    const synced = { ...DEFAULT_SETTINGS, timing: { ...DEFAULT_SETTINGS.timing, idleDetectionSeconds: 300 } };
+    syncStorage.settings = stored;
+
+    await service.handleStorageChange({ settings: { newValue: stored } }, 'sync');
+    expect(listener).not.toHaveBeenCalled();
+
+    await service.handleStorageChange({ settings: { newValue: synced } }, 'sync');
+    expect(listener).toHaveBeenCalledWith(synced, stored);
+  });
+});
@@ -0,0 +1,148 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mockTabGroups } from './setup';
+import { TabGroupTracker } from '../services/TabGroupTracker';
+import type { StorageManager } from '../services/StorageManager';
+import { getDatabase, closeDatabase } from '../db/schema';
+import { T0, createTab } from './helpers/fixtures';
+
+function createChromeGroup(overrides: Partial<chrome.tabGroups.TabGroup> = {}): chrome.tabGroups.TabGroup {
+  return {
+    id: 7,
+    windowId: 1,
+    title: 'Research',
+    color: 'blue',
+    collapsed: false,
+    ...overrides,
+  } as chrome.tabGroups.TabGroup;
+}
+
+// Group mappings held in memory, as StorageManager keeps them
+function createStorageManager() {
+  const groupIds = new Map<number, string>();
+  const storageManager = {
+    ensureInitialized: async () => {},
+    getCurrentSessionId: () => 'session-1',
+    getPersistentWindowId: (windowId: number) => (windowId === 1 ? 'win-1' : `win-${windowId}`),
+    getPersistentTabId: (tabId: number) => (tabId === 1 ? 'tab-1' : undefined),
+    getPersistentGroupId: (groupId: number) => groupIds.get(groupId),
+    setGroupMapping: (groupId: number, persistentId: string) => groupIds.set(groupId, persistentId),
+    setChromeGroupId: (groupId: number, persistentId: string) => groupIds.set(groupId, persistentId),
+    removeGroupMapping: (groupId: number) => groupIds.delete(groupId),
+    claimRestoredGroup: () => undefined,
+  } as unknown as StorageManager;
+  return { groupIds, storageManager };
+}
+
+describe('TabGroupTracker', () => {
+  let groupIds: Map<number, string>;
+  let tracker: TabGroupTracker;
+
+  const groups = () => getDatabase().tabGroups.toArray();
+  const tab = () => getDatabase().tabs.where('persistentId').equals('tab-1').first();
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(T0);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const created = createStorageManager();
+    groupIds = created.groupIds;
+    tracker = new TabGroupTracker(created.storageManager);
+
+    await getDatabase().tabs.add(createTab());
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    await getDatabase().delete();
+    await closeDatabase();
+  });
+
+  it('should record a created group and follow its changes', async () => {
+    await tracker.handleGroupCreated(createChromeGroup());
+    const persistentId = groupIds.get(7);
+
+    vi.setSystemTime(T0 + 1000);
+    await tracker.handleGroupUpdated(createChromeGroup({ title: 'Reading', color: 'red', collapsed: true }));
+    await tracker.handleGroupMoved(createChromeGroup({ title: 'Reading', color: 'red', collapsed: true, windowId: 2 }));
+
+    expect(await groups()).toMatchObject([
+      {
+        persistentId,
+        chromeGroupId: 7,
+        sessionId: 'session-1',
+        title: 'Reading',
+        color: 'red',
+        collapsed: true,
+        chromeWindowId: 2,
+        windowPersistentId: 'win-2',
+        createdAt: T0,
+        closedAt: null,
+        updatedAt: T0 + 1000,
+      },
+    ]);
+  });
+
+  it('should close a removed group and forget its Chrome ID', async () => {
+    await tracker.handleGroupCreated(createChromeGroup());
+
+    vi.setSystemTime(T0 + 5000);
+    await tracker.handleGroupRemoved(createChromeGroup());
+
+    expect(await groups()).toMatchObject([{ closedAt: T0 + 5000 }]);
+    expect(groupIds.has(7)).toBe(false);
+  });
+
+  it('should move a tab into a known group and back out', async () => {
+    await tracker.handleGroupCreated(createChromeGroup());
+
+    await tracker.handleTabGroupChanged(1, 7);
+    expect(await tab()).toMatchObject({ groupId: 7, groupPersistentId: groupIds.get(7) });
+
+    await tracker.handleTabGroupChanged(1, chrome.tabGroups.TAB_GROUP_ID_NONE);
+    expect(await tab()).toMatchObject({ groupId: -1, groupPersistentId: null });
+  });
+
+  it('should create the group record when the tab event arrives first', async () => {
+    mockTabGroups.get.mockResolvedValueOnce(createChromeGroup({ title: 'Early' }));
+
+    await tracker.handleTabGroupChanged(1, 7);
+
+    expect(mockTabGroups.get).toHaveBeenCalledWith(7);
+    expect(await groups()).toMatchObject([{ title: 'Early', chromeGroupId: 7 }]);
+    expect((await tab())?.groupPersistentId).toBe(groupIds.get(7));
+  });
+
+  it('should leave the tab ungrouped when the group is already gone', async () => {
+    mockTabGroups.get.mockRejectedValueOnce(new Error('No group with id: 7'));
+
+    await tracker.handleTabGroupChanged(1, 7);
+
+    expect(await groups()).toEqual([]);
+    expect(await tab()).toMatchObject({ groupId: 7, groupPersistentId: null });
+  });
+
+  it('should reuse open records on reconcile and close the rest', async () => {
+    await tracker.handleGroupCreated(createChromeGroup());
+    await tracker.handleGroupCreated(createChromeGroup({ id: 8, title: 'Stale' }));
+    const kept = groupIds.get(7);
+    groupIds.clear();
+
+    vi.setSystemTime(T0 + 1000);
+    const reused = await tracker.reconcileGroup(createChromeGroup({ title: 'Renamed' }), 'session-1', 'win-1');
+    const fresh = await tracker.reconcileGroup(createChromeGroup({ id: 9 }), 'session-1', 'win-1');
+    const closed = await tracker.closeStaleGroups(new Set([reused.persistentId, fresh.persistentId]));
+
+    expect(reused).toMatchObject({ persistentId: kept, title: 'Renamed', createdAt: T0 });
+    expect(closed).toBe(1);
+    expect(await tracker.getGroupsInSession('session-1')).toMatchObject([
+      { chromeGroupId: 7, closedAt: null },
+      { chromeGroupId: 8, closedAt: T0 + 1000 },
+      { chromeGroupId: 9, closedAt: null },
+    ]);
+    expect([...groupIds.keys()]).toEqual([7, 9]);
+  });
+});
@@ -0,0 +1,168 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TabTracker } from '../services/TabTracker';
+import { StorageManager } from '../services/StorageManager';
+import { getDatabase, closeDatabase } from '../db/schema';
+import type { TabNavigation, Session } from '../db/types';
+import * as fixtures from './helpers/fixtures';
+
+const MINUTE = 60 * 1000;
+const T0 = fixtures.T0;
+
+function createChromeTab(id: number, url: string, title = ''): chrome.tabs.Tab {
+  return { id, windowId: 1, index: 0, url, title, active: false, pinned: false, groupId: -1, status: 'complete' } as chrome.tabs.Tab;
+}
+
+function createNavigation(navigatedAt: number, url: string): TabNavigation {
+  return {
+    tabPersistentId: 'imported',
+    sessionId: 'session-1',
+    url,
+    urlHash: `hash-${url}`,
+    title: url,
+    navigatedAt,
+    leftAt: null,
+    dwellTime: 0,
+    previousNavigationId: null,
+    windowPersistentId: 'win-1',
+  };
+}
+
+function createSession(id: string, overrides: Partial<Session> = {}): Session {
+  return fixtures.createSession({ id, name: id, windowCount: 0, tabCount: 0, ...overrides });
+}
+
+describe('TabTracker navigation history', () => {
+  let tabTracker: TabTracker;
+  let storageManager: StorageManager;
+
+  const navigations = () => getDatabase().tabNavigations.toArray();
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(T0);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    storageManager = new StorageManager();
+    await storageManager.initializeWorkingState('session-1');
+    tabTracker = new TabTracker(storageManager);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    await getDatabase().delete();
+    await closeDatabase();
+  });
+
+  it('should open a navigation per URL, retitle it and close it when the tab goes', async () => {
+    const tab = (await tabTracker.handleTabCreated(createChromeTab(1, 'https://example.com/a', 'A')))!;
+
+    vi.setSystemTime(T0 + 2 * MINUTE);
+    await tabTracker['_handleTabUpdated'](1, { url: 'https://example.com/b' }, createChromeTab(1, 'https://example.com/b'));
+    await tabTracker['_handleTabUpdated'](1, { title: 'B' }, createChromeTab(1, 'https://example.com/b', 'B'));
+
+    vi.setSystemTime(T0 + 5 * MINUTE);
+    await tabTracker.handleTabRemoved(1, { windowId: 1, isWindowClosing: false });
+
+    const [first, second] = await navigations();
+    expect(first).toMatchObject({
+      tabPersistentId: tab.persistentId,
+      sessionId: 'session-1',
+      url: 'https://example.com/a',
+      title: 'A',
+      navigatedAt: T0,
+      leftAt: T0 + 2 * MINUTE,
+      dwellTime: 2 * MINUTE,
+      previousNavigationId: null,
+    });
+    expect(second).toMatchObject({
+      url: 'https://example.com/b',
+      title: 'B',
+      navigatedAt: T0 + 2 * MINUTE,
+      leftAt: T0 + 5 * MINUTE,
+      dwellTime: 3 * MINUTE,
+      previousNavigationId: first!.id,
+    });
+  });
+
+  it('should record no navigation for a title change or a tab without a URL', async () => {
+    await tabTracker.handleTabCreated(createChromeTab(1, 'https://example.com/a'));
+    await tabTracker.handleTabCreated(createChromeTab(2, ''));
+    await tabTracker['_handleTabUpdated'](1, { title: 'A' }, createChromeTab(1, 'https://example.com/a', 'A'));
+
+    expect((await navigations()).map((n) => [n.url, n.title, n.leftAt])).toEqual([['https://example.com/a', 'A', null]]);
+  });
+
+  it('should link a reopened tab to its history', async () => {
+    const tab = (await tabTracker.handleTabCreated(createChromeTab(1, 'https://example.com/a')))!;
+    vi.setSystemTime(T0 + MINUTE);
+    await tabTracker.handleTabRemoved(1, { windowId: 1, isWindowClosing: false });
+
+    vi.setSystemTime(T0 + 2 * MINUTE);
+    const reopened = await tabTracker.handleTabCreated(createChromeTab(2, 'https://example.com/a'));
+
+    expect(reopened?.persistentId).toBe(tab.persistentId);
+    const [first, second] = await navigations();
+    expect(second).toMatchObject({ navigatedAt: T0 + 2 * MINUTE, leftAt: null, previousNavigationId: first!.id });
+  });
+
+  it('should list a tab\'s navigations latest first, whatever order they were stored in', async () => {
+    await getDatabase().tabNavigations.bulkAdd([
+      createNavigation(T0 + 2 * MINUTE, 'https://example.com/c'),
+      createNavigation(T0, 'https://example.com/a'),
+      createNavigation(T0 + MINUTE, 'https://example.com/b'),
+    ]);
+
+    expect((await tabTracker.getTabNavigations('imported')).map((n) => n.url)).toEqual([
+      'https://example.com/c',
+      'https://example.com/b',
+      'https://example.com/a',
+    ]);
+    expect((await tabTracker.getTabNavigations('imported', 1)).map((n) => n.url)).toEqual(['https://example.com/c']);
+  });
+
+  it('should count a closed tab against the session holding it, not the current one', async () => {
+    const db = getDatabase();
+    await db.sessions.bulkAdd([
+      createSession('session-1'),
+      createSession('session-2', { tabCount: 1 }),
+      createSession('saved', { isSaved: true, isActive: false, endedAt: T0 }),
+    ]);
+    const kept = (await tabTracker.handleTabCreated(createChromeTab(1, 'https://example.com/saved')))!;
+    await db.tabs.update(kept.id!, { sessionId: 'saved', closedAt: T0 });
+    await db.sessions.update('session-1', { tabCount: 0 });
+
+    // Reopened from the saved session, which keeps it
+    storageManager.expectRestoredTab('https://example.com/saved', kept.persistentId);
+    await tabTracker.handleTabCreated(createChromeTab(2, 'https://example.com/saved'));
+    await storageManager.setActiveTab(kept.persistentId, T0);
+    expect(await db.sessions.get('saved')).toMatchObject({ tabCount: 1 });
+
+    // Closed while another session is current
+    await storageManager.setCurrentSessionId('session-2');
+    vi.setSystemTime(T0 + MINUTE);
+    await tabTracker.handleTabRemoved(2, { windowId: 1, isWindowClosing: false });
+
+    expect(await db.sessions.get('saved')).toMatchObject({ tabCount: 0, totalActiveTime: MINUTE });
+    expect(await db.sessions.get('session-1')).toMatchObject({ tabCount: 0, totalActiveTime: 0 });
+    expect(await db.sessions.get('session-2')).toMatchObject({ tabCount: 1, totalActiveTime: 0 });
+  });
+
+  it('should count a closed tab against its window\'s session while another window has focus', async () => {
+    const db = getDatabase();
+    await db.sessions.bulkAdd([createSession('session-1'), createSession('session-2', { tabCount: 1 })]);
+    storageManager.setWindowMapping(1, 'win-a');
+    storageManager.setWindowSession('win-a', 'session-1');
+    storageManager.setWindowSession('win-b', 'session-2');
+
+    await tabTracker.handleTabCreated(createChromeTab(1, 'https://example.com/a'));
+    // Window B takes focus, and with it the current session
+    await storageManager.setCurrentSessionId('session-2');
+    await tabTracker.handleTabRemoved(1, { windowId: 1, isWindowClosing: false });
+
+    expect(await db.sessions.get('session-1')).toMatchObject({ tabCount: 0 });
+    expect(await db.sessions.get('session-2')).toMatchObject({ tabCount: 1 });
+  });
+});
@@ -0,0 +1,218 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  TagService,
+  tagSimilarityKey,
+  defaultTagColor,
+  TAG_COLORS,
+} from '../services/TagService';
+import { SearchService } from '../services/SearchService';
+import { ValidationError } from '../services/errors';
+import { normalizeTags } from '../utils/tags';
+import type { StorageManager } from '../services/StorageManager';
+import { getDatabase, closeDatabase } from '../db/schema';
+import type { TrackedTab, Session, ArchivedSession } from '../db/types';
+import * as fixtures from './helpers/fixtures';
+
+function createSession(id: string, tags: string[]): Session {
+  return fixtures.createSession({ id, name: id, isActive: false, tags });
+}
+
+function createTab(persistentId: string, tags: string[]): TrackedTab {
+  return fixtures.createTab({
+    persistentId,
+    url: `https://example.com/${persistentId}`,
+    urlHash: `hash-${persistentId}`,
+    title: persistentId,
+    visitCount: 1,
+    tags,
+  });
+}
+
+describe('tag helpers', () => {
+  it('should normalize names and drop blanks and repeats', () => {
+    expect(normalizeTags([' Work ', 'work', 'Deep   Dive', ''])).toEqual(['work', 'deep dive']);
+  });
+
+  it('should give near-duplicates the same key', () => {
+    expect(tagSimilarityKey('To-Read')).toBe(tagSimilarityKey('to reads'));
+    expect(tagSimilarityKey('javascript')).not.toBe(tagSimilarityKey('js'));
+    // Short words keep their s
+    expect(tagSimilarityKey('ops')).toBe('ops');
+  });
+
+  it('should always color a name the same', () => {
+    expect(defaultTagColor('research')).toBe(defaultTagColor('research'));
+    expect(TAG_COLORS).toContain(defaultTagColor('research'));
+  });
+});
+
+describe('TagService', () => {
+  let service: TagService;
+  let searchService: SearchService;
+
+  const db = () => getDatabase();
+  const tabTags = async (persistentId: string) =>
+    (await db().tabs.where('persistentId').equals(persistentId).first())?.tags;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    searchService = new SearchService({ flushWrites: () => Promise.resolve() } as unknown as StorageManager);
+    vi.spyOn(searchService, 'scheduleReindex').mockImplementation(() => {});
+    service = new TagService(searchService);
+
+    await db().tabs.bulkAdd([
+      createTab('tab-1', ['js', 'research']),
+      createTab('tab-2', ['javascript']),
+      createTab('tab-3', ['js', 'javascript']),
+    ]);
+    await db().sessions.add(createSession('session-1', ['research']));
+    await service.recountUsage();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await getDatabase().delete();
+    await closeDatabase();
+  });
+
+  it('should build the vocabulary from the tags on tabs and sessions', async () => {
+    expect((await service.getTags()).map((t) => [t.name, t.usageCount])).toEqual([
+      ['javascript', 2],
+      ['js', 2],
+      ['research', 2],
+    ]);
+    expect(await service.recountUsage()).toBe(0);
+  });
+
+  it('should create tags with the usage they already have', async () => {
+    expect(await service.createTag(' Reading  List ', '#22c55e')).toMatchObject({
+      name: 'reading list',
+      color: '#22c55e',
+      usageCount: 0,
+    });
+    await expect(service.createTag('JS')).rejects.toThrow('already exists');
+    await expect(service.createTag('new', 'green')).rejects.toThrow('Invalid tag color');
+    await expect(service.createTag('  ')).rejects.toThrow(ValidationError);
+  });
+
+  it('should rename a tag on every tab, session and archive', async () => {
+    await db().archivedSessions.add({
+      id: 'archived',
+      tags: ['research'],
+      tabs: [{ persistentId: 'tab-old', tags: ['research', 'js'] }],
+    } as ArchivedSession);
+
+    expect(await service.renameTag('research', 'Reading')).toMatchObject({ name: 'reading', usageCount: 2 });
+
+    expect(await tabTags('tab-1')).toEqual(['js', 'reading']);
+    expect((await db().sessions.get('session-1'))?.tags).toEqual(['reading']);
+    const archive = await db().archivedSessions.get('archived');
+    expect(archive?.tags).toEqual(['reading']);
+    expect(archive?.tabs[0]?.tags).toEqual(['reading', 'js']);
+    expect(searchService.scheduleReindex).toHaveBeenCalledWith('tab-1');
+    await expect(service.renameTag('reading', 'js')).rejects.toThrow('already exists');
+    expect(await service.renameTag('missing', 'other')).toBeNull();
+  });
+
+  it('should merge tags, carrying the target once per tab', async () => {
+    const merged = await service.mergeTags(['js', 'missing'], 'javascript');
+
+    expect(merged).toMatchObject({ name: 'javascript', usageCount: 3 });
+    expect(await tabTags('tab-1')).toEqual(['javascript', 'research']);
+    expect(await tabTags('tab-3')).toEqual(['javascript']);
+    expect((await service.getTags()).map((t) => t.name)).toEqual(['javascript', 'research']);
+    expect(await service.mergeTags(['js'], 'missing')).toBeNull();
+  });
+
+  it('should delete a tag from everything that carried it', async () => {
+    expect(await service.deleteTag('research')).toBe(true);
+
+    expect(await tabTags('tab-1')).toEqual(['js']);
+    expect((await db().sessions.get('session-1'))?.tags).toEqual([]);
+    expect(await service.getTag('research')).toBeUndefined();
+    expect(await service.deleteTag('research')).toBe(false);
+  });
+
+  it('should recount tags when a tab is retagged', async () => {
+    await db().tabs.where('persistentId').equals('tab-2').modify({ tags: ['js', 'rust'] });
+    await service.refreshUsage(['javascript', 'js', 'rust']);
+
+    expect((await service.getTag('javascript'))?.usageCount).toBe(1);
+    expect((await service.getTag('js'))?.usageCount).toBe(3);
+    expect((await service.getTag('rust'))?.usageCount).toBe(1);
+  });
+
+  it('should create nested tags under the tags they sit in', async () => {
+    expect(await service.createTag('Project / UNOS/ backend')).toMatchObject({
+      name: 'project/unos/backend',
+      parent: 'project/unos',
+      aliases: [],
+    });
+    expect((await service.getTag('project'))?.parent).toBeNull();
+    expect((await service.getTag('project/unos'))?.parent).toBe('project');
+  });
+
+  it('should match tags nested under a tag through the tags index', async () => {
+    await db().tabs.bulkAdd([createTab('tab-4', ['project/unos/backend']), createTab('tab-5', ['projects'])]);
+
+    const tagged = await service.tabsTagged(['project', 'research']).toArray();
+
+    expect(tagged.map((t) => t.persistentId).sort()).toEqual(['tab-1', 'tab-4']);
+  });
+
+  it('should move nested tags with their parent on rename and delete', async () => {
+    await db().tabs.bulkAdd([createTab('tab-4', ['project/unos', 'js']), createTab('tab-5', ['project/old'])]);
+    await service.recountUsage();
+
+    await service.renameTag('project', 'Work/Project');
+
+    expect(await tabTags('tab-4')).toEqual(['work/project/unos', 'js']);
+    expect(await service.getTag('project/unos')).toBeUndefined();
+    expect(await service.getTag('work/project/unos')).toMatchObject({ parent: 'work/project', usageCount: 1 });
+    expect(await service.getTag('work')).toBeDefined();
+    await expect(service.renameTag('work', 'work/nested')).rejects.toThrow('under itself');
+    await expect(service.mergeTags(['work'], 'work/project')).rejects.toThrow(ValidationError);
+
+    expect(await service.deleteTag('work/project')).toBe(true);
+    expect(await tabTags('tab-4')).toEqual(['js']);
+    expect(await tabTags('tab-5')).toEqual([]);
+    expect((await service.getTags()).map((t) => t.name)).not.toContain('work/project/old');
+  });
+
+  it('should fold a tag into the one it becomes an alias of', async () => {
+    await db().tabs.add(createTab('tab-4', ['js/react']));
+
+    const tag = await service.addAlias('javascript', 'JS');
+
+    expect(tag).toMatchObject({ name: 'javascript', aliases: ['js'], usageCount: 3 });
+    expect(await tabTags('tab-1')).toEqual(['javascript', 'research']);
+    expect(await tabTags('tab-4')).toEqual(['javascript/react']);
+    expect(await service.getTag('js')).toBeUndefined();
+    expect(await service.resolveTags(['JS/React', 'js', 'javascript'])).toEqual(['javascript/react', 'javascript']);
+    await expect(service.addAlias('research', 'js')).rejects.toThrow('already an alias of "javascript"');
+    await expect(service.addAlias('research', 'research/new')).rejects.toThrow(ValidationError);
+    await expect(service.addAlias('research', ' / ')).rejects.toThrow('Alias cannot be empty');
+    await expect(service.createTag('js')).rejects.toThrow('Tag "javascript" already exists');
+  });
+
+  it('should resolve aliases left on tabs, and forget removed ones', async () => {
+    await service.addAlias('research', 'reading');
+    await db().tabs.add(createTab('tab-4', ['reading']));
+
+    await service.resolveStoredAliases();
+    expect(await tabTags('tab-4')).toEqual(['research']);
+
+    expect((await service.removeAlias('research', 'reading'))?.aliases).toEqual([]);
+    expect(await service.resolveTag('reading')).toBe('reading');
+  });
+
+  it('should group near-duplicate tags', async () => {
+    await service.createTag('to-read');
+    await service.createTag('to reads');
+
+    expect((await service.findDuplicates()).map((group) => group.map((t) => t.name).sort())).toEqual([
+      ['to reads', 'to-read'],
+    ]);
+  });
+});
@@ -0,0 +1,153 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { WindowTracker } from '../services/WindowTracker';
+import { TabTracker } from '../services/TabTracker';
+import { SessionPolicyService } from '../services/SessionPolicyService';
+import type { StorageManager } from '../services/StorageManager';
+import { getDatabase, closeDatabase } from '../db/schema';
+import { T0, createSession, createWindow, createTab, createVisit } from './helpers/fixtures';
+
+const MINUTE = 60 * 1000;
+
+// Working state held in memory - win-1 focused and tab-1 active since T0
+function createStorageManager() {
+  const state = {
+    activeWindow: 'win-1' as string | null,
+    focusedAt: T0,
+    activeTab: 'tab-1' as string | null,
+    activatedAt: T0,
+    blurredAt: 0,
+  };
+  const storageManager = {
+    ensureInitialized: async () => {},
+    getCurrentSessionId: () => 'session-1',
+    getPersistentWindowId: (windowId: number) => (windowId === 1 ? 'win-1' : undefined),
+    getPersistentTabId: (tabId: number) => `tab-${tabId}`,
+    getWindowSessionId: () => undefined,
+    removeWindowMapping: () => {},
+    getActiveWindowPersistentId: () => state.activeWindow,
+    getWindowFocusTimestamp: () => state.focusedAt,
+    setActiveWindow: async (persistentId: string | null, timestamp: number) => {
+      state.activeWindow = persistentId;
+      state.focusedAt = timestamp;
+    },
+    getActiveTabPersistentId: () => state.activeTab,
+    getTabActivationTimestamp: () => state.activatedAt,
+    setActiveTab: async (persistentId: string | null, timestamp: number) => {
+      state.activeTab = persistentId;
+      state.activatedAt = timestamp;
+    },
+    getBrowserBlurTimestamp: () => state.blurredAt,
+    setBrowserBlurTimestamp: async (timestamp: number) => {
+      state.blurredAt = timestamp;
+    },
+  } as unknown as StorageManager;
+  return { state, storageManager };
+}
+
+describe('WindowTracker browser focus', () => {
+  let state: ReturnType<typeof createStorageManager>['state'];
+  let tabTracker: TabTracker;
+  let windowTracker: WindowTracker;
+
+  // Run the focus handler at a given time, skipping the debounce
+  const focusChanged = async (windowId: number, at: number) => {
+    vi.setSystemTime(at);
+    await windowTracker['_handleWindowFocusChanged'](windowId);
+  };
+
+  const activateTab = async (tabId: number, at: number) => {
+    vi.setSystemTime(at);
+    await tabTracker.handleTabActivated({ tabId, windowId: 1 });
+  };
+
+  const visits = () => getDatabase().tabVisits.orderBy('id').toArray();
+  const totalOf = async (persistentId: string) =>
+    (await getDatabase().tabs.where('persistentId').equals(persistentId).first())?.totalActiveTime;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    const created = createStorageManager();
+    state = created.state;
+    tabTracker = new TabTracker(created.storageManager);
+    windowTracker = new WindowTracker(
+      created.storageManager,
+      tabTracker,
+      new SessionPolicyService(created.storageManager, tabTracker)
+    );
+
+    const db = getDatabase();
+    await db.sessions.add(createSession({ tabCount: 2 }));
+    await db.windows.add(createWindow({ tabCount: 2, activeTabPersistentId: 'tab-1' }));
+    await db.tabs.bulkAdd([1, 2].map((i) => createTab({ persistentId: `tab-${i}`, chromeTabId: i, index: i })));
+    await db.tabVisits.add(createVisit());
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    await getDatabase().delete();
+    await closeDatabase();
+  });
+
+  it('should credit time up to the blur and stop the clock with the visit open', async () => {
+    await focusChanged(chrome.windows.WINDOW_ID_NONE, T0 + 10 * MINUTE);
+
+    expect(await totalOf('tab-1')).toBe(10 * MINUTE);
+    expect((await getDatabase().sessions.get('session-1'))?.totalActiveTime).toBe(10 * MINUTE);
+    expect(await visits()).toMatchObject([{ deactivatedAt: null, awayDuration: 0 }]);
+    expect(state).toMatchObject({ activeTab: 'tab-1', activatedAt: 0, blurredAt: T0 + 10 * MINUTE });
+  });
+
+  it('should record the time away on the visit and restart the clock on refocus', async () => {
+    await focusChanged(chrome.windows.WINDOW_ID_NONE, T0 + 10 * MINUTE);
+    await focusChanged(1, T0 + 25 * MINUTE);
+
+    expect(state).toMatchObject({ activatedAt: T0 + 25 * MINUTE, blurredAt: 0 });
+
+    await activateTab(2, T0 + 30 * MINUTE);
+
+    expect(await totalOf('tab-1')).toBe(15 * MINUTE);
+    expect((await visits())[0]).toMatchObject({ duration: 30 * MINUTE, awayDuration: 15 * MINUTE });
+  });
+
+  it('should keep the clock stopped across a tab switch while unfocused', async () => {
+    await focusChanged(chrome.windows.WINDOW_ID_NONE, T0 + 10 * MINUTE);
+    await activateTab(2, T0 + 20 * MINUTE);
+
+    expect(state).toMatchObject({ activeTab: 'tab-2', activatedAt: 0 });
+
+    await focusChanged(1, T0 + 30 * MINUTE);
+
+    expect(await totalOf('tab-1')).toBe(10 * MINUTE);
+    expect(await visits()).toMatchObject([
+      { tabPersistentId: 'tab-1', duration: 20 * MINUTE, awayDuration: 10 * MINUTE },
+      { tabPersistentId: 'tab-2', activatedAt: T0 + 20 * MINUTE, deactivatedAt: null, awayDuration: 10 * MINUTE },
+    ]);
+    expect(state.activatedAt).toBe(T0 + 30 * MINUTE);
+  });
+
+  it('should leave the clock to the idle tracker when idle closed the visit while unfocused', async () => {
+    await focusChanged(chrome.windows.WINDOW_ID_NONE, T0 + 10 * MINUTE);
+    await tabTracker.pauseActiveTime(T0 + 20 * MINUTE);
+    await focusChanged(1, T0 + 30 * MINUTE);
+
+    expect(await totalOf('tab-1')).toBe(10 * MINUTE);
+    expect(await visits()).toMatchObject([{ duration: 20 * MINUTE, awayDuration: 10 * MINUTE }]);
+    expect(state).toMatchObject({ activatedAt: 0, blurredAt: 0 });
+  });
+
+  it('should count a closed window against the session holding it', async () => {
+    const db = getDatabase();
+    await db.sessions.add(createSession({ id: 'saved', isSaved: true }));
+    await db.sessions.update('session-1', { windowCount: 1 });
+    await db.windows.where('persistentId').equals('win-1').modify({ sessionId: 'saved' });
+
+    await windowTracker.handleWindowRemoved(1);
+
+    expect(await db.sessions.get('saved')).toMatchObject({ windowCount: 0 });
+    expect(await db.sessions.get('session-1')).toMatchObject({ windowCount: 1 });
+  });
+});
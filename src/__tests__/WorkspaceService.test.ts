@@ -0,0 +1,230 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mockTabs, mockWindows } from './setup';
+import { WorkspaceService } from '../services/WorkspaceService';
+import { SessionRestoreService } from '../services/SessionRestoreService';
+import { StorageManager } from '../services/StorageManager';
+import { RetentionService } from '../services/RetentionService';
+import { TabTracker } from '../services/TabTracker';
+import { WindowTracker } from '../services/WindowTracker';
+import { getDatabase, closeDatabase } from '../db/schema';
+import type { TrackedTab, TrackedWindow, Session } from '../db/types';
+import * as fixtures from './helpers/fixtures';
+
+const MINUTE = 60 * 1000;
+const T0 = fixtures.T0;
+const ENDED_AT = T0 + 60 * MINUTE;
+const NOW = ENDED_AT + 24 * 60 * MINUTE;
+
+function createSession(overrides: Partial<Session> = {}): Session {
+  return fixtures.createSession({
+    name: 'Saved work',
+    endedAt: ENDED_AT,
+    isActive: false,
+    tabCount: 3,
+    ...overrides,
+  });
+}
+
+function createWindow(overrides: Partial<TrackedWindow> = {}): TrackedWindow {
+  return fixtures.createWindow({ tabCount: 3, activeTabPersistentId: 'tab-1', closedAt: ENDED_AT, ...overrides });
+}
+
+function createTab(persistentId: string, index: number, overrides: Partial<TrackedTab> = {}): TrackedTab {
+  return fixtures.createTab({
+    persistentId,
+    chromeTabId: index + 1,
+    url: `https://example.com/${persistentId}`,
+    urlHash: `hash-${persistentId}`,
+    title: persistentId,
+    index,
+    visitCount: 1,
+    closedAt: ENDED_AT,
+    ...overrides,
+  });
+}
+
+function createChromeTab(id: number, windowId: number, url: string, index = 0): chrome.tabs.Tab {
+  return { id, windowId, index, url: '', pendingUrl: url, title: '', active: false, pinned: false, groupId: -1 } as chrome.tabs.Tab;
+}
+
+describe('WorkspaceService', () => {
+  let storageManager: StorageManager;
+  let tabTracker: TabTracker;
+  let service: WorkspaceService;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    storageManager = new StorageManager();
+    await storageManager.initializeWorkingState('session-2');
+    tabTracker = new TabTracker(storageManager);
+    const windowTracker = new WindowTracker(storageManager, tabTracker);
+    service = new WorkspaceService(storageManager, new SessionRestoreService(storageManager));
+
+    // Chrome fires the creation events before its API calls resolve
+    let nextId = 100;
+    mockWindows.create.mockImplementation(async (data?: chrome.windows.CreateData) => {
+      const window = { id: nextId++, type: 'normal', state: 'normal', focused: true, incognito: false } as chrome.windows.Window;
+      const firstTab = createChromeTab(nextId++, window.id!, data?.url as string);
+      await windowTracker.handleWindowCreated(window);
+      await tabTracker.handleTabCreated(firstTab);
+      return { ...window, tabs: [firstTab] };
+    });
+    mockTabs.create.mockImplementation(async ({ windowId, url }: chrome.tabs.CreateProperties) => {
+      const chromeTab = createChromeTab(nextId++, windowId!, url!);
+      await tabTracker.handleTabCreated(chromeTab);
+      return chromeTab;
+    });
+
+    // win-2 is open in the current session as Chrome window 5
+    storageManager.setWindowMapping(5, 'win-2');
+    storageManager.setTabMapping(51, 'tab-a');
+    storageManager.setTabMapping(52, 'tab-b');
+    mockWindows.getAll.mockResolvedValue([{ id: 5 } as chrome.windows.Window]);
+    mockTabs.query.mockResolvedValue([
+      createChromeTab(52, 5, 'https://example.com/tab-b', 1),
+      createChromeTab(51, 5, 'https://example.com/tab-a', 0),
+      createChromeTab(99, 5, 'chrome://newtab', 2),
+    ]);
+
+    const db = getDatabase();
+    await db.sessions.bulkAdd([
+      createSession({ expiresAt: NOW - MINUTE }),
+      createSession({ id: 'session-2', isActive: true, startedAt: ENDED_AT, endedAt: null }),
+    ]);
+    await db.windows.bulkAdd([
+      createWindow(),
+      createWindow({ persistentId: 'win-2', chromeWindowId: 5, sessionId: 'session-2', closedAt: null }),
+    ]);
+    await db.tabs.bulkAdd([
+      createTab('tab-1', 0),
+      createTab('tab-2', 1),
+      createTab('tab-3', 2, { closedAt: T0 + 5 * MINUTE }),
+      createTab('tab-a', 0, { chromeTabId: 51, chromeWindowId: 5, windowPersistentId: 'win-2', sessionId: 'session-2', closedAt: null }),
+      createTab('tab-b', 1, { chromeTabId: 52, chromeWindowId: 5, windowPersistentId: 'win-2', sessionId: 'session-2', closedAt: null }),
+    ]);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    await getDatabase().delete();
+    await closeDatabase();
+  });
+
+  it('should build a workspace from the windows open when a session ended', async () => {
+    const workspace = await service.createWorkspace(' Research ', { sessionId: 'session-1' });
+
+    expect(workspace).toMatchObject({
+      name: 'Research',
+      windows: [{ windowPersistentId: 'win-1', tabPersistentIds: ['tab-1', 'tab-2'] }],
+      tabPersistentIds: ['tab-1', 'tab-2'],
+      sourceSessionId: 'session-1',
+      createdAt: NOW,
+    });
+    expect(await service.getWorkspaces()).toEqual([workspace]);
+    await expect(service.createWorkspace('Research', { chromeWindowId: 5 })).rejects.toThrow('already exists');
+    await expect(service.createWorkspace('  ', { chromeWindowId: 5 })).rejects.toThrow('needs a name');
+  });
+
+  it('should build a workspace from the tracked tabs of a window', async () => {
+    const workspace = await service.createWorkspace('Now', { chromeWindowId: 5 });
+
+    expect(mockTabs.query).toHaveBeenCalledWith({ windowId: 5 });
+    expect(workspace?.windows).toEqual([{ windowPersistentId: 'win-2', tabPersistentIds: ['tab-a', 'tab-b'] }]);
+    expect(await service.createWorkspace('Elsewhere', { chromeWindowId: 8 })).toBeNull();
+  });
+
+  it('should reopen a workspace onto its stored tab records', async () => {
+    const { id } = (await service.createWorkspace('Research', { sessionId: 'session-1' }))!;
+
+    const report = await service.openWorkspace(id!);
+
+    expect(report).toEqual({ windows: 1, tabs: 2, groups: 0, skipped: 0, failed: 0 });
+    expect(mockWindows.create).toHaveBeenCalledWith(expect.objectContaining({ url: 'https://example.com/tab-1' }));
+    expect(storageManager.getPersistentTabId(102)).toBe('tab-2');
+    expect(await getDatabase().tabs.count()).toBe(5);
+    expect((await service.getWorkspace(id!))?.openedAt).toBe(NOW);
+  });
+
+  it('should put missing tabs back into a workspace window that is still open', async () => {
+    const { id } = (await service.createWorkspace('Now', { chromeWindowId: 5 }))!;
+    storageManager.removeTabMapping(52);
+
+    const report = await service.openWorkspace(id!, { lazy: true });
+
+    expect(report).toMatchObject({ windows: 0, tabs: 1, skipped: 1 });
+    expect(mockWindows.create).not.toHaveBeenCalled();
+    expect(mockTabs.create).toHaveBeenCalledWith({ windowId: 5, url: 'https://example.com/tab-b', pinned: false, active: false });
+    expect(mockTabs.update).not.toHaveBeenCalled();
+    expect(mockTabs.discard).toHaveBeenCalledWith(100);
+  });
+
+  it('should store the current tabs of its open windows before closing them', async () => {
+    const { id } = (await service.createWorkspace('Now', { chromeWindowId: 5 }))!;
+    storageManager.setTabMapping(99, 'tab-c');
+
+    vi.setSystemTime(NOW + MINUTE);
+    const workspace = await service.closeWorkspace(id!);
+
+    expect(workspace).toMatchObject({
+      windows: [{ windowPersistentId: 'win-2', tabPersistentIds: ['tab-a', 'tab-b', 'tab-c'] }],
+      closedAt: NOW + MINUTE,
+      updatedAt: NOW + MINUTE,
+    });
+    expect(await service.getWorkspace(id!)).toEqual(workspace);
+    // Window 5 is the last one, so an empty window keeps the browser open
+    expect(mockWindows.create).toHaveBeenCalledWith({});
+    expect(mockWindows.remove).toHaveBeenCalledWith(5);
+    expect(mockTabs.remove).not.toHaveBeenCalled();
+  });
+
+  it('should close workspace tabs that are open outside its windows', async () => {
+    const { id } = (await service.createWorkspace('Research', { sessionId: 'session-1' }))!;
+    storageManager.setTabMapping(1, 'tab-1');
+
+    await service.closeWorkspace(id!);
+
+    expect(mockTabs.remove).toHaveBeenCalledWith([1]);
+    expect(mockWindows.remove).not.toHaveBeenCalled();
+  });
+
+  it('should replace or add a window when updating from it', async () => {
+    const { id } = (await service.createWorkspace('Research', { sessionId: 'session-1' }))!;
+
+    const added = await service.updateFromWindow(id!, 5);
+    mockTabs.query.mockResolvedValue([createChromeTab(51, 5, 'https://example.com/tab-a')]);
+    const replaced = await service.updateFromWindow(id!, 5);
+
+    expect(added?.tabPersistentIds).toEqual(['tab-1', 'tab-2', 'tab-a', 'tab-b']);
+    expect(replaced?.windows).toEqual([
+      { windowPersistentId: 'win-1', tabPersistentIds: ['tab-1', 'tab-2'] },
+      { windowPersistentId: 'win-2', tabPersistentIds: ['tab-a'] },
+    ]);
+    expect(await service.updateFromWindow(id!, 8)).toBeNull();
+  });
+
+  it('should keep an expired session while a workspace draws from it', async () => {
+    const { id } = (await service.createWorkspace('Research', { sessionId: 'session-1' }))!;
+
+    const retention = new RetentionService();
+
+    expect(await retention.run()).toMatchObject({ sessions: [], keptForWorkspaces: ['session-1'] });
+    expect(await getDatabase().tabs.where('sessionId').equals('session-1').count()).toBe(3);
+
+    await service.deleteWorkspace(id!);
+
+    expect((await retention.run()).sessions).toMatchObject([{ sessionId: 'session-1' }]);
+    expect(await getDatabase().tabs.where('sessionId').equals('session-1').count()).toBe(0);
+  });
+
+  it('should return null for an unknown workspace', async () => {
+    expect(await service.openWorkspace(42)).toBeNull();
+    expect(await service.closeWorkspace(42)).toBeNull();
+    expect(await service.updateFromWindow(42, 5)).toBeNull();
+  });
+});
@@ -0,0 +1,124 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mockRuntime } from './setup';
+import { connectTo, createPortPair } from './helpers/portHarness';
+import { ExportQueryService } from '../services/ExportQueryService';
+import type { StorageManager } from '../services/StorageManager';
+import { getDatabase, closeDatabase } from '../db/schema';
+import { streamData, type DataStreamMessage, type DataStreamPage } from '../rpc';
+import { createDataStreamHandler, validateStreamRequest } from '../rpc/streamHandler';
+import type { TrackedTab } from '../db/types';
+import * as fixtures from './helpers/fixtures';
+
+function createTab(index: number): TrackedTab {
+  return fixtures.createTab({
+    persistentId: `tab-${index}`,
+    chromeTabId: index,
+    url: `https://example.com/${index}`,
+    urlHash: `hash-${index}`,
+    title: `Page ${index}`,
+    index,
+  });
+}
+
+/** Wait for queued port messages to be delivered */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+describe('data stream', () => {
+  let handler: (port: chrome.runtime.Port) => void;
+
+  beforeEach(async () => {
+    const storageManager = {
+      getCurrentSessionId: () => 'session-1',
+      getActiveWindowPersistentId: () => 'win-1',
+    } as unknown as StorageManager;
+    handler = createDataStreamHandler(new ExportQueryService(storageManager));
+
+    const db = getDatabase();
+    await db.sessions.add(fixtures.createSession({ tabCount: 5 }));
+    await db.windows.add(fixtures.createWindow({ tabCount: 5 }));
+    await db.tabs.bulkAdd([1, 2, 3, 4, 5].map(createTab));
+  });
+
+  afterEach(async () => {
+    await getDatabase().delete();
+    await closeDatabase();
+  });
+
+  it('should deliver the plan, then every table page by page', async () => {
+    const ports = connectTo(handler);
+    const pages: DataStreamPage[] = [];
+    const onPlan = vi.fn();
+
+    const plan = await streamData(
+      { scope: 'session', filters: {}, includeRelationships: true },
+      { pageSize: 2, onPlan, onPage: (page) => pages.push(page) }
+    );
+
+    expect(onPlan).toHaveBeenCalledWith(plan);
+    expect(plan.windows.map((w) => w.persistentId)).toEqual(['win-1']);
+    expect(plan.tables).toEqual(['tabs']);
+    expect(plan.estimates.tabs).toBe(5);
+    expect(pages.map((p) => p.rows.length)).toEqual([2, 2, 1]);
+    expect(pages.flatMap((p) => p.rows.map((r) => (r as TrackedTab).persistentId))).toEqual([
+      'tab-1', 'tab-2', 'tab-3', 'tab-4', 'tab-5',
+    ]);
+    expect(mockRuntime.connect).toHaveBeenCalledWith({ name: 'unos-data' });
+    expect(ports[0]?.disconnected).toBe(true);
+  });
+
+  it('should only pull the requested tables', async () => {
+    await getDatabase().tabVisits.add(fixtures.createVisit({ url: 'https://example.com/1', title: 'Page 1' }));
+    const ports = connectTo(handler);
+    const tables = new Set<string>();
+
+    const plan = await streamData({ scope: 'session', filters: {} }, {
+      tables: ['tabs'],
+      onPage: (page) => tables.add(page.table),
+    });
+
+    expect(plan.tables).toContain('visits');
+    expect([...tables]).toEqual(['tabs']);
+    expect(ports[0]?.sent.filter((m) => (m as { type: string }).type === 'NEXT')).toHaveLength(1);
+  });
+
+  it('should reject with the background error code', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    connectTo(handler);
+
+    await expect(
+      streamData({ scope: 'everything' as 'session' }, { onPage: () => {} })
+    ).rejects.toMatchObject({ name: 'RpcError', code: 'INVALID_REQUEST' });
+  });
+
+  it('should reject as disconnected when the background goes away', async () => {
+    connectTo((port) => {
+      port.onMessage.addListener(() => port.disconnect());
+    });
+
+    await expect(streamData({}, { onPage: () => {} })).rejects.toMatchObject({ code: 'DISCONNECTED' });
+  });
+
+  it('should refuse NEXT before START', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const [client, server] = createPortPair('unos-data');
+    const replies: DataStreamMessage[] = [];
+    client.onMessage.addListener((message: DataStreamMessage) => replies.push(message));
+    handler(server);
+
+    client.postMessage({ type: 'NEXT', table: 'tabs', cursor: 0 });
+    await flush();
+
+    expect(replies).toEqual([{ type: 'ERROR', code: 'INVALID_REQUEST', error: 'NEXT sent before START' }]);
+  });
+
+  it('should validate stream requests', () => {
+    expect(() => validateStreamRequest({ type: 'NEXT', table: 'cookies', cursor: 0 })).toThrow('must be one of');
+    expect(() => validateStreamRequest({ type: 'START', query: { scope: 'custom', extra: 1 } })).toThrow(
+      '"extra" is not a field of export query'
+    );
+    expect(() => validateStreamRequest({ type: 'STOP' })).toThrow(
+      expect.objectContaining({ code: 'UNKNOWN_METHOD' })
+    );
+  });
+});
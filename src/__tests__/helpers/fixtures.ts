@@ -0,0 +1,123 @@
+/**
+ * Record fixtures - stored sessions, windows, tabs, tab groups and visits
+ * with everything filled in, for tests to override what they care about.
+ *
+ * Defaults describe one running session ('session-1') with one window
+ * ('win-1') holding one tab ('tab-1'), all created at T0.
+ */
+import type { Session, TrackedWindow, TrackedTab, TrackedTabGroup, TabVisit } from '../../db/types';
+
+/** Timestamp the fixtures are created at */
+export const T0 = 1_700_000_000_000;
+
+export function createSession(overrides: Partial<Session> = {}): Session {
+  return {
+    id: 'session-1',
+    name: 'Session',
+    description: '',
+    isNamedByUser: false,
+    startedAt: T0,
+    endedAt: null,
+    isActive: true,
+    isSaved: false,
+    windowCount: 1,
+    tabCount: 1,
+    totalActiveTime: 0,
+    expiresAt: null,
+    tags: [],
+    customMetadata: {},
+    createdAt: T0,
+    updatedAt: T0,
+    ...overrides,
+  };
+}
+
+export function createWindow(overrides: Partial<TrackedWindow> = {}): TrackedWindow {
+  return {
+    persistentId: 'win-1',
+    chromeWindowId: 1,
+    sessionId: 'session-1',
+    type: 'normal',
+    state: 'normal',
+    incognito: false,
+    left: 0,
+    top: 0,
+    width: 1280,
+    height: 800,
+    createdAt: T0,
+    lastFocusedAt: T0,
+    totalFocusTime: 0,
+    isSaved: false,
+    tabCount: 1,
+    activeTabPersistentId: null,
+    closedAt: null,
+    updatedAt: T0,
+    ...overrides,
+  };
+}
+
+export function createTab(overrides: Partial<TrackedTab> = {}): TrackedTab {
+  return {
+    persistentId: 'tab-1',
+    chromeTabId: 1,
+    chromeWindowId: 1,
+    windowPersistentId: 'win-1',
+    sessionId: 'session-1',
+    url: 'https://example.com',
+    urlHash: 'hash-1',
+    title: 'Example',
+    faviconUrl: null,
+    status: 'complete',
+    index: 0,
+    pinned: false,
+    isPinned: false,
+    groupId: -1,
+    groupPersistentId: null,
+    openerPersistentId: null,
+    createdAt: T0,
+    lastActivatedAt: T0,
+    totalActiveTime: 0,
+    visitCount: 0,
+    isSaved: false,
+    tags: [],
+    notes: null,
+    customMetadata: {},
+    closedAt: null,
+    updatedAt: T0,
+    ...overrides,
+  };
+}
+
+export function createTabGroup(overrides: Partial<TrackedTabGroup> = {}): TrackedTabGroup {
+  return {
+    persistentId: 'group-1',
+    chromeGroupId: 1,
+    chromeWindowId: 1,
+    windowPersistentId: 'win-1',
+    sessionId: 'session-1',
+    title: 'Research',
+    color: 'blue',
+    collapsed: false,
+    createdAt: T0,
+    closedAt: null,
+    updatedAt: T0,
+    ...overrides,
+  };
+}
+
+export function createVisit(overrides: Partial<TabVisit> = {}): TabVisit {
+  return {
+    tabPersistentId: 'tab-1',
+    sessionId: 'session-1',
+    url: 'https://example.com',
+    urlHash: 'hash-1',
+    title: 'Example',
+    activatedAt: T0,
+    deactivatedAt: null,
+    duration: 0,
+    awayDuration: 0,
+    windowPersistentId: 'win-1',
+    fromTabPersistentId: null,
+    ...overrides,
+  };
+}
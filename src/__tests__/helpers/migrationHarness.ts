@@ -0,0 +1,52 @@
+/**
+ * Migration test harness - seeds a database at an older schema version,
+ * then reopens it with the full registry so upgrade functions run.
+ *
+ * Test files using this must import 'fake-indexeddb/auto' before anything
+ * that imports Dexie.
+ */
+import Dexie from 'dexie';
+import { TabTrackerDatabase } from '../../db/schema';
+import { MIGRATIONS, applyMigrations } from '../../db/migrations';
+
+/**
+ * Fixture rows keyed by table name
+ */
+export type Fixtures = Record<string, unknown[]>;
+
+/**
+ * Create a database containing only the schema up to `version` and fill it with fixtures
+ */
+export async function seedDatabaseAtVersion(
+  name: string,
+  version: number,
+  fixtures: Fixtures
+): Promise<void> {
+  const db = new Dexie(name);
+  applyMigrations(db, MIGRATIONS.filter((m) => m.version <= version));
+  await db.open();
+
+  try {
+    for (const [tableName, rows] of Object.entries(fixtures)) {
+      await db.table(tableName).bulkAdd(rows);
+    }
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Open a seeded database with the full schema, running any pending upgrades
+ */
+export async function openMigratedDatabase(name: string): Promise<TabTrackerDatabase> {
+  const db = new TabTrackerDatabase(name);
+  await db.open();
+  return db;
+}
+
+/**
+ * Remove a test database
+ */
+export async function deleteTestDatabase(name: string): Promise<void> {
+  await Dexie.delete(name);
+}
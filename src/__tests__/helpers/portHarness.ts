@@ -0,0 +1,156 @@
+/**
+ * Port test harness - linked fake chrome.runtime.Port pairs, and
+ * chrome.runtime.connect mocks that hand the far end to a handler.
+ *
+ * Messages are delivered asynchronously and JSON round-tripped, as Chrome does.
+ */
+import { mockRuntime } from '../setup';
+import type { ExportQueryResult, ExportTable } from '../../services/ExportQueryService';
+import type { DataStreamMessage, DataStreamRequest } from '../../rpc';
+
+type Listener<Args extends unknown[]> = (...args: Args) => void;
+
+class FakeEvent<Args extends unknown[]> {
+  private listeners = new Set<Listener<Args>>();
+
+  addListener(listener: Listener<Args>): void {
+    this.listeners.add(listener);
+  }
+
+  removeListener(listener: Listener<Args>): void {
+    this.listeners.delete(listener);
+  }
+
+  hasListener(listener: Listener<Args>): boolean {
+    return this.listeners.has(listener);
+  }
+
+  hasListeners(): boolean {
+    return this.listeners.size > 0;
+  }
+
+  emit(...args: Args): void {
+    this.listeners.forEach((listener) => listener(...args));
+  }
+}
+
+/**
+ * One end of a port pair
+ */
+export interface FakePort extends chrome.runtime.Port {
+  /** Messages posted from this end */
+  sent: unknown[];
+  disconnected: boolean;
+}
+
+/**
+ * Create two linked ports - what one end posts, the other receives
+ */
+export function createPortPair(name: string): [FakePort, FakePort] {
+  const create = () => {
+    const port = {
+      name,
+      sent: [] as unknown[],
+      disconnected: false,
+      onMessage: new FakeEvent<[message: unknown, port: object]>(),
+      onDisconnect: new FakeEvent<[port: object]>(),
+    };
+    return port;
+  };
+  const a = create();
+  const b = create();
+
+  const link = (from: typeof a, to: typeof a) =>
+    Object.assign(from, {
+      postMessage(message: unknown) {
+        if (from.disconnected) {
+          throw new Error('Attempting to use a disconnected port object');
+        }
+        from.sent.push(message);
+        const copy = JSON.parse(JSON.stringify(message ?? null));
+        setTimeout(() => {
+          if (!to.disconnected) to.onMessage.emit(copy, to);
+        }, 0);
+      },
+      // Like Chrome, only the other end hears about the disconnect
+      disconnect() {
+        if (from.disconnected) return;
+        from.disconnected = true;
+        to.disconnected = true;
+        setTimeout(() => to.onDisconnect.emit(to), 0);
+      },
+    });
+
+  return [link(a, b), link(b, a)] as unknown as [FakePort, FakePort];
+}
+
+/**
+ * Route chrome.runtime.connect to a background port handler
+ * Returns the popup ends of every port opened
+ */
+export function connectTo(handler: (port: chrome.runtime.Port) => void): FakePort[] {
+  const opened: FakePort[] = [];
+  mockRuntime.connect.mockImplementation(({ name }: { name: string }) => {
+    const [client, server] = createPortPair(name);
+    opened.push(client);
+    handler(server);
+    return client;
+  });
+  return opened;
+}
+
+/**
+ * Serve fixed export data over the data port, paging by array offset
+ * (two rows per page unless the popup asks for a size)
+ * Returns every request the popup sent
+ */
+export function mockDataStream(data: Partial<ExportQueryResult>): DataStreamRequest[] {
+  const requests: DataStreamRequest[] = [];
+  const tables: ExportTable[] = ['tabs', 'visits', 'navigations', 'relationships'];
+  const rowsOf = (table: ExportTable): unknown[] => data[table] ?? [];
+
+  connectTo((port) => {
+    port.onMessage.addListener((request: DataStreamRequest) => {
+      requests.push(request);
+      let reply: DataStreamMessage;
+
+      if (request.type === 'START') {
+        reply = {
+          type: 'PLAN',
+          plan: {
+            filters: data.filters ?? {
+              includeIncognito: true,
+              includeVisitHistory: true,
+              ...request.query.filters,
+            },
+            sessions: data.sessions ?? [],
+            windows: data.windows ?? [],
+            tabGroups: data.tabGroups ?? [],
+            tags: data.tags ?? [],
+            archives: data.archives ?? [],
+            tables: tables.filter((table) => rowsOf(table).length > 0),
+            estimates: {
+              tabs: rowsOf('tabs').length,
+              visits: rowsOf('visits').length,
+              navigations: rowsOf('navigations').length,
+              relationships: rowsOf('relationships').length,
+            },
+          },
+        };
+      } else {
+        const rows = rowsOf(request.table);
+        const end = request.cursor + (request.limit ?? 2);
+        reply = {
+          type: 'PAGE',
+          table: request.table,
+          rows: rows.slice(request.cursor, end),
+          cursor: end < rows.length ? end : null,
+        } as DataStreamMessage;
+      }
+
+      port.postMessage(reply);
+    });
+  });
+
+  return requests;
+}
@@ -0,0 +1,498 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, afterEach } from 'vitest';
+import Dexie from 'dexie';
+import {
+  MIGRATIONS,
+  LATEST_SCHEMA_VERSION,
+  applyMigrations,
+  validateMigrations,
+  type Migration,
+} from '../db/migrations';
+import type { TrackedTab, Session, ActivityReport } from '../db/types';
+import { seedDatabaseAtVersion, openMigratedDatabase, deleteTestDatabase } from './helpers/migrationHarness';
+
+const DB_NAME = 'MigrationTestDB';
+
+// v1 fixture factories
+function createV1Session(overrides: Partial<Session> = {}): Session {
+  return {
+    id: 'session-1',
+    name: 'Test Session',
+    description: '',
+    isNamedByUser: false,
+    startedAt: 1_700_000_000_000,
+    endedAt: null,
+    isActive: true,
+    isSaved: false,
+    windowCount: 1,
+    tabCount: 2,
+    totalActiveTime: 0,
+    expiresAt: null,
+    tags: [],
+    customMetadata: {},
+    createdAt: 1_700_000_000_000,
+    updatedAt: 1_700_000_000_000,
+    ...overrides,
+  };
+}
+
+function createV1Tab(overrides: Partial<TrackedTab> = {}): TrackedTab {
+  return {
+    persistentId: 'tab-1',
+    chromeTabId: 1,
+    chromeWindowId: 1,
+    windowPersistentId: 'win-1',
+    sessionId: 'session-1',
+    url: 'https://example.com',
+    urlHash: 'hash-1',
+    title: 'Example',
+    faviconUrl: null,
+    status: 'complete',
+    index: 0,
+    pinned: false,
+    isPinned: false,
+    groupId: -1,
+    groupPersistentId: null,
+    openerPersistentId: null,
+    createdAt: 1_700_000_000_000,
+    lastActivatedAt: 1_700_000_000_000,
+    totalActiveTime: 0,
+    visitCount: 0,
+    isSaved: false,
+    tags: ['research'],
+    notes: 'keep me',
+    customMetadata: {},
+    closedAt: null,
+    updatedAt: 1_700_000_000_000,
+    ...overrides,
+  };
+}
+
+describe('Migration registry', () => {
+  it('should be valid and end at the latest version', () => {
+    expect(() => validateMigrations(MIGRATIONS)).not.toThrow();
+    expect(LATEST_SCHEMA_VERSION).toBe(MIGRATIONS[MIGRATIONS.length - 1]!.version);
+  });
+
+  it('should reject versions that are out of order', () => {
+    const migrations: Migration[] = [
+      { version: 2, description: 'b', stores: {} },
+      { version: 1, description: 'a', stores: {} },
+    ];
+    expect(() => validateMigrations(migrations)).toThrow('strictly ascending');
+  });
+
+  it('should reject duplicate versions', () => {
+    const migrations: Migration[] = [
+      { version: 1, description: 'a', stores: {} },
+      { version: 1, description: 'b', stores: {} },
+    ];
+    expect(() => validateMigrations(migrations)).toThrow('strictly ascending');
+  });
+
+  it('should reject non-integer versions', () => {
+    expect(() => validateMigrations([{ version: 1.5, description: 'a', stores: {} }])).toThrow(
+      'Invalid migration version'
+    );
+  });
+
+  it('should refuse to declare an invalid registry on a database', () => {
+    const db = new Dexie('InvalidRegistryDB');
+    expect(() => applyMigrations(db, [{ version: 0, description: 'a', stores: {} }])).toThrow();
+  });
+});
+
+describe('Database migrations', () => {
+  afterEach(async () => {
+    await deleteTestDatabase(DB_NAME);
+  });
+
+  it('should create a fresh database at the latest version', async () => {
+    const db = await openMigratedDatabase(DB_NAME);
+
+    expect(db.verno).toBe(LATEST_SCHEMA_VERSION);
+    expect(db.tables.map((t) => t.name)).toContain('tabNavigations');
+
+    db.close();
+  });
+
+  it('should preserve v1 data when upgrading', async () => {
+    await seedDatabaseAtVersion(DB_NAME, 1, {
+      sessions: [createV1Session()],
+      tabs: [createV1Tab()],
+    });
+
+    const db = await openMigratedDatabase(DB_NAME);
+
+    const session = await db.sessions.get('session-1');
+    const tab = await db.tabs.where('persistentId').equals('tab-1').first();
+    expect(session?.name).toBe('Test Session');
+    expect(tab?.notes).toBe('keep me');
+    expect(await db.tabs.where('tags').equals('research').count()).toBe(1);
+
+    db.close();
+  });
+
+  it('should backfill one navigation per tab tracked before navigation history', async () => {
+    await seedDatabaseAtVersion(DB_NAME, 1, {
+      sessions: [createV1Session()],
+      tabs: [
+        createV1Tab(),
+        createV1Tab({
+          persistentId: 'tab-2',
+          url: 'https://closed.example.com',
+          urlHash: 'hash-2',
+          closedAt: 1_700_000_060_000,
+        }),
+      ],
+    });
+
+    const db = await openMigratedDatabase(DB_NAME);
+
+    const openNav = await db.tabNavigations.where('tabPersistentId').equals('tab-1').first();
+    expect(openNav).toMatchObject({
+      url: 'https://example.com',
+      urlHash: 'hash-1',
+      sessionId: 'session-1',
+      navigatedAt: 1_700_000_000_000,
+      leftAt: null,
+      dwellTime: 0,
+      previousNavigationId: null,
+    });
+
+    const closedNav = await db.tabNavigations.where('tabPersistentId').equals('tab-2').first();
+    expect(closedNav).toMatchObject({
+      leftAt: 1_700_000_060_000,
+      dwellTime: 60_000,
+    });
+
+    db.close();
+  });
+
+  it('should not backfill navigations for tabs without a URL', async () => {
+    await seedDatabaseAtVersion(DB_NAME, 1, {
+      tabs: [createV1Tab({ url: '', urlHash: '' })],
+    });
+
+    const db = await openMigratedDatabase(DB_NAME);
+    expect(await db.tabNavigations.count()).toBe(0);
+
+    db.close();
+  });
+});
+
+describe('v3 search index migration', () => {
+  afterEach(async () => {
+    await deleteTestDatabase(DB_NAME);
+  });
+
+  it('should add empty search tables and keep v2 data', async () => {
+    await seedDatabaseAtVersion(DB_NAME, 2, {
+      tabs: [createV1Tab()],
+    });
+
+    const db = await openMigratedDatabase(DB_NAME);
+    expect(await db.tabs.count()).toBe(1);
+    expect(await db.searchIndex.count()).toBe(0);
+    expect(await db.searchDocuments.count()).toBe(0);
+
+    db.close();
+  });
+});
+
+describe('v4 saved searches migration', () => {
+  afterEach(async () => {
+    await deleteTestDatabase(DB_NAME);
+  });
+
+  it('should add a saved searches table with unique names', async () => {
+    await seedDatabaseAtVersion(DB_NAME, 3, {
+      tabs: [createV1Tab()],
+    });
+
+    const db = await openMigratedDatabase(DB_NAME);
+    expect(await db.tabs.count()).toBe(1);
+
+    const search = { name: 'Research', query: 'tag:research', createdAt: 1, updatedAt: 1 };
+    await db.savedSearches.add(search);
+    await expect(db.savedSearches.add({ ...search })).rejects.toThrow();
+
+    db.close();
+  });
+});
+
+describe('v5 idle period migration', () => {
+  afterEach(async () => {
+    await deleteTestDatabase(DB_NAME);
+  });
+
+  it('should add an idle period log queryable by session and time', async () => {
+    await seedDatabaseAtVersion(DB_NAME, 4, {
+      sessions: [createV1Session()],
+    });
+
+    const db = await openMigratedDatabase(DB_NAME);
+    expect(await db.sessions.count()).toBe(1);
+
+    await db.idlePeriods.bulkAdd([
+      { sessionId: 'session-1', state: 'idle', startedAt: 2, endedAt: 3, duration: 1, tabPersistentId: null },
+      { sessionId: 'session-1', state: 'locked', startedAt: 1, endedAt: 2, duration: 1, tabPersistentId: null },
+    ]);
+    const periods = await db.idlePeriods
+      .where('[sessionId+startedAt]')
+      .between(['session-1', 0], ['session-1', Infinity])
+      .toArray();
+    expect(periods.map((p) => p.state)).toEqual(['locked', 'idle']);
+
+    db.close();
+  });
+});
+
+describe('v6 away time migration', () => {
+  afterEach(async () => {
+    await deleteTestDatabase(DB_NAME);
+  });
+
+  it('should backfill zero away time on existing visits', async () => {
+    await seedDatabaseAtVersion(DB_NAME, 5, {
+      tabVisits: [
+        {
+          tabPersistentId: 'tab-1',
+          sessionId: 'session-1',
+          url: 'https://example.com',
+          urlHash: 'hash-1',
+          title: 'Example',
+          activatedAt: 1,
+          deactivatedAt: 2,
+          duration: 1,
+          windowPersistentId: 'win-1',
+          fromTabPersistentId: null,
+        },
+      ],
+    });
+
+    const db = await openMigratedDatabase(DB_NAME);
+    expect(await db.tabVisits.toArray()).toMatchObject([{ duration: 1, awayDuration: 0 }]);
+
+    db.close();
+  });
+});
+
+describe('v7 tab group migration', () => {
+  afterEach(async () => {
+    await deleteTestDatabase(DB_NAME);
+  });
+
+  it('should add a tab group table and start existing tabs ungrouped', async () => {
+    const { groupPersistentId: _, ...v6Tab } = createV1Tab({ groupId: 4 });
+    await seedDatabaseAtVersion(DB_NAME, 6, { tabs: [v6Tab] });
+
+    const db = await openMigratedDatabase(DB_NAME);
+    expect(await db.tabs.toArray()).toMatchObject([{ groupId: 4, groupPersistentId: null }]);
+
+    await db.tabGroups.add({
+      persistentId: 'group-1',
+      chromeGroupId: 4,
+      chromeWindowId: 1,
+      windowPersistentId: 'win-1',
+      sessionId: 'session-1',
+      title: 'Research',
+      color: 'blue',
+      collapsed: false,
+      createdAt: 1,
+      closedAt: null,
+      updatedAt: 1,
+    });
+    expect(await db.tabGroups.where('chromeGroupId').equals(4).count()).toBe(1);
+    expect(await db.tabGroups.where('sessionId').equals('session-1').count()).toBe(1);
+
+    db.close();
+  });
+});
+
+describe('v8 workspace migration', () => {
+  afterEach(async () => {
+    await deleteTestDatabase(DB_NAME);
+  });
+
+  it('should add a workspace table indexed by the tabs it holds', async () => {
+    await seedDatabaseAtVersion(DB_NAME, 7, { tabs: [createV1Tab()] });
+
+    const db = await openMigratedDatabase(DB_NAME);
+    expect(await db.tabs.count()).toBe(1);
+
+    const workspace = {
+      name: 'Research',
+      description: '',
+      windows: [{ windowPersistentId: 'win-1', tabPersistentIds: ['tab-1', 'tab-2'] }],
+      tabPersistentIds: ['tab-1', 'tab-2'],
+      sourceSessionId: null,
+      openedAt: null,
+      closedAt: null,
+      createdAt: 1,
+      updatedAt: 1,
+    };
+    await db.workspaces.add(workspace);
+    await expect(db.workspaces.add({ ...workspace })).rejects.toThrow();
+    expect(await db.workspaces.where('tabPersistentIds').equals('tab-2').count()).toBe(1);
+
+    db.close();
+  });
+});
+
+describe('v9 user-named session migration', () => {
+  afterEach(async () => {
+    await deleteTestDatabase(DB_NAME);
+  });
+
+  it('should mark existing session names as generated', async () => {
+    const { isNamedByUser: _, ...v8Session } = createV1Session({ name: 'Morning' });
+    await seedDatabaseAtVersion(DB_NAME, 8, { sessions: [v8Session] });
+
+    const db = await openMigratedDatabase(DB_NAME);
+    expect(await db.sessions.toArray()).toMatchObject([{ name: 'Morning', isNamedByUser: false }]);
+
+    db.close();
+  });
+});
+
+describe('v10 session archive migration', () => {
+  afterEach(async () => {
+    await deleteTestDatabase(DB_NAME);
+  });
+
+  it('should add an archive table keyed by session and indexed by tag', async () => {
+    await seedDatabaseAtVersion(DB_NAME, 9, { sessions: [createV1Session()] });
+
+    const db = await openMigratedDatabase(DB_NAME);
+    expect(await db.sessions.count()).toBe(1);
+
+    await db.archivedSessions.add({
+      ...createV1Session({ tags: ['research'] }),
+      visitCount: 0,
+      windows: [],
+      tabs: [],
+      archivedAt: 1,
+    });
+    expect(await db.archivedSessions.where('tags').equals('research').count()).toBe(1);
+
+    db.close();
+  });
+});
+
+describe('v11 nested tag migration', () => {
+  afterEach(async () => {
+    await deleteTestDatabase(DB_NAME);
+  });
+
+  it('should give existing tags their parent and no aliases', async () => {
+    const tag = { name: 'project/unos', color: '#6366f1', createdAt: 1, usageCount: 2 };
+    await seedDatabaseAtVersion(DB_NAME, 10, { tags: [tag, { ...tag, name: 'research' }] });
+
+    const db = await openMigratedDatabase(DB_NAME);
+    expect(await db.tags.where('parent').equals('project').toArray()).toMatchObject([
+      { name: 'project/unos', aliases: [] },
+    ]);
+    expect((await db.tags.where('name').equals('research').first())?.parent).toBeNull();
+
+    db.close();
+  });
+});
+
+describe('v12 domain analytics migration', () => {
+  afterEach(async () => {
+    await deleteTestDatabase(DB_NAME);
+  });
+
+  it('should add empty rollup tables keyed by site and day', async () => {
+    await seedDatabaseAtVersion(DB_NAME, 11, { sessions: [createV1Session()] });
+
+    const db = await openMigratedDatabase(DB_NAME);
+    expect(await db.domainStats.count()).toBe(0);
+    expect(await db.rollupCursors.count()).toBe(0);
+
+    await db.domainStats.bulkAdd([
+      { domain: 'github.com', day: 1, activeTime: 10, visitCount: 1 },
+      { domain: 'github.com', day: 2, activeTime: 20, visitCount: 2 },
+    ]);
+    expect(await db.domainStats.where('day').equals(2).count()).toBe(1);
+    expect((await db.domainStats.get(['github.com', 1]))?.activeTime).toBe(10);
+
+    db.close();
+  });
+});
+
+describe('v13 activity report migration', () => {
+  afterEach(async () => {
+    await deleteTestDatabase(DB_NAME);
+  });
+
+  it('should add a report table keyed by period and start', async () => {
+    await seedDatabaseAtVersion(DB_NAME, 12, { sessions: [createV1Session()] });
+
+    const db = await openMigratedDatabase(DB_NAME);
+    expect(await db.reports.count()).toBe(0);
+
+    const report = { period: 'daily', from: 1, to: 2 } as ActivityReport;
+    await db.reports.bulkAdd([report, { ...report, period: 'weekly' }]);
+    expect((await db.reports.get(['weekly', 1]))?.to).toBe(2);
+
+    db.close();
+  });
+});
+
+describe('v14 navigation seed migration', () => {
+  afterEach(async () => {
+    await deleteTestDatabase(DB_NAME);
+  });
+
+  it('should only seed tabs that have no navigation history yet', async () => {
+    await seedDatabaseAtVersion(DB_NAME, 13, {
+      tabs: [createV1Tab(), createV1Tab({ persistentId: 'tab-2', urlHash: 'hash-2' })],
+      tabNavigations: [
+        {
+          tabPersistentId: 'tab-1',
+          sessionId: 'session-1',
+          url: 'https://example.com',
+          urlHash: 'hash-1',
+          title: 'Example',
+          navigatedAt: 1_700_000_030_000,
+          leftAt: null,
+          dwellTime: 0,
+          previousNavigationId: null,
+          windowPersistentId: 'win-1',
+        },
+      ],
+    });
+
+    const db = await openMigratedDatabase(DB_NAME);
+    const navigations = await db.tabNavigations.toArray();
+    expect(navigations.map((n) => [n.tabPersistentId, n.navigatedAt])).toEqual([
+      ['tab-1', 1_700_000_030_000],
+      ['tab-2', 1_700_000_000_000],
+    ]);
+
+    db.close();
+  });
+});
+
+describe('v15 tag normalization migration', () => {
+  afterEach(async () => {
+    await deleteTestDatabase(DB_NAME);
+  });
+
+  it('should bring free-form tags on tabs and sessions to their canonical form', async () => {
+    await seedDatabaseAtVersion(DB_NAME, 14, {
+      sessions: [createV1Session({ tags: ['Work', 'Client / ACME'] })],
+      tabs: [createV1Tab({ tags: ['Work', ' work ', 'Deep   Dive', ''] })],
+    });
+
+    const db = await openMigratedDatabase(DB_NAME);
+    expect((await db.tabs.toArray())[0]?.tags).toEqual(['work', 'deep dive']);
+    expect((await db.sessions.get('session-1'))?.tags).toEqual(['work', 'client/acme']);
+    expect(await db.tabs.where('tags').equals('work').count()).toBe(1);
+    expect(await db.sessions.where('tags').equals('work').count()).toBe(1);
+
+    db.close();
+  });
+});
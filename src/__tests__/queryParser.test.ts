@@ -0,0 +1,196 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseQuery,
+  parseDuration,
+  resolveDateRange,
+  isStructuredQuery,
+  QuerySyntaxError,
+  matchesQuery,
+  planGroup,
+  type QueryContext,
+} from '../query';
+import * as fixtures from './helpers/fixtures';
+import type { TrackedTab } from '../db/types';
+
+const NOW = new Date('2024-06-15T12:00:00').getTime();
+const DAY = 24 * 60 * 60 * 1000;
+
+const context: QueryContext = { now: NOW, currentSessionId: 'session-1' };
+
+// A saved GitHub tab tagged research, opened two days ago and active a minute ago
+function createTab(overrides: Partial<TrackedTab> = {}): TrackedTab {
+  return fixtures.createTab({
+    url: 'https://www.github.com/unos/extension',
+    title: 'UNOS extension',
+    createdAt: NOW - 2 * DAY,
+    lastActivatedAt: NOW - 60_000,
+    totalActiveTime: 45 * 60 * 1000,
+    visitCount: 6,
+    isSaved: true,
+    tags: ['research'],
+    updatedAt: NOW,
+    ...overrides,
+  });
+}
+
+function matches(query: string, tab: TrackedTab): boolean {
+  return matchesQuery(tab, parseQuery(query), context);
+}
+
+function syntaxError(query: string): QuerySyntaxError {
+  try {
+    parseQuery(query);
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) return error;
+    throw error;
+  }
+  throw new Error(`Expected "${query}" to fail`);
+}
+
+describe('parseQuery', () => {
+  it('should parse fields, operators and negation', () => {
+    const { groups } = parseQuery('tag:research -domain:github.com active>=30m');
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0]?.map(c => [c.field, c.operator, c.value, c.negated])).toEqual([
+      ['tag', ':', 'research', false],
+      ['domain', ':', 'github.com', true],
+      ['active', '>=', '30m', false],
+    ]);
+  });
+
+  it('should treat bare words and quoted phrases as text', () => {
+    const { groups } = parseQuery('release "notes: draft" title:"Q3 plan"');
+
+    expect(groups[0]?.map(c => [c.field, c.value])).toEqual([
+      ['text', 'release'],
+      ['text', 'notes: draft'],
+      ['title', 'Q3 plan'],
+    ]);
+  });
+
+  it('should split groups on OR', () => {
+    const { groups } = parseQuery('tag:a is:saved OR tag:b');
+    expect(groups.map(g => g.length)).toEqual([2, 1]);
+  });
+
+  it('should report unknown fields with their position', () => {
+    const error = syntaxError('tag:a colour:red');
+
+    expect(error.message).toContain('Unknown field "colour"');
+    expect(error.position).toBe(6);
+    expect(error.length).toBe(6);
+  });
+
+  it('should reject comparisons on text fields', () => {
+    expect(syntaxError('tag>research').message).toContain('only supports ":"');
+  });
+
+  it('should reject invalid values', () => {
+    expect(syntaxError('is:starred').message).toContain('expected one of saved');
+    expect(syntaxError('active>soon').message).toContain('Invalid duration');
+    expect(syntaxError('visits>=many').message).toContain('Invalid visit count');
+    expect(syntaxError('closed:someday').message).toContain('Invalid date');
+    expect(syntaxError('tag:').message).toContain('Missing value');
+  });
+
+  it('should reject dangling OR and unterminated quotes', () => {
+    expect(syntaxError('OR tag:a').position).toBe(0);
+    expect(syntaxError('tag:a OR').position).toBe(6);
+    expect(syntaxError('title:"open').position).toBe(6);
+  });
+});
+
+describe('parseDuration', () => {
+  it('should parse units and default to minutes', () => {
+    expect(parseDuration('90s')).toBe(90_000);
+    expect(parseDuration('1.5h')).toBe(90 * 60 * 1000);
+    expect(parseDuration('30')).toBe(30 * 60 * 1000);
+    expect(parseDuration('30x')).toBeNull();
+  });
+});
+
+describe('resolveDateRange', () => {
+  it('should resolve keywords, relative windows and days', () => {
+    const midnight = new Date('2024-06-15T00:00:00').getTime();
+
+    expect(resolveDateRange('today', NOW)).toEqual({ start: midnight, end: NOW });
+    expect(resolveDateRange('yesterday', NOW)).toEqual({ start: midnight - DAY, end: midnight - 1 });
+    expect(resolveDateRange('last-week', NOW)).toEqual({ start: NOW - 7 * DAY, end: NOW });
+    expect(resolveDateRange('12h', NOW)).toEqual({ start: NOW - DAY / 2, end: NOW });
+    expect(resolveDateRange('2024-06-15', NOW)).toEqual({ start: midnight, end: midnight + DAY - 1 });
+  });
+
+  it('should resolve day ranges and reject reversed ones', () => {
+    const range = resolveDateRange('2024-06-01..2024-06-15', NOW);
+
+    expect(range?.start).toBe(new Date('2024-06-01T00:00:00').getTime());
+    expect(range?.end).toBe(new Date('2024-06-16T00:00:00').getTime() - 1);
+    expect(resolveDateRange('2024-06-15..2024-06-01', NOW)).toBeNull();
+  });
+});
+
+describe('isStructuredQuery', () => {
+  it('should tell query syntax from plain search text', () => {
+    expect(isStructuredQuery('tag:research')).toBe(true);
+    expect(isStructuredQuery('github -is:closed')).toBe(true);
+    expect(isStructuredQuery('react OR vue')).toBe(true);
+    expect(isStructuredQuery('github issues')).toBe(false);
+    expect(isStructuredQuery('https://example.com')).toBe(false);
+  });
+});
+
+describe('matchesQuery', () => {
+  it('should match domains including subdomains', () => {
+    expect(matches('domain:github.com', createTab())).toBe(true);
+    expect(matches('domain:github.com', createTab({ url: 'https://gist.github.com/x' }))).toBe(true);
+    expect(matches('domain:github.com', createTab({ url: 'https://notgithub.com' }))).toBe(false);
+  });
+
+  it('should compare durations and counts', () => {
+    const tab = createTab();
+
+    expect(matches('active>30m', tab)).toBe(true);
+    expect(matches('active:1h', tab)).toBe(false);
+    expect(matches('visits:6 visits<=6', tab)).toBe(true);
+    expect(matches('visits>6', tab)).toBe(false);
+  });
+
+  it('should compare dates against ranges', () => {
+    const closedYesterday = createTab({ closedAt: NOW - DAY });
+
+    expect(matches('closed:last-week is:closed', closedYesterday)).toBe(true);
+    expect(matches('closed:today', closedYesterday)).toBe(false);
+    expect(matches('closed:last-week', createTab())).toBe(false);
+    expect(matches('created<today', createTab())).toBe(true);
+    expect(matches('visited:today', createTab())).toBe(true);
+  });
+
+  it('should apply session, tags, negation and OR', () => {
+    const tab = createTab();
+
+    expect(matches('session:current tag:RESEARCH is:saved', tab)).toBe(true);
+    expect(matches('-tag:research', tab)).toBe(false);
+    expect(matches('tag:work OR extension', tab)).toBe(true);
+    expect(matches('session:session-2', tab)).toBe(false);
+  });
+
+  it('should match nested tags and resolve aliases', () => {
+    const tab = createTab({ tags: ['research/papers'] });
+    const aliased = { ...context, tagAliases: new Map([['reading', 'research']]) };
+
+    expect(matches('tag:research', tab)).toBe(true);
+    expect(matches('tag:research/pap', tab)).toBe(false);
+    expect(matches('tag:reading', tab)).toBe(false);
+    expect(matchesQuery(tab, parseQuery('tag:reading/papers'), aliased)).toBe(true);
+  });
+});
+
+describe('planGroup', () => {
+  it('should seed from the most selective positive clause', () => {
+    const [group] = parseQuery('-session:current created:today tag:research').groups;
+
+    expect(planGroup(group!)).toMatchObject({ index: 'tags', clause: { value: 'research' } });
+    expect(planGroup(parseQuery('-tag:a title:x').groups[0]!)).toEqual({ index: null });
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mockSendMessage, mockRuntime } from './setup';
+import {
+  validateRequest,
+  validatePayload,
+  createRpcRouter,
+  callBackground,
+  RpcError,
+  toRpcError,
+  type RpcHandlers,
+} from '../rpc';
+import { QuerySyntaxError } from '../query';
+import { SettingsValidationError } from '../services/SettingsService';
+import { ValidationError } from '../services/errors';
+
+function createHandlers(overrides: Partial<RpcHandlers> = {}): RpcHandlers {
+  return {
+    PING: vi.fn(async () => ({ pong: true as const, timestamp: 1 })),
+    ...overrides,
+  } as unknown as RpcHandlers;
+}
+
+describe('validateRequest', () => {
+  it('should accept a well-formed message', () => {
+    const message = { type: 'GET_TAB_VISITS', persistentId: 'tab-1', limit: 10 };
+    expect(validateRequest(message)).toBe(message);
+  });
+
+  it('should accept messages without optional fields', () => {
+    expect(() => validateRequest({ type: 'GET_TABS_IN_SESSION' })).not.toThrow();
+    expect(() => validateRequest({ type: 'PING' })).not.toThrow();
+  });
+
+  it('should reject unknown message types', () => {
+    expect(() => validateRequest({ type: 'DROP_TABLES' })).toThrow(
+      expect.objectContaining({ code: 'UNKNOWN_METHOD' })
+    );
+    expect(() => validateRequest('PING')).toThrow(expect.objectContaining({ code: 'INVALID_REQUEST' }));
+  });
+
+  it('should list every payload problem', () => {
+    try {
+      validateRequest({ type: 'UPDATE_TAB_METADATA', tags: 'work', extra: 1 });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(RpcError);
+      expect((error as RpcError).code).toBe('INVALID_REQUEST');
+      expect((error as RpcError).details?.problems).toEqual([
+        '"persistentId" is required',
+        '"tags" must be an array of strings',
+        '"extra" is not a field of UPDATE_TAB_METADATA',
+      ]);
+    }
+  });
+
+  it('should check numbers and fixed values', () => {
+    expect(() => validateRequest({ type: 'CLOSE_TAB', chromeTabId: NaN })).toThrow('must be a number');
+    expect(() => validatePayload('test', { scope: 'everything' }, { scope: { oneOf: ['session'] } })).toThrow(
+      'must be one of'
+    );
+    expect(() => validatePayload('test', {}, { scope: { oneOf: ['session'], optional: true } })).not.toThrow();
+  });
+
+  it('should check arrays of objects', () => {
+    expect(() => validateRequest({ type: 'UPDATE_RETENTION_RULES', rules: [{ appliesTo: 'visits' }] })).not.toThrow();
+    expect(() => validateRequest({ type: 'UPDATE_RETENTION_RULES', rules: [['visits']] })).toThrow(
+      '"rules" must be an array of objects'
+    );
+  });
+});
+
+describe('toRpcError', () => {
+  it('should map query syntax errors with their position', () => {
+    const error = toRpcError(new QuerySyntaxError('Unknown field "x"', 4, 1));
+
+    expect(error.code).toBe('QUERY_SYNTAX');
+    expect(error.details).toEqual({ position: 4, length: 1 });
+  });
+
+  it('should map rejected settings to invalid requests', () => {
+    expect(toRpcError(new SettingsValidationError('Idle after (seconds) must be between 15 and 3600'))).toMatchObject({
+      code: 'INVALID_REQUEST',
+      message: 'Idle after (seconds) must be between 15 and 3600',
+    });
+  });
+
+  it('should map rejected service requests to invalid requests', () => {
+    expect(toRpcError(new ValidationError('Cannot merge a session into itself'))).toMatchObject({
+      code: 'INVALID_REQUEST',
+      message: 'Cannot merge a session into itself',
+    });
+  });
+
+  it('should treat other errors as internal', () => {
+    expect(toRpcError(new Error('boom'))).toMatchObject({ code: 'INTERNAL', message: 'boom' });
+    expect(toRpcError('boom')).toMatchObject({ code: 'INTERNAL', message: 'boom' });
+  });
+});
+
+describe('createRpcRouter', () => {
+  it('should dispatch the payload without the type', async () => {
+    const SAVE_TAB = vi.fn(async () => undefined);
+    const route = createRpcRouter(createHandlers({ SAVE_TAB }));
+
+    const response = await route({ type: 'SAVE_TAB', persistentId: 'tab-1' });
+
+    expect(response).toEqual({ success: true, data: undefined });
+    expect(SAVE_TAB).toHaveBeenCalledWith({ persistentId: 'tab-1' });
+  });
+
+  it('should report validation failures without calling handlers', async () => {
+    const handlers = createHandlers();
+    const response = await createRpcRouter(handlers)({ type: 'PING', verbose: true });
+
+    expect(response).toMatchObject({ success: false, code: 'INVALID_REQUEST' });
+    expect(handlers.PING).not.toHaveBeenCalled();
+  });
+
+  it('should report handler errors with a code', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const route = createRpcRouter(createHandlers({
+      PING: async () => { throw new Error('disk full'); },
+      RUN_QUERY: async () => { throw new RpcError('NOT_FOUND', 'gone'); },
+    }));
+
+    expect(await route({ type: 'PING' })).toEqual({ success: false, code: 'INTERNAL', error: 'disk full' });
+    expect(await route({ type: 'RUN_QUERY', query: 'x' })).toEqual({
+      success: false,
+      code: 'NOT_FOUND',
+      error: 'gone',
+    });
+  });
+});
+
+describe('callBackground', () => {
+  it('should send a flat message and resolve with the data', async () => {
+    mockSendMessage.mockImplementation((_message, callback) => {
+      callback({ success: true, data: [] });
+    });
+
+    const visits = await callBackground('GET_TAB_VISITS', { persistentId: 'tab-1', limit: 5 });
+
+    expect(visits).toEqual([]);
+    expect(mockSendMessage.mock.calls[0]?.[0]).toEqual({
+      type: 'GET_TAB_VISITS',
+      persistentId: 'tab-1',
+      limit: 5,
+    });
+  });
+
+  it('should reject with the background error code', async () => {
+    mockSendMessage.mockImplementation((_message, callback) => {
+      callback({ success: false, code: 'NO_SESSION', error: 'No session' });
+    });
+
+    await expect(callBackground('GET_TABS_IN_SESSION')).rejects.toMatchObject({
+      name: 'RpcError',
+      code: 'NO_SESSION',
+      message: 'No session',
+    });
+  });
+
+  it('should reject as disconnected when the background is unreachable', async () => {
+    mockSendMessage.mockImplementation((_message, callback) => {
+      mockRuntime.lastError = { message: 'Receiving end does not exist.' };
+      callback(undefined);
+      mockRuntime.lastError = null;
+    });
+
+    await expect(callBackground('PING')).rejects.toMatchObject({ code: 'DISCONNECTED' });
+  });
+});
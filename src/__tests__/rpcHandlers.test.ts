@@ -0,0 +1,565 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { mockTabs, mockWindows, localStorage } from './setup';
+import { createRpcHandlers, createRpcRouter, RpcError, type RpcDependencies, type RpcHandlers } from '../rpc';
+import type { TrackedTab, Workspace, Session, SettingsChanges, Tag, ReportPeriod, RetentionRule } from '../db/types';
+import type { RestoreReport } from '../services/SessionRestoreService';
+import type { SessionDiff } from '../services/SessionDiffService';
+import type { DomainHistory } from '../services/AnalyticsService';
+import { DEFAULT_SETTINGS } from '../services/SettingsService';
+import { DEFAULT_SESSION_POLICY } from '../services/SessionPolicyService';
+import { ValidationError } from '../services/errors';
+import { createTab } from './helpers/fixtures';
+import { normalizeTagName, normalizeTags } from '../utils/tags';
+
+const status = { initialized: true, sessionCount: 1, windowCount: 2, tabCount: 3 };
+
+// "js" is an alias of "javascript" in the tag stub
+const resolveTag = (name: string) => (normalizeTagName(name) === 'js' ? 'javascript' : normalizeTagName(name));
+
+// Stub services - each handler should only need a method or two
+function createDependencies() {
+  return {
+    storageManager: {
+      getActiveTabPersistentId: vi.fn((): string | null => 'tab-1'),
+      getCurrentSessionId: vi.fn((): string | null => 'session-1'),
+      getIdleState: vi.fn(() => 'active'),
+      getDB: vi.fn(() => ({
+        tabVisits: { count: async () => 7 },
+        tabRelationships: { count: async () => 4 },
+        idlePeriods: { count: async () => 2 },
+      })),
+    },
+    tabTracker: {
+      getTab: vi.fn(async (): Promise<TrackedTab | undefined> => createTab({ tags: ['home'] })),
+      getTabsInSession: vi.fn(async () => [createTab()]),
+      updateTabMetadata: vi.fn(async () => {}),
+      saveTab: vi.fn(async () => {}),
+      getTabVisits: vi.fn(async () => []),
+      getTabNavigations: vi.fn(async () => []),
+    },
+    windowTracker: {
+      getWindowsInSession: vi.fn(async () => []),
+    },
+    relationshipManager: {
+      getAllRelationships: vi.fn(async () => ({
+        openerChain: [],
+        children: [],
+        siblings: [],
+        temporallyRelated: [],
+      })),
+    },
+    initService: {
+      initialize: vi.fn(async () => {}),
+      getStatus: vi.fn(async () => status),
+    },
+    searchService: {
+      scheduleReindex: vi.fn(),
+      search: vi.fn(async () => []),
+      ensureIndexed: vi.fn(async () => 0),
+    },
+    queryService: {
+      run: vi.fn(async () => [createTab()]),
+      getSavedSearches: vi.fn(async () => []),
+      saveSearch: vi.fn(async (name: string, query: string) => ({ id: 1, name, query, createdAt: 1, updatedAt: 1 })),
+      deleteSavedSearch: vi.fn(async () => {}),
+    },
+    idleTracker: {
+      getIdlePeriods: vi.fn(async () => []),
+    },
+    importService: {
+      importData: vi.fn(async () => ({ manifestVersion: '1.0.0' })),
+    },
+    sessionRestoreService: {
+      restoreSession: vi.fn(async (_sessionId: string): Promise<RestoreReport | null> => ({
+        windows: 1,
+        tabs: 2,
+        groups: 0,
+        skipped: 0,
+        failed: 0,
+      })),
+    },
+    workspaceService: {
+      createWorkspace: vi.fn(async (name: string): Promise<Workspace | null> => ({ id: 1, name }) as Workspace),
+      openWorkspace: vi.fn(async (): Promise<RestoreReport | null> => null),
+    },
+    sessionPolicyService: {
+      startNewSession: vi.fn(async () => ({ id: 'session-2' })),
+      updatePolicy: vi.fn(async () => DEFAULT_SESSION_POLICY),
+    },
+    sessionEditService: {
+      mergeSessions: vi.fn(async (): Promise<Session | null> => null),
+      splitSession: vi.fn(async (): Promise<Session | null> => null),
+      moveToSession: vi.fn(async (sessionId: string) => ({ id: sessionId }) as Session),
+    },
+    sessionSummaryService: {
+      rename: vi.fn(async (sessionId: string, name: string) => ({ id: sessionId, name }) as Session),
+      summarize: vi.fn(async (): Promise<Session | null> => null),
+    },
+    sessionDiffService: {
+      diffSessions: vi.fn(async (): Promise<SessionDiff | null> => null),
+    },
+    retentionService: {
+      run: vi.fn(async ({ dryRun = false } = {}) => ({ dryRun, sessions: [] })),
+      updateRules: vi.fn(async (rules: RetentionRule[]) => ({ rules })),
+    },
+    archiveService: {
+      restoreArchive: vi.fn(async (): Promise<Session | null> => null),
+      deleteArchive: vi.fn(async () => false),
+    },
+    settingsService: {
+      updateSettings: vi.fn(async (changes: SettingsChanges) => ({ ...DEFAULT_SETTINGS, ...changes })),
+    },
+    tagService: {
+      getTag: vi.fn(async (name: string): Promise<Tag | undefined> =>
+        name.toLowerCase() === 'work' ? ({ name: 'work' } as Tag) : undefined
+      ),
+      getTagByAlias: vi.fn(async (alias: string): Promise<Tag | undefined> =>
+        alias === 'js' ? ({ name: 'javascript' } as Tag) : undefined
+      ),
+      resolveTag: vi.fn(async (name: string) => resolveTag(name)),
+      resolveTags: vi.fn(async (names: string[]) => normalizeTags(names.map(resolveTag))),
+      resolveStoredAliases: vi.fn(async () => {}),
+      createTag: vi.fn(async (name: string) => ({ name }) as Tag),
+      renameTag: vi.fn(async (): Promise<Tag | null> => null),
+      mergeTags: vi.fn(async (): Promise<Tag | null> => null),
+      addAlias: vi.fn(async (): Promise<Tag | null> => null),
+      deleteTag: vi.fn(async () => false),
+      refreshUsage: vi.fn(async () => {}),
+      recountUsage: vi.fn(async () => 0),
+    },
+    autoTagService: {
+      run: vi.fn(async ({ dryRun = false } = {}) => ({ dryRun, tabs: [] })),
+    },
+    analyticsService: {
+      getAnalytics: vi.fn(async () => ({ domains: [], days: [] })),
+      getDomainHistory: vi.fn(async (): Promise<DomainHistory | null> => null),
+    },
+    reportService: {
+      getReport: vi.fn(async (period: ReportPeriod) => ({ period })),
+      generate: vi.fn(async (period: ReportPeriod) => ({ period })),
+      listReports: vi.fn(async () => []),
+    },
+  };
+}
+
+describe('RPC handlers', () => {
+  let deps: ReturnType<typeof createDependencies>;
+  let handlers: RpcHandlers;
+
+  beforeEach(() => {
+    deps = createDependencies();
+    handlers = createRpcHandlers(deps as unknown as RpcDependencies);
+  });
+
+  describe('GET_CURRENT_TAB', () => {
+    it('should return the active tab', async () => {
+      expect(await handlers.GET_CURRENT_TAB({})).toMatchObject({ persistentId: 'tab-1' });
+      expect(deps.tabTracker.getTab).toHaveBeenCalledWith('tab-1');
+    });
+
+    it('should report NOT_FOUND without an active tab', async () => {
+      deps.storageManager.getActiveTabPersistentId.mockReturnValue(null);
+      await expect(handlers.GET_CURRENT_TAB({})).rejects.toMatchObject({ code: 'NOT_FOUND' });
+
+      deps.storageManager.getActiveTabPersistentId.mockReturnValue('tab-gone');
+      deps.tabTracker.getTab.mockResolvedValue(undefined);
+      await expect(handlers.GET_CURRENT_TAB({})).rejects.toBeInstanceOf(RpcError);
+    });
+  });
+
+  it('GET_CURRENT_SESSION should return the session ID', async () => {
+    expect(await handlers.GET_CURRENT_SESSION({})).toEqual({ sessionId: 'session-1' });
+  });
+
+  describe('GET_TABS_IN_SESSION', () => {
+    it('should default to the current session', async () => {
+      await handlers.GET_TABS_IN_SESSION({});
+      await handlers.GET_TABS_IN_SESSION({ sessionId: 'session-2' });
+
+      expect(deps.tabTracker.getTabsInSession).toHaveBeenNthCalledWith(1, 'session-1');
+      expect(deps.tabTracker.getTabsInSession).toHaveBeenNthCalledWith(2, 'session-2');
+    });
+
+    it('should report NO_SESSION when there is no session', async () => {
+      deps.storageManager.getCurrentSessionId.mockReturnValue(null);
+      await expect(handlers.GET_TABS_IN_SESSION({})).rejects.toMatchObject({ code: 'NO_SESSION' });
+    });
+  });
+
+  it('GET_WINDOWS_IN_SESSION should default to the current session', async () => {
+    await handlers.GET_WINDOWS_IN_SESSION({});
+    expect(deps.windowTracker.getWindowsInSession).toHaveBeenCalledWith('session-1');
+  });
+
+  it('UPDATE_TAB_METADATA should update the tab and schedule a reindex', async () => {
+    await handlers.UPDATE_TAB_METADATA({ persistentId: 'tab-1', tags: ['work'], notes: 'n' });
+
+    expect(deps.tabTracker.updateTabMetadata).toHaveBeenCalledWith('tab-1', {
+      tags: ['work'],
+      notes: 'n',
+      customMetadata: undefined,
+    });
+    expect(deps.searchService.scheduleReindex).toHaveBeenCalledWith('tab-1');
+  });
+
+  it('UPDATE_TAB_METADATA should normalize tags and recount the ones added and removed', async () => {
+    await handlers.UPDATE_TAB_METADATA({ persistentId: 'tab-1', tags: [' Work ', 'work', 'Deep  Dive'] });
+
+    expect(deps.tabTracker.updateTabMetadata).toHaveBeenCalledWith('tab-1', expect.objectContaining({
+      tags: ['work', 'deep dive'],
+    }));
+    expect(deps.tagService.refreshUsage).toHaveBeenCalledWith(['home', 'work', 'deep dive']);
+  });
+
+  it('UPDATE_TAB_METADATA should store the tag an alias stands for', async () => {
+    await handlers.UPDATE_TAB_METADATA({ persistentId: 'tab-1', tags: ['JS', 'javascript', 'Project / UNOS'] });
+
+    expect(deps.tabTracker.updateTabMetadata).toHaveBeenCalledWith('tab-1', expect.objectContaining({
+      tags: ['javascript', 'project/unos'],
+    }));
+  });
+
+  it('SAVE_TAB should save the tab', async () => {
+    await handlers.SAVE_TAB({ persistentId: 'tab-1' });
+    expect(deps.tabTracker.saveTab).toHaveBeenCalledWith('tab-1');
+  });
+
+  it('GET_TAB_RELATIONSHIPS should return relationship groups', async () => {
+    expect(await handlers.GET_TAB_RELATIONSHIPS({ persistentId: 'tab-1' })).toHaveProperty('openerChain');
+    expect(deps.relationshipManager.getAllRelationships).toHaveBeenCalledWith('tab-1');
+  });
+
+  it('GET_TAB_VISITS should pass the limit through', async () => {
+    await handlers.GET_TAB_VISITS({ persistentId: 'tab-1', limit: 5 });
+    expect(deps.tabTracker.getTabVisits).toHaveBeenCalledWith('tab-1', 5);
+  });
+
+  it('GET_TAB_NAVIGATIONS should pass the limit through', async () => {
+    await handlers.GET_TAB_NAVIGATIONS({ persistentId: 'tab-1' });
+    expect(deps.tabTracker.getTabNavigations).toHaveBeenCalledWith('tab-1', undefined);
+  });
+
+  it('GET_IDLE_PERIODS should default to the current session', async () => {
+    await handlers.GET_IDLE_PERIODS({ limit: 10 });
+    expect(deps.idleTracker.getIdlePeriods).toHaveBeenCalledWith('session-1', 10);
+  });
+
+  it('SEARCH should forward the search options', async () => {
+    await handlers.SEARCH({ query: 'dexie', includeClosed: false });
+    expect(deps.searchService.search).toHaveBeenCalledWith('dexie', {
+      limit: undefined,
+      includeClosed: false,
+      sessionId: undefined,
+    });
+  });
+
+  it('RUN_QUERY should run the query', async () => {
+    expect(await handlers.RUN_QUERY({ query: 'tag:work', limit: 10 })).toHaveLength(1);
+    expect(deps.queryService.run).toHaveBeenCalledWith('tag:work', { limit: 10 });
+  });
+
+  it('GET_SAVED_SEARCHES should list saved searches', async () => {
+    expect(await handlers.GET_SAVED_SEARCHES({})).toEqual([]);
+  });
+
+  it('SAVE_SEARCH should return the saved search', async () => {
+    expect(await handlers.SAVE_SEARCH({ name: 'Work', query: 'tag:work' })).toMatchObject({ id: 1, name: 'Work' });
+  });
+
+  it('DELETE_SAVED_SEARCH should delete by ID', async () => {
+    await handlers.DELETE_SAVED_SEARCH({ id: 3 });
+    expect(deps.queryService.deleteSavedSearch).toHaveBeenCalledWith(3);
+  });
+
+  it('PING should answer with a timestamp', async () => {
+    expect(await handlers.PING({})).toMatchObject({ pong: true, timestamp: expect.any(Number) });
+  });
+
+  it('SWITCH_TO_TAB should focus the window, then the tab', async () => {
+    await handlers.SWITCH_TO_TAB({ chromeTabId: 5, chromeWindowId: 2 });
+
+    expect(mockWindows.update).toHaveBeenCalledWith(2, { focused: true });
+    expect(mockTabs.update).toHaveBeenCalledWith(5, { active: true });
+  });
+
+  it('CLOSE_TAB should remove the tab', async () => {
+    await handlers.CLOSE_TAB({ chromeTabId: 5 });
+    expect(mockTabs.remove).toHaveBeenCalledWith(5);
+  });
+
+  it('MOVE_TAB_TO_WINDOW should append to the target window by default', async () => {
+    await handlers.MOVE_TAB_TO_WINDOW({ chromeTabId: 5, targetWindowId: 3 });
+    expect(mockTabs.move).toHaveBeenCalledWith(5, { windowId: 3, index: -1 });
+  });
+
+  it('REORDER_TAB should move the tab within its window', async () => {
+    await handlers.REORDER_TAB({ chromeTabId: 5, newIndex: 0 });
+    expect(mockTabs.move).toHaveBeenCalledWith(5, { index: 0 });
+  });
+
+  it('IMPORT_DATA should import and backfill the search index', async () => {
+    const data = { manifest: { version: '1.0.0' } } as Parameters<RpcHandlers['IMPORT_DATA']>[0]['data'];
+
+    expect(await handlers.IMPORT_DATA({ data })).toMatchObject({ manifestVersion: '1.0.0' });
+    expect(deps.importService.importData).toHaveBeenCalledWith(data);
+    expect(deps.searchService.ensureIndexed).toHaveBeenCalled();
+    expect(deps.tagService.resolveStoredAliases).toHaveBeenCalled();
+    expect(deps.tagService.recountUsage).toHaveBeenCalled();
+  });
+
+  describe('RESTORE_SESSION', () => {
+    it('should restore the session with the loading option', async () => {
+      expect(await handlers.RESTORE_SESSION({ sessionId: 'session-2', lazy: true })).toMatchObject({ tabs: 2 });
+      expect(deps.sessionRestoreService.restoreSession).toHaveBeenCalledWith('session-2', { lazy: true });
+    });
+
+    it('should report NOT_FOUND for an unknown session', async () => {
+      deps.sessionRestoreService.restoreSession.mockResolvedValue(null);
+      await expect(handlers.RESTORE_SESSION({ sessionId: 'missing' })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    });
+  });
+
+  describe('CREATE_WORKSPACE', () => {
+    it('should create the workspace from the given window', async () => {
+      expect(await handlers.CREATE_WORKSPACE({ name: 'Focus', chromeWindowId: 5 })).toMatchObject({ id: 1 });
+      expect(deps.workspaceService.createWorkspace).toHaveBeenCalledWith(
+        'Focus',
+        { sessionId: undefined, chromeWindowId: 5 },
+        undefined
+      );
+    });
+
+    it('should need exactly one source', async () => {
+      await expect(handlers.CREATE_WORKSPACE({ name: 'Focus' })).rejects.toMatchObject({ code: 'INVALID_REQUEST' });
+      await expect(
+        handlers.CREATE_WORKSPACE({ name: 'Focus', sessionId: 'session-1', chromeWindowId: 5 })
+      ).rejects.toMatchObject({ code: 'INVALID_REQUEST' });
+      expect(deps.workspaceService.createWorkspace).not.toHaveBeenCalled();
+    });
+
+    it('should report NOT_FOUND for an unknown session', async () => {
+      deps.workspaceService.createWorkspace.mockResolvedValue(null);
+      await expect(handlers.CREATE_WORKSPACE({ name: 'Focus', sessionId: 'missing' })).rejects.toMatchObject({
+        code: 'NOT_FOUND',
+        message: 'Session not found: missing',
+      });
+    });
+  });
+
+  it('OPEN_WORKSPACE should report NOT_FOUND for an unknown workspace', async () => {
+    await expect(handlers.OPEN_WORKSPACE({ id: 42, lazy: true })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    expect(deps.workspaceService.openWorkspace).toHaveBeenCalledWith(42, { lazy: true });
+  });
+
+  it('START_NEW_SESSION should start a session by hand', async () => {
+    expect(await handlers.START_NEW_SESSION({})).toEqual({ id: 'session-2' });
+    expect(deps.sessionPolicyService.startNewSession).toHaveBeenCalledWith('manual');
+  });
+
+  it('MERGE_SESSIONS should report NOT_FOUND for an unknown session', async () => {
+    await expect(
+      handlers.MERGE_SESSIONS({ targetSessionId: 'session-1', sourceSessionId: 'missing' })
+    ).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    expect(deps.sessionEditService.mergeSessions).toHaveBeenCalledWith('session-1', 'missing');
+  });
+
+  it('UPDATE_SESSION_POLICY should report out-of-range rules as INVALID_REQUEST', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    deps.sessionPolicyService.updatePolicy.mockRejectedValue(new ValidationError('Day start must be a whole hour from 0 to 23'));
+
+    expect(await createRpcRouter(handlers)({ type: 'UPDATE_SESSION_POLICY', dayStartHour: 24 })).toMatchObject({
+      success: false,
+      code: 'INVALID_REQUEST',
+    });
+  });
+
+  it('MERGE_SESSIONS and SPLIT_SESSION should report rejected edits as INVALID_REQUEST', async () => {
+    const route = createRpcRouter(handlers);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    deps.sessionEditService.mergeSessions.mockRejectedValue(new ValidationError('Cannot merge a session into itself'));
+    deps.sessionEditService.splitSession.mockRejectedValue(new ValidationError('Split time must fall inside the session'));
+
+    expect(
+      await route({ type: 'MERGE_SESSIONS', targetSessionId: 'session-1', sourceSessionId: 'session-1' })
+    ).toMatchObject({ success: false, code: 'INVALID_REQUEST', error: 'Cannot merge a session into itself' });
+    expect(await route({ type: 'SPLIT_SESSION', sessionId: 'session-1', at: 1 })).toMatchObject({
+      success: false,
+      code: 'INVALID_REQUEST',
+    });
+  });
+
+  describe('MOVE_TO_SESSION', () => {
+    it('should move the picked windows and tabs', async () => {
+      expect(await handlers.MOVE_TO_SESSION({ sessionId: 'session-2', tabPersistentIds: ['tab-1'] })).toEqual({
+        id: 'session-2',
+      });
+      expect(deps.sessionEditService.moveToSession).toHaveBeenCalledWith('session-2', {
+        windowPersistentIds: [],
+        tabPersistentIds: ['tab-1'],
+      });
+    });
+
+    it('should reject an empty selection', async () => {
+      await expect(handlers.MOVE_TO_SESSION({ sessionId: 'session-2' })).rejects.toMatchObject({
+        code: 'INVALID_REQUEST',
+      });
+      expect(deps.sessionEditService.moveToSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('RENAME_SESSION', () => {
+    it('should rename the session by hand', async () => {
+      expect(await handlers.RENAME_SESSION({ sessionId: 'session-1', name: 'Taxes' })).toEqual({
+        id: 'session-1',
+        name: 'Taxes',
+      });
+      expect(deps.sessionSummaryService.rename).toHaveBeenCalledWith('session-1', 'Taxes', undefined);
+    });
+
+    it('should reject a blank name', async () => {
+      await expect(handlers.RENAME_SESSION({ sessionId: 'session-1', name: '  ' })).rejects.toMatchObject({
+        code: 'INVALID_REQUEST',
+      });
+      expect(deps.sessionSummaryService.rename).not.toHaveBeenCalled();
+    });
+  });
+
+  it('SUMMARIZE_SESSION should override a user-set name and report NOT_FOUND', async () => {
+    await expect(handlers.SUMMARIZE_SESSION({ sessionId: 'missing' })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    expect(deps.sessionSummaryService.summarize).toHaveBeenCalledWith('missing', { force: true });
+  });
+
+  it('DIFF_SESSIONS should report NOT_FOUND for an unknown session', async () => {
+    await expect(
+      handlers.DIFF_SESSIONS({ baseSessionId: 'session-1', compareSessionId: 'missing' })
+    ).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    expect(deps.sessionDiffService.diffSessions).toHaveBeenCalledWith('session-1', 'missing');
+  });
+
+  it('RUN_RETENTION should only delete when asked to', async () => {
+    expect(await handlers.RUN_RETENTION({})).toMatchObject({ dryRun: true });
+    expect(await handlers.RUN_RETENTION({ dryRun: false })).toMatchObject({ dryRun: false });
+    expect(deps.retentionService.run).toHaveBeenLastCalledWith({ dryRun: false });
+  });
+
+  it('UPDATE_RETENTION_RULES should report malformed rules as INVALID_REQUEST', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    deps.retentionService.updateRules.mockRejectedValue(new ValidationError('Rule 1 must apply to sessions or visits'));
+
+    const rules = [{ appliesTo: 'tabs', match: {}, keepDays: 1 }];
+    expect(await createRpcRouter(handlers)({ type: 'UPDATE_RETENTION_RULES', rules })).toMatchObject({
+      success: false,
+      code: 'INVALID_REQUEST',
+    });
+  });
+
+  it('RUN_AUTO_TAG_RULES should only tag past tabs when asked to', async () => {
+    expect(await handlers.RUN_AUTO_TAG_RULES({ sessionIds: ['session-1'] })).toMatchObject({ dryRun: true });
+    expect(deps.autoTagService.run).toHaveBeenLastCalledWith(
+      expect.objectContaining({ dryRun: true, sessionIds: ['session-1'] })
+    );
+    expect(await handlers.RUN_AUTO_TAG_RULES({ dryRun: false })).toMatchObject({ dryRun: false });
+  });
+
+  it('GET_DOMAIN_ANALYTICS and GET_DOMAIN_HISTORY should refuse backwards ranges', async () => {
+    await expect(handlers.GET_DOMAIN_ANALYTICS({ from: 2, to: 1 })).rejects.toMatchObject({ code: 'INVALID_REQUEST' });
+    await expect(handlers.GET_DOMAIN_HISTORY({ domain: 'a.com', from: 2, to: 1 })).rejects.toMatchObject({
+      code: 'INVALID_REQUEST',
+    });
+    expect(deps.analyticsService.getAnalytics).not.toHaveBeenCalled();
+  });
+
+  it('GET_DOMAIN_HISTORY should report NOT_FOUND for a site never visited', async () => {
+    await expect(handlers.GET_DOMAIN_HISTORY({ domain: 'a.com' })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    expect(deps.analyticsService.getDomainHistory).toHaveBeenCalledWith('a.com', { from: undefined, to: undefined });
+  });
+
+  it('report handlers should refuse unknown periods', async () => {
+    expect(await handlers.GENERATE_REPORT({ period: 'weekly', date: 5 })).toEqual({ period: 'weekly' });
+    expect(deps.reportService.generate).toHaveBeenCalledWith('weekly', 5);
+
+    await expect(handlers.GET_REPORT({ period: 'monthly' as ReportPeriod })).rejects.toMatchObject({
+      code: 'INVALID_REQUEST',
+    });
+    await expect(handlers.LIST_REPORTS({ period: 'yearly' as ReportPeriod })).rejects.toMatchObject({
+      code: 'INVALID_REQUEST',
+    });
+    expect(await handlers.LIST_REPORTS({})).toEqual([]);
+    expect(deps.reportService.getReport).not.toHaveBeenCalled();
+  });
+
+  it('RESTORE_ARCHIVE and DELETE_ARCHIVE should report NOT_FOUND without an archive', async () => {
+    await expect(handlers.RESTORE_ARCHIVE({ sessionId: 'missing' })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    await expect(handlers.DELETE_ARCHIVE({ sessionId: 'missing' })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    expect(deps.archiveService.restoreArchive).toHaveBeenCalledWith('missing');
+  });
+
+  it('RESTORE_ARCHIVE should report a session still stored as INVALID_REQUEST', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    deps.archiveService.restoreArchive.mockRejectedValue(new ValidationError('Session session-1 still exists'));
+
+    expect(await createRpcRouter(handlers)({ type: 'RESTORE_ARCHIVE', sessionId: 'session-1' })).toMatchObject({
+      success: false,
+      code: 'INVALID_REQUEST',
+    });
+  });
+
+  it('UPDATE_SETTINGS should pass the changed sections through', async () => {
+    const changes = { relationships: { temporalProximityMinutes: 20 } };
+
+    expect(await handlers.UPDATE_SETTINGS(changes)).toMatchObject(changes);
+    expect(deps.settingsService.updateSettings).toHaveBeenCalledWith(changes);
+  });
+
+  it('tag handlers should report changes the tag service rejects as INVALID_REQUEST', async () => {
+    const route = createRpcRouter(handlers);
+    const invalid = { success: false, code: 'INVALID_REQUEST' };
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    deps.tagService.createTag.mockRejectedValue(new ValidationError('Tag "work" already exists'));
+    deps.tagService.renameTag.mockRejectedValue(new ValidationError('Cannot move "work" under itself'));
+    deps.tagService.mergeTags.mockRejectedValue(new ValidationError('Cannot merge "work" into "work/old"'));
+    deps.tagService.addAlias.mockRejectedValue(new ValidationError('"js" is already an alias of "javascript"'));
+
+    expect(await route({ type: 'CREATE_TAG', name: 'Work' })).toMatchObject(invalid);
+    expect(await route({ type: 'RENAME_TAG', name: 'work', newName: 'work/old' })).toMatchObject(invalid);
+    expect(await route({ type: 'MERGE_TAGS', sources: ['work'], target: 'work/old' })).toMatchObject(invalid);
+    expect(await route({ type: 'ADD_TAG_ALIAS', name: 'work', alias: 'js' })).toMatchObject(invalid);
+  });
+
+  it('RENAME_TAG, DELETE_TAG and ADD_TAG_ALIAS should report NOT_FOUND for an unknown tag', async () => {
+    await expect(handlers.RENAME_TAG({ name: 'missing', newName: 'other' })).rejects.toMatchObject({
+      code: 'NOT_FOUND',
+    });
+    await expect(handlers.DELETE_TAG({ name: 'missing' })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    await expect(handlers.ADD_TAG_ALIAS({ name: 'missing', alias: 'job' })).rejects.toMatchObject({
+      code: 'NOT_FOUND',
+    });
+  });
+
+  it('GET_DEBUG_STATS should add visit, relationship and idle counts', async () => {
+    expect(await handlers.GET_DEBUG_STATS({})).toEqual({
+      ...status,
+      visitCount: 7,
+      relationshipCount: 4,
+      idlePeriodCount: 2,
+      idleState: 'active',
+    });
+  });
+
+  it('GET_RECENT_EVENTS should read the stored event log', async () => {
+    expect(await handlers.GET_RECENT_EVENTS({})).toEqual([]);
+
+    localStorage.recentEvents = [{ type: 'TAB_CREATED', data: '{}', timestamp: 1 }];
+    expect(await handlers.GET_RECENT_EVENTS({})).toHaveLength(1);
+  });
+
+  it('FORCE_RECONCILE should reinitialize and report status', async () => {
+    expect(await handlers.FORCE_RECONCILE({})).toEqual(status);
+    expect(deps.initService.initialize).toHaveBeenCalled();
+  });
+
+  it('FORCE_INIT should reinitialize and report status', async () => {
+    expect(await handlers.FORCE_INIT({})).toEqual(status);
+    expect(deps.initService.initialize).toHaveBeenCalled();
+  });
+});
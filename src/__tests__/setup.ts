@@ -14,6 +14,12 @@ const mockRuntime = {
     addListener: vi.fn(),
     removeListener: vi.fn(),
   },
+  // Tests install a port pair with helpers/portHarness
+  connect: vi.fn(),
+  onConnect: {
+    addListener: vi.fn(),
+    removeListener: vi.fn(),
+  },
 };
 
 // Mock chrome.storage.session
@@ -33,20 +39,71 @@ const mockStorageSession = {
   }),
 };
 
+// Mock chrome.storage.local
+const localStorage: Record<string, unknown> = {};
+const mockStorageLocal = {
+  get: vi.fn((keys: string | string[]) => {
+    const list = typeof keys === 'string' ? [keys] : keys;
+    const result: Record<string, unknown> = {};
+    list.forEach(k => { if (k in localStorage) result[k] = localStorage[k]; });
+    return Promise.resolve(result);
+  }),
+  set: vi.fn((items: Record<string, unknown>) => {
+    Object.assign(localStorage, items);
+    return Promise.resolve();
+  }),
+  remove: vi.fn((keys: string | string[]) => {
+    const list = typeof keys === 'string' ? [keys] : keys;
+    list.forEach(k => delete localStorage[k]);
+    return Promise.resolve();
+  }),
+};
+
+// Mock chrome.storage.sync
+const syncStorage: Record<string, unknown> = {};
+const mockStorageSync = {
+  get: vi.fn((keys: string | string[]) => {
+    const list = typeof keys === 'string' ? [keys] : keys;
+    const result: Record<string, unknown> = {};
+    list.forEach(k => { if (k in syncStorage) result[k] = syncStorage[k]; });
+    return Promise.resolve(result);
+  }),
+  set: vi.fn((items: Record<string, unknown>) => {
+    Object.assign(syncStorage, items);
+    return Promise.resolve();
+  }),
+};
+
 // Mock chrome.tabs
 const mockTabs = {
+  create: vi.fn((_props: chrome.tabs.CreateProperties) => Promise.resolve({} as chrome.tabs.Tab)),
   update: vi.fn(() => Promise.resolve({})),
-  remove: vi.fn(() => Promise.resolve()),
+  remove: vi.fn((_tabIds: number | number[]) => Promise.resolve()),
   move: vi.fn(() => Promise.resolve({})),
-  query: vi.fn(() => Promise.resolve([])),
+  query: vi.fn((_queryInfo: chrome.tabs.QueryInfo) => Promise.resolve([] as chrome.tabs.Tab[])),
   get: vi.fn(() => Promise.resolve({})),
+  group: vi.fn((_options: chrome.tabs.GroupOptions) => Promise.resolve(1)),
+  discard: vi.fn((_tabId?: number) => Promise.resolve({} as chrome.tabs.Tab)),
 };
 
 // Mock chrome.windows
 const mockWindows = {
+  WINDOW_ID_NONE: -1,
+  create: vi.fn((_data?: chrome.windows.CreateData) => Promise.resolve({} as chrome.windows.Window)),
   update: vi.fn(() => Promise.resolve({})),
   get: vi.fn(() => Promise.resolve({})),
-  getAll: vi.fn(() => Promise.resolve([])),
+  getAll: vi.fn(() => Promise.resolve([] as chrome.windows.Window[])),
+  remove: vi.fn((_windowId: number) => Promise.resolve()),
+};
+
+// Mock chrome.tabGroups
+const mockTabGroups = {
+  TAB_GROUP_ID_NONE: -1,
+  get: vi.fn(() => Promise.resolve({})),
+  query: vi.fn(() => Promise.resolve([])),
+  update: vi.fn((_groupId: number, _props: chrome.tabGroups.UpdateProperties) =>
+    Promise.resolve({} as chrome.tabGroups.TabGroup)
+  ),
 };
 
 // Mock chrome.alarms
@@ -58,15 +115,31 @@ const mockAlarms = {
   },
 };
 
+// Mock chrome.idle
+const mockIdle = {
+  setDetectionInterval: vi.fn(),
+  queryState: vi.fn(() => Promise.resolve('active')),
+  onStateChanged: {
+    addListener: vi.fn(),
+  },
+};
+
 // Global chrome mock
 const chromeMock = {
   runtime: mockRuntime,
   storage: {
     session: mockStorageSession,
+    local: mockStorageLocal,
+    sync: mockStorageSync,
+    onChanged: {
+      addListener: vi.fn(),
+    },
   },
   tabs: mockTabs,
   windows: mockWindows,
+  tabGroups: mockTabGroups,
   alarms: mockAlarms,
+  idle: mockIdle,
 };
 
 // Assign to global
@@ -77,13 +150,21 @@ export {
   mockSendMessage,
   mockRuntime,
   mockStorageSession,
+  mockStorageLocal,
+  mockStorageSync,
   mockTabs,
   mockWindows,
+  mockTabGroups,
+  mockIdle,
   sessionStorage,
+  localStorage,
+  syncStorage,
 };
 
 // Reset mocks before each test
 beforeEach(() => {
   vi.clearAllMocks();
   Object.keys(sessionStorage).forEach(key => delete sessionStorage[key]);
+  Object.keys(localStorage).forEach(key => delete localStorage[key]);
+  Object.keys(syncStorage).forEach(key => delete syncStorage[key]);
 });
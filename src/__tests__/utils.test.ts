@@ -1,7 +1,9 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { generateUUID } from '../utils/uuid';
-import { normalizeUrl, hashUrlSync } from '../utils/hash';
+import { normalizeUrl, getDomain, hashUrlSync } from '../utils/hash';
 import { debounce, throttle } from '../utils/debounce';
+import { tokenize, countTokens } from '../utils/tokenize';
+import { tagAncestors, isTagWithin, rewriteTagPath } from '../utils/tags';
 
 describe('UUID Utils', () => {
   describe('generateUUID', () => {
@@ -74,6 +76,19 @@ describe('Hash Utils', () => {
     });
   });
 
+  describe('getDomain', () => {
+    it('should return the host without www', () => {
+      expect(getDomain('https://www.Example.com/page')).toBe('example.com');
+      expect(getDomain('http://docs.example.com:8080/a')).toBe('docs.example.com');
+    });
+
+    it('should return null for pages that are not on the web', () => {
+      expect(getDomain('chrome://newtab/')).toBeNull();
+      expect(getDomain('file:///home/user/notes.txt')).toBeNull();
+      expect(getDomain('not a valid url')).toBeNull();
+    });
+  });
+
   describe('hashUrlSync', () => {
     it('should return consistent hash for same URL', () => {
       const url = 'https://example.com/page';
@@ -106,6 +121,63 @@ describe('Hash Utils', () => {
   });
 });
 
+describe('Tokenize Utils', () => {
+  describe('tokenize', () => {
+    it('should lowercase and split on punctuation', () => {
+      expect(tokenize('Vue.js Composition-API Guide')).toEqual(['vue', 'js', 'composition', 'api', 'guide']);
+    });
+
+    it('should split URLs and drop protocol noise', () => {
+      expect(tokenize('https://www.github.com/vuejs/core')).toEqual(['github', 'com', 'vuejs', 'core']);
+    });
+
+    it('should drop stop words and single characters', () => {
+      expect(tokenize('The state of a Web app')).toEqual(['state', 'web', 'app']);
+    });
+
+    it('should strip accents', () => {
+      expect(tokenize('Café Crème')).toEqual(['cafe', 'creme']);
+    });
+
+    it('should keep non-latin letters and digits', () => {
+      expect(tokenize('東京 2024')).toEqual(['東京', '2024']);
+    });
+
+    it('should return nothing for empty input', () => {
+      expect(tokenize('')).toEqual([]);
+    });
+  });
+
+  describe('countTokens', () => {
+    it('should count repeated tokens', () => {
+      const counts = countTokens(['vue', 'guide', 'vue']);
+      expect(counts.get('vue')).toBe(2);
+      expect(counts.get('guide')).toBe(1);
+    });
+  });
+});
+
+describe('Tag Utils', () => {
+  it('should list the tags a nested tag sits under', () => {
+    expect(tagAncestors('project/unos/backend')).toEqual(['project', 'project/unos']);
+    expect(tagAncestors('project')).toEqual([]);
+  });
+
+  it('should treat a tag as covering the tags nested under it', () => {
+    expect(isTagWithin('project/unos', 'project')).toBe(true);
+    expect(isTagWithin('project', 'project')).toBe(true);
+    expect(isTagWithin('projects', 'project')).toBe(false);
+  });
+
+  it('should rewrite the longest matching prefix of a path', () => {
+    const aliases = new Map([['js', 'javascript'], ['js/vue', 'vue']]);
+
+    expect(rewriteTagPath('js/react', aliases)).toBe('javascript/react');
+    expect(rewriteTagPath('js/vue/router', aliases)).toBe('vue/router');
+    expect(rewriteTagPath('jsx', aliases)).toBe('jsx');
+  });
+});
+
 describe('Debounce Utils', () => {
   beforeEach(() => {
     vi.useFakeTimers();
@@ -214,6 +286,23 @@ describe('Debounce Utils', () => {
       // Should have been called due to maxWait
       expect(fn).toHaveBeenCalledTimes(1);
     });
+
+    it('should read a wait given as a function on every call', () => {
+      const fn = vi.fn();
+      let wait = 100;
+      const debounced = debounce(fn, () => wait);
+
+      debounced();
+      vi.advanceTimersByTime(100);
+      expect(fn).toHaveBeenCalledTimes(1);
+
+      wait = 300;
+      debounced();
+      vi.advanceTimersByTime(200);
+      expect(fn).toHaveBeenCalledTimes(1);
+      vi.advanceTimersByTime(100);
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
   });
 
   describe('throttle', () => {
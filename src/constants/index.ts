@@ -1,3 +1,4 @@
 // Constants module exports
 export * from './timing';
 export * from './retention';
+export * from './reports';
@@ -0,0 +1,15 @@
+/**
+ * Activity report constants
+ */
+export const REPORTS = {
+  // Defaults - the user's settings apply
+  /** Day weekly reports start on (0 is Sunday, 1 Monday) */
+  WEEK_STARTS_ON: 1,
+  /** Daily reports generated on schedule and kept (0 turns them off) */
+  DAILY_REPORTS_KEPT: 14,
+  /** Weekly reports generated on schedule and kept (0 turns them off) */
+  WEEKLY_REPORTS_KEPT: 8,
+
+  /** Entries in each of a report's top lists */
+  TOP_ENTRIES: 10,
+} as const;
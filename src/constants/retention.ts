@@ -2,14 +2,14 @@
  * Data retention policy constants
  */
 export const RETENTION = {
-  // Session retention
+  // Session retention (defaults - RetentionService applies the user's policy)
   /** Days before unsaved sessions expire (7 days) */
   UNSAVED_SESSION_TTL_DAYS: 7,
   /** Saved sessions never expire */
   SAVED_SESSION_TTL_DAYS: null,
 
   // Visit history retention
-  /** Days to keep visit history (30 days) */
+  /** Days to keep visit history (30 days) unless the retention policy says otherwise */
   VISIT_HISTORY_TTL_DAYS: 30,
 
   // Relationship retention
@@ -32,27 +32,41 @@ export const STORAGE_LIMITS = {
   MAX_CACHED_TAB_MAPPINGS: 1000,
   /** Maximum cached window mappings */
   MAX_CACHED_WINDOW_MAPPINGS: 50,
+  /** Maximum cached tab group mappings */
+  MAX_CACHED_GROUP_MAPPINGS: 100,
   /** Maximum pending writes before forced flush */
   MAX_PENDING_WRITES: 100,
 
   // IndexedDB limits (soft limits for pruning)
-  /** Maximum visits per tab before pruning */
+  /** Maximum visits per tab before pruning, unless the retention policy says otherwise */
   MAX_VISITS_PER_TAB: 10000,
+
+  // Paged data channel
+  /** Rows per page when the popup does not ask for a size */
+  DATA_PAGE_SIZE: 500,
+  /** Largest page the popup may request */
+  MAX_DATA_PAGE_SIZE: 5000,
 } as const;
 
 /**
  * Calculate expiration timestamp for an unsaved session
  */
-export function calculateSessionExpiry(startedAt: number): number {
-  return startedAt + RETENTION.UNSAVED_SESSION_TTL_DAYS * 24 * 60 * 60 * 1000;
+export function calculateSessionExpiry(
+  startedAt: number,
+  ttlDays: number = RETENTION.UNSAVED_SESSION_TTL_DAYS
+): number {
+  return startedAt + ttlDays * 24 * 60 * 60 * 1000;
 }
 
 /**
  * Calculate temporal proximity strength based on time difference
  * Returns 0-1 where 1 is closest (same time) and 0 is at the boundary
  */
-export function calculateTemporalStrength(timeDiffMs: number): number {
-  const maxDiffMs = RETENTION.TEMPORAL_PROXIMITY_MINUTES * 60 * 1000;
+export function calculateTemporalStrength(
+  timeDiffMs: number,
+  proximityMinutes: number = RETENTION.TEMPORAL_PROXIMITY_MINUTES
+): number {
+  const maxDiffMs = proximityMinutes * 60 * 1000;
   if (timeDiffMs >= maxDiffMs) return 0;
   return 1 - timeDiffMs / maxDiffMs;
 }
@@ -9,6 +9,14 @@ export const TIMING = {
   TAB_UPDATE_MAX_WAIT_MS: 500,
   /** Debounce for window focus events */
   WINDOW_FOCUS_DEBOUNCE_MS: 50,
+  /** Debounce for search reindexing after tab changes (outlasts write batching) */
+  SEARCH_REINDEX_DEBOUNCE_MS: 2000,
+  /** Maximum wait before forcing a search reindex */
+  SEARCH_REINDEX_MAX_WAIT_MS: 10000,
+
+  // Idle detection
+  /** Seconds without input before chrome.idle reports 'idle' (minimum 15) */
+  IDLE_DETECTION_SECONDS: 60,
 
   // Write batching intervals
   /** Interval between batched writes to IndexedDB */
@@ -25,6 +33,10 @@ export const TIMING = {
   CLEANUP_ALARM_MINUTES: 60,
   /** Interval for recalculating temporal relationships */
   RELATIONSHIP_ALARM_MINUTES: 10,
+  /** Interval for checking whether the day has rolled over into a new session */
+  SESSION_BOUNDARY_ALARM_MINUTES: 5,
+  /** Interval for generating activity reports for days and weeks that have ended */
+  REPORT_ALARM_MINUTES: 60,
 
   // Timeouts
   /** Timeout for database operations */
@@ -40,4 +52,13 @@ export const ALARM_NAMES = {
   FLUSH_WRITES: 'unos-flush-writes',
   CLEANUP: 'unos-cleanup',
   RELATIONSHIPS: 'unos-relationships',
+  SESSION_BOUNDARY: 'unos-session-boundary',
+  REPORTS: 'unos-reports',
+} as const;
+
+/**
+ * Port names for chrome.runtime.connect
+ */
+export const PORT_NAMES = {
+  DATA: 'unos-data',
 } as const;
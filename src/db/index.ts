@@ -1,3 +1,10 @@
 // Database module exports
 export { TabTrackerDatabase, getDatabase, closeDatabase } from './schema';
+export {
+  MIGRATIONS,
+  LATEST_SCHEMA_VERSION,
+  applyMigrations,
+  validateMigrations,
+} from './migrations';
+export type { Migration } from './migrations';
 export * from './types';
@@ -0,0 +1,437 @@
+import type Dexie from 'dexie';
+import type { Transaction } from 'dexie';
+import type { TrackedTab, TabVisit, TabNavigation, Session, ArchivedSession, Tag } from './types';
+import { parentTagName, normalizeTags } from '../utils/tags';
+
+/**
+ * A single versioned schema change
+ */
+export interface Migration {
+  /** Dexie schema version (positive integer, strictly ascending) */
+  version: number;
+  /** Short summary of what this version changes */
+  description: string;
+  /** Tables added or changed in this version (null drops a table) */
+  stores: Record<string, string | null>;
+  /** Data transform run when upgrading a database from an older version */
+  upgrade?: (tx: Transaction) => Promise<void>;
+}
+
+/**
+ * Ordered registry of schema versions
+ *
+ * To change the schema, append a new entry - never edit a released one.
+ * Each entry only lists the tables it adds or changes; Dexie carries the
+ * rest forward from earlier versions.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Initial schema',
+    stores: {
+      // TrackedTab indexes:
+      // - ++id: auto-increment primary key
+      // - persistentId: unique lookup
+      // - chromeTabId: map Chrome events to our records
+      // - chromeWindowId: get all tabs in window
+      // - urlHash: URL-based matching on restart
+      // - sessionId: get all tabs in session
+      // - [sessionId+chromeWindowId]: compound for window queries
+      // - [urlHash+sessionId]: compound for URL matching in session
+      // - *tags: multi-entry for tag filtering
+      tabs: `
+        ++id,
+        &persistentId,
+        chromeTabId,
+        chromeWindowId,
+        urlHash,
+        sessionId,
+        createdAt,
+        lastActivatedAt,
+        isSaved,
+        closedAt,
+        [sessionId+chromeWindowId],
+        [urlHash+sessionId],
+        *tags
+      `.replace(/\s+/g, ''),
+
+      // TabVisit indexes:
+      // - ++id: auto-increment
+      // - tabPersistentId: get visits for a tab
+      // - sessionId: get all visits in session
+      // - activatedAt: time-based queries
+      // - [tabPersistentId+activatedAt]: compound for time-series per tab
+      // - [sessionId+activatedAt]: compound for session timeline
+      tabVisits: `
+        ++id,
+        tabPersistentId,
+        sessionId,
+        urlHash,
+        activatedAt,
+        [tabPersistentId+activatedAt],
+        [sessionId+activatedAt]
+      `.replace(/\s+/g, ''),
+
+      // TrackedWindow indexes:
+      // - ++id: auto-increment
+      // - persistentId: unique lookup
+      // - chromeWindowId: map Chrome events
+      // - sessionId: get all windows in session
+      // - [sessionId+incognito]: filter by session and incognito status
+      windows: `
+        ++id,
+        &persistentId,
+        chromeWindowId,
+        sessionId,
+        incognito,
+        createdAt,
+        closedAt,
+        [sessionId+incognito]
+      `.replace(/\s+/g, ''),
+
+      // WindowFocusEvent indexes:
+      windowFocusEvents: `
+        ++id,
+        windowPersistentId,
+        sessionId,
+        focusedAt
+      `.replace(/\s+/g, ''),
+
+      // Session indexes:
+      // - id: UUID primary key
+      // - isActive: find active session
+      // - isSaved: find saved sessions
+      // - expiresAt: cleanup expired sessions
+      // - *tags: multi-entry for tag filtering
+      sessions: `
+        id,
+        isActive,
+        isSaved,
+        startedAt,
+        expiresAt,
+        *tags
+      `.replace(/\s+/g, ''),
+
+      // TabRelationship indexes:
+      // - ++id: auto-increment
+      // - [sourceTabPersistentId+relationshipType]: find relationships from a tab
+      // - [targetTabPersistentId+relationshipType]: find relationships to a tab
+      tabRelationships: `
+        ++id,
+        sourceTabPersistentId,
+        targetTabPersistentId,
+        relationshipType,
+        [sourceTabPersistentId+relationshipType],
+        [targetTabPersistentId+relationshipType]
+      `.replace(/\s+/g, ''),
+
+      // Tag indexes:
+      // - ++id: auto-increment
+      // - &name: unique tag name
+      // - usageCount: for sorting by popularity
+      tags: `
+        ++id,
+        &name,
+        usageCount
+      `.replace(/\s+/g, ''),
+    },
+  },
+  {
+    version: 2,
+    description: 'Per-tab navigation history',
+    stores: {
+      // TabNavigation indexes:
+      // - ++id: auto-increment
+      // - tabPersistentId: get navigations for a tab
+      // - sessionId: get all navigations in session
+      // - [tabPersistentId+navigatedAt]: compound for per-tab history
+      tabNavigations: `
+        ++id,
+        tabPersistentId,
+        sessionId,
+        urlHash,
+        navigatedAt,
+        [tabPersistentId+navigatedAt]
+      `.replace(/\s+/g, ''),
+    },
+  },
+  {
+    version: 3,
+    description: 'Full-text search index',
+    stores: {
+      // SearchPosting indexes:
+      // - ++id: auto-increment
+      // - token: exact and prefix (startsWith) lookups
+      // - tabPersistentId: replace or delete a tab's postings
+      searchIndex: `
+        ++id,
+        token,
+        tabPersistentId
+      `.replace(/\s+/g, ''),
+
+      // SearchDocument indexes:
+      // - tabPersistentId: primary key (one document per tab)
+      searchDocuments: `
+        tabPersistentId
+      `.replace(/\s+/g, ''),
+    },
+    // Existing tabs are indexed by SearchService on the next startup
+  },
+  {
+    version: 4,
+    description: 'Saved searches',
+    stores: {
+      // SavedSearch indexes:
+      // - ++id: auto-increment
+      // - &name: unique display name
+      // - updatedAt: most recently edited first
+      savedSearches: `
+        ++id,
+        &name,
+        updatedAt
+      `.replace(/\s+/g, ''),
+    },
+  },
+  {
+    version: 5,
+    description: 'Idle period log',
+    stores: {
+      // IdlePeriod indexes:
+      // - ++id: auto-increment
+      // - [sessionId+startedAt]: a session's idle periods in time order
+      // - startedAt: latest period first (only the latest can still be open)
+      idlePeriods: `
+        ++id,
+        [sessionId+startedAt],
+        startedAt
+      `.replace(/\s+/g, ''),
+    },
+  },
+  {
+    version: 6,
+    description: 'Away time on visits',
+    stores: {},
+    // Earlier visits were never split by focus, so none of their time is known to be away
+    upgrade: async (tx) => {
+      await tx.table<TabVisit, number>('tabVisits').toCollection().modify((visit) => {
+        visit.awayDuration ??= 0;
+      });
+    },
+  },
+  {
+    version: 7,
+    description: 'Tab groups',
+    stores: {
+      // TrackedTabGroup indexes:
+      // - ++id: auto-increment
+      // - &persistentId: unique lookup
+      // - chromeGroupId: map Chrome events to our records
+      // - sessionId: get all groups in session
+      tabGroups: `
+        ++id,
+        &persistentId,
+        chromeGroupId,
+        sessionId
+      `.replace(/\s+/g, ''),
+    },
+    // Chrome group IDs from earlier runs are stale, so existing tabs start ungrouped
+    upgrade: async (tx) => {
+      await tx.table<TrackedTab, number>('tabs').toCollection().modify((tab) => {
+        tab.groupPersistentId ??= null;
+      });
+    },
+  },
+  {
+    version: 8,
+    description: 'Workspaces',
+    stores: {
+      // Workspace indexes:
+      // - ++id: auto-increment
+      // - &name: unique display name
+      // - *tabPersistentIds: multi-entry, find workspaces holding a tab
+      // - updatedAt: most recently edited first
+      workspaces: `
+        ++id,
+        &name,
+        *tabPersistentIds,
+        updatedAt
+      `.replace(/\s+/g, ''),
+    },
+  },
+  {
+    version: 9,
+    description: 'User-named sessions',
+    stores: {},
+    // Sessions could not be renamed before, so every existing name is generated
+    upgrade: async (tx) => {
+      await tx.table<Session, string>('sessions').toCollection().modify((session) => {
+        session.isNamedByUser ??= false;
+      });
+    },
+  },
+  {
+    version: 10,
+    description: 'Session archives',
+    stores: {
+      // Archived session indexes:
+      // - id: the archived session's ID
+      // - archivedAt: most recently archived first
+      // - startedAt: date range filters on export
+      // - *tags: multi-entry, filter archives by session tag
+      archivedSessions: `
+        id,
+        archivedAt,
+        startedAt,
+        *tags
+      `.replace(/\s+/g, ''),
+    },
+  },
+  {
+    version: 11,
+    description: 'Nested tags and tag aliases',
+    stores: {
+      // Tag indexes:
+      // - parent: list the tags nested under a tag
+      // - *aliases: multi-entry, resolve an alias to its tag
+      tags: `
+        ++id,
+        &name,
+        usageCount,
+        parent,
+        *aliases
+      `.replace(/\s+/g, ''),
+    },
+    // Names with a "/" already read as paths; no tag had aliases
+    upgrade: async (tx) => {
+      await tx.table<Tag, number>('tags').toCollection().modify((tag) => {
+        tag.parent ??= parentTagName(tag.name);
+        tag.aliases ??= [];
+      });
+    },
+  },
+  {
+    version: 12,
+    description: 'Domain analytics rollups',
+    stores: {
+      // DomainDayStats indexes:
+      // - [domain+day]: primary key, one row per site per day
+      // - day: every site's rows for a date range
+      domainStats: `
+        [domain+day],
+        day
+      `.replace(/\s+/g, ''),
+      // DomainRecord indexes:
+      // - domain: primary key
+      // - firstSeenDay: sites first visited in a date range
+      domains: `
+        domain,
+        firstSeenDay
+      `.replace(/\s+/g, ''),
+      // RollupCursor indexes:
+      // - name: primary key, one cursor per rollup
+      rollupCursors: `
+        name
+      `.replace(/\s+/g, ''),
+    },
+    // Rollups start empty and catch up over the stored visits on first use
+  },
+  {
+    version: 13,
+    description: 'Activity reports',
+    stores: {
+      // ActivityReport indexes:
+      // - [period+from]: primary key, one report per day or week
+      reports: `
+        [period+from]
+      `.replace(/\s+/g, ''),
+    },
+  },
+  {
+    version: 14,
+    description: 'Seed navigation history',
+    stores: {},
+    // Tabs tracked before navigation history have none; seed each with its
+    // current URL. The real arrival time is unknown, so the tab's creation
+    // time is used as the best estimate.
+    upgrade: async (tx) => {
+      const navigationTable = tx.table<TabNavigation, number>('tabNavigations');
+      const tracked = new Set(
+        (await navigationTable.orderBy('tabPersistentId').uniqueKeys()).map(String)
+      );
+      const tabs = await tx.table<TrackedTab, number>('tabs').toArray();
+      const navigations: TabNavigation[] = tabs
+        .filter((tab) => tab.url && !tracked.has(tab.persistentId))
+        .map((tab) => ({
+          tabPersistentId: tab.persistentId,
+          sessionId: tab.sessionId,
+          url: tab.url,
+          urlHash: tab.urlHash,
+          title: tab.title,
+          navigatedAt: tab.createdAt,
+          leftAt: tab.closedAt,
+          dwellTime: tab.closedAt !== null ? Math.max(0, tab.closedAt - tab.createdAt) : 0,
+          previousNavigationId: null,
+          windowPersistentId: tab.windowPersistentId,
+        }));
+
+      if (navigations.length > 0) {
+        await navigationTable.bulkAdd(navigations);
+      }
+    },
+  },
+  {
+    version: 15,
+    description: 'Normalized tags',
+    stores: {},
+    // Tags were free-form before the tag vocabulary; bring them to the
+    // canonical form it looks names up by ("Work " -> "work")
+    upgrade: async (tx) => {
+      const normalize = (record: { tags: string[] }) => {
+        record.tags = normalizeTags(record.tags ?? []);
+      };
+      await tx.table<TrackedTab, number>('tabs').toCollection().modify(normalize);
+      await tx.table<Session, string>('sessions').toCollection().modify(normalize);
+      await tx.table<ArchivedSession, string>('archivedSessions').toCollection().modify(normalize);
+    },
+  },
+];
+
+/**
+ * Latest schema version in the registry
+ */
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1]?.version ?? 0;
+
+/**
+ * Check that a registry is well-formed
+ * Throws if versions are not positive integers in strictly ascending order
+ */
+export function validateMigrations(migrations: Migration[]): void {
+  let previous = 0;
+
+  for (const migration of migrations) {
+    if (!Number.isInteger(migration.version) || migration.version <= 0) {
+      throw new Error(`Invalid migration version: ${migration.version}`);
+    }
+    if (migration.version <= previous) {
+      throw new Error(
+        `Migration versions must be strictly ascending (${migration.version} follows ${previous})`
+      );
+    }
+    previous = migration.version;
+  }
+}
+
+/**
+ * Declare every version in the registry on a Dexie instance
+ * Must be called before the database is opened
+ */
+export function applyMigrations(db: Dexie, migrations: Migration[] = MIGRATIONS): void {
+  validateMigrations(migrations);
+
+  for (const migration of migrations) {
+    const version = db.version(migration.version).stores(migration.stores);
+    if (migration.upgrade) {
+      version.upgrade(migration.upgrade);
+    }
+  }
+}
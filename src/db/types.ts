@@ -28,6 +28,8 @@ export interface TrackedTab {
   index: number;
   /** Chrome tab group ID (-1 if none) */
   groupId: number;
+  /** Persistent ID of the tab group the tab is in, or null when ungrouped */
+  groupPersistentId: string | null;
   /** Persistent ID of opener tab (parent in opener chain) */
   openerPersistentId: string | null;
   /** Unix timestamp (ms) when tab was created */
@@ -42,6 +44,8 @@ export interface TrackedTab {
   windowPersistentId: string;
   /** Whether user has explicitly saved this tab */
   isSaved: boolean;
+  /** Unix timestamp (ms) when the user saved the tab (missing on tabs saved before it was recorded) */
+  savedAt?: number;
   /** Whether tab is pinned (denormalized from pinned field) */
   isPinned: boolean;
   /** Visit count (denormalized) */
@@ -80,12 +84,42 @@ export interface TabVisit {
   deactivatedAt: number | null;
   /** Duration in ms (calculated: deactivatedAt - activatedAt) */
   duration: number;
+  /** Part of the duration (ms) the browser was unfocused - reading time is duration - awayDuration */
+  awayDuration: number;
   /** Window ID where activation occurred */
   windowPersistentId: string;
   /** Persistent ID of previously active tab */
   fromTabPersistentId: string | null;
 }
 
+/**
+ * Tab navigation record - tracks each URL a tab passes through
+ */
+export interface TabNavigation {
+  /** Auto-increment primary key */
+  id?: number;
+  /** Foreign key to TrackedTab.persistentId */
+  tabPersistentId: string;
+  /** Foreign key to Session */
+  sessionId: string;
+  /** URL navigated to */
+  url: string;
+  /** URL hash for indexing */
+  urlHash: string;
+  /** Last known page title at this URL */
+  title: string;
+  /** Unix timestamp (ms) when the tab arrived at this URL */
+  navigatedAt: number;
+  /** Unix timestamp (ms) when the tab left this URL (null if still there) */
+  leftAt: number | null;
+  /** Time in ms spent on this URL (calculated: leftAt - navigatedAt) */
+  dwellTime: number;
+  /** ID of the navigation this tab came from (null for the first one) */
+  previousNavigationId: number | null;
+  /** Window ID where the navigation occurred */
+  windowPersistentId: string;
+}
+
 /**
  * Tracked window entity
  */
@@ -127,6 +161,41 @@ export interface TrackedWindow {
   updatedAt: number;
 }
 
+/**
+ * Tab group colors offered by Chrome
+ */
+export type TabGroupColor = 'grey' | 'blue' | 'red' | 'yellow' | 'green' | 'pink' | 'purple' | 'cyan' | 'orange';
+
+/**
+ * Tracked tab group entity - a chrome.tabGroups group
+ */
+export interface TrackedTabGroup {
+  /** Auto-increment primary key */
+  id?: number;
+  /** UUID - persistent identifier */
+  persistentId: string;
+  /** Chrome's session-specific group ID (changes on restart) */
+  chromeGroupId: number;
+  /** Chrome's session-specific window ID */
+  chromeWindowId: number;
+  /** Persistent ID of the window the group is in */
+  windowPersistentId: string;
+  /** Foreign key to Session */
+  sessionId: string;
+  /** Group title (may be empty) */
+  title: string;
+  /** Group color */
+  color: TabGroupColor;
+  /** Whether the group is collapsed in the tab strip */
+  collapsed: boolean;
+  /** Unix timestamp (ms) when group was created */
+  createdAt: number;
+  /** Unix timestamp (ms) when group was closed (null if still open) */
+  closedAt: number | null;
+  /** Unix timestamp (ms) of last update */
+  updatedAt: number;
+}
+
 /**
  * Window focus event - tracks each time a window gains/loses focus
  */
@@ -157,6 +226,8 @@ export interface Session {
   name: string;
   /** Optional description */
   description: string;
+  /** Whether the user set the name and description (the summarizer leaves them alone) */
+  isNamedByUser: boolean;
   /** Unix timestamp (ms) when session started */
   startedAt: number;
   /** Unix timestamp (ms) when session ended (null if active) */
@@ -183,6 +254,65 @@ export interface Session {
   updatedAt: number;
 }
 
+/**
+ * A tab as kept in a session archive - what it was, not how it was used
+ */
+export type ArchivedTab = Pick<
+  TrackedTab,
+  | 'persistentId'
+  | 'windowPersistentId'
+  | 'url'
+  | 'urlHash'
+  | 'title'
+  | 'faviconUrl'
+  | 'index'
+  | 'pinned'
+  | 'isSaved'
+  | 'tags'
+  | 'notes'
+  | 'createdAt'
+  | 'lastActivatedAt'
+  | 'totalActiveTime'
+  | 'visitCount'
+  | 'closedAt'
+>;
+
+/**
+ * A window as kept in a session archive
+ */
+export type ArchivedWindow = Pick<
+  TrackedWindow,
+  'persistentId' | 'type' | 'state' | 'incognito' | 'left' | 'top' | 'width' | 'height' | 'createdAt' | 'closedAt'
+>;
+
+/**
+ * Compact record of an expired session
+ * Keeps its tabs, tags, notes and totals; raw visits, navigations and
+ * relationships are dropped when the session is archived
+ */
+export interface ArchivedSession {
+  /** ID of the archived session - primary key */
+  id: string;
+  name: string;
+  description: string;
+  isNamedByUser: boolean;
+  startedAt: number;
+  endedAt: number | null;
+  /** Whether the session was saved when it was archived */
+  isSaved: boolean;
+  windowCount: number;
+  tabCount: number;
+  totalActiveTime: number;
+  /** Visits recorded in the session before they were dropped */
+  visitCount: number;
+  tags: string[];
+  customMetadata: Record<string, unknown>;
+  windows: ArchivedWindow[];
+  tabs: ArchivedTab[];
+  /** Unix timestamp (ms) when the session was archived */
+  archivedAt: number;
+}
+
 /**
  * Tab relationship types
  */
@@ -214,16 +344,475 @@ export interface TabRelationship {
 export interface Tag {
   /** Auto-increment primary key */
   id?: number;
-  /** Tag name (unique, lowercase, trimmed) */
+  /** Tag name (unique, lowercase, trimmed); nested tags are paths like "project/unos" */
   name: string;
+  /** Tag this one is nested under ("project" for "project/unos"), or null at the top level */
+  parent: string | null;
+  /** Other names that resolve to this tag ("js" for "javascript") */
+  aliases: string[];
   /** Display color (hex) */
   color: string;
   /** Unix timestamp (ms) of creation */
   createdAt: number;
-  /** Usage count (denormalized for sorting) */
+  /** Tabs and sessions carrying the tag (denormalized for sorting) */
   usageCount: number;
 }
 
+/**
+ * Tab fields covered by the search index
+ */
+export type SearchField = 'title' | 'url' | 'notes' | 'tags' | 'visit';
+
+/**
+ * Search index posting - one token occurring in one field of one tab
+ */
+export interface SearchPosting {
+  /** Auto-increment primary key */
+  id?: number;
+  /** Normalized token */
+  token: string;
+  /** Foreign key to TrackedTab.persistentId */
+  tabPersistentId: string;
+  /** Field the token occurs in */
+  field: SearchField;
+  /** Number of occurrences of the token in the field */
+  termFrequency: number;
+}
+
+/**
+ * Search index document - per-tab statistics used for ranking
+ */
+export interface SearchDocument {
+  /** Foreign key to TrackedTab.persistentId (primary key) */
+  tabPersistentId: string;
+  /** Total number of indexed tokens across all fields */
+  length: number;
+  /** Unix timestamp (ms) when the tab was last indexed */
+  indexedAt: number;
+}
+
+/**
+ * Saved query-language search
+ */
+export interface SavedSearch {
+  /** Auto-increment primary key */
+  id?: number;
+  /** Display name (unique) */
+  name: string;
+  /** Query string, e.g. "tag:research active>30m" */
+  query: string;
+  /** Unix timestamp (ms) of creation */
+  createdAt: number;
+  /** Unix timestamp (ms) of last update */
+  updatedAt: number;
+}
+
+/**
+ * Window inside a workspace, with its tabs in display order
+ */
+export interface WorkspaceWindow {
+  /** Foreign key to TrackedWindow (geometry and state come from the record) */
+  windowPersistentId: string;
+  /** Foreign keys to TrackedTab */
+  tabPersistentIds: string[];
+}
+
+/**
+ * Named, user-curated set of windows and tabs that can be opened and closed as a unit
+ */
+export interface Workspace {
+  /** Auto-increment primary key */
+  id?: number;
+  /** Display name (unique) */
+  name: string;
+  /** User-provided description */
+  description: string;
+  /** Windows in the order they open */
+  windows: WorkspaceWindow[];
+  /** Every tab across the windows (multi-entry index, keeps the records from cleanup) */
+  tabPersistentIds: string[];
+  /** Session the workspace was built from (null when built from a window) */
+  sourceSessionId: string | null;
+  /** Unix timestamp (ms) the workspace was last opened (null if never) */
+  openedAt: number | null;
+  /** Unix timestamp (ms) the workspace was last closed to storage (null if never) */
+  closedAt: number | null;
+  /** Unix timestamp (ms) of creation */
+  createdAt: number;
+  /** Unix timestamp (ms) of last update */
+  updatedAt: number;
+}
+
+/**
+ * User presence as reported by chrome.idle
+ */
+export type IdleState = 'active' | 'idle' | 'locked';
+
+/**
+ * Stretch of time the user was away (idle or screen locked)
+ * Active time is not counted while an idle period is open
+ */
+export interface IdlePeriod {
+  /** Auto-increment primary key */
+  id?: number;
+  /** Foreign key to Session */
+  sessionId: string;
+  /** Most recent away state ('locked' wins over 'idle') */
+  state: Exclude<IdleState, 'active'>;
+  /** Unix timestamp (ms) when the user stopped interacting */
+  startedAt: number;
+  /** Unix timestamp (ms) when the user came back (null while away) */
+  endedAt: number | null;
+  /** Duration in ms (calculated: endedAt - startedAt) */
+  duration: number;
+  /** Tab that was active when the period began */
+  tabPersistentId: string | null;
+}
+
+/**
+ * Time spent on a site in one day, rolled up from closed visits
+ * Kept after the visits it came from are pruned
+ */
+export interface DomainDayStats {
+  /** Site, as getDomain gives it (lowercase host without "www.") */
+  domain: string;
+  /** Unix timestamp (ms) of the start of the local day */
+  day: number;
+  /** Reading time - visit durations less time away from the browser (ms) */
+  activeTime: number;
+  /** Visits that started that day */
+  visitCount: number;
+}
+
+/**
+ * Every site ever visited, with lifetime totals
+ */
+export interface DomainRecord {
+  /** Site, as getDomain gives it */
+  domain: string;
+  /** Start of the local day of the first visit (ms) */
+  firstSeenDay: number;
+  /** Start of the local day of the latest visit (ms) */
+  lastSeenDay: number;
+  /** Reading time across every day (ms) */
+  activeTime: number;
+  visitCount: number;
+}
+
+/**
+ * How far a rollup has read through the visits table
+ */
+export interface RollupCursor {
+  /** Name of the rollup */
+  name: string;
+  /** Highest visit ID read */
+  lastVisitId: number;
+  /** Visits at or below lastVisitId that were still open when read, to roll up once they close */
+  openVisitIds: number[];
+}
+
+/**
+ * Length of time an activity report covers
+ */
+export type ReportPeriod = 'daily' | 'weekly';
+
+/**
+ * Reading time and visits on one site in a report
+ */
+export interface ReportDomain {
+  domain: string;
+  activeTime: number;
+  visitCount: number;
+}
+
+/**
+ * Reading time in tabs carrying one tag in a report
+ */
+export interface ReportTag {
+  tag: string;
+  activeTime: number;
+  /** Tabs with the tag that were visited */
+  tabCount: number;
+}
+
+/**
+ * A tab switched to in a report's period
+ */
+export interface ReportTab {
+  persistentId: string;
+  url: string;
+  title: string;
+  /** Times the tab was switched to */
+  switchCount: number;
+  activeTime: number;
+}
+
+/**
+ * A session that ran during a report's period
+ */
+export interface ReportSession {
+  id: string;
+  name: string;
+  startedAt: number;
+  /** Null while the session runs */
+  endedAt: number | null;
+  /** Reading time within the period */
+  activeTime: number;
+}
+
+/**
+ * A tab saved during a report's period
+ */
+export interface ReportSavedTab {
+  persistentId: string;
+  url: string;
+  title: string;
+  savedAt: number;
+  tags: string[];
+}
+
+/**
+ * Totals for one day of a report
+ */
+export interface ReportDay {
+  /** Start of the local day (ms) */
+  day: number;
+  activeTime: number;
+  focusTime: number;
+  visitCount: number;
+}
+
+/**
+ * Activity over a day or a week, stored once the period has ended
+ */
+export interface ActivityReport {
+  period: ReportPeriod;
+  /** Start of the first day covered (ms) */
+  from: number;
+  /** Start of the day after the last day covered (ms) */
+  to: number;
+  generatedAt: number;
+  /** Reading time across tabs: time active less time away (ms) */
+  activeTime: number;
+  /** Time a browser window had focus (ms) */
+  focusTime: number;
+  visitCount: number;
+  /** Busiest sites first, by reading time */
+  topDomains: ReportDomain[];
+  /** Busiest tags first, by reading time in tabs carrying them */
+  topTags: ReportTag[];
+  /** Tabs switched to most often first */
+  mostSwitchedTabs: ReportTab[];
+  /** Sessions that ran during the period, in start order */
+  sessions: ReportSession[];
+  /** Tabs saved during the period, in the order they were saved */
+  newSavedTabs: ReportSavedTab[];
+  /** Every day of the period, oldest first */
+  days: ReportDay[];
+}
+
+/**
+ * Rules for where one session ends and the next begins
+ * Stored in chrome.storage.local; applied at startup and while running
+ */
+export interface SessionPolicy {
+  /** Minutes away after which the next activity starts a new session (0 disables) */
+  idleGapMinutes: number;
+  /** Start a new session when the day rolls over */
+  splitDaily: boolean;
+  /** Local hour (0-23) the day rolls over at, so late nights stay with the evening */
+  dayStartHour: number;
+  /** Give every window opened while running a session of its own */
+  perWindow: boolean;
+}
+
+/**
+ * Why a running session was ended and a new one started
+ */
+export type SessionBoundary = 'idle-gap' | 'new-day' | 'manual';
+
+/**
+ * Rules for naming and describing a session from what happened in it
+ */
+export interface SummaryRules {
+  /** Most active domains put in the name */
+  maxDomains: number;
+  /** Most used tags put in the name (0 leaves tags out) */
+  maxTags: number;
+  /** Most active tab titles listed in the description */
+  maxTitles: number;
+  /** Domains never used in a name, like a local dev server */
+  ignoredDomains: string[];
+}
+
+/**
+ * What a retention rule looks at; every condition given must hold
+ */
+export interface RetentionMatch {
+  /** Tagged with this tag or one nested under it (the session or one of its tabs; for visits, the tab) */
+  tag?: string;
+  /** On this domain or a subdomain of it (any of a session's tabs; for visits, the page) */
+  domain?: string;
+  /** Saved or not (the session; for visits, the tab or its session) */
+  saved?: boolean;
+  /** In an incognito window or not */
+  incognito?: boolean;
+}
+
+/**
+ * One retention rule - the first rule that matches a record decides how long it is kept
+ */
+export interface RetentionRule {
+  /** Records the rule applies to */
+  appliesTo: 'sessions' | 'visits';
+  match: RetentionMatch;
+  /** Days to keep a matching record, or null to keep it forever */
+  keepDays: number | null;
+}
+
+/**
+ * How long tracked data is kept: the retention settings and the rules that
+ * override them, kept in chrome.storage.local; applied by the cleanup alarm
+ */
+export interface RetentionPolicy extends RetentionSettings {
+  /** Checked in order before the settings */
+  rules: RetentionRule[];
+}
+
+/**
+ * What an auto-tagging rule looks at; every condition given must hold
+ */
+export interface AutoTagMatch {
+  /** Glob over the whole URL (* any run of characters, ? one character), or a /regex/ with optional flags */
+  url?: string;
+  /** On this domain or a subdomain of it */
+  domain?: string;
+  /** Title containing any of these words or phrases */
+  titleKeywords?: string[];
+  /** Opened from a page on this domain or a subdomain of it, directly or further up the opener chain */
+  openerDomain?: string;
+  /** Opened from a tab tagged with this tag or one nested under it, directly or further up the opener chain */
+  openerTag?: string;
+  /** In this window (persistent ID) */
+  windowPersistentId?: string;
+  /** In an incognito window or not */
+  incognito?: boolean;
+}
+
+/**
+ * One auto-tagging rule - rules are checked in order and every rule that
+ * matches a tab adds its tags, until one marked stopAfter matches
+ * Stored in chrome.storage.local
+ */
+export interface AutoTagRule {
+  /** Shown in the rule list and in previews */
+  name: string;
+  /** Switched-off rules are kept but never checked */
+  enabled: boolean;
+  match: AutoTagMatch;
+  /** Tags added to matching tabs */
+  tags: string[];
+  /** Skip the rules after this one when it matches */
+  stopAfter: boolean;
+}
+
+/**
+ * Debounce, idle and alarm timings
+ */
+export interface TimingSettings {
+  /** Debounce for tab URL and title changes */
+  tabUpdateDebounceMs: number;
+  /** Longest a tab update waits before it is processed */
+  tabUpdateMaxWaitMs: number;
+  /** Debounce for window focus changes */
+  windowFocusDebounceMs: number;
+  /** Debounce for search reindexing after tab changes */
+  searchReindexDebounceMs: number;
+  /** Longest a search reindex waits */
+  searchReindexMaxWaitMs: number;
+  /** Seconds without input before the user counts as idle (Chrome's minimum is 15) */
+  idleDetectionSeconds: number;
+  /** Interval between batched writes to IndexedDB */
+  writeBatchIntervalMs: number;
+  /** Alarm periods (Chrome's minimum is half a minute) */
+  flushAlarmMinutes: number;
+  cleanupAlarmMinutes: number;
+  relationshipAlarmMinutes: number;
+  sessionBoundaryAlarmMinutes: number;
+  reportAlarmMinutes: number;
+}
+
+/**
+ * How tab relationships are formed and pruned
+ */
+export interface RelationshipSettings {
+  /** Tabs activated within this many minutes of each other are related */
+  temporalProximityMinutes: number;
+  /** Relationships weaker than this are pruned */
+  weakRelationshipThreshold: number;
+}
+
+/**
+ * Write batching and data channel limits
+ */
+export interface StorageSettings {
+  /** Pending writes that force a flush */
+  maxPendingWrites: number;
+  /** Rows per export page when the popup does not ask for a size */
+  dataPageSize: number;
+  /** Largest export page the popup may request */
+  maxDataPageSize: number;
+}
+
+/**
+ * Activity report schedule
+ */
+export interface ReportSettings {
+  /** Day weekly reports start on (0 is Sunday) */
+  weekStartsOn: number;
+  /** Daily reports generated on schedule and kept (0 turns them off) */
+  dailyReportsKept: number;
+  /** Weekly reports generated on schedule and kept (0 turns them off) */
+  weeklyReportsKept: number;
+}
+
+/**
+ * Default lifetimes of tracked data, when no retention rule matches
+ */
+export interface RetentionSettings {
+  /** Days an unsaved session is kept after it starts */
+  sessionTtlDays: number;
+  /** Days visit history is kept (0 keeps it forever) */
+  visitTtlDays: number;
+  /** Most visits kept per tab - the oldest go first (0 for no cap) */
+  maxVisitsPerTab: number;
+  /** Archive expired sessions rather than deleting them outright */
+  archiveExpired: boolean;
+}
+
+/**
+ * User-tunable behavior, stored in chrome.storage.sync
+ */
+export interface Settings {
+  /** Format version the stored settings were migrated to */
+  version: number;
+  timing: TimingSettings;
+  relationships: RelationshipSettings;
+  storage: StorageSettings;
+  reports: ReportSettings;
+  retention: RetentionSettings;
+}
+
+/**
+ * A section of Settings
+ */
+export type SettingsSection = Exclude<keyof Settings, 'version'>;
+
+/**
+ * Some values of some sections
+ */
+export type SettingsChanges = { [S in SettingsSection]?: Partial<Settings[S]> };
+
 /**
  * Working state stored in chrome.storage.session
  * Survives service worker restarts within a browser session
@@ -239,10 +828,18 @@ export interface WorkingState {
   tabActivationTimestamp: number;
   /** Unix timestamp when current window gained focus */
   windowFocusTimestamp: number;
+  /** Presence state; active time is paused unless 'active' */
+  idleState: IdleState;
+  /** Unix timestamp when the browser lost focus to another app (0 while focused) */
+  browserBlurredAt: number;
   /** Chrome tab ID to persistent ID mapping cache */
   chromeTabIdMap: Record<number, string>;
   /** Chrome window ID to persistent ID mapping cache */
   chromeWindowIdMap: Record<number, string>;
+  /** Chrome tab group ID to persistent ID mapping cache */
+  chromeGroupIdMap: Record<number, string>;
+  /** Window persistent ID to session ID (per-window sessions only) */
+  windowSessionMap: Record<string, string>;
 }
 
 /**
@@ -274,6 +871,8 @@ export interface ExportFilters {
   windowIds?: string[];
   dateRange?: { start: number; end: number };
   tags?: string[];
+  /** Query-language string tabs must match (see src/query) */
+  query?: string;
   includeIncognito: boolean;
   includeVisitHistory: boolean;
 }
@@ -286,9 +885,12 @@ export interface ExportData {
   sessions: Session[];
   windows: TrackedWindow[];
   tabs: TrackedTab[];
+  tabGroups?: TrackedTabGroup[];
   visits?: TabVisit[];
+  navigations?: TabNavigation[];
   relationships?: TabRelationship[];
   tags?: Tag[];
+  archives?: ArchivedSession[];
 }
 
 /**
@@ -0,0 +1,12 @@
+// Query language module exports
+export {
+  parseQuery,
+  isStructuredQuery,
+  parseDuration,
+  resolveDateRange,
+  QuerySyntaxError,
+  IS_VALUES,
+} from './parser';
+export type { ParsedQuery, QueryClause, QueryField, QueryOperator } from './parser';
+export { matchesClause, matchesQuery, planGroup, rangeBounds, clauseTag } from './matcher';
+export type { QueryContext, QuerySeed } from './matcher';
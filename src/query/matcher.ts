@@ -0,0 +1,217 @@
+import type { TrackedTab } from '../db/types';
+import { isTagWithin, normalizeTagName, rewriteTagPath } from '../utils/tags';
+import {
+  parseDuration,
+  resolveDateRange,
+  type ParsedQuery,
+  type QueryClause,
+  type QueryOperator,
+} from './parser';
+
+/**
+ * Runtime values a query is evaluated against
+ */
+export interface QueryContext {
+  /** Reference time for relative dates */
+  now: number;
+  /** Session matched by session:current */
+  currentSessionId: string | null;
+  /**
+   * Tabs with a visit matching each visited: clause, resolved from the visit
+   * index by QueryService. Without it, visited: falls back to lastActivatedAt.
+   */
+  visitedTabIds?: Map<QueryClause, Set<string>>;
+  /** Tag aliases mapped to their tags. Without it, tag: matches names as written. */
+  tagAliases?: ReadonlyMap<string, string>;
+}
+
+/**
+ * Index a query group can be seeded from
+ */
+export type QuerySeed =
+  | { index: 'sessionId'; clause: QueryClause }
+  | { index: 'tags'; clause: QueryClause }
+  | { index: 'visits'; clause: QueryClause }
+  | { index: 'createdAt'; clause: QueryClause }
+  | { index: 'closedAt'; clause: QueryClause }
+  | { index: null };
+
+/** Seed preference, most selective first */
+const SEED_ORDER: Array<Exclude<QuerySeed['index'], null>> = [
+  'sessionId',
+  'tags',
+  'visits',
+  'closedAt',
+  'createdAt',
+];
+
+const SEED_FIELDS: Record<Exclude<QuerySeed['index'], null>, QueryClause['field']> = {
+  sessionId: 'session',
+  tags: 'tag',
+  visits: 'visited',
+  closedAt: 'closed',
+  createdAt: 'created',
+};
+
+/**
+ * Bounds for a timestamp index given a comparison against a date range
+ */
+export function rangeBounds(
+  operator: QueryOperator,
+  range: { start: number; end: number }
+): { lower: number; upper: number; lowerOpen: boolean; upperOpen: boolean } {
+  switch (operator) {
+    case '>':
+      return { lower: range.end, upper: Infinity, lowerOpen: true, upperOpen: false };
+    case '>=':
+      return { lower: range.start, upper: Infinity, lowerOpen: false, upperOpen: false };
+    case '<':
+      return { lower: -Infinity, upper: range.start, lowerOpen: false, upperOpen: true };
+    case '<=':
+      return { lower: -Infinity, upper: range.end, lowerOpen: false, upperOpen: false };
+    default:
+      return { lower: range.start, upper: range.end, lowerOpen: false, upperOpen: false };
+  }
+}
+
+/**
+ * Compare a timestamp against a date range clause
+ */
+function matchesDate(time: number | null, clause: QueryClause, now: number): boolean {
+  if (time === null) return false;
+  const range = resolveDateRange(clause.value, now);
+  if (!range) return false;
+
+  const { lower, upper, lowerOpen, upperOpen } = rangeBounds(clause.operator, range);
+  return (lowerOpen ? time > lower : time >= lower) && (upperOpen ? time < upper : time <= upper);
+}
+
+/**
+ * Compare a number; ':' means "at least" for durations and "exactly" for counts
+ */
+function matchesNumber(actual: number, operator: QueryOperator, expected: number, colon: '>=' | '='): boolean {
+  switch (operator === ':' ? colon : operator) {
+    case '>':
+      return actual > expected;
+    case '>=':
+      return actual >= expected;
+    case '<':
+      return actual < expected;
+    case '<=':
+      return actual <= expected;
+    default:
+      return actual === expected;
+  }
+}
+
+/**
+ * Tag a tag: clause asks for, normalized like stored tags and with an alias
+ * swapped for its tag
+ */
+export function clauseTag(clause: QueryClause, context: QueryContext): string {
+  const name = normalizeTagName(clause.value);
+  return context.tagAliases ? rewriteTagPath(name, context.tagAliases) : name;
+}
+
+function getHost(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Evaluate a single clause against a tab
+ */
+export function matchesClause(tab: TrackedTab, clause: QueryClause, context: QueryContext): boolean {
+  const value = clause.value.toLowerCase();
+  let result: boolean;
+
+  switch (clause.field) {
+    case 'tag': {
+      // A tag also matches the tags nested under it. Stored tags are
+      // normalized, so this agrees with a lookup in the *tags index
+      const wanted = clauseTag(clause, context);
+      result = tab.tags.some((tag) => isTagWithin(tag, wanted));
+      break;
+    }
+    case 'domain': {
+      const host = getHost(tab.url);
+      const domain = value.replace(/^www\./, '');
+      result = host === domain || host.endsWith(`.${domain}`);
+      break;
+    }
+    case 'url':
+      result = tab.url.toLowerCase().includes(value);
+      break;
+    case 'title':
+      result = tab.title.toLowerCase().includes(value);
+      break;
+    case 'text':
+      result =
+        tab.title.toLowerCase().includes(value) ||
+        tab.url.toLowerCase().includes(value) ||
+        (tab.notes || '').toLowerCase().includes(value);
+      break;
+    case 'is':
+      result = {
+        saved: tab.isSaved,
+        open: !tab.closedAt,
+        closed: !!tab.closedAt,
+        pinned: tab.pinned,
+        tagged: tab.tags.length > 0,
+        noted: !!tab.notes,
+      }[value] ?? false;
+      break;
+    case 'session':
+      result = value === 'current'
+        ? tab.sessionId === context.currentSessionId
+        : tab.sessionId === clause.value;
+      break;
+    case 'active':
+      result = matchesNumber(tab.totalActiveTime, clause.operator, parseDuration(value) ?? 0, '>=');
+      break;
+    case 'visits':
+      result = matchesNumber(tab.visitCount, clause.operator, Number(value), '=');
+      break;
+    case 'created':
+      result = matchesDate(tab.createdAt, clause, context.now);
+      break;
+    case 'closed':
+      result = matchesDate(tab.closedAt, clause, context.now);
+      break;
+    case 'visited': {
+      const visited = context.visitedTabIds?.get(clause);
+      result = visited
+        ? visited.has(tab.persistentId)
+        : matchesDate(tab.lastActivatedAt || null, clause, context.now);
+      break;
+    }
+    default:
+      result = false;
+  }
+
+  return clause.negated ? !result : result;
+}
+
+/**
+ * Evaluate a parsed query against a tab
+ */
+export function matchesQuery(tab: TrackedTab, query: ParsedQuery, context: QueryContext): boolean {
+  return query.groups.some((group) => group.every((clause) => matchesClause(tab, clause, context)));
+}
+
+/**
+ * Pick the index to seed a group from
+ * Only positive clauses can narrow the candidate set
+ */
+export function planGroup(group: QueryClause[]): QuerySeed {
+  for (const index of SEED_ORDER) {
+    const clause = group.find((c) => !c.negated && c.field === SEED_FIELDS[index]);
+    if (clause) {
+      return { index, clause };
+    }
+  }
+  return { index: null };
+}
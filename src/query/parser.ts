@@ -0,0 +1,314 @@
+/**
+ * Tab query language parser
+ *
+ * Grammar (clauses are ANDed; OR separates alternatives):
+ *
+ *   query   := group ('OR' group)*
+ *   group   := clause+
+ *   clause  := '-'? (field operator value | word | "quoted phrase")
+ *   operator:= ':' | '=' | '>' | '<' | '>=' | '<='
+ *
+ * Examples:
+ *   tag:research domain:github.com active>30m closed:last-week
+ *   is:saved -tag:archive "release notes" OR session:current visits>=5
+ */
+
+/**
+ * Query fields
+ * `text` is used for bare words and quoted phrases
+ */
+export type QueryField =
+  | 'tag'
+  | 'domain'
+  | 'url'
+  | 'title'
+  | 'is'
+  | 'session'
+  | 'active'
+  | 'visits'
+  | 'created'
+  | 'closed'
+  | 'visited'
+  | 'text';
+
+export type QueryOperator = ':' | '=' | '>' | '<' | '>=' | '<=';
+
+/**
+ * Single parsed clause
+ */
+export interface QueryClause {
+  field: QueryField;
+  operator: QueryOperator;
+  value: string;
+  /** Clause was prefixed with '-' */
+  negated: boolean;
+  /** Offset of the clause in the source string */
+  position: number;
+  /** Length of the clause in the source string */
+  length: number;
+}
+
+/**
+ * Parsed query - OR of AND groups
+ */
+export interface ParsedQuery {
+  source: string;
+  groups: QueryClause[][];
+}
+
+/**
+ * Syntax error with the offending location in the query string
+ */
+export class QuerySyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly position: number,
+    public readonly length: number = 1
+  ) {
+    super(`${message} (at column ${position + 1})`);
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+/** Values accepted by is: */
+export const IS_VALUES = ['saved', 'open', 'closed', 'pinned', 'tagged', 'noted'] as const;
+
+/** Fields that only accept ':' */
+const TEXT_FIELDS = new Set<QueryField>(['tag', 'domain', 'url', 'title', 'is', 'session']);
+/** Fields taking a duration or count and any comparison */
+const NUMERIC_FIELDS = new Set<QueryField>(['active', 'visits']);
+/** Fields taking a date specification and any comparison */
+const DATE_FIELDS = new Set<QueryField>(['created', 'closed', 'visited']);
+
+const ALL_FIELDS = new Set<string>([...TEXT_FIELDS, ...NUMERIC_FIELDS, ...DATE_FIELDS]);
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a duration such as 90s, 30m, 1.5h or 2d into milliseconds
+ * A bare number is read as minutes
+ */
+export function parseDuration(value: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)([smhd]?)$/.exec(value);
+  if (!match) return null;
+  return Number(match[1]) * DURATION_UNITS[match[2] || 'm']!;
+}
+
+/**
+ * Resolve a date specification to an inclusive [start, end] range
+ *
+ * - today, yesterday
+ * - last-week / last-month / last-year (rolling 7 / 30 / 365 days)
+ * - 3d, 12h (rolling window ending now)
+ * - 2024-05-01 (whole local day), 2024-05-01..2024-05-31
+ */
+export function resolveDateRange(value: string, now: number): { start: number; end: number } | null {
+  const startOfDay = (time: number) => {
+    const date = new Date(time);
+    date.setHours(0, 0, 0, 0);
+    return date.getTime();
+  };
+
+  switch (value) {
+    case 'today':
+      return { start: startOfDay(now), end: now };
+    case 'yesterday': {
+      const today = startOfDay(now);
+      return { start: startOfDay(today - 1), end: today - 1 };
+    }
+    case 'last-week':
+      return { start: now - 7 * DAY_MS, end: now };
+    case 'last-month':
+      return { start: now - 30 * DAY_MS, end: now };
+    case 'last-year':
+      return { start: now - 365 * DAY_MS, end: now };
+  }
+
+  const relative = /^(\d+)([hd])$/.exec(value);
+  if (relative) {
+    return { start: now - Number(relative[1]) * DURATION_UNITS[relative[2]!]!, end: now };
+  }
+
+  const parseDay = (day: string) => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(day)) return null;
+    const time = new Date(`${day}T00:00:00`).getTime();
+    return Number.isNaN(time) ? null : { start: time, end: time + DAY_MS - 1 };
+  };
+
+  const [from, to, ...rest] = value.split('..');
+  if (to !== undefined && rest.length === 0) {
+    const fromRange = parseDay(from!);
+    const toRange = parseDay(to);
+    if (!fromRange || !toRange || fromRange.start > toRange.start) return null;
+    return { start: fromRange.start, end: toRange.end };
+  }
+
+  return parseDay(value);
+}
+
+/**
+ * Normalize keyword values; session IDs are kept as typed
+ */
+function normalizeValue(field: QueryField, value: string): string {
+  if (field === 'session') {
+    return value.toLowerCase() === 'current' ? 'current' : value;
+  }
+  if (field === 'is' || field === 'created' || field === 'closed' || field === 'visited') {
+    return value.toLowerCase();
+  }
+  return value;
+}
+
+/**
+ * Check a clause value against its field
+ */
+function validateClause(clause: QueryClause): void {
+  const { field, operator, value, position, length } = clause;
+
+  if (!value) {
+    throw new QuerySyntaxError(`Missing value for "${field}"`, position, length);
+  }
+
+  if (TEXT_FIELDS.has(field) && operator !== ':') {
+    throw new QuerySyntaxError(`"${field}" only supports ":" (got "${operator}")`, position, length);
+  }
+
+  if (field === 'is' && !(IS_VALUES as readonly string[]).includes(value)) {
+    throw new QuerySyntaxError(
+      `Unknown value "is:${value}" (expected one of ${IS_VALUES.join(', ')})`,
+      position,
+      length
+    );
+  }
+
+  if (field === 'active' && parseDuration(value) === null) {
+    throw new QuerySyntaxError(`Invalid duration "${value}" (e.g. 30m, 2h, 1d)`, position, length);
+  }
+
+  if (field === 'visits' && !/^\d+$/.test(value)) {
+    throw new QuerySyntaxError(`Invalid visit count "${value}"`, position, length);
+  }
+
+  if (DATE_FIELDS.has(field) && resolveDateRange(value, Date.now()) === null) {
+    throw new QuerySyntaxError(
+      `Invalid date "${value}" (e.g. today, last-week, 3d, 2024-05-01, 2024-05-01..2024-05-31)`,
+      position,
+      length
+    );
+  }
+}
+
+/**
+ * Parse a query string
+ * Throws QuerySyntaxError on invalid input
+ */
+export function parseQuery(source: string): ParsedQuery {
+  const groups: QueryClause[][] = [[]];
+  let i = 0;
+
+  const readValue = (): string => {
+    if (source[i] === '"') {
+      const open = i;
+      const close = source.indexOf('"', i + 1);
+      if (close === -1) {
+        throw new QuerySyntaxError('Unterminated quote', open);
+      }
+      i = close + 1;
+      return source.slice(open + 1, close);
+    }
+    const start = i;
+    while (i < source.length && !/\s/.test(source[i]!)) i++;
+    return source.slice(start, i);
+  };
+
+  while (i < source.length) {
+    if (/\s/.test(source[i]!)) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const currentGroup = groups[groups.length - 1]!;
+
+    // OR separator
+    const orMatch = /^OR(?=\s|$)/.exec(source.slice(i));
+    if (orMatch) {
+      if (currentGroup.length === 0) {
+        throw new QuerySyntaxError('"OR" needs a clause on both sides', start, 2);
+      }
+      groups.push([]);
+      i += 2;
+      continue;
+    }
+
+    const negated = source[i] === '-';
+    if (negated) i++;
+
+    // field + operator
+    const fieldMatch = /^([a-z]+)(>=|<=|:|=|>|<)/i.exec(source.slice(i));
+    if (fieldMatch) {
+      const name = fieldMatch[1]!.toLowerCase();
+      if (!ALL_FIELDS.has(name)) {
+        throw new QuerySyntaxError(
+          `Unknown field "${fieldMatch[1]}"`,
+          i,
+          fieldMatch[1]!.length
+        );
+      }
+      i += fieldMatch[0].length;
+      const value = readValue();
+      const clause: QueryClause = {
+        field: name as QueryField,
+        operator: fieldMatch[2] as QueryOperator,
+        value: normalizeValue(name as QueryField, value),
+        negated,
+        position: start,
+        length: i - start,
+      };
+      validateClause(clause);
+      currentGroup.push(clause);
+      continue;
+    }
+
+    // Bare word or quoted phrase
+    const value = readValue();
+    if (!value) {
+      throw new QuerySyntaxError('Expected a search term after "-"', start);
+    }
+    currentGroup.push({
+      field: 'text',
+      operator: ':',
+      value,
+      negated,
+      position: start,
+      length: i - start,
+    });
+  }
+
+  if (groups.length > 1 && groups[groups.length - 1]!.length === 0) {
+    throw new QuerySyntaxError('"OR" needs a clause on both sides', source.trimEnd().length - 2, 2);
+  }
+
+  return { source, groups: groups.filter((g) => g.length > 0) };
+}
+
+/**
+ * Whether a string uses query syntax (as opposed to plain search text)
+ */
+export function isStructuredQuery(source: string): boolean {
+  if (/\sOR\s/.test(source)) return true;
+
+  // Only known fields count, so pasted URLs ("https://...") stay plain text
+  const fieldPattern = /(?:^|\s)-?([a-z]+)(?:>=|<=|:|=|>|<)\S/gi;
+  for (const match of source.matchAll(fieldPattern)) {
+    if (ALL_FIELDS.has(match[1]!.toLowerCase())) return true;
+  }
+  return false;
+}
@@ -0,0 +1,128 @@
+import { PORT_NAMES } from '../constants';
+import type { ExportQuery, ExportTable } from '../services/ExportQueryService';
+import { RpcError, toRpcError } from './errors';
+import type { EmptyPayload, RpcMethod, RpcPayload, RpcResponse, RpcResult } from './protocol';
+import type { DataStreamMessage, DataStreamPage, DataStreamPlan, DataStreamRequest } from './stream';
+
+/** Payload argument - optional for messages whose fields are all optional */
+type PayloadArgs<M extends RpcMethod> =
+  EmptyPayload extends RpcPayload<M> ? [payload?: RpcPayload<M>] : [payload: RpcPayload<M>];
+
+/**
+ * Send a typed message to the background script
+ * Rejects with an RpcError carrying the background's error code
+ */
+export function callBackground<M extends RpcMethod>(
+  type: M,
+  ...[payload]: PayloadArgs<M>
+): Promise<RpcResult<M>> {
+  return new Promise((resolve, reject) => {
+    chrome.runtime.sendMessage({ type, ...payload }, (response?: RpcResponse<M>) => {
+      if (chrome.runtime.lastError) {
+        reject(new RpcError('DISCONNECTED', chrome.runtime.lastError.message || 'Background unavailable'));
+        return;
+      }
+      if (!response) {
+        reject(new RpcError('DISCONNECTED', 'No response from background'));
+        return;
+      }
+      if (!response.success) {
+        reject(new RpcError(response.code || 'INTERNAL', response.error || 'Unknown error', response.details));
+        return;
+      }
+      resolve(response.data);
+    });
+  });
+}
+
+/**
+ * Options for streamData
+ */
+export interface StreamDataOptions {
+  /** Only pull these tables (defaults to every table in the plan) */
+  tables?: ExportTable[];
+  /** Rows per page (the background caps this) */
+  pageSize?: number;
+  onPlan?: (plan: DataStreamPlan) => void;
+  onPage: (page: DataStreamPage) => void;
+}
+
+/**
+ * Pull export data from the background over a data port, one page at a time
+ * Resolves with the plan once every table is drained; rejects with an RpcError
+ */
+export function streamData(
+  query: Partial<ExportQuery>,
+  options: StreamDataOptions
+): Promise<DataStreamPlan> {
+  return new Promise((resolve, reject) => {
+    let port: chrome.runtime.Port;
+    try {
+      port = chrome.runtime.connect({ name: PORT_NAMES.DATA });
+    } catch (error) {
+      reject(new RpcError('DISCONNECTED', error instanceof Error ? error.message : 'Background unavailable'));
+      return;
+    }
+
+    let plan: DataStreamPlan | null = null;
+    let queue: ExportTable[] = [];
+    let settled = false;
+
+    const finish = (error?: RpcError) => {
+      if (settled) return;
+      settled = true;
+      port.onMessage.removeListener(onMessage);
+      port.onDisconnect.removeListener(onDisconnect);
+      port.disconnect();
+      if (error) reject(error);
+      else resolve(plan!);
+    };
+
+    const pull = (table: ExportTable, cursor: number) => {
+      port.postMessage({ type: 'NEXT', table, cursor, limit: options.pageSize } satisfies DataStreamRequest);
+    };
+
+    const pullNextTable = () => {
+      const table = queue.shift();
+      if (table) pull(table, 0);
+      else finish();
+    };
+
+    function onMessage(message: DataStreamMessage) {
+      try {
+        switch (message.type) {
+          case 'PLAN':
+            plan = message.plan;
+            queue = plan.tables.filter((table) => !options.tables || options.tables.includes(table));
+            options.onPlan?.(plan);
+            pullNextTable();
+            break;
+
+          case 'PAGE':
+            options.onPage(message);
+            if (message.cursor === null) pullNextTable();
+            else pull(message.table, message.cursor);
+            break;
+
+          case 'ERROR':
+            finish(new RpcError(message.code, message.error));
+            break;
+        }
+      } catch (error) {
+        finish(toRpcError(error));
+      }
+    }
+
+    function onDisconnect() {
+      const reason = chrome.runtime.lastError?.message || 'Data channel closed';
+      if (!settled) {
+        settled = true;
+        reject(new RpcError('DISCONNECTED', reason));
+      }
+    }
+
+    port.onMessage.addListener(onMessage);
+    port.onDisconnect.addListener(onDisconnect);
+    port.postMessage({ type: 'START', query } satisfies DataStreamRequest);
+  });
+}
@@ -0,0 +1,55 @@
+import { QuerySyntaxError } from '../query';
+import { ValidationError } from '../services/errors';
+
+/**
+ * Error codes returned to the popup
+ *
+ * - INVALID_REQUEST: payload or service validation failed (e.g. out-of-range settings)
+ * - UNKNOWN_METHOD: no handler for the message type
+ * - NOT_FOUND: the requested record does not exist
+ * - NO_SESSION: no session is active and none was given
+ * - QUERY_SYNTAX: invalid query-language string (details carry the position)
+ * - DISCONNECTED: the background could not be reached (client side only)
+ * - INTERNAL: anything else
+ */
+export type RpcErrorCode =
+  | 'INVALID_REQUEST'
+  | 'UNKNOWN_METHOD'
+  | 'NOT_FOUND'
+  | 'NO_SESSION'
+  | 'QUERY_SYNTAX'
+  | 'DISCONNECTED'
+  | 'INTERNAL';
+
+/**
+ * Error carrying an RPC error code across the message channel
+ */
+export class RpcError extends Error {
+  constructor(
+    public readonly code: RpcErrorCode,
+    message: string,
+    public readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'RpcError';
+  }
+}
+
+/**
+ * Convert any thrown value into an RpcError
+ */
+export function toRpcError(error: unknown): RpcError {
+  if (error instanceof RpcError) {
+    return error;
+  }
+  if (error instanceof QuerySyntaxError) {
+    return new RpcError('QUERY_SYNTAX', error.message, {
+      position: error.position,
+      length: error.length,
+    });
+  }
+  if (error instanceof ValidationError) {
+    return new RpcError('INVALID_REQUEST', error.message);
+  }
+  return new RpcError('INTERNAL', error instanceof Error ? error.message : String(error));
+}
@@ -0,0 +1,528 @@
+import type { StorageManager } from '../services/StorageManager';
+import type { TabTracker } from '../services/TabTracker';
+import type { WindowTracker } from '../services/WindowTracker';
+import type { RelationshipManager } from '../services/RelationshipManager';
+import type { InitializationService } from '../services/InitializationService';
+import type { SearchService } from '../services/SearchService';
+import type { QueryService } from '../services/QueryService';
+import type { IdleTracker } from '../services/IdleTracker';
+import type { ImportService } from '../services/ImportService';
+import type { SessionRestoreService } from '../services/SessionRestoreService';
+import type { WorkspaceService } from '../services/WorkspaceService';
+import type { SessionPolicyService } from '../services/SessionPolicyService';
+import type { SessionEditService } from '../services/SessionEditService';
+import type { SessionSummaryService } from '../services/SessionSummaryService';
+import type { SessionDiffService } from '../services/SessionDiffService';
+import type { RetentionService } from '../services/RetentionService';
+import type { ArchiveService } from '../services/ArchiveService';
+import type { SettingsService } from '../services/SettingsService';
+import type { TagService } from '../services/TagService';
+import type { AutoTagService } from '../services/AutoTagService';
+import type { AnalyticsService } from '../services/AnalyticsService';
+import { REPORT_PERIODS, type ReportService } from '../services/ReportService';
+import { RpcError } from './errors';
+import type { RpcMethod, RpcPayload, RpcResult, RecentEvent } from './protocol';
+
+/**
+ * Services the handlers run against (injected so handlers can be unit tested)
+ */
+export interface RpcDependencies {
+  storageManager: StorageManager;
+  tabTracker: TabTracker;
+  windowTracker: WindowTracker;
+  relationshipManager: RelationshipManager;
+  initService: InitializationService;
+  searchService: SearchService;
+  queryService: QueryService;
+  idleTracker: IdleTracker;
+  importService: ImportService;
+  sessionRestoreService: SessionRestoreService;
+  workspaceService: WorkspaceService;
+  sessionPolicyService: SessionPolicyService;
+  sessionEditService: SessionEditService;
+  sessionSummaryService: SessionSummaryService;
+  sessionDiffService: SessionDiffService;
+  retentionService: RetentionService;
+  archiveService: ArchiveService;
+  settingsService: SettingsService;
+  tagService: TagService;
+  autoTagService: AutoTagService;
+  analyticsService: AnalyticsService;
+  reportService: ReportService;
+}
+
+export type RpcHandler<M extends RpcMethod> = (payload: RpcPayload<M>) => Promise<RpcResult<M>>;
+
+export type RpcHandlers = { [M in RpcMethod]: RpcHandler<M> };
+
+/**
+ * Create the background's message handlers
+ */
+export function createRpcHandlers(deps: RpcDependencies): RpcHandlers {
+  const {
+    storageManager,
+    tabTracker,
+    windowTracker,
+    relationshipManager,
+    initService,
+    searchService,
+    queryService,
+    idleTracker,
+    importService,
+    sessionRestoreService,
+    workspaceService,
+    sessionPolicyService,
+    sessionEditService,
+    sessionSummaryService,
+    sessionDiffService,
+    retentionService,
+    archiveService,
+    settingsService,
+    tagService,
+    autoTagService,
+    analyticsService,
+    reportService,
+  } = deps;
+
+  const requireSessionId = (sessionId?: string): string => {
+    const resolved = sessionId || storageManager.getCurrentSessionId();
+    if (!resolved) {
+      throw new RpcError('NO_SESSION', 'No session');
+    }
+    return resolved;
+  };
+
+  const requireRange = (from?: number, to?: number): void => {
+    if (from !== undefined && to !== undefined && from > to) {
+      throw new RpcError('INVALID_REQUEST', 'The range must start before it ends');
+    }
+  };
+
+  const requireReportPeriod = (period: string): void => {
+    if (!(REPORT_PERIODS as string[]).includes(period)) {
+      throw new RpcError('INVALID_REQUEST', `Reports are ${REPORT_PERIODS.join(' or ')}, not ${period}`);
+    }
+  };
+
+  const reinitialize = async () => {
+    await initService.initialize();
+    return initService.getStatus();
+  };
+
+  return {
+    async GET_CURRENT_TAB() {
+      const persistentId = storageManager.getActiveTabPersistentId();
+      const tab = persistentId ? await tabTracker.getTab(persistentId) : undefined;
+      if (!tab) {
+        throw new RpcError('NOT_FOUND', 'No active tab');
+      }
+      return tab;
+    },
+
+    async GET_CURRENT_SESSION() {
+      return { sessionId: storageManager.getCurrentSessionId() };
+    },
+
+    async GET_TABS_IN_SESSION({ sessionId }) {
+      return tabTracker.getTabsInSession(requireSessionId(sessionId));
+    },
+
+    async GET_WINDOWS_IN_SESSION({ sessionId }) {
+      return windowTracker.getWindowsInSession(requireSessionId(sessionId));
+    },
+
+    async UPDATE_TAB_METADATA({ persistentId, tags, notes, customMetadata }) {
+      const previousTags = tags ? ((await tabTracker.getTab(persistentId))?.tags ?? []) : [];
+      const resolvedTags = tags && (await tagService.resolveTags(tags));
+      await tabTracker.updateTabMetadata(persistentId, { tags: resolvedTags, notes, customMetadata });
+      if (resolvedTags) {
+        await tagService.refreshUsage([...previousTags, ...resolvedTags]);
+      }
+      searchService.scheduleReindex(persistentId);
+    },
+
+    async SAVE_TAB({ persistentId }) {
+      await tabTracker.saveTab(persistentId);
+    },
+
+    async GET_TAB_RELATIONSHIPS({ persistentId }) {
+      return relationshipManager.getAllRelationships(persistentId);
+    },
+
+    async GET_TAB_VISITS({ persistentId, limit }) {
+      return tabTracker.getTabVisits(persistentId, limit);
+    },
+
+    async GET_TAB_NAVIGATIONS({ persistentId, limit }) {
+      return tabTracker.getTabNavigations(persistentId, limit);
+    },
+
+    async GET_IDLE_PERIODS({ sessionId, limit }) {
+      return idleTracker.getIdlePeriods(requireSessionId(sessionId), limit);
+    },
+
+    async SEARCH({ query, limit, includeClosed, sessionId }) {
+      return searchService.search(query, { limit, includeClosed, sessionId });
+    },
+
+    async RUN_QUERY({ query, limit }) {
+      return queryService.run(query, { limit });
+    },
+
+    async GET_SAVED_SEARCHES() {
+      return queryService.getSavedSearches();
+    },
+
+    async SAVE_SEARCH({ name, query }) {
+      return queryService.saveSearch(name, query);
+    },
+
+    async DELETE_SAVED_SEARCH({ id }) {
+      await queryService.deleteSavedSearch(id);
+    },
+
+    async PING() {
+      return { pong: true, timestamp: Date.now() };
+    },
+
+    async SWITCH_TO_TAB({ chromeTabId, chromeWindowId }) {
+      // Focus the window first, then activate the tab
+      await chrome.windows.update(chromeWindowId, { focused: true });
+      await chrome.tabs.update(chromeTabId, { active: true });
+    },
+
+    async CLOSE_TAB({ chromeTabId }) {
+      await chrome.tabs.remove(chromeTabId);
+    },
+
+    async MOVE_TAB_TO_WINDOW({ chromeTabId, targetWindowId, index }) {
+      await chrome.tabs.move(chromeTabId, { windowId: targetWindowId, index: index ?? -1 });
+    },
+
+    async REORDER_TAB({ chromeTabId, newIndex }) {
+      await chrome.tabs.move(chromeTabId, { index: newIndex });
+    },
+
+    async IMPORT_DATA({ data }) {
+      // Merge a parsed export archive - runs in background context with full DB access
+      const report = await importService.importData(data);
+      await tagService.resolveStoredAliases();
+      await searchService.ensureIndexed();
+      await tagService.recountUsage();
+      return report;
+    },
+
+    async RESTORE_SESSION({ sessionId, lazy }) {
+      const report = await sessionRestoreService.restoreSession(sessionId, { lazy });
+      if (!report) {
+        throw new RpcError('NOT_FOUND', `Session not found: ${sessionId}`);
+      }
+      return report;
+    },
+
+    async GET_WORKSPACES() {
+      return workspaceService.getWorkspaces();
+    },
+
+    async CREATE_WORKSPACE({ name, description, sessionId, chromeWindowId }) {
+      if ((sessionId === undefined) === (chromeWindowId === undefined)) {
+        throw new RpcError('INVALID_REQUEST', 'A workspace starts from either a session or a window');
+      }
+      const workspace = await workspaceService.createWorkspace(name, { sessionId, chromeWindowId }, description);
+      if (!workspace) {
+        throw new RpcError(
+          'NOT_FOUND',
+          sessionId !== undefined ? `Session not found: ${sessionId}` : `Window not tracked: ${chromeWindowId}`
+        );
+      }
+      return workspace;
+    },
+
+    async UPDATE_WORKSPACE_FROM_WINDOW({ id, chromeWindowId }) {
+      const workspace = await workspaceService.updateFromWindow(id, chromeWindowId);
+      if (!workspace) {
+        throw new RpcError('NOT_FOUND', `Workspace ${id} or window ${chromeWindowId} not found`);
+      }
+      return workspace;
+    },
+
+    async OPEN_WORKSPACE({ id, lazy }) {
+      const report = await workspaceService.openWorkspace(id, { lazy });
+      if (!report) {
+        throw new RpcError('NOT_FOUND', `Workspace not found: ${id}`);
+      }
+      return report;
+    },
+
+    async CLOSE_WORKSPACE({ id }) {
+      const workspace = await workspaceService.closeWorkspace(id);
+      if (!workspace) {
+        throw new RpcError('NOT_FOUND', `Workspace not found: ${id}`);
+      }
+      return workspace;
+    },
+
+    async DELETE_WORKSPACE({ id }) {
+      await workspaceService.deleteWorkspace(id);
+    },
+
+    async GET_SESSION_POLICY() {
+      return sessionPolicyService.getPolicy();
+    },
+
+    async UPDATE_SESSION_POLICY(changes) {
+      return sessionPolicyService.updatePolicy(changes);
+    },
+
+    async START_NEW_SESSION() {
+      return sessionPolicyService.startNewSession('manual');
+    },
+
+    async MERGE_SESSIONS({ targetSessionId, sourceSessionId }) {
+      const session = await sessionEditService.mergeSessions(targetSessionId, sourceSessionId);
+      if (!session) {
+        throw new RpcError('NOT_FOUND', `Session ${targetSessionId} or ${sourceSessionId} not found`);
+      }
+      return session;
+    },
+
+    async SPLIT_SESSION({ sessionId, at }) {
+      const session = await sessionEditService.splitSession(sessionId, at);
+      if (!session) {
+        throw new RpcError('NOT_FOUND', `Session not found: ${sessionId}`);
+      }
+      return session;
+    },
+
+    async MOVE_TO_SESSION({ sessionId, windowPersistentIds = [], tabPersistentIds = [] }) {
+      if (windowPersistentIds.length === 0 && tabPersistentIds.length === 0) {
+        throw new RpcError('INVALID_REQUEST', 'Nothing to move - pick windows or tabs');
+      }
+      const session = await sessionEditService.moveToSession(sessionId, { windowPersistentIds, tabPersistentIds });
+      if (!session) {
+        throw new RpcError('NOT_FOUND', `Session not found: ${sessionId}`);
+      }
+      return session;
+    },
+
+    async RENAME_SESSION({ sessionId, name, description }) {
+      if (!name.trim()) {
+        throw new RpcError('INVALID_REQUEST', 'Session name cannot be empty');
+      }
+      const session = await sessionSummaryService.rename(sessionId, name, description);
+      if (!session) {
+        throw new RpcError('NOT_FOUND', `Session not found: ${sessionId}`);
+      }
+      return session;
+    },
+
+    async SUMMARIZE_SESSION({ sessionId }) {
+      // Asked for explicitly, so a name the user set gives way
+      const session = await sessionSummaryService.summarize(sessionId, { force: true });
+      if (!session) {
+        throw new RpcError('NOT_FOUND', `Session not found: ${sessionId}`);
+      }
+      return session;
+    },
+
+    async GET_SUMMARY_RULES() {
+      return sessionSummaryService.getRules();
+    },
+
+    async UPDATE_SUMMARY_RULES(changes) {
+      return sessionSummaryService.updateRules(changes);
+    },
+
+    async GET_SESSIONS({ limit = 50 }) {
+      return storageManager.getDB().sessions.orderBy('startedAt').reverse().limit(limit).toArray();
+    },
+
+    async DIFF_SESSIONS({ baseSessionId, compareSessionId }) {
+      const diff = await sessionDiffService.diffSessions(baseSessionId, compareSessionId);
+      if (!diff) {
+        throw new RpcError('NOT_FOUND', `Session ${baseSessionId} or ${compareSessionId} not found`);
+      }
+      return diff;
+    },
+
+    async GET_RETENTION_POLICY() {
+      return retentionService.getPolicy();
+    },
+
+    async UPDATE_RETENTION_RULES({ rules }) {
+      // Rules match tags by name, so aliases are resolved as rules are saved
+      const resolved = await Promise.all(
+        rules.map(async (rule) =>
+          typeof rule.match?.tag === 'string'
+            ? { ...rule, match: { ...rule.match, tag: await tagService.resolveTag(rule.match.tag) } }
+            : rule
+        )
+      );
+      return retentionService.updateRules(resolved);
+    },
+
+    async RUN_RETENTION({ dryRun = true }) {
+      // Deleting is opt-in; by default the caller gets the report first
+      return retentionService.run({ dryRun });
+    },
+
+    async GET_ARCHIVES({ limit = 50 }) {
+      return archiveService.getArchives(limit);
+    },
+
+    async SEARCH_ARCHIVES({ query, limit }) {
+      return searchService.searchArchives(query, limit);
+    },
+
+    async RESTORE_ARCHIVE({ sessionId }) {
+      const session = await archiveService.restoreArchive(sessionId);
+      if (!session) {
+        throw new RpcError('NOT_FOUND', `No archive of session ${sessionId}`);
+      }
+      return session;
+    },
+
+    async DELETE_ARCHIVE({ sessionId }) {
+      if (!(await archiveService.deleteArchive(sessionId))) {
+        throw new RpcError('NOT_FOUND', `No archive of session ${sessionId}`);
+      }
+    },
+
+    async GET_SETTINGS() {
+      return settingsService.getSettings();
+    },
+
+    async UPDATE_SETTINGS(changes) {
+      return settingsService.updateSettings(changes);
+    },
+
+    async RESET_SETTINGS() {
+      return settingsService.resetSettings();
+    },
+
+    async GET_TAGS() {
+      return tagService.getTags();
+    },
+
+    async FIND_DUPLICATE_TAGS() {
+      return tagService.findDuplicates();
+    },
+
+    async CREATE_TAG({ name, color }) {
+      return tagService.createTag(name, color);
+    },
+
+    async RENAME_TAG({ name, newName }) {
+      const tag = await tagService.renameTag(name, newName);
+      if (!tag) {
+        throw new RpcError('NOT_FOUND', `Tag "${name}" not found`);
+      }
+      return tag;
+    },
+
+    async RECOLOR_TAG({ name, color }) {
+      const tag = await tagService.recolorTag(name, color);
+      if (!tag) {
+        throw new RpcError('NOT_FOUND', `Tag "${name}" not found`);
+      }
+      return tag;
+    },
+
+    async MERGE_TAGS({ sources, target }) {
+      const tag = await tagService.mergeTags(sources, target);
+      if (!tag) {
+        throw new RpcError('NOT_FOUND', `Tag "${target}" not found`);
+      }
+      return tag;
+    },
+
+    async DELETE_TAG({ name }) {
+      if (!(await tagService.deleteTag(name))) {
+        throw new RpcError('NOT_FOUND', `Tag "${name}" not found`);
+      }
+    },
+
+    async ADD_TAG_ALIAS({ name, alias }) {
+      const tag = await tagService.addAlias(name, alias);
+      if (!tag) {
+        throw new RpcError('NOT_FOUND', `Tag "${name}" not found`);
+      }
+      return tag;
+    },
+
+    async REMOVE_TAG_ALIAS({ name, alias }) {
+      const tag = await tagService.removeAlias(name, alias);
+      if (!tag) {
+        throw new RpcError('NOT_FOUND', `Tag "${name}" not found`);
+      }
+      return tag;
+    },
+
+    async GET_AUTO_TAG_RULES() {
+      return autoTagService.getRules();
+    },
+
+    async UPDATE_AUTO_TAG_RULES({ rules }) {
+      return autoTagService.updateRules(rules);
+    },
+
+    async RUN_AUTO_TAG_RULES({ dryRun = true, rules, sessionIds, limit }) {
+      // Tagging past tabs is opt-in; by default the caller gets a preview
+      return autoTagService.run({ dryRun, rules, sessionIds, limit });
+    },
+
+    async GET_DOMAIN_ANALYTICS({ from, to, limit }) {
+      requireRange(from, to);
+      return analyticsService.getAnalytics({ from, to, limit });
+    },
+
+    async GET_DOMAIN_HISTORY({ domain, from, to }) {
+      requireRange(from, to);
+      const history = await analyticsService.getDomainHistory(domain, { from, to });
+      if (!history) {
+        throw new RpcError('NOT_FOUND', `No visits to ${domain}`);
+      }
+      return history;
+    },
+
+    async REBUILD_DOMAIN_STATS() {
+      return analyticsService.rebuild();
+    },
+
+    async GET_REPORT({ period, date }) {
+      requireReportPeriod(period);
+      return reportService.getReport(period, date);
+    },
+
+    async GENERATE_REPORT({ period, date }) {
+      requireReportPeriod(period);
+      return reportService.generate(period, date);
+    },
+
+    async LIST_REPORTS({ period }) {
+      if (period !== undefined) requireReportPeriod(period);
+      return reportService.listReports(period);
+    },
+
+    async GET_DEBUG_STATS() {
+      const db = storageManager.getDB();
+      const initStatus = await initService.getStatus();
+      return {
+        ...initStatus,
+        visitCount: await db.tabVisits.count(),
+        relationshipCount: await db.tabRelationships.count(),
+        idlePeriodCount: await db.idlePeriods.count(),
+        idleState: storageManager.getIdleState(),
+      };
+    },
+
+    async GET_RECENT_EVENTS() {
+      const { recentEvents } = await chrome.storage.local.get('recentEvents');
+      return (recentEvents as RecentEvent[] | undefined) || [];
+    },
+
+    FORCE_RECONCILE: reinitialize,
+
+    FORCE_INIT: reinitialize,
+  };
+}
@@ -0,0 +1,31 @@
+// RPC module exports
+// The data port handler (./streamHandler) is imported by the background directly -
+// it depends on ExportQueryService, which only runs in the background
+export { callBackground, streamData } from './client';
+export { createRpcHandlers } from './handlers';
+export { createRpcRouter } from './router';
+export { validateRequest, validatePayload, REQUEST_SCHEMAS } from './validator';
+export { RpcError, toRpcError } from './errors';
+export type { RpcDependencies, RpcHandler, RpcHandlers } from './handlers';
+export type { StreamDataOptions } from './client';
+export type { FieldRule, RequestSchema } from './validator';
+export type { RpcErrorCode } from './errors';
+export type {
+  RpcProtocol,
+  RpcMethod,
+  RpcPayload,
+  RpcResult,
+  RpcRequest,
+  RpcResponse,
+  EmptyPayload,
+  InitStatus,
+  DebugStats,
+  RecentEvent,
+  TabRelationshipSummary,
+} from './protocol';
+export type {
+  DataStreamPlan,
+  DataStreamPage,
+  DataStreamRequest,
+  DataStreamMessage,
+} from './stream';
@@ -0,0 +1,190 @@
+/**
+ * Popup <-> background message protocol
+ *
+ * Every message is `{ type, ...payload }` and every reply is an RpcResponse.
+ * To add a message: declare it in RpcProtocol, describe its payload in
+ * REQUEST_SCHEMAS (validator.ts) and implement it in createRpcHandlers
+ * (handlers.ts). The compiler flags whichever of the three is missing.
+ */
+import type {
+  TrackedTab,
+  TrackedWindow,
+  TabVisit,
+  TabNavigation,
+  SavedSearch,
+  IdlePeriod,
+  IdleState,
+  ExportData,
+  Workspace,
+  Session,
+  SessionPolicy,
+  SummaryRules,
+  RetentionPolicy,
+  RetentionRule,
+  ArchivedSession,
+  Settings,
+  SettingsChanges,
+  Tag,
+  AutoTagRule,
+  ActivityReport,
+  ReportPeriod,
+} from '../db/types';
+import type { SearchResult, ArchiveSearchResult } from '../services/SearchService';
+import type { ImportReport } from '../services/ImportService';
+import type { RestoreReport } from '../services/SessionRestoreService';
+import type { SessionDiff } from '../services/SessionDiffService';
+import type { RetentionReport } from '../services/RetentionService';
+import type { AutoTagReport } from '../services/AutoTagService';
+import type { DomainAnalytics, DomainHistory } from '../services/AnalyticsService';
+import type { RelationshipManager } from '../services/RelationshipManager';
+import type { InitializationService } from '../services/InitializationService';
+import type { RpcErrorCode } from './errors';
+
+/** Payload of messages that carry no fields */
+export type EmptyPayload = Record<never, never>;
+
+/** Database counts reported by InitializationService */
+export type InitStatus = Awaited<ReturnType<InitializationService['getStatus']>>;
+
+/** Relationship groups for a tab */
+export type TabRelationshipSummary = Awaited<ReturnType<RelationshipManager['getAllRelationships']>>;
+
+/**
+ * Debug panel statistics
+ */
+export interface DebugStats extends InitStatus {
+  visitCount: number;
+  relationshipCount: number;
+  idlePeriodCount: number;
+  idleState: IdleState;
+}
+
+/**
+ * Entry in the background's recent event log
+ */
+export interface RecentEvent {
+  type: string;
+  data: string;
+  timestamp: number;
+}
+
+/**
+ * Message type -> payload and result
+ */
+export interface RpcProtocol {
+  GET_CURRENT_TAB: { request: EmptyPayload; response: TrackedTab };
+  GET_CURRENT_SESSION: { request: EmptyPayload; response: { sessionId: string | null } };
+  GET_TABS_IN_SESSION: { request: { sessionId?: string }; response: TrackedTab[] };
+  GET_WINDOWS_IN_SESSION: { request: { sessionId?: string }; response: TrackedWindow[] };
+  UPDATE_TAB_METADATA: {
+    request: {
+      persistentId: string;
+      tags?: string[];
+      notes?: string;
+      customMetadata?: Record<string, unknown>;
+    };
+    response: void;
+  };
+  SAVE_TAB: { request: { persistentId: string }; response: void };
+  GET_TAB_RELATIONSHIPS: { request: { persistentId: string }; response: TabRelationshipSummary };
+  GET_TAB_VISITS: { request: { persistentId: string; limit?: number }; response: TabVisit[] };
+  GET_TAB_NAVIGATIONS: { request: { persistentId: string; limit?: number }; response: TabNavigation[] };
+  GET_IDLE_PERIODS: { request: { sessionId?: string; limit?: number }; response: IdlePeriod[] };
+  SEARCH: {
+    request: { query: string; limit?: number; includeClosed?: boolean; sessionId?: string };
+    response: SearchResult[];
+  };
+  RUN_QUERY: { request: { query: string; limit?: number }; response: TrackedTab[] };
+  GET_SAVED_SEARCHES: { request: EmptyPayload; response: SavedSearch[] };
+  SAVE_SEARCH: { request: { name: string; query: string }; response: SavedSearch };
+  DELETE_SAVED_SEARCH: { request: { id: number }; response: void };
+  PING: { request: EmptyPayload; response: { pong: true; timestamp: number } };
+  SWITCH_TO_TAB: { request: { chromeTabId: number; chromeWindowId: number }; response: void };
+  CLOSE_TAB: { request: { chromeTabId: number }; response: void };
+  MOVE_TAB_TO_WINDOW: {
+    request: { chromeTabId: number; targetWindowId: number; index?: number };
+    response: void;
+  };
+  REORDER_TAB: { request: { chromeTabId: number; newIndex: number }; response: void };
+  IMPORT_DATA: { request: { data: ExportData }; response: ImportReport };
+  RESTORE_SESSION: { request: { sessionId: string; lazy?: boolean }; response: RestoreReport };
+  GET_WORKSPACES: { request: EmptyPayload; response: Workspace[] };
+  CREATE_WORKSPACE: {
+    request: { name: string; description?: string; sessionId?: string; chromeWindowId?: number };
+    response: Workspace;
+  };
+  UPDATE_WORKSPACE_FROM_WINDOW: { request: { id: number; chromeWindowId: number }; response: Workspace };
+  OPEN_WORKSPACE: { request: { id: number; lazy?: boolean }; response: RestoreReport };
+  CLOSE_WORKSPACE: { request: { id: number }; response: Workspace };
+  DELETE_WORKSPACE: { request: { id: number }; response: void };
+  GET_SESSION_POLICY: { request: EmptyPayload; response: SessionPolicy };
+  UPDATE_SESSION_POLICY: { request: Partial<SessionPolicy>; response: SessionPolicy };
+  START_NEW_SESSION: { request: EmptyPayload; response: Session };
+  MERGE_SESSIONS: { request: { targetSessionId: string; sourceSessionId: string }; response: Session };
+  SPLIT_SESSION: { request: { sessionId: string; at: number }; response: Session };
+  MOVE_TO_SESSION: {
+    request: { sessionId: string; windowPersistentIds?: string[]; tabPersistentIds?: string[] };
+    response: Session;
+  };
+  RENAME_SESSION: { request: { sessionId: string; name: string; description?: string }; response: Session };
+  SUMMARIZE_SESSION: { request: { sessionId: string }; response: Session };
+  GET_SUMMARY_RULES: { request: EmptyPayload; response: SummaryRules };
+  UPDATE_SUMMARY_RULES: { request: Partial<SummaryRules>; response: SummaryRules };
+  GET_SESSIONS: { request: { limit?: number }; response: Session[] };
+  DIFF_SESSIONS: { request: { baseSessionId: string; compareSessionId: string }; response: SessionDiff };
+  GET_RETENTION_POLICY: { request: EmptyPayload; response: RetentionPolicy };
+  UPDATE_RETENTION_RULES: { request: { rules: RetentionRule[] }; response: RetentionPolicy };
+  RUN_RETENTION: { request: { dryRun?: boolean }; response: RetentionReport };
+  GET_ARCHIVES: { request: { limit?: number }; response: ArchivedSession[] };
+  SEARCH_ARCHIVES: { request: { query: string; limit?: number }; response: ArchiveSearchResult[] };
+  RESTORE_ARCHIVE: { request: { sessionId: string }; response: Session };
+  DELETE_ARCHIVE: { request: { sessionId: string }; response: void };
+  GET_SETTINGS: { request: EmptyPayload; response: Settings };
+  UPDATE_SETTINGS: { request: SettingsChanges; response: Settings };
+  RESET_SETTINGS: { request: EmptyPayload; response: Settings };
+  GET_TAGS: { request: EmptyPayload; response: Tag[] };
+  FIND_DUPLICATE_TAGS: { request: EmptyPayload; response: Tag[][] };
+  CREATE_TAG: { request: { name: string; color?: string }; response: Tag };
+  RENAME_TAG: { request: { name: string; newName: string }; response: Tag };
+  RECOLOR_TAG: { request: { name: string; color: string }; response: Tag };
+  MERGE_TAGS: { request: { sources: string[]; target: string }; response: Tag };
+  DELETE_TAG: { request: { name: string }; response: void };
+  ADD_TAG_ALIAS: { request: { name: string; alias: string }; response: Tag };
+  REMOVE_TAG_ALIAS: { request: { name: string; alias: string }; response: Tag };
+  GET_AUTO_TAG_RULES: { request: EmptyPayload; response: AutoTagRule[] };
+  UPDATE_AUTO_TAG_RULES: { request: { rules: AutoTagRule[] }; response: AutoTagRule[] };
+  RUN_AUTO_TAG_RULES: {
+    request: { dryRun?: boolean; rules?: AutoTagRule[]; sessionIds?: string[]; limit?: number };
+    response: AutoTagReport;
+  };
+  GET_DOMAIN_ANALYTICS: { request: { from?: number; to?: number; limit?: number }; response: DomainAnalytics };
+  GET_DOMAIN_HISTORY: { request: { domain: string; from?: number; to?: number }; response: DomainHistory };
+  REBUILD_DOMAIN_STATS: { request: EmptyPayload; response: number };
+  GET_REPORT: { request: { period: ReportPeriod; date?: number }; response: ActivityReport };
+  GENERATE_REPORT: { request: { period: ReportPeriod; date?: number }; response: ActivityReport };
+  LIST_REPORTS: { request: { period?: ReportPeriod }; response: ActivityReport[] };
+  GET_DEBUG_STATS: { request: EmptyPayload; response: DebugStats };
+  GET_RECENT_EVENTS: { request: EmptyPayload; response: RecentEvent[] };
+  FORCE_RECONCILE: { request: EmptyPayload; response: InitStatus };
+  FORCE_INIT: { request: EmptyPayload; response: InitStatus };
+}
+
+export type RpcMethod = keyof RpcProtocol;
+
+export type RpcPayload<M extends RpcMethod> = RpcProtocol[M]['request'];
+
+export type RpcResult<M extends RpcMethod> = RpcProtocol[M]['response'];
+
+/**
+ * Message as sent over chrome.runtime
+ */
+export type RpcRequest<M extends RpcMethod = RpcMethod> = {
+  [K in M]: { type: K } & RpcPayload<K>;
+}[M];
+
+/**
+ * Reply to an RpcRequest
+ */
+export type RpcResponse<M extends RpcMethod = RpcMethod> =
+  | { success: true; data: RpcResult<M> }
+  | { success: false; error: string; code: RpcErrorCode; details?: Record<string, unknown> };
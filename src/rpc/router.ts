@@ -0,0 +1,32 @@
+import { toRpcError } from './errors';
+import type { RpcHandler, RpcHandlers } from './handlers';
+import type { RpcMethod, RpcResponse } from './protocol';
+import { validateRequest } from './validator';
+
+/**
+ * Create a message router: validates a raw message, runs its handler and
+ * always resolves to an RpcResponse (errors are reported with a code)
+ */
+export function createRpcRouter(handlers: RpcHandlers): (message: unknown) => Promise<RpcResponse> {
+  return async (message) => {
+    try {
+      const { type, ...payload } = validateRequest(message);
+      const handler = handlers[type] as RpcHandler<RpcMethod>;
+      const data = await handler(payload as never);
+      return { success: true, data } as RpcResponse;
+    } catch (error) {
+      const rpcError = toRpcError(error);
+      if (rpcError.code === 'INTERNAL') {
+        console.error('[RPC] Handler error:', error);
+      } else {
+        console.warn(`[RPC] ${rpcError.code}:`, rpcError.message);
+      }
+      return {
+        success: false,
+        error: rpcError.message,
+        code: rpcError.code,
+        ...(rpcError.details && { details: rpcError.details }),
+      };
+    }
+  };
+}
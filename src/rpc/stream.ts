@@ -0,0 +1,50 @@
+/**
+ * Paged data channel over a long-lived chrome.runtime.Port
+ *
+ * The popup opens a port named PORT_NAMES.DATA and sends START with an export
+ * query. The background answers with a PLAN (filters, sessions, windows, tab
+ * groups, tags, archives, the tables to pull and row estimates), then the popup pulls
+ * each table with NEXT until the returned cursor is null. Pulling one page at a time keeps
+ * both sides' memory bounded regardless of how much visit history is stored.
+ */
+import type { Session, TrackedWindow, TrackedTabGroup, Tag, ArchivedSession, ExportFilters } from '../db/types';
+import type { ExportQuery, ExportRows, ExportTable } from '../services/ExportQueryService';
+import type { RpcErrorCode } from './errors';
+
+/**
+ * Export plan as sent to the popup
+ */
+export interface DataStreamPlan {
+  filters: ExportFilters;
+  sessions: Session[];
+  windows: TrackedWindow[];
+  tabGroups: TrackedTabGroup[];
+  tags: Tag[];
+  archives: ArchivedSession[];
+  /** Tables with rows to pull, in order */
+  tables: ExportTable[];
+  /** Upper bound on rows per table */
+  estimates: Record<ExportTable, number>;
+}
+
+/**
+ * Page of a paged table
+ */
+export type DataStreamPage = {
+  [T in ExportTable]: { table: T; rows: ExportRows[T][]; cursor: number | null };
+}[ExportTable];
+
+/**
+ * Popup -> background
+ */
+export type DataStreamRequest =
+  | { type: 'START'; query: Partial<ExportQuery> }
+  | { type: 'NEXT'; table: ExportTable; cursor: number; limit?: number };
+
+/**
+ * Background -> popup
+ */
+export type DataStreamMessage =
+  | { type: 'PLAN'; plan: DataStreamPlan }
+  | ({ type: 'PAGE' } & DataStreamPage)
+  | { type: 'ERROR'; code: RpcErrorCode; error: string };
@@ -0,0 +1,116 @@
+import {
+  EXPORT_TABLES,
+  type ExportQueryService,
+  type ExportPlan,
+  type ExportQuery,
+} from '../services/ExportQueryService';
+import { getSettingsService, type SettingsService } from '../services/SettingsService';
+import { RpcError, toRpcError } from './errors';
+import { validatePayload, type FieldRule } from './validator';
+import type { DataStreamMessage, DataStreamRequest } from './stream';
+
+/**
+ * Payload schemas for the data port's requests
+ */
+export const STREAM_SCHEMAS: Record<DataStreamRequest['type'], Record<string, FieldRule>> = {
+  START: { query: 'object' },
+  NEXT: { table: { oneOf: EXPORT_TABLES }, cursor: 'number', limit: 'number?' },
+};
+
+const EXPORT_QUERY_SCHEMA: { [K in keyof ExportQuery]-?: FieldRule } = {
+  scope: { oneOf: ['current-window', 'all-windows', 'session', 'custom'], optional: true },
+  filters: 'object?',
+  includeRelationships: 'boolean?',
+};
+
+/**
+ * Validate a message received on the data port
+ */
+export function validateStreamRequest(message: unknown): DataStreamRequest {
+  if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+    throw new RpcError('INVALID_REQUEST', 'Message must be an object');
+  }
+
+  const { type, ...payload } = message as Record<string, unknown>;
+  if (type !== 'START' && type !== 'NEXT') {
+    throw new RpcError('UNKNOWN_METHOD', `Unknown stream message: ${String(type)}`);
+  }
+
+  validatePayload(type, payload, STREAM_SCHEMAS[type]);
+  if (type === 'START') {
+    validatePayload('export query', payload.query as Record<string, unknown>, EXPORT_QUERY_SCHEMA);
+  }
+  return message as DataStreamRequest;
+}
+
+/**
+ * Create the background's handler for data ports
+ * Each connection keeps its own plan until the popup disconnects
+ */
+export function createDataStreamHandler(
+  exportQueryService: ExportQueryService,
+  settingsService: SettingsService = getSettingsService()
+): (port: chrome.runtime.Port) => void {
+  return (port) => {
+    let plan: ExportPlan | null = null;
+    let disconnected = false;
+
+    const post = (message: DataStreamMessage) => {
+      if (!disconnected) port.postMessage(message);
+    };
+
+    port.onDisconnect.addListener(() => {
+      disconnected = true;
+      plan = null;
+    });
+
+    port.onMessage.addListener(async (raw: unknown) => {
+      try {
+        const message = validateStreamRequest(raw);
+
+        if (message.type === 'START') {
+          plan = await exportQueryService.prepare({
+            scope: message.query.scope || 'session',
+            filters: message.query.filters || {},
+            includeRelationships: message.query.includeRelationships ?? true,
+          });
+          const estimates = await exportQueryService.estimate(plan);
+          const { filters, sessions, windows, tabGroups, tags, archives } = plan;
+          post({
+            type: 'PLAN',
+            plan: {
+              filters,
+              sessions,
+              windows,
+              tabGroups,
+              tags,
+              archives,
+              tables: EXPORT_TABLES.filter((table) => estimates[table] > 0),
+              estimates,
+            },
+          });
+          return;
+        }
+
+        if (!plan) {
+          throw new RpcError('INVALID_REQUEST', 'NEXT sent before START');
+        }
+        const { storage } = await settingsService.getSettings();
+        const limit = Math.min(
+          Math.max(1, Math.floor(message.limit ?? storage.dataPageSize)),
+          storage.maxDataPageSize
+        );
+        const page = await exportQueryService.page(plan, message.table, message.cursor, limit);
+        post({ type: 'PAGE', table: message.table, ...page } as DataStreamMessage);
+      } catch (error) {
+        const rpcError = toRpcError(error);
+        if (rpcError.code === 'INTERNAL') {
+          console.error('[DataStream] Error:', rpcError.message);
+        } else {
+          console.warn('[DataStream] Rejected:', rpcError.message);
+        }
+        post({ type: 'ERROR', code: rpcError.code, error: rpcError.message });
+      }
+    });
+  };
+}
@@ -0,0 +1,204 @@
+import { RpcError } from './errors';
+import type { RpcMethod, RpcPayload, RpcRequest } from './protocol';
+
+type FieldType = 'string' | 'number' | 'boolean' | 'object' | 'string[]' | 'object[]';
+
+/**
+ * Rule for one payload field
+ * A trailing '?' marks the field optional; oneOf restricts it to fixed strings
+ */
+export type FieldRule = FieldType | `${FieldType}?` | { oneOf: readonly string[]; optional?: boolean };
+
+/**
+ * One rule per payload field - the mapped type keeps schemas in step with RpcProtocol
+ */
+export type RequestSchema<T> = { [K in keyof T]-?: FieldRule };
+
+const EMPTY = {} as const;
+
+/**
+ * Payload schemas for every message type
+ */
+export const REQUEST_SCHEMAS: { [M in RpcMethod]: RequestSchema<RpcPayload<M>> } = {
+  GET_CURRENT_TAB: EMPTY,
+  GET_CURRENT_SESSION: EMPTY,
+  GET_TABS_IN_SESSION: { sessionId: 'string?' },
+  GET_WINDOWS_IN_SESSION: { sessionId: 'string?' },
+  UPDATE_TAB_METADATA: {
+    persistentId: 'string',
+    tags: 'string[]?',
+    notes: 'string?',
+    customMetadata: 'object?',
+  },
+  SAVE_TAB: { persistentId: 'string' },
+  GET_TAB_RELATIONSHIPS: { persistentId: 'string' },
+  GET_TAB_VISITS: { persistentId: 'string', limit: 'number?' },
+  GET_TAB_NAVIGATIONS: { persistentId: 'string', limit: 'number?' },
+  GET_IDLE_PERIODS: { sessionId: 'string?', limit: 'number?' },
+  SEARCH: { query: 'string', limit: 'number?', includeClosed: 'boolean?', sessionId: 'string?' },
+  RUN_QUERY: { query: 'string', limit: 'number?' },
+  GET_SAVED_SEARCHES: EMPTY,
+  SAVE_SEARCH: { name: 'string', query: 'string' },
+  DELETE_SAVED_SEARCH: { id: 'number' },
+  PING: EMPTY,
+  SWITCH_TO_TAB: { chromeTabId: 'number', chromeWindowId: 'number' },
+  CLOSE_TAB: { chromeTabId: 'number' },
+  MOVE_TAB_TO_WINDOW: { chromeTabId: 'number', targetWindowId: 'number', index: 'number?' },
+  REORDER_TAB: { chromeTabId: 'number', newIndex: 'number' },
+  IMPORT_DATA: { data: 'object' },
+  RESTORE_SESSION: { sessionId: 'string', lazy: 'boolean?' },
+  GET_WORKSPACES: EMPTY,
+  CREATE_WORKSPACE: { name: 'string', description: 'string?', sessionId: 'string?', chromeWindowId: 'number?' },
+  UPDATE_WORKSPACE_FROM_WINDOW: { id: 'number', chromeWindowId: 'number' },
+  OPEN_WORKSPACE: { id: 'number', lazy: 'boolean?' },
+  CLOSE_WORKSPACE: { id: 'number' },
+  DELETE_WORKSPACE: { id: 'number' },
+  GET_SESSION_POLICY: EMPTY,
+  UPDATE_SESSION_POLICY: {
+    idleGapMinutes: 'number?',
+    splitDaily: 'boolean?',
+    dayStartHour: 'number?',
+    perWindow: 'boolean?',
+  },
+  START_NEW_SESSION: EMPTY,
+  MERGE_SESSIONS: { targetSessionId: 'string', sourceSessionId: 'string' },
+  SPLIT_SESSION: { sessionId: 'string', at: 'number' },
+  MOVE_TO_SESSION: { sessionId: 'string', windowPersistentIds: 'string[]?', tabPersistentIds: 'string[]?' },
+  RENAME_SESSION: { sessionId: 'string', name: 'string', description: 'string?' },
+  SUMMARIZE_SESSION: { sessionId: 'string' },
+  GET_SUMMARY_RULES: EMPTY,
+  UPDATE_SUMMARY_RULES: {
+    maxDomains: 'number?',
+    maxTags: 'number?',
+    maxTitles: 'number?',
+    ignoredDomains: 'string[]?',
+  },
+  GET_SESSIONS: { limit: 'number?' },
+  DIFF_SESSIONS: { baseSessionId: 'string', compareSessionId: 'string' },
+  GET_RETENTION_POLICY: EMPTY,
+  UPDATE_RETENTION_RULES: { rules: 'object[]' },
+  RUN_RETENTION: { dryRun: 'boolean?' },
+  GET_ARCHIVES: { limit: 'number?' },
+  SEARCH_ARCHIVES: { query: 'string', limit: 'number?' },
+  RESTORE_ARCHIVE: { sessionId: 'string' },
+  DELETE_ARCHIVE: { sessionId: 'string' },
+  GET_SETTINGS: EMPTY,
+  UPDATE_SETTINGS: {
+    timing: 'object?',
+    relationships: 'object?',
+    storage: 'object?',
+    reports: 'object?',
+    retention: 'object?',
+  },
+  RESET_SETTINGS: EMPTY,
+  GET_TAGS: EMPTY,
+  FIND_DUPLICATE_TAGS: EMPTY,
+  CREATE_TAG: { name: 'string', color: 'string?' },
+  RENAME_TAG: { name: 'string', newName: 'string' },
+  RECOLOR_TAG: { name: 'string', color: 'string' },
+  MERGE_TAGS: { sources: 'string[]', target: 'string' },
+  DELETE_TAG: { name: 'string' },
+  ADD_TAG_ALIAS: { name: 'string', alias: 'string' },
+  REMOVE_TAG_ALIAS: { name: 'string', alias: 'string' },
+  GET_AUTO_TAG_RULES: EMPTY,
+  UPDATE_AUTO_TAG_RULES: { rules: 'object[]' },
+  RUN_AUTO_TAG_RULES: { dryRun: 'boolean?', rules: 'object[]?', sessionIds: 'string[]?', limit: 'number?' },
+  GET_DOMAIN_ANALYTICS: { from: 'number?', to: 'number?', limit: 'number?' },
+  GET_DOMAIN_HISTORY: { domain: 'string', from: 'number?', to: 'number?' },
+  REBUILD_DOMAIN_STATS: EMPTY,
+  GET_REPORT: { period: 'string', date: 'number?' },
+  GENERATE_REPORT: { period: 'string', date: 'number?' },
+  LIST_REPORTS: { period: 'string?' },
+  GET_DEBUG_STATS: EMPTY,
+  GET_RECENT_EVENTS: EMPTY,
+  FORCE_RECONCILE: EMPTY,
+  FORCE_INIT: EMPTY,
+};
+
+function isRpcMethod(type: unknown): type is RpcMethod {
+  return typeof type === 'string' && Object.prototype.hasOwnProperty.call(REQUEST_SCHEMAS, type);
+}
+
+function matchesType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'string[]':
+      return Array.isArray(value) && value.every((v) => typeof v === 'string');
+    case 'object[]':
+      return Array.isArray(value) && value.every((v) => matchesType(v, 'object'));
+  }
+}
+
+/**
+ * Check one field against its rule, returning a problem description or null
+ */
+function checkField(name: string, value: unknown, rule: FieldRule): string | null {
+  if (typeof rule === 'object') {
+    if (value === undefined) {
+      return rule.optional ? null : `"${name}" is required`;
+    }
+    return typeof value === 'string' && rule.oneOf.includes(value)
+      ? null
+      : `"${name}" must be one of ${rule.oneOf.join(', ')}`;
+  }
+
+  const optional = rule.endsWith('?');
+  const type = (optional ? rule.slice(0, -1) : rule) as FieldType;
+  if (value === undefined) {
+    return optional ? null : `"${name}" is required`;
+  }
+  const expected =
+    type === 'string[]' ? 'an array of strings' : type === 'object[]' ? 'an array of objects' : `a ${type}`;
+  return matchesType(value, type) ? null : `"${name}" must be ${expected}`;
+}
+
+/**
+ * Check a payload against a schema, rejecting unknown fields
+ * Throws RpcError (INVALID_REQUEST) listing every problem
+ */
+export function validatePayload(
+  label: string,
+  payload: Record<string, unknown>,
+  schema: Record<string, FieldRule>
+): void {
+  const problems: string[] = [];
+
+  for (const [name, rule] of Object.entries(schema)) {
+    const problem = checkField(name, payload[name], rule);
+    if (problem) problems.push(problem);
+  }
+  for (const name of Object.keys(payload)) {
+    if (!(name in schema)) problems.push(`"${name}" is not a field of ${label}`);
+  }
+
+  if (problems.length > 0) {
+    throw new RpcError('INVALID_REQUEST', `Invalid ${label} request: ${problems.join('; ')}`, {
+      problems,
+    });
+  }
+}
+
+/**
+ * Validate an incoming message against its schema
+ * Throws RpcError (UNKNOWN_METHOD / INVALID_REQUEST) when it does not match
+ */
+export function validateRequest(message: unknown): RpcRequest {
+  if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+    throw new RpcError('INVALID_REQUEST', 'Message must be an object');
+  }
+
+  const { type, ...payload } = message as Record<string, unknown>;
+  if (!isRpcMethod(type)) {
+    throw new RpcError('UNKNOWN_METHOD', `Unknown message type: ${String(type)}`);
+  }
+
+  validatePayload(type, payload, REQUEST_SCHEMAS[type]);
+  return message as RpcRequest;
+}
@@ -0,0 +1,366 @@
+import { getDatabase } from '../db/schema';
+import type { TabVisit, DomainDayStats, DomainRecord, RollupCursor } from '../db/types';
+import { getDomain } from '../utils/hash';
+import { getDayStart, addDays } from '../utils/time';
+
+/** Name of the domain rollup's cursor */
+const CURSOR_NAME = 'domainStats';
+
+/** Visits read per rollup transaction */
+const ROLLUP_BATCH_SIZE = 1000;
+
+/** Days covered when no start is asked for */
+const DEFAULT_RANGE_DAYS = 30;
+
+/** Sites listed when no limit is asked for */
+const DEFAULT_DOMAIN_LIMIT = 50;
+
+/**
+ * One site's totals over a date range
+ */
+export interface DomainSummary {
+  domain: string;
+  /** Reading time in the range (ms) */
+  activeTime: number;
+  visitCount: number;
+  /** Days in the range with visits to the site */
+  activeDays: number;
+  /** Start of the local day of the first visit ever */
+  firstSeenDay: number;
+  /** First visited within the range rather than before it */
+  isNew: boolean;
+}
+
+/**
+ * Totals for one day across every site
+ */
+export interface DayTotals {
+  /** Start of the local day (ms) */
+  day: number;
+  activeTime: number;
+  visitCount: number;
+  /** Sites visited that day */
+  domainCount: number;
+  /** Of them, sites visited for the first time that day */
+  newDomainCount: number;
+}
+
+/**
+ * Per-site analytics for a date range
+ */
+export interface DomainAnalytics {
+  /** Start of the first day covered */
+  from: number;
+  /** Start of the last day covered */
+  to: number;
+  activeTime: number;
+  visitCount: number;
+  /** Sites visited in the range */
+  domainCount: number;
+  /** Of them, sites first visited in the range - the rest are returning */
+  newDomainCount: number;
+  /** Busiest sites first, by reading time, up to the limit asked for */
+  domains: DomainSummary[];
+  /** Every day in the range, oldest first, including days without visits */
+  days: DayTotals[];
+}
+
+/**
+ * One site over time
+ */
+export interface DomainHistory {
+  domain: DomainRecord;
+  /** Days with visits in the range asked for, oldest first */
+  days: DomainDayStats[];
+}
+
+/**
+ * A date range as asked for; timestamps anywhere in a day cover the whole day
+ */
+export interface AnalyticsRange {
+  /** Defaults to 30 days before `to`; clamped to the first day with visits */
+  from?: number;
+  /** Defaults to today */
+  to?: number;
+}
+
+/**
+ * Lowercase host without "www.", as sites are stored
+ */
+export function normalizeDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/^www\./, '');
+}
+
+/**
+ * Add up closed visits per site per day
+ * A visit counts towards the day it started on, with its reading time
+ * (duration less time away). Pages that are not web sites are left out
+ */
+export function rollUpVisits(visits: TabVisit[]): DomainDayStats[] {
+  const rows = new Map<string, DomainDayStats>();
+  for (const visit of visits) {
+    const domain = getDomain(visit.url);
+    if (!domain) continue;
+    const day = getDayStart(visit.activatedAt, 0);
+    const key = `${domain} ${day}`;
+    const row = rows.get(key) ?? { domain, day, activeTime: 0, visitCount: 0 };
+    row.activeTime += Math.max(0, visit.duration - visit.awayDuration);
+    row.visitCount++;
+    rows.set(key, row);
+  }
+  return [...rows.values()];
+}
+
+function addDomainDay(record: DomainRecord | undefined, row: DomainDayStats): DomainRecord {
+  if (!record) {
+    return {
+      domain: row.domain,
+      firstSeenDay: row.day,
+      lastSeenDay: row.day,
+      activeTime: row.activeTime,
+      visitCount: row.visitCount,
+    };
+  }
+  return {
+    ...record,
+    firstSeenDay: Math.min(record.firstSeenDay, row.day),
+    lastSeenDay: Math.max(record.lastSeenDay, row.day),
+    activeTime: record.activeTime + row.activeTime,
+    visitCount: record.visitCount + row.visitCount,
+  };
+}
+
+/**
+ * AnalyticsService - Time and visits per site, per day
+ *
+ * Closed visits are rolled up into the domainStats table (one row per site
+ * per day) and the domains table (lifetime totals and the day each site was
+ * first seen), so range queries read a few rows per day instead of every
+ * visit. A cursor in rollupCursors records how far through tabVisits the
+ * rollup has read, and which visits it passed while they were still open;
+ * each refresh picks up from there in batches, advancing the cursor in the
+ * same transaction as the totals so no visit is counted twice. Queries
+ * refresh first, and retention refreshes before pruning visits, so rollups
+ * outlive the visits they came from.
+ */
+export class AnalyticsService {
+  private refreshing: Promise<number> | null = null;
+
+  /**
+   * Roll visits closed since the last refresh into the stats
+   * Calls made while a refresh runs share it
+   * Returns how many visits were rolled up
+   */
+  refresh(): Promise<number> {
+    this.refreshing ??= this.rollUpNewVisits().finally(() => {
+      this.refreshing = null;
+    });
+    return this.refreshing;
+  }
+
+  /**
+   * Drop the stats and roll up every stored visit again
+   * Visits already pruned by retention are lost from the totals
+   */
+  async rebuild(): Promise<number> {
+    await this.refreshing;
+    const db = getDatabase();
+    await db.transaction('rw', [db.domainStats, db.domains, db.rollupCursors], async () => {
+      await db.domainStats.clear();
+      await db.domains.clear();
+      await db.rollupCursors.delete(CURSOR_NAME);
+    });
+    console.log('[Analytics] Rebuilding domain stats');
+    return this.refresh();
+  }
+
+  /**
+   * Per-site and per-day totals for a date range
+   */
+  async getAnalytics(options: AnalyticsRange & { limit?: number } = {}): Promise<DomainAnalytics> {
+    await this.refresh();
+    const db = getDatabase();
+    const { from, to } = await this.resolveRange(options);
+
+    const rows = await db.domainStats.where('day').between(from, to, true, true).toArray();
+    const domains = new Map<string, Omit<DomainSummary, 'firstSeenDay' | 'isNew'>>();
+    const days = new Map<number, DayTotals>();
+    for (const row of rows) {
+      const summary = domains.get(row.domain) ?? { domain: row.domain, activeTime: 0, visitCount: 0, activeDays: 0 };
+      summary.activeTime += row.activeTime;
+      summary.visitCount += row.visitCount;
+      summary.activeDays++;
+      domains.set(row.domain, summary);
+
+      const totals = days.get(row.day) ?? {
+        day: row.day,
+        activeTime: 0,
+        visitCount: 0,
+        domainCount: 0,
+        newDomainCount: 0,
+      };
+      totals.activeTime += row.activeTime;
+      totals.visitCount += row.visitCount;
+      totals.domainCount++;
+      days.set(row.day, totals);
+    }
+
+    const records = await db.domains.bulkGet([...domains.keys()]);
+    const firstSeen = new Map(
+      records.filter((r): r is DomainRecord => r !== undefined).map((r) => [r.domain, r.firstSeenDay])
+    );
+    for (const row of rows) {
+      if (firstSeen.get(row.domain) === row.day) days.get(row.day)!.newDomainCount++;
+    }
+
+    const summaries = [...domains.values()].map((summary): DomainSummary => {
+      const firstSeenDay = firstSeen.get(summary.domain) ?? from;
+      return { ...summary, firstSeenDay, isNew: firstSeenDay >= from };
+    });
+
+    const timeline: DayTotals[] = [];
+    for (let day = from; day <= to; day = addDays(day, 1)) {
+      timeline.push(days.get(day) ?? { day, activeTime: 0, visitCount: 0, domainCount: 0, newDomainCount: 0 });
+    }
+
+    return {
+      from,
+      to,
+      activeTime: summaries.reduce((sum, s) => sum + s.activeTime, 0),
+      visitCount: summaries.reduce((sum, s) => sum + s.visitCount, 0),
+      domainCount: summaries.length,
+      newDomainCount: summaries.filter((s) => s.isNew).length,
+      domains: summaries
+        .sort((a, b) => b.activeTime - a.activeTime || b.visitCount - a.visitCount)
+        .slice(0, options.limit ?? DEFAULT_DOMAIN_LIMIT),
+      days: timeline,
+    };
+  }
+
+  /**
+   * A site's lifetime totals and its days with visits in a date range, oldest first
+   * Returns null for a site never visited
+   */
+  async getDomainHistory(domain: string, range: AnalyticsRange = {}): Promise<DomainHistory | null> {
+    await this.refresh();
+    const db = getDatabase();
+    const record = await db.domains.get(normalizeDomain(domain));
+    if (!record) return null;
+
+    const { from, to } = await this.resolveRange(range);
+    const days = await db.domainStats
+      .where('[domain+day]')
+      .between([record.domain, from], [record.domain, to], true, true)
+      .toArray();
+    return { domain: record, days };
+  }
+
+  /**
+   * Day starts for a range as asked for
+   */
+  private async resolveRange(range: AnalyticsRange): Promise<{ from: number; to: number }> {
+    const to = getDayStart(range.to ?? Date.now(), 0);
+    const asked = range.from !== undefined ? getDayStart(range.from, 0) : addDays(to, 1 - DEFAULT_RANGE_DAYS);
+    if (asked > to) {
+      throw new Error('The range must start before it ends');
+    }
+    // "All time" becomes the days since the first visit
+    const first = await getDatabase().domains.orderBy('firstSeenDay').first();
+    return { from: Math.min(to, Math.max(asked, first?.firstSeenDay ?? to)), to };
+  }
+
+  /**
+   * Read visits past the cursor a batch at a time - and, in the first batch,
+   * the visits that were open last time - adding those now closed to the stats
+   */
+  private async rollUpNewVisits(): Promise<number> {
+    const db = getDatabase();
+    let rolledUp = 0;
+    let revisitOpen = true;
+
+    for (;;) {
+      const { read, closed } = await db.transaction(
+        'rw',
+        [db.tabVisits, db.domainStats, db.domains, db.rollupCursors],
+        async () => {
+          const cursor: RollupCursor = (await db.rollupCursors.get(CURSOR_NAME)) ?? {
+            name: CURSOR_NAME,
+            lastVisitId: 0,
+            openVisitIds: [],
+          };
+          const isOpen = (visit: TabVisit) => visit.deactivatedAt === null;
+
+          // Visits deleted while open are dropped from the cursor
+          let stillOpen = cursor.openVisitIds;
+          let reopened: TabVisit[] = [];
+          if (revisitOpen) {
+            reopened = (await db.tabVisits.bulkGet(cursor.openVisitIds)).filter(
+              (visit): visit is TabVisit => visit !== undefined
+            );
+            stillOpen = reopened.filter(isOpen).map((visit) => visit.id!);
+          }
+
+          const visits = await db.tabVisits.where(':id').above(cursor.lastVisitId).limit(ROLLUP_BATCH_SIZE).toArray();
+          const closedVisits = [...reopened, ...visits].filter((visit) => !isOpen(visit));
+          await this.addToStats(rollUpVisits(closedVisits));
+
+          await db.rollupCursors.put({
+            name: CURSOR_NAME,
+            lastVisitId: visits.at(-1)?.id ?? cursor.lastVisitId,
+            openVisitIds: [...stillOpen, ...visits.filter(isOpen).map((visit) => visit.id!)],
+          });
+          return { read: visits.length, closed: closedVisits.length };
+        }
+      );
+
+      rolledUp += closed;
+      revisitOpen = false;
+      if (read < ROLLUP_BATCH_SIZE) break;
+    }
+
+    if (rolledUp > 0) {
+      console.log(`[Analytics] Rolled up ${rolledUp} visits`);
+    }
+    return rolledUp;
+  }
+
+  /**
+   * Add per-day rows to the stored days and lifetime totals
+   * Runs inside the rollup transaction
+   */
+  private async addToStats(rows: DomainDayStats[]): Promise<void> {
+    if (rows.length === 0) return;
+    const db = getDatabase();
+
+    const storedDays = await db.domainStats.bulkGet(rows.map((row): [string, number] => [row.domain, row.day]));
+    await db.domainStats.bulkPut(
+      rows.map((row, index) => {
+        const stored = storedDays[index];
+        return stored
+          ? { ...row, activeTime: stored.activeTime + row.activeTime, visitCount: stored.visitCount + row.visitCount }
+          : row;
+      })
+    );
+
+    const records = new Map<string, DomainRecord | undefined>();
+    const names = [...new Set(rows.map((row) => row.domain))];
+    (await db.domains.bulkGet(names)).forEach((record, index) => records.set(names[index]!, record));
+    for (const row of rows) {
+      records.set(row.domain, addDomainDay(records.get(row.domain), row));
+    }
+    await db.domains.bulkPut([...records.values()] as DomainRecord[]);
+  }
+}
+
+// Singleton instance
+let analyticsService: AnalyticsService | null = null;
+
+/**
+ * Get the AnalyticsService singleton
+ */
+export function getAnalyticsService(): AnalyticsService {
+  if (!analyticsService) {
+    analyticsService = new AnalyticsService();
+  }
+  return analyticsService;
+}
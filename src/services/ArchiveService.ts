@@ -0,0 +1,226 @@
+import { getDatabase } from '../db/schema';
+import type { Session, TrackedTab, TrackedWindow, ArchivedSession } from '../db/types';
+import { getSearchService, type SearchService } from './SearchService';
+import { ValidationError } from './errors';
+
+/**
+ * Compact a session and its windows and tabs into an archive record
+ */
+export function buildSessionArchive(
+  session: Session,
+  windows: TrackedWindow[],
+  tabs: TrackedTab[],
+  visitCount: number,
+  archivedAt: number
+): ArchivedSession {
+  return {
+    id: session.id,
+    name: session.name,
+    description: session.description,
+    isNamedByUser: session.isNamedByUser,
+    startedAt: session.startedAt,
+    endedAt: session.endedAt,
+    isSaved: session.isSaved,
+    windowCount: session.windowCount,
+    tabCount: session.tabCount,
+    totalActiveTime: session.totalActiveTime,
+    visitCount,
+    tags: session.tags,
+    customMetadata: session.customMetadata,
+    windows: windows.map((w) => ({
+      persistentId: w.persistentId,
+      type: w.type,
+      state: w.state,
+      incognito: w.incognito,
+      left: w.left,
+      top: w.top,
+      width: w.width,
+      height: w.height,
+      createdAt: w.createdAt,
+      closedAt: w.closedAt,
+    })),
+    tabs: tabs.map((t) => ({
+      persistentId: t.persistentId,
+      windowPersistentId: t.windowPersistentId,
+      url: t.url,
+      urlHash: t.urlHash,
+      title: t.title,
+      faviconUrl: t.faviconUrl,
+      index: t.index,
+      pinned: t.pinned,
+      isSaved: t.isSaved,
+      tags: t.tags,
+      notes: t.notes,
+      createdAt: t.createdAt,
+      lastActivatedAt: t.lastActivatedAt,
+      totalActiveTime: t.totalActiveTime,
+      visitCount: t.visitCount,
+      closedAt: t.closedAt,
+    })),
+    archivedAt,
+  };
+}
+
+/**
+ * ArchiveService - Keeps a compact record of sessions retention let go of
+ *
+ * An archive holds a session's windows, tab URLs, titles, tags, notes and
+ * totals, without the visit history behind them. Archives are searched
+ * through SearchService, travel with exports, and can be turned back into a
+ * stored session.
+ */
+export class ArchiveService {
+  private searchService: SearchService;
+
+  constructor(searchService?: SearchService) {
+    this.searchService = searchService || getSearchService();
+  }
+
+  /**
+   * Write the archive of a stored session
+   * Only records the session - deleting it is left to the caller
+   * Returns null if the session does not exist
+   */
+  async archiveSession(sessionId: string): Promise<ArchivedSession | null> {
+    const db = getDatabase();
+    const session = await db.sessions.get(sessionId);
+    if (!session) return null;
+
+    const [windows, tabs, visitCount] = await Promise.all([
+      db.windows.where('sessionId').equals(sessionId).toArray(),
+      db.tabs.where('sessionId').equals(sessionId).toArray(),
+      db.tabVisits.where('sessionId').equals(sessionId).count(),
+    ]);
+    const archive = buildSessionArchive(session, windows, tabs, visitCount, Date.now());
+    await db.archivedSessions.put(archive);
+
+    console.log(`[Archive] Archived ${sessionId} with ${tabs.length} tabs`);
+    return archive;
+  }
+
+  /**
+   * Archives, most recently archived first
+   */
+  async getArchives(limit?: number): Promise<ArchivedSession[]> {
+    const collection = getDatabase().archivedSessions.orderBy('archivedAt').reverse();
+    return (limit ? collection.limit(limit) : collection).toArray();
+  }
+
+  /**
+   * Delete an archive for good
+   * Returns false if there was none
+   */
+  async deleteArchive(sessionId: string): Promise<boolean> {
+    const db = getDatabase();
+    if (!(await db.archivedSessions.get(sessionId))) return false;
+    await db.archivedSessions.delete(sessionId);
+    return true;
+  }
+
+  /**
+   * Turn an archive back into a stored session, closed and saved so
+   * retention leaves it alone
+   * Windows and tabs stored since under another session stay there, and the
+   * visit history dropped when archiving does not come back
+   * Returns null if there is no archive; throws if the session still exists
+   */
+  async restoreArchive(sessionId: string): Promise<Session | null> {
+    const db = getDatabase();
+    const archive = await db.archivedSessions.get(sessionId);
+    if (!archive) return null;
+    if (await db.sessions.get(sessionId)) {
+      throw new ValidationError(`Session ${sessionId} still exists`);
+    }
+
+    const now = Date.now();
+    const closedAt = archive.endedAt ?? archive.archivedAt;
+    const session: Session = {
+      id: archive.id,
+      name: archive.name,
+      description: archive.description,
+      isNamedByUser: archive.isNamedByUser,
+      startedAt: archive.startedAt,
+      endedAt: closedAt,
+      isActive: false,
+      isSaved: true,
+      windowCount: 0,
+      tabCount: 0,
+      totalActiveTime: archive.totalActiveTime,
+      expiresAt: null,
+      tags: archive.tags,
+      customMetadata: archive.customMetadata,
+      createdAt: archive.startedAt,
+      updatedAt: now,
+    };
+
+    const restoredTabIds: string[] = [];
+    await db.transaction('rw', [db.sessions, db.windows, db.tabs, db.archivedSessions], async () => {
+      const tabsToRestore: typeof archive.tabs = [];
+      for (const tab of archive.tabs) {
+        if (await db.tabs.where('persistentId').equals(tab.persistentId).count()) continue;
+        tabsToRestore.push(tab);
+      }
+
+      for (const window of archive.windows) {
+        if (await db.windows.where('persistentId').equals(window.persistentId).count()) continue;
+        const tabs = tabsToRestore.filter((t) => t.windowPersistentId === window.persistentId);
+        await db.windows.add({
+          ...window,
+          chromeWindowId: -1,
+          sessionId,
+          lastFocusedAt: window.createdAt,
+          totalFocusTime: 0,
+          isSaved: false,
+          tabCount: tabs.length,
+          activeTabPersistentId: null,
+          closedAt: window.closedAt ?? closedAt,
+          updatedAt: now,
+        });
+        session.windowCount++;
+      }
+
+      for (const tab of tabsToRestore) {
+        await db.tabs.add({
+          ...tab,
+          chromeTabId: -1,
+          chromeWindowId: -1,
+          sessionId,
+          status: 'complete',
+          isPinned: tab.pinned,
+          groupId: -1,
+          groupPersistentId: null,
+          openerPersistentId: null,
+          customMetadata: {},
+          closedAt: tab.closedAt ?? closedAt,
+          updatedAt: now,
+        });
+        restoredTabIds.push(tab.persistentId);
+      }
+
+      // Counted from what came back, not what was archived
+      session.tabCount = restoredTabIds.length;
+      await db.sessions.add(session);
+      await db.archivedSessions.delete(sessionId);
+    });
+
+    for (const persistentId of restoredTabIds) {
+      await this.searchService.indexTab(persistentId);
+    }
+
+    console.log(`[Archive] Restored ${sessionId} with ${restoredTabIds.length} of ${archive.tabs.length} tabs`);
+    return session;
+  }
+}
+
+// Singleton instance
+let archiveService: ArchiveService | null = null;
+
+/**
+ * Get the ArchiveService singleton
+ */
+export function getArchiveService(): ArchiveService {
+  if (!archiveService) {
+    archiveService = new ArchiveService();
+  }
+  return archiveService;
+}
@@ -0,0 +1,427 @@
+import { getDatabase } from '../db/schema';
+import type { TrackedTab, AutoTagMatch, AutoTagRule } from '../db/types';
+import { getDomain, matchesDomain } from '../utils/hash';
+import { tokenize } from '../utils/tokenize';
+import { isTagWithin, normalizeTags } from '../utils/tags';
+import { getTagService, type TagService } from './TagService';
+import { getSearchService, type SearchService } from './SearchService';
+
+/** chrome.storage.local key the rules are stored under */
+const RULES_KEY = 'autoTagRules';
+
+/** How far up the opener chain the opener conditions look */
+const MAX_OPENER_DEPTH = 5;
+
+/** Tabs listed in a report unless the caller asks for more or fewer */
+const DEFAULT_REPORT_LIMIT = 100;
+
+/**
+ * What a tab offers the rules to match against
+ */
+export interface AutoTagSubject {
+  url: string;
+  title: string;
+  windowPersistentId: string;
+  incognito: boolean;
+  /** The tabs it was opened from, nearest first */
+  openers: Pick<TrackedTab, 'url' | 'tags'>[];
+}
+
+/**
+ * A tab the rules give tags it does not have yet
+ */
+export interface AutoTaggedTab {
+  persistentId: string;
+  sessionId: string;
+  title: string;
+  url: string;
+  /** Tags added - or, for a dry run, that would be */
+  tags: string[];
+  /** Indexes of the rules that matched */
+  rules: number[];
+}
+
+/**
+ * What running the rules over stored tabs added - or, for a dry run, would add
+ */
+export interface AutoTagReport {
+  dryRun: boolean;
+  ranAt: number;
+  /** Tabs the rules were checked against */
+  scanned: number;
+  /** Tabs that gain at least one tag */
+  tagged: number;
+  /** Tabs each rule matched, by rule index - including tabs that already had its tags */
+  ruleMatches: number[];
+  /** The most recently created of the tabs that gain tags, up to the limit asked for */
+  tabs: AutoTaggedTab[];
+}
+
+/** Compiled URL patterns, by pattern */
+const urlPatterns = new Map<string, RegExp>();
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * The regular expression for a rule's URL pattern: a /regex/ with optional
+ * flags as written (matching anywhere in the URL), otherwise a
+ * case-insensitive glob over the whole URL
+ * Throws if a regex does not compile
+ */
+export function compileUrlPattern(pattern: string): RegExp {
+  let compiled = urlPatterns.get(pattern);
+  if (!compiled) {
+    const regex = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+    if (regex) {
+      // Global and sticky regexes remember where they stopped, which breaks repeated tests
+      compiled = new RegExp(regex[1]!, regex[2]!.replace(/[gy]/g, ''));
+    } else {
+      const glob = pattern
+        .split('*')
+        .map((part) => part.split('?').map(escapeRegExp).join('.'))
+        .join('.*');
+      compiled = new RegExp(`^${glob}$`, 'i');
+    }
+    urlPatterns.set(pattern, compiled);
+  }
+  return compiled;
+}
+
+/**
+ * Whether a title holds every word of a keyword - word by word, so "art"
+ * does not match "start"
+ */
+function titleHasKeyword(titleTokens: Set<string>, keyword: string): boolean {
+  const tokens = tokenize(keyword);
+  return tokens.length > 0 && tokens.every((token) => titleTokens.has(token));
+}
+
+function onDomain(url: string, wanted: string): boolean {
+  const domain = getDomain(url);
+  return domain !== null && matchesDomain(domain, wanted);
+}
+
+/**
+ * Whether a tab meets every condition of a rule
+ */
+export function matchesAutoTagRule(match: AutoTagMatch, subject: AutoTagSubject): boolean {
+  if (match.url !== undefined && !compileUrlPattern(match.url).test(subject.url)) return false;
+  if (match.domain !== undefined && !onDomain(subject.url, match.domain)) return false;
+  if (match.titleKeywords !== undefined) {
+    const titleTokens = new Set(tokenize(subject.title));
+    if (!match.titleKeywords.some((keyword) => titleHasKeyword(titleTokens, keyword))) return false;
+  }
+  if (match.openerDomain !== undefined && !subject.openers.some((o) => onDomain(o.url, match.openerDomain!))) {
+    return false;
+  }
+  if (
+    match.openerTag !== undefined &&
+    !subject.openers.some((o) => o.tags.some((tag) => isTagWithin(tag, match.openerTag!)))
+  ) {
+    return false;
+  }
+  if (match.windowPersistentId !== undefined && subject.windowPersistentId !== match.windowPersistentId) return false;
+  if (match.incognito !== undefined && subject.incognito !== match.incognito) return false;
+  return true;
+}
+
+/**
+ * The tags the enabled rules give a tab, with the indexes of the rules that matched
+ * Every matching rule adds its tags until one marked stopAfter matches
+ */
+export function evaluateAutoTagRules(
+  rules: AutoTagRule[],
+  subject: AutoTagSubject
+): { tags: string[]; rules: number[] } {
+  const tags: string[] = [];
+  const matched: number[] = [];
+  for (const [index, rule] of rules.entries()) {
+    if (!rule.enabled || !matchesAutoTagRule(rule.match, subject)) continue;
+    matched.push(index);
+    tags.push(...rule.tags);
+    if (rule.stopAfter) break;
+  }
+  return { tags: normalizeTags(tags), rules: matched };
+}
+
+/**
+ * Tabs and windows read while describing tabs, kept for the rest of a run
+ */
+interface RecordCache {
+  tabs: Map<string, TrackedTab | undefined>;
+  incognito: Map<string, boolean>;
+}
+
+function createRecordCache(tabs: TrackedTab[] = []): RecordCache {
+  return { tabs: new Map(tabs.map((tab) => [tab.persistentId, tab])), incognito: new Map() };
+}
+
+/**
+ * AutoTagService - Tags tabs by rules as they are opened and navigated
+ *
+ * Rules live in chrome.storage.local as an ordered list. Each matches on the
+ * URL (glob or regex), domain, title keywords, where the tab was opened from
+ * (the domain or tags of the tabs up its opener chain) and its window. The
+ * tracker applies them when a tab is created or its URL or title changes.
+ * Rules only ever add tags - removing a tag by hand sticks until the tab next
+ * navigates or is retitled. Running the rules over stored tabs previews them
+ * (a dry run), or applies them to past sessions.
+ */
+export class AutoTagService {
+  private tagService: TagService;
+  private searchService: SearchService;
+  private rules: AutoTagRule[] | null = null;
+
+  constructor(tagService?: TagService, searchService?: SearchService) {
+    this.tagService = tagService || getTagService();
+    this.searchService = searchService || getSearchService();
+  }
+
+  /**
+   * Current rules, in the order they are checked
+   */
+  async getRules(): Promise<AutoTagRule[]> {
+    if (!this.rules) {
+      const stored = await chrome.storage.local.get(RULES_KEY);
+      this.rules = (stored[RULES_KEY] as AutoTagRule[] | undefined) ?? [];
+    }
+    return this.rules;
+  }
+
+  /**
+   * Replace the rules - their order is the order they are checked in
+   * Tags are normalized with aliases swapped for their tags
+   * Throws if a rule is malformed
+   */
+  async updateRules(rules: AutoTagRule[]): Promise<AutoTagRule[]> {
+    const prepared = await this.prepareRules(rules);
+    await chrome.storage.local.set({ [RULES_KEY]: prepared });
+    this.rules = prepared;
+
+    console.log(`[AutoTag] Saved ${prepared.length} rules`);
+    return prepared;
+  }
+
+  /**
+   * Add the tags the rules give a tab that it does not have yet
+   * For a tab just created, navigated or retitled - pass it as stored now
+   * Returns the tags added
+   */
+  async applyToTab(tab: TrackedTab): Promise<string[]> {
+    const rules = await this.getRules();
+    if (!rules.some((rule) => rule.enabled)) return [];
+
+    const subject = await this.describe(tab, rules, createRecordCache());
+    const added = evaluateAutoTagRules(rules, subject).tags.filter((tag) => !tab.tags.includes(tag));
+    if (added.length === 0) return [];
+
+    await getDatabase()
+      .tabs.where('persistentId')
+      .equals(tab.persistentId)
+      .modify((stored) => {
+        stored.tags = normalizeTags([...stored.tags, ...added]);
+        stored.updatedAt = Date.now();
+      });
+    await this.tagService.refreshUsage(added);
+    this.searchService.scheduleReindex(tab.persistentId);
+
+    console.log(`[AutoTag] Tagged ${tab.persistentId} with ${added.join(', ')}`);
+    return added;
+  }
+
+  /**
+   * Check rules against stored tabs - every tab, or those of some sessions -
+   * adding the tags they give (or with dryRun, only reporting them)
+   * Saved rules are used unless others are passed in, such as unsaved ones
+   * to preview
+   */
+  async run(
+    options: { dryRun?: boolean; rules?: AutoTagRule[]; sessionIds?: string[]; limit?: number } = {}
+  ): Promise<AutoTagReport> {
+    const dryRun = options.dryRun ?? false;
+    const rules = options.rules ? await this.prepareRules(options.rules) : await this.getRules();
+    const db = getDatabase();
+
+    const tabs = options.sessionIds
+      ? await db.tabs.where('sessionId').anyOf(options.sessionIds).toArray()
+      : await db.tabs.toArray();
+    // Oldest first, so tags given to an opener count for the tabs opened from it
+    tabs.sort((a, b) => a.createdAt - b.createdAt);
+    const cache = createRecordCache(tabs);
+
+    const ruleMatches = rules.map(() => 0);
+    const changes: AutoTaggedTab[] = [];
+    const createdAt = new Map<string, number>();
+    for (const tab of tabs) {
+      const result = evaluateAutoTagRules(rules, await this.describe(tab, rules, cache));
+      for (const index of result.rules) ruleMatches[index]!++;
+
+      const added = result.tags.filter((tag) => !tab.tags.includes(tag));
+      if (added.length === 0) continue;
+      cache.tabs.set(tab.persistentId, { ...tab, tags: [...tab.tags, ...added] });
+      createdAt.set(tab.persistentId, tab.createdAt);
+      changes.push({
+        persistentId: tab.persistentId,
+        sessionId: tab.sessionId,
+        title: tab.title,
+        url: tab.url,
+        tags: added,
+        rules: result.rules,
+      });
+    }
+
+    if (!dryRun && changes.length > 0) {
+      const addedById = new Map(changes.map((change) => [change.persistentId, change.tags]));
+      const now = Date.now();
+      await db.tabs
+        .where('persistentId')
+        .anyOf([...addedById.keys()])
+        .modify((tab) => {
+          tab.tags = normalizeTags([...tab.tags, ...(addedById.get(tab.persistentId) ?? [])]);
+          tab.updatedAt = now;
+        });
+      await this.tagService.refreshUsage(changes.flatMap((change) => change.tags));
+      for (const change of changes) {
+        this.searchService.scheduleReindex(change.persistentId);
+      }
+    }
+
+    const verb = dryRun ? 'Would tag' : 'Tagged';
+    console.log(`[AutoTag] ${verb} ${changes.length} of ${tabs.length} tabs`);
+    return {
+      dryRun,
+      ranAt: Date.now(),
+      scanned: tabs.length,
+      tagged: changes.length,
+      ruleMatches,
+      tabs: changes
+        .sort((a, b) => createdAt.get(b.persistentId)! - createdAt.get(a.persistentId)!)
+        .slice(0, options.limit ?? DEFAULT_REPORT_LIMIT),
+    };
+  }
+
+  /**
+   * What the rules see of a tab - its openers and window are only looked up
+   * when an enabled rule asks about them
+   */
+  private async describe(tab: TrackedTab, rules: AutoTagRule[], cache: RecordCache): Promise<AutoTagSubject> {
+    const enabled = rules.filter((rule) => rule.enabled).map((rule) => rule.match);
+    const subject: AutoTagSubject = {
+      url: tab.url,
+      title: tab.title,
+      windowPersistentId: tab.windowPersistentId,
+      incognito: false,
+      openers: [],
+    };
+
+    if (enabled.some((match) => match.openerDomain !== undefined || match.openerTag !== undefined)) {
+      let openerId = tab.openerPersistentId;
+      // The depth cap also ends chains that loop back on themselves
+      while (openerId && subject.openers.length < MAX_OPENER_DEPTH) {
+        if (!cache.tabs.has(openerId)) {
+          cache.tabs.set(openerId, await getDatabase().tabs.where('persistentId').equals(openerId).first());
+        }
+        const opener = cache.tabs.get(openerId);
+        if (!opener) break;
+        subject.openers.push(opener);
+        openerId = opener.openerPersistentId;
+      }
+    }
+
+    if (enabled.some((match) => match.incognito !== undefined) && tab.windowPersistentId) {
+      if (!cache.incognito.has(tab.windowPersistentId)) {
+        const window = await getDatabase().windows.where('persistentId').equals(tab.windowPersistentId).first();
+        cache.incognito.set(tab.windowPersistentId, window?.incognito ?? false);
+      }
+      subject.incognito = cache.incognito.get(tab.windowPersistentId)!;
+    }
+
+    return subject;
+  }
+
+  /**
+   * Validate and normalize rules as the user wrote them
+   */
+  private prepareRules(rules: AutoTagRule[]): Promise<AutoTagRule[]> {
+    return Promise.all(rules.map((rule, index) => this.prepareRule(rule, index)));
+  }
+
+  /**
+   * Throws if a rule is malformed; otherwise returns it with blank conditions
+   * dropped, domains reduced to their host and tags resolved
+   */
+  private async prepareRule(rule: AutoTagRule, index: number): Promise<AutoTagRule> {
+    const label = `Rule ${index + 1}`;
+    if (typeof rule.match !== 'object' || rule.match === null) {
+      throw new Error(`${label} needs conditions to match`);
+    }
+    const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+    const domain = (value: unknown, what: string) => {
+      const host = text(value);
+      if (!host) return undefined;
+      const parsed = getDomain(host.includes('://') ? host : `https://${host}`);
+      if (!parsed) throw new Error(`${label} has an invalid ${what}: ${host}`);
+      return parsed;
+    };
+
+    const match: AutoTagMatch = {};
+    const url = text(rule.match.url);
+    if (url) {
+      try {
+        compileUrlPattern(url);
+      } catch {
+        throw new Error(`${label} has an invalid URL pattern: ${url}`);
+      }
+      match.url = url;
+    }
+    const host = domain(rule.match.domain, 'domain');
+    if (host) match.domain = host;
+    const keywords = (Array.isArray(rule.match.titleKeywords) ? rule.match.titleKeywords : [])
+      .map(text)
+      .filter(Boolean);
+    const unmatchable = keywords.find((keyword) => tokenize(keyword).length === 0);
+    if (unmatchable !== undefined) {
+      throw new Error(`${label} has a title keyword too short or common to match: ${unmatchable}`);
+    }
+    if (keywords.length > 0) match.titleKeywords = keywords;
+    const openerHost = domain(rule.match.openerDomain, 'opener domain');
+    if (openerHost) match.openerDomain = openerHost;
+    const openerTag = text(rule.match.openerTag);
+    if (openerTag) match.openerTag = await this.tagService.resolveTag(openerTag);
+    const windowPersistentId = text(rule.match.windowPersistentId);
+    if (windowPersistentId) match.windowPersistentId = windowPersistentId;
+    if (typeof rule.match.incognito === 'boolean') match.incognito = rule.match.incognito;
+
+    if (Object.keys(match).length === 0) {
+      throw new Error(`${label} needs at least one condition, or it would tag every tab`);
+    }
+
+    const tags = await this.tagService.resolveTags(Array.isArray(rule.tags) ? rule.tags.map(text) : []);
+    if (tags.length === 0) {
+      throw new Error(`${label} must add at least one tag`);
+    }
+
+    return {
+      name: text(rule.name) || tags.join(', '),
+      enabled: rule.enabled !== false,
+      match,
+      tags,
+      stopAfter: rule.stopAfter === true,
+    };
+  }
+}
+
+// Singleton instance
+let autoTagService: AutoTagService | null = null;
+
+/**
+ * Get the AutoTagService singleton
+ */
+export function getAutoTagService(): AutoTagService {
+  if (!autoTagService) {
+    autoTagService = new AutoTagService();
+  }
+  return autoTagService;
+}
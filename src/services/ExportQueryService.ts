@@ -0,0 +1,499 @@
+import type { Collection } from 'dexie';
+import { getDatabase } from '../db/schema';
+import type {
+  TrackedTab,
+  TrackedWindow,
+  TrackedTabGroup,
+  TabVisit,
+  TabNavigation,
+  Session,
+  TabRelationship,
+  Tag,
+  ArchivedSession,
+  ExportFilters,
+} from '../db/types';
+import { getStorageManager, type StorageManager } from './StorageManager';
+import { QueryService } from './QueryService';
+import { getTagService, type TagService } from './TagService';
+import { tagAncestors } from '../utils/tags';
+
+/**
+ * Which slice of data an export covers
+ */
+export type ExportScope = 'current-window' | 'all-windows' | 'session' | 'custom';
+
+/**
+ * Export request sent by the popup when it opens a data port
+ */
+export interface ExportQuery {
+  scope: ExportScope;
+  filters: Partial<ExportFilters>;
+  includeRelationships: boolean;
+}
+
+/**
+ * Filtered data returned to the popup for export
+ */
+export interface ExportQueryResult {
+  /** Filters as actually applied (scope resolved to session/window IDs) */
+  filters: ExportFilters;
+  sessions: Session[];
+  windows: TrackedWindow[];
+  tabGroups: TrackedTabGroup[];
+  tabs: TrackedTab[];
+  visits: TabVisit[];
+  navigations: TabNavigation[];
+  relationships: TabRelationship[];
+  tags: Tag[];
+  archives: ArchivedSession[];
+}
+
+/**
+ * Tables that are paged rather than sent with the plan
+ */
+export type ExportTable = 'tabs' | 'visits' | 'navigations' | 'relationships';
+
+export const EXPORT_TABLES: readonly ExportTable[] = ['tabs', 'visits', 'navigations', 'relationships'];
+
+/**
+ * Row type of each paged table
+ */
+export interface ExportRows {
+  tabs: TrackedTab;
+  visits: TabVisit;
+  navigations: TabNavigation;
+  relationships: TabRelationship;
+}
+
+/**
+ * Resolved export: the small tables in full, plus the IDs that the paged
+ * tables are filtered against
+ */
+export interface ExportPlan {
+  filters: ExportFilters;
+  includeRelationships: boolean;
+  sessions: Session[];
+  windows: TrackedWindow[];
+  /** Groups that exported tabs belong to */
+  tabGroups: TrackedTabGroup[];
+  tags: Tag[];
+  /** Archived sessions - only when the export is not narrowed to windows, tags or a query */
+  archives: ArchivedSession[];
+  /** Exported tab persistent IDs */
+  tabIds: Set<string>;
+  /** Exported tabs' primary keys and persistent IDs, in primary key order */
+  tabKeys: number[];
+  tabOrder: string[];
+  /** Every tab is exported with no date range, so whole tables are scanned */
+  scanAll: boolean;
+}
+
+/**
+ * One page of a paged table
+ */
+export interface ExportPage<T extends ExportTable = ExportTable> {
+  rows: ExportRows[T][];
+  /** Primary key of the last row, to continue after, or null on the last page */
+  cursor: number | null;
+}
+
+/**
+ * ExportQueryService - Runs filtered export queries (background context)
+ *
+ * Filtering happens here rather than in the popup so that only the exported
+ * records cross the message channel. Large tables are read in pages keyed by
+ * primary key, so an export never holds a whole table in memory. A narrowed
+ * export reads history tab by tab through the per-tab indexes; only a full
+ * export scans whole tables.
+ */
+export class ExportQueryService {
+  private storageManager: StorageManager;
+  private queryService: QueryService;
+  private tagService: TagService;
+
+  constructor(storageManager?: StorageManager, tagService?: TagService) {
+    this.storageManager = storageManager || getStorageManager();
+    this.tagService = tagService || getTagService();
+    this.queryService = new QueryService(this.storageManager, this.tagService);
+  }
+
+  /**
+   * Resolve the export scope into concrete filters
+   */
+  resolveFilters(query: ExportQuery): ExportFilters {
+    const { scope, filters } = query;
+    const resolved: ExportFilters = {
+      ...filters,
+      includeIncognito: filters.includeIncognito ?? true,
+      includeVisitHistory: filters.includeVisitHistory ?? true,
+    };
+
+    if (scope === 'session' || scope === 'current-window') {
+      const currentSessionId = this.storageManager.getCurrentSessionId();
+      if (!resolved.sessionIds && currentSessionId) {
+        resolved.sessionIds = [currentSessionId];
+      }
+    }
+
+    if (scope === 'current-window' && !resolved.windowIds) {
+      const activeWindowId = this.storageManager.getActiveWindowPersistentId();
+      resolved.windowIds = activeWindowId ? [activeWindowId] : [];
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Resolve sessions, windows, tag definitions and the set of exported tabs
+   */
+  async prepare(query: ExportQuery): Promise<ExportPlan> {
+    const db = getDatabase();
+    const filters = this.resolveFilters(query);
+    const overlaps = this.overlapsRange(filters);
+    if (filters.tags?.length) {
+      filters.tags = await this.tagService.resolveTags(filters.tags);
+    }
+
+    // Sessions
+    let sessions = filters.sessionIds
+      ? (await db.sessions.bulkGet(filters.sessionIds)).filter((s): s is Session => !!s)
+      : await db.sessions.toArray();
+    if (filters.dateRange) {
+      sessions = sessions.filter((s) => overlaps(s.startedAt, s.endedAt));
+    }
+    const sessionIds = sessions.map((s) => s.id);
+    const sessionIdSet = new Set(sessionIds);
+
+    // Windows - filtered in JS rather than via [sessionId+incognito]: incognito
+    // is stored as a boolean, which is not a valid IndexedDB key, so window
+    // records never enter that compound index.
+    const sessionWindows = await db.windows.where('sessionId').anyOf(sessionIds).toArray();
+    const windowIdFilter = filters.windowIds ? new Set(filters.windowIds) : null;
+    let windows = sessionWindows.filter(
+      (w) =>
+        (filters.includeIncognito || !w.incognito) &&
+        (!windowIdFilter || windowIdFilter.has(w.persistentId)) &&
+        overlaps(w.createdAt, w.closedAt)
+    );
+    const includedWindowIds = new Set(windows.map((w) => w.persistentId));
+    const excludedWindowIds = new Set(
+      sessionWindows.filter((w) => !includedWindowIds.has(w.persistentId)).map((w) => w.persistentId)
+    );
+
+    // Tabs matching the query-language filter, if any
+    const queryMatches = filters.query?.trim()
+      ? new Set((await this.queryService.run(filters.query)).map((t) => t.persistentId))
+      : null;
+
+    // Tabs - seeded from the *tags index when filtering by tag, which also
+    // matches tags nested under the filter tags. Only IDs are kept; the rows
+    // themselves are paged.
+    const tabCollection = filters.tags?.length
+      ? this.tagService.tabsTagged(filters.tags)
+      : db.tabs.where('sessionId').anyOf(sessionIds);
+    const tabIds = new Set<string>();
+    const tabs: Array<{ key: number; persistentId: string }> = [];
+    const tabWindowIds = new Set<string>();
+    const tabGroupIds = new Set<string>();
+    const usedTags = new Set(sessions.flatMap((s) => s.tags));
+    await tabCollection
+      .filter(
+        (t) =>
+          sessionIdSet.has(t.sessionId) &&
+          !excludedWindowIds.has(t.windowPersistentId) &&
+          (!windowIdFilter || windowIdFilter.has(t.windowPersistentId)) &&
+          (!queryMatches || queryMatches.has(t.persistentId)) &&
+          overlaps(t.createdAt, t.closedAt)
+      )
+      .each((t) => {
+        tabIds.add(t.persistentId);
+        tabs.push({ key: t.id!, persistentId: t.persistentId });
+        tabWindowIds.add(t.windowPersistentId);
+        if (t.groupPersistentId) tabGroupIds.add(t.groupPersistentId);
+        t.tags.forEach((tag) => usedTags.add(tag));
+      });
+
+    // Only keep windows that still hold exported tabs when filtering by tag or query
+    if (filters.tags?.length || queryMatches) {
+      windows = windows.filter((w) => tabWindowIds.has(w.persistentId));
+    }
+
+    // Groups - only those holding exported tabs
+    const tabGroups = await db.tabGroups.where('persistentId').anyOf([...tabGroupIds]).toArray();
+
+    // Tag definitions - everything for an unfiltered export, otherwise the
+    // tags in use and the tags they are nested under
+    const isFullExport =
+      query.scope === 'all-windows' &&
+      !filters.dateRange &&
+      !filters.tags?.length &&
+      !filters.windowIds &&
+      !queryMatches;
+    let tags = await db.tags.toArray();
+    if (!isFullExport) {
+      [...usedTags].flatMap(tagAncestors).forEach((tag) => usedTags.add(tag));
+      tags = tags.filter((t) => usedTags.has(t.name));
+    }
+
+    // Archives - picked by session and date like sessions; they hold no
+    // windows or tabs to match the narrower filters against
+    let archives: ArchivedSession[] = [];
+    if (!filters.windowIds && !filters.tags?.length && !queryMatches) {
+      archives = filters.sessionIds
+        ? (await db.archivedSessions.bulkGet(filters.sessionIds)).filter((a): a is ArchivedSession => !!a)
+        : await db.archivedSessions.toArray();
+      archives = archives.filter((a) => overlaps(a.startedAt, a.endedAt));
+    }
+
+    tabs.sort((a, b) => a.key - b.key);
+    const scanAll = !filters.dateRange && tabIds.size === (await db.tabs.count());
+
+    return {
+      filters,
+      includeRelationships: query.includeRelationships,
+      sessions,
+      windows,
+      tabGroups,
+      tags,
+      archives,
+      tabIds,
+      tabKeys: tabs.map((t) => t.key),
+      tabOrder: tabs.map((t) => t.persistentId),
+      scanAll,
+    };
+  }
+
+  /**
+   * Upper bound on the rows each paged table will return, for progress reporting
+   * Counts come from indexes, before the per-row tab and window filters
+   */
+  async estimate(plan: ExportPlan): Promise<Record<ExportTable, number>> {
+    const db = getDatabase();
+    const { start, end } = this.rangeBounds(plan.filters);
+    const sessionIds = plan.sessions.map((s) => s.id);
+    const withHistory = plan.filters.includeVisitHistory && plan.tabIds.size > 0;
+
+    const visitCounts = withHistory
+      ? await Promise.all(
+          sessionIds.map((id) =>
+            db.tabVisits
+              .where('[sessionId+activatedAt]')
+              .between([id, start], [id, end], true, true)
+              .count()
+          )
+        )
+      : [];
+
+    return {
+      tabs: plan.tabIds.size,
+      visits: visitCounts.reduce((sum, n) => sum + n, 0),
+      navigations: withHistory ? await db.tabNavigations.where('sessionId').anyOf(sessionIds).count() : 0,
+      relationships:
+        plan.includeRelationships && plan.tabIds.size > 0
+          ? await db.tabRelationships.where('sourceTabPersistentId').anyOf([...plan.tabIds]).count()
+          : 0,
+    };
+  }
+
+  /**
+   * Read the next page of a table, after the row with the given primary key
+   * (0 for the first page)
+   */
+  async page<T extends ExportTable>(
+    plan: ExportPlan,
+    table: T,
+    cursor: number,
+    limit: number
+  ): Promise<ExportPage<T>> {
+    const db = getDatabase();
+    const { start, end } = this.rangeBounds(plan.filters);
+    const { tabIds, scanAll } = plan;
+    const withHistory = plan.filters.includeVisitHistory;
+
+    let rows: Array<{ id?: number }>;
+    switch (table as ExportTable) {
+      case 'tabs': {
+        const keys = plan.tabKeys.filter((key) => key > cursor).slice(0, limit);
+        rows = (await db.tabs.bulkGet(keys)).filter((t): t is TrackedTab => !!t);
+        break;
+      }
+      case 'visits':
+        if (!withHistory) {
+          rows = [];
+        } else if (scanAll) {
+          rows = await db.tabVisits
+            .where('id')
+            .above(cursor)
+            .filter((v) => tabIds.has(v.tabPersistentId))
+            .limit(limit)
+            .toArray();
+        } else {
+          rows = await this.pageByTab<TabVisit>(plan, db.tabVisits, cursor, limit, {
+            tabOf: (v) => v.tabPersistentId,
+            keyOf: (v) => v.activatedAt,
+            rowsOf: (tab, from) =>
+              db.tabVisits.where('[tabPersistentId+activatedAt]').between([tab, from], [tab, end], true, true),
+            start,
+          });
+        }
+        break;
+      case 'navigations':
+        if (!withHistory) {
+          rows = [];
+        } else if (scanAll) {
+          rows = await db.tabNavigations
+            .where('id')
+            .above(cursor)
+            .filter((n) => tabIds.has(n.tabPersistentId))
+            .limit(limit)
+            .toArray();
+        } else {
+          rows = await this.pageByTab<TabNavigation>(plan, db.tabNavigations, cursor, limit, {
+            tabOf: (n) => n.tabPersistentId,
+            keyOf: (n) => n.navigatedAt,
+            rowsOf: (tab, from) =>
+              db.tabNavigations.where('[tabPersistentId+navigatedAt]').between([tab, from], [tab, end], true, true),
+            start,
+          });
+        }
+        break;
+      case 'relationships':
+        // Relationships between exported tabs only
+        if (!plan.includeRelationships) {
+          rows = [];
+        } else if (scanAll) {
+          rows = await db.tabRelationships
+            .where('id')
+            .above(cursor)
+            .filter((r) => tabIds.has(r.sourceTabPersistentId) && tabIds.has(r.targetTabPersistentId))
+            .limit(limit)
+            .toArray();
+        } else {
+          rows = await this.pageByTab<TabRelationship>(plan, db.tabRelationships, cursor, limit, {
+            tabOf: (r) => r.sourceTabPersistentId,
+            keyOf: (r) => r.id!,
+            rowsOf: (tab) =>
+              db.tabRelationships
+                .where('sourceTabPersistentId')
+                .equals(tab)
+                .filter((r) => tabIds.has(r.targetTabPersistentId)),
+            start: 0,
+          });
+        }
+        break;
+      default:
+        throw new Error(`Unknown export table: ${String(table)}`);
+    }
+
+    const last = rows[rows.length - 1];
+    return {
+      rows: rows as ExportRows[T][],
+      cursor: rows.length < limit || last?.id === undefined ? null : last.id,
+    };
+  }
+
+  /**
+   * Read a page of a table through a per-tab index, one exported tab after
+   * another. The cursor row tells which tab to continue in and from where;
+   * rows sharing its index key are ordered by primary key.
+   */
+  private async pageByTab<R extends { id?: number }>(
+    plan: ExportPlan,
+    table: { get(key: number): Promise<R | undefined> },
+    cursor: number,
+    limit: number,
+    by: {
+      tabOf: (row: R) => string;
+      keyOf: (row: R) => number;
+      /** A tab's rows from an index key on, in index order */
+      rowsOf: (tab: string, from: number) => Collection<R, number>;
+      /** Index key of a tab's first row */
+      start: number;
+    }
+  ): Promise<R[]> {
+    let position = 0;
+    let after: { key: number; id: number } | null = null;
+
+    if (cursor > 0) {
+      const last = await table.get(cursor);
+      if (!last) {
+        throw new Error('Export cursor row no longer exists; start the export again');
+      }
+      position = plan.tabOrder.indexOf(by.tabOf(last));
+      after = { key: by.keyOf(last), id: cursor };
+    }
+
+    const rows: R[] = [];
+    for (; position >= 0 && position < plan.tabOrder.length && rows.length < limit; position++) {
+      const resume = after;
+      let collection = by.rowsOf(plan.tabOrder[position]!, resume?.key ?? by.start);
+      if (resume) {
+        collection = collection.filter((row) => by.keyOf(row) > resume.key || row.id! > resume.id);
+      }
+      rows.push(...(await collection.limit(limit - rows.length).toArray()));
+      after = null;
+    }
+    return rows;
+  }
+
+  /**
+   * Fetch everything matching an export request in one go
+   */
+  async query(query: ExportQuery, pageSize = 1000): Promise<ExportQueryResult> {
+    const plan = await this.prepare(query);
+    const result: ExportQueryResult = {
+      filters: plan.filters,
+      sessions: plan.sessions,
+      windows: plan.windows,
+      tabGroups: plan.tabGroups,
+      tabs: [],
+      visits: [],
+      navigations: [],
+      relationships: [],
+      tags: plan.tags,
+      archives: plan.archives,
+    };
+
+    for (const table of EXPORT_TABLES) {
+      let cursor: number | null = 0;
+      while (cursor !== null) {
+        const page: ExportPage = await this.page(plan, table, cursor, pageSize);
+        (result[table] as ExportRows[ExportTable][]).push(...page.rows);
+        cursor = page.cursor;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Date range bounds, open-ended when no range is set
+   */
+  private rangeBounds(filters: ExportFilters): { start: number; end: number } {
+    return {
+      start: filters.dateRange?.start ?? 0,
+      end: filters.dateRange?.end ?? Infinity,
+    };
+  }
+
+  /**
+   * Predicate for records alive at any point inside the date range
+   */
+  private overlapsRange(filters: ExportFilters): (from: number, to: number | null) => boolean {
+    const { start, end } = this.rangeBounds(filters);
+    return (from, to) => from <= end && (to ?? Infinity) >= start;
+  }
+}
+
+// Singleton instance
+let exportQueryService: ExportQueryService | null = null;
+
+/**
+ * Get the ExportQueryService singleton
+ */
+export function getExportQueryService(): ExportQueryService {
+  if (!exportQueryService) {
+    exportQueryService = new ExportQueryService();
+  }
+  return exportQueryService;
+}
@@ -2,56 +2,62 @@ import JSZip from 'jszip';
 import type {
   TrackedTab,
   TrackedWindow,
+  TrackedTabGroup,
   TabVisit,
+  TabNavigation,
   Session,
   TabRelationship,
   Tag,
+  ArchivedSession,
   ExportData,
   ExportManifest,
   ExportFilters,
 } from '../db/types';
+import type { ExportScope, ExportQueryResult } from './ExportQueryService';
+import { streamData } from '../rpc';
+
+/**
+ * Export format version written to every manifest
+ * Bump the major version when a change would break ImportService
+ */
+export const EXPORT_FORMAT_VERSION = '1.3.0';
 
 /**
  * Export options
  */
 export interface ExportOptions {
   format: 'json' | 'csv' | 'zip';
-  scope: 'current-window' | 'all-windows' | 'session' | 'custom';
+  scope: ExportScope;
   filters?: Partial<ExportFilters>;
   includeVisitHistory?: boolean;
   includeRelationships?: boolean;
+  /** Called as pages arrive from the background */
+  onProgress?: (progress: ExportProgress) => void;
 }
 
 /**
- * All data fetched from background script
+ * Rows received so far against the background's estimate
  */
-interface AllData {
-  sessions: Session[];
-  windows: TrackedWindow[];
-  tabs: TrackedTab[];
-  visits: TabVisit[];
-  relationships: TabRelationship[];
-  tags: Tag[];
+export interface ExportProgress {
+  loaded: number;
+  /** Upper bound - filters applied while paging can only lower it */
+  total: number;
 }
 
 /**
- * Send message to background script
+ * Filtered data fetched from background script
  */
-async function sendMessage<T>(message: Record<string, unknown>): Promise<T> {
-  return new Promise((resolve, reject) => {
-    chrome.runtime.sendMessage(message, (response) => {
-      if (chrome.runtime.lastError) {
-        reject(new Error(chrome.runtime.lastError.message));
-        return;
-      }
-      if (!response?.success) {
-        reject(new Error(response?.error || 'Unknown error'));
-        return;
-      }
-      resolve(response.data as T);
-    });
-  });
-}
+type AllData = Omit<ExportQueryResult, 'filters'> & { filters?: ExportFilters };
+
+/**
+ * Manifest export type for each scope
+ */
+const EXPORT_TYPES: Record<ExportScope, ExportManifest['exportType']> = {
+  'all-windows': 'full',
+  session: 'session',
+  'current-window': 'window',
+  custom: 'filtered',
+};
 
 /**
  * ExportService - Handles data export (runs in popup context)
@@ -61,11 +67,10 @@ export class ExportService {
    * Export data based on options
    */
   async export(options: ExportOptions): Promise<string | Blob> {
-    // Get all data from background script
-    const data = await sendMessage<AllData>({ type: 'GET_ALL_DATA' });
+    const data = await this.fetchData(options);
 
     if (options.format === 'zip') {
-      return this.toZip(data);
+      return this.toZip(data, options);
     }
 
     if (options.format === 'csv') {
@@ -75,37 +80,107 @@ export class ExportService {
     return this.toJSON(data, options);
   }
 
+  /**
+   * Pull the filtered data from the background page by page
+   * Filtering runs in the background, next to the indexes
+   */
+  private async fetchData(options: ExportOptions): Promise<AllData> {
+    const data: AllData = {
+      sessions: [],
+      windows: [],
+      tabGroups: [],
+      tabs: [],
+      visits: [],
+      navigations: [],
+      relationships: [],
+      tags: [],
+      archives: [],
+    };
+    let loaded = 0;
+    let total = 0;
+
+    await streamData(
+      {
+        scope: options.scope,
+        filters: this.requestedFilters(options),
+        includeRelationships: options.includeRelationships ?? false,
+      },
+      {
+        onPlan: (plan) => {
+          data.filters = plan.filters;
+          data.sessions = plan.sessions;
+          data.windows = plan.windows;
+          data.tabGroups = plan.tabGroups;
+          data.tags = plan.tags;
+          data.archives = plan.archives;
+          total = plan.tables.reduce((sum, table) => sum + plan.estimates[table], 0);
+          options.onProgress?.({ loaded, total });
+        },
+        onPage: (page) => {
+          (data[page.table] as unknown[]).push(...page.rows);
+          loaded += page.rows.length;
+          options.onProgress?.({ loaded, total: Math.max(loaded, total) });
+        },
+      }
+    );
+
+    // The estimate is an upper bound - settle on what actually arrived
+    options.onProgress?.({ loaded, total: loaded });
+    return data;
+  }
+
+  /**
+   * Filters requested by the caller, before the background resolves the scope
+   */
+  private requestedFilters(options: ExportOptions): ExportFilters {
+    return {
+      ...options.filters,
+      includeIncognito: options.filters?.includeIncognito ?? true,
+      includeVisitHistory: options.includeVisitHistory ?? true,
+    };
+  }
+
   /**
    * Convert to JSON string
    */
   private toJSON(data: AllData, options: ExportOptions): string {
+    return JSON.stringify(this.buildExportData(data, options), null, 2);
+  }
+
+  /**
+   * Build the ExportData structure shared by JSON and ZIP exports
+   */
+  private buildExportData(data: AllData, options: ExportOptions): ExportData {
+    const filters = data.filters ?? this.requestedFilters(options);
+    const visits = filters.includeVisitHistory ? data.visits : undefined;
+    const navigations = filters.includeVisitHistory ? data.navigations : undefined;
+
+    // Manifest describes exactly what is in this export
     const manifest: ExportManifest = {
-      version: '1.0.0',
+      version: EXPORT_FORMAT_VERSION,
       exportedAt: Date.now(),
-      exportType: options.scope === 'session' ? 'session' : 'full',
-      filters: {
-        includeIncognito: options.filters?.includeIncognito ?? true,
-        includeVisitHistory: options.includeVisitHistory ?? true,
-      },
+      exportType: EXPORT_TYPES[options.scope],
+      filters,
       stats: {
         sessionCount: data.sessions.length,
         windowCount: data.windows.length,
         tabCount: data.tabs.length,
-        visitCount: data.visits.length,
+        visitCount: visits?.length ?? 0,
       },
     };
 
-    const exportData: ExportData = {
+    return {
       manifest,
       sessions: data.sessions,
       windows: data.windows,
       tabs: data.tabs,
-      visits: options.includeVisitHistory ? data.visits : undefined,
+      tabGroups: data.tabGroups.length > 0 ? data.tabGroups : undefined,
+      visits,
+      navigations,
       relationships: options.includeRelationships ? data.relationships : undefined,
       tags: data.tags.length > 0 ? data.tags : undefined,
+      archives: data.archives.length > 0 ? data.archives : undefined,
     };
-
-    return JSON.stringify(exportData, null, 2);
   }
 
   /**
@@ -126,6 +201,7 @@ export class ExportService {
       'index',
       'pinned',
       'groupId',
+      'groupPersistentId',
       'tags',
       'notes',
       'isIncognito',
@@ -151,6 +227,7 @@ export class ExportService {
         tab.index,
         tab.pinned,
         tab.groupId,
+        tab.groupPersistentId || '',
         this.escapeCSV(tab.tags.join('; ')),
         this.escapeCSV(tab.notes || ''),
         window?.incognito ? 'true' : 'false',
@@ -165,39 +242,57 @@ export class ExportService {
   /**
    * Create ZIP with all tables as CSV files
    */
-  private async toZip(data: AllData): Promise<Blob> {
+  private async toZip(data: AllData, options: ExportOptions): Promise<Blob> {
     const zip = new JSZip();
     const timestamp = new Date().toISOString().split('T')[0];
+    const exportData = this.buildExportData(data, options);
 
     // Sessions CSV (with BOM for Excel compatibility)
-    zip.file(`sessions_${timestamp}.csv`, this.addBOM(this.sessionsToCSV(data.sessions)));
+    zip.file(`sessions_${timestamp}.csv`, this.addBOM(this.sessionsToCSV(exportData.sessions)));
 
     // Windows CSV
-    zip.file(`windows_${timestamp}.csv`, this.addBOM(this.windowsToCSV(data.windows)));
+    zip.file(`windows_${timestamp}.csv`, this.addBOM(this.windowsToCSV(exportData.windows)));
+
+    // Tab groups CSV
+    zip.file(`tab_groups_${timestamp}.csv`, this.addBOM(this.tabGroupsToCSV(exportData.tabGroups || [])));
 
     // Tabs CSV
-    zip.file(`tabs_${timestamp}.csv`, this.addBOM(this.tabsToCSV(data.tabs, data.windows)));
+    zip.file(`tabs_${timestamp}.csv`, this.addBOM(this.tabsToCSV(exportData.tabs, exportData.windows)));
 
     // Visits CSV
-    zip.file(`visits_${timestamp}.csv`, this.addBOM(this.visitsToCSV(data.visits)));
+    zip.file(`visits_${timestamp}.csv`, this.addBOM(this.visitsToCSV(exportData.visits || [])));
+
+    // Navigations CSV
+    zip.file(`navigations_${timestamp}.csv`, this.addBOM(this.navigationsToCSV(exportData.navigations || [])));
 
     // Relationships CSV
-    zip.file(`relationships_${timestamp}.csv`, this.addBOM(this.relationshipsToCSV(data.relationships)));
+    zip.file(`relationships_${timestamp}.csv`, this.addBOM(this.relationshipsToCSV(exportData.relationships || [])));
 
     // Tags CSV
-    zip.file(`tags_${timestamp}.csv`, this.addBOM(this.tagsToCSV(data.tags)));
+    zip.file(`tags_${timestamp}.csv`, this.addBOM(this.tagsToCSV(exportData.tags || [])));
+
+    // Archived tabs CSV
+    zip.file(`archived_tabs_${timestamp}.csv`, this.addBOM(this.archivesToCSV(exportData.archives || [])));
+
+    // Full-precision copy of every table, read back by ImportService
+    zip.file('data.json', JSON.stringify(exportData));
 
     // Manifest JSON for reference
     zip.file('manifest.json', JSON.stringify({
-      exportedAt: new Date().toISOString(),
-      version: '1.0.0',
+      exportedAt: new Date(exportData.manifest.exportedAt).toISOString(),
+      version: EXPORT_FORMAT_VERSION,
+      exportType: exportData.manifest.exportType,
+      filters: exportData.manifest.filters,
       stats: {
-        sessions: data.sessions.length,
-        windows: data.windows.length,
-        tabs: data.tabs.length,
-        visits: data.visits.length,
-        relationships: data.relationships.length,
-        tags: data.tags.length,
+        sessions: exportData.sessions.length,
+        windows: exportData.windows.length,
+        tabGroups: exportData.tabGroups?.length ?? 0,
+        tabs: exportData.tabs.length,
+        visits: exportData.visits?.length ?? 0,
+        navigations: exportData.navigations?.length ?? 0,
+        relationships: exportData.relationships?.length ?? 0,
+        tags: exportData.tags?.length ?? 0,
+        archives: exportData.archives?.length ?? 0,
       }
     }, null, 2));
 
@@ -217,6 +312,7 @@ export class ExportService {
       'id',
       'name',
       'description',
+      'isNamedByUser',
       'startedAt',
       'endedAt',
       'isActive',
@@ -234,6 +330,7 @@ export class ExportService {
       s.id,
       this.escapeCSV(s.name),
       this.escapeCSV(s.description),
+      s.isNamedByUser,
       new Date(s.startedAt).toISOString(),
       s.endedAt ? new Date(s.endedAt).toISOString() : '',
       s.isActive,
@@ -299,6 +396,41 @@ export class ExportService {
     return [headers.join(','), ...rows].join('\n');
   }
 
+  /**
+   * Convert tab groups to CSV
+   */
+  private tabGroupsToCSV(groups: TrackedTabGroup[]): string {
+    const headers = [
+      'persistentId',
+      'chromeGroupId',
+      'title',
+      'color',
+      'collapsed',
+      'windowPersistentId',
+      'chromeWindowId',
+      'sessionId',
+      'createdAt',
+      'closedAt',
+      'updatedAt',
+    ];
+
+    const rows = groups.map(g => [
+      g.persistentId,
+      g.chromeGroupId,
+      this.escapeCSV(g.title),
+      g.color,
+      g.collapsed,
+      g.windowPersistentId,
+      g.chromeWindowId,
+      g.sessionId,
+      new Date(g.createdAt).toISOString(),
+      g.closedAt ? new Date(g.closedAt).toISOString() : '',
+      new Date(g.updatedAt).toISOString(),
+    ].join(','));
+
+    return [headers.join(','), ...rows].join('\n');
+  }
+
   /**
    * Convert visits to CSV
    */
@@ -313,6 +445,7 @@ export class ExportService {
       'activatedAt',
       'deactivatedAt',
       'durationMinutes',
+      'awayMinutes',
       'windowPersistentId',
       'fromTabPersistentId',
     ];
@@ -327,6 +460,7 @@ export class ExportService {
       new Date(v.activatedAt).toISOString(),
       v.deactivatedAt ? new Date(v.deactivatedAt).toISOString() : '',
       Math.round(v.duration / 60000),
+      Math.round((v.awayDuration || 0) / 60000),
       v.windowPersistentId,
       v.fromTabPersistentId || '',
     ].join(','));
@@ -334,6 +468,41 @@ export class ExportService {
     return [headers.join(','), ...rows].join('\n');
   }
 
+  /**
+   * Convert navigations to CSV
+   */
+  private navigationsToCSV(navigations: TabNavigation[]): string {
+    const headers = [
+      'id',
+      'tabPersistentId',
+      'sessionId',
+      'url',
+      'urlHash',
+      'title',
+      'navigatedAt',
+      'leftAt',
+      'dwellTimeSeconds',
+      'previousNavigationId',
+      'windowPersistentId',
+    ];
+
+    const rows = navigations.map(n => [
+      n.id || '',
+      n.tabPersistentId,
+      n.sessionId,
+      this.escapeCSV(n.url),
+      n.urlHash,
+      this.escapeCSV(n.title),
+      new Date(n.navigatedAt).toISOString(),
+      n.leftAt ? new Date(n.leftAt).toISOString() : '',
+      Math.round(n.dwellTime / 1000),
+      n.previousNavigationId ?? '',
+      n.windowPersistentId,
+    ].join(','));
+
+    return [headers.join(','), ...rows].join('\n');
+  }
+
   /**
    * Convert relationships to CSV
    */
@@ -366,6 +535,8 @@ export class ExportService {
     const headers = [
       'id',
       'name',
+      'parent',
+      'aliases',
       'color',
       'createdAt',
       'usageCount',
@@ -374,6 +545,8 @@ export class ExportService {
     const rows = tags.map(t => [
       t.id || '',
       this.escapeCSV(t.name),
+      this.escapeCSV(t.parent || ''),
+      this.escapeCSV(t.aliases.join('; ')),
       t.color,
       new Date(t.createdAt).toISOString(),
       t.usageCount,
@@ -385,6 +558,43 @@ export class ExportService {
   /**
    * Escape CSV value
    */
+  /**
+   * Convert archived sessions to CSV, one row per archived tab
+   */
+  private archivesToCSV(archives: ArchivedSession[]): string {
+    const headers = [
+      'sessionId',
+      'sessionName',
+      'startedAt',
+      'archivedAt',
+      'persistentId',
+      'url',
+      'title',
+      'totalActiveTimeMinutes',
+      'visitCount',
+      'tags',
+      'notes',
+      'isSaved',
+    ];
+
+    const rows = archives.flatMap(a => a.tabs.map(t => [
+      a.id,
+      this.escapeCSV(a.name),
+      new Date(a.startedAt).toISOString(),
+      new Date(a.archivedAt).toISOString(),
+      t.persistentId,
+      this.escapeCSV(t.url),
+      this.escapeCSV(t.title),
+      Math.round(t.totalActiveTime / 60000),
+      t.visitCount,
+      this.escapeCSV(t.tags.join('; ')),
+      this.escapeCSV(t.notes || ''),
+      t.isSaved ? 'true' : 'false',
+    ].join(',')));
+
+    return [headers.join(','), ...rows].join('\n');
+  }
+
   private escapeCSV(value: string): string {
     if (!value) return '';
     // Always quote strings that could be misinterpreted
@@ -438,8 +648,8 @@ export class ExportService {
   /**
    * Export and download as ZIP (all tables)
    */
-  async exportAndDownloadZIP(): Promise<void> {
-    const data = await this.export({ format: 'zip', scope: 'session' });
+  async exportAndDownloadZIP(options: Omit<ExportOptions, 'format'>): Promise<void> {
+    const data = await this.export({ ...options, format: 'zip' });
     const filename = `unos-export-${new Date().toISOString().split('T')[0]}.zip`;
     this.downloadFile(data as Blob, filename, 'application/zip');
   }
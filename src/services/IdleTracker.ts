@@ -0,0 +1,158 @@
+import Dexie from 'dexie';
+import { getDatabase } from '../db/schema';
+import type { IdlePeriod, IdleState } from '../db/types';
+import { getStorageManager, type StorageManager } from './StorageManager';
+import { getTabTracker, type TabTracker } from './TabTracker';
+import { getSessionPolicyService, type SessionPolicyService } from './SessionPolicyService';
+import { getSettingsService, type SettingsService } from './SettingsService';
+
+/**
+ * IdleTracker - Pauses active-time accounting while the user is away
+ *
+ * Listens to chrome.idle state changes. Going idle or locking the screen
+ * closes the active visit and stops the clock; coming back opens a new visit
+ * on the same tab. Each absence is logged as an IdlePeriod, and a long enough
+ * one ends the session (see SessionPolicyService).
+ */
+export class IdleTracker {
+  private storageManager: StorageManager;
+  private tabTracker: TabTracker;
+  private sessionPolicyService: SessionPolicyService;
+  private settingsService: SettingsService;
+
+  constructor(
+    storageManager?: StorageManager,
+    tabTracker?: TabTracker,
+    sessionPolicyService?: SessionPolicyService,
+    settingsService?: SettingsService
+  ) {
+    this.storageManager = storageManager || getStorageManager();
+    this.tabTracker = tabTracker || getTabTracker();
+    this.sessionPolicyService = sessionPolicyService || getSessionPolicyService();
+    this.settingsService = settingsService || getSettingsService();
+  }
+
+  /**
+   * Handle a chrome.idle state change
+   */
+  async handleStateChanged(state: IdleState, now = Date.now()): Promise<void> {
+    await this.storageManager.ensureInitialized();
+    const sessionId = this.storageManager.getCurrentSessionId();
+    if (!sessionId) return;
+
+    const previous = this.storageManager.getIdleState();
+    if (state === previous) return;
+
+    if (state === 'active') {
+      const awaySince = await this.closeOpenPeriods(now);
+      await this.storageManager.setIdleState('active');
+      // Checked before resuming so the new visit opens in the session that follows
+      if (awaySince !== null) {
+        await this.sessionPolicyService.checkBoundary(now, awaySince);
+      }
+      await this.tabTracker.resumeActiveTime(now);
+      console.log('[IdleTracker] User returned');
+      return;
+    }
+
+    // Already away - idle -> locked is the same absence
+    if (previous !== 'active') {
+      if (state === 'locked') {
+        await this.updateOpenPeriodState(state);
+      }
+      await this.storageManager.setIdleState(state);
+      return;
+    }
+
+    // 'idle' fires only after the detection interval without input, so the
+    // user actually left that long ago - unless they switched tabs since
+    const idleSeconds = this.settingsService.getCurrent().timing.idleDetectionSeconds;
+    const lastInput = state === 'idle' ? now - idleSeconds * 1000 : now;
+    const startedAt = Math.max(lastInput, this.storageManager.getTabActivationTimestamp());
+
+    await this.tabTracker.pauseActiveTime(startedAt);
+
+    const period: IdlePeriod = {
+      sessionId,
+      state,
+      startedAt,
+      endedAt: null,
+      duration: 0,
+      tabPersistentId: this.storageManager.getActiveTabPersistentId(),
+    };
+    await getDatabase().idlePeriods.add(period);
+    await this.storageManager.setIdleState(state);
+
+    console.log(`[IdleTracker] User ${state} since ${new Date(startedAt).toISOString()}`);
+  }
+
+  /**
+   * Bring the tracked state in line with chrome.idle (after startup)
+   * Periods left open by an earlier browser run end now - the browser was
+   * not in use in between
+   */
+  async syncState(now = Date.now()): Promise<void> {
+    await this.storageManager.ensureInitialized();
+    if (this.storageManager.getIdleState() === 'active') {
+      await this.closeOpenPeriods(now);
+    }
+
+    const { timing } = await this.settingsService.getSettings();
+    const state = await chrome.idle.queryState(timing.idleDetectionSeconds);
+    await this.handleStateChanged(state, now);
+  }
+
+  /**
+   * Get a session's idle periods, most recent first
+   */
+  async getIdlePeriods(sessionId: string, limit = 100): Promise<IdlePeriod[]> {
+    const db = getDatabase();
+    return db.idlePeriods
+      .where('[sessionId+startedAt]')
+      .between([sessionId, Dexie.minKey], [sessionId, Dexie.maxKey])
+      .reverse()
+      .limit(limit)
+      .toArray();
+  }
+
+  /**
+   * End every open idle period
+   * Returns when the earliest of them started, or null if none were open
+   */
+  private async closeOpenPeriods(endedAt: number): Promise<number | null> {
+    const db = getDatabase();
+    let awaySince: number | null = null;
+    await db.idlePeriods
+      .filter((p) => p.endedAt === null)
+      .modify((period) => {
+        awaySince = Math.min(awaySince ?? period.startedAt, period.startedAt);
+        period.endedAt = Math.max(endedAt, period.startedAt);
+        period.duration = period.endedAt - period.startedAt;
+      });
+    return awaySince;
+  }
+
+  /**
+   * Record a change of away state on the open period
+   */
+  private async updateOpenPeriodState(state: IdlePeriod['state']): Promise<void> {
+    const db = getDatabase();
+    const latest = await db.idlePeriods.orderBy('startedAt').last();
+    if (latest?.id && latest.endedAt === null) {
+      await db.idlePeriods.update(latest.id, { state });
+    }
+  }
+}
+
+// Singleton instance
+let idleTracker: IdleTracker | null = null;
+
+/**
+ * Get the IdleTracker singleton
+ */
+export function getIdleTracker(): IdleTracker {
+  if (!idleTracker) {
+    idleTracker = new IdleTracker();
+  }
+  return idleTracker;
+}
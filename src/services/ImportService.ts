@@ -0,0 +1,754 @@
+import JSZip from 'jszip';
+import { getDatabase } from '../db/schema';
+import type {
+  TrackedTab,
+  TrackedWindow,
+  TrackedTabGroup,
+  TabGroupColor,
+  TabVisit,
+  TabNavigation,
+  Session,
+  TabRelationship,
+  RelationshipType,
+  Tag,
+  ExportData,
+} from '../db/types';
+import { generateUUID } from '../utils/uuid';
+import { hashUrl } from '../utils/hash';
+import { parentTagName, normalizeTags } from '../utils/tags';
+import { EXPORT_FORMAT_VERSION } from './ExportService';
+
+/**
+ * Per-entity import counts
+ */
+export interface ImportCounts {
+  added: number;
+  skipped: number;
+  conflicted: number;
+}
+
+/**
+ * Tables merged by an import
+ */
+export type ImportEntity =
+  | 'sessions'
+  | 'windows'
+  | 'tabGroups'
+  | 'tabs'
+  | 'visits'
+  | 'navigations'
+  | 'relationships'
+  | 'tags'
+  | 'archives';
+
+/**
+ * Summary of an import run
+ */
+export interface ImportReport {
+  /** Format version of the imported archive */
+  manifestVersion: string;
+  sessions: ImportCounts;
+  windows: ImportCounts;
+  tabGroups: ImportCounts;
+  tabs: ImportCounts;
+  visits: ImportCounts;
+  navigations: ImportCounts;
+  relationships: ImportCounts;
+  tags: ImportCounts;
+  archives: ImportCounts;
+  /** Number of persistent IDs that collided with different local records and were reassigned */
+  remappedIds: number;
+  /** Human-readable description of each conflict (local data was kept) */
+  conflicts: string[];
+}
+
+/**
+ * Parsed CSV row (header name -> raw value)
+ */
+type CSVRow = Record<string, string>;
+
+/**
+ * Check that an archive was written by a compatible exporter
+ */
+export function assertSupportedVersion(version: unknown): void {
+  if (typeof version !== 'string') {
+    throw new Error('Import file has no manifest version');
+  }
+  const major = version.split('.')[0];
+  const supportedMajor = EXPORT_FORMAT_VERSION.split('.')[0];
+  if (major !== supportedMajor) {
+    throw new Error(
+      `Unsupported export version ${version} (expected ${supportedMajor}.x)`
+    );
+  }
+}
+
+function emptyCounts(): ImportCounts {
+  return { added: 0, skipped: 0, conflicted: 0 };
+}
+
+/**
+ * Parse CSV text into rows keyed by header
+ * Handles quoted fields, escaped quotes, embedded newlines and a leading BOM
+ */
+function parseCSV(text: string): CSVRow[] {
+  const input = text.replace(/^﻿/, '');
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [headers, ...rows] = records;
+  if (!headers) return [];
+
+  return rows
+    .filter((row) => row.some((value) => value !== ''))
+    .map((row) => {
+      const obj: CSVRow = {};
+      headers.forEach((header, i) => {
+        obj[header] = row[i] ?? '';
+      });
+      return obj;
+    });
+}
+
+function parseTime(value: string | undefined): number | null {
+  if (!value) return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+function parseNumber(value: string | undefined, fallback = 0): number {
+  if (value === undefined || value === '') return fallback;
+  const num = Number(value);
+  return Number.isNaN(num) ? fallback : num;
+}
+
+function parseBool(value: string | undefined): boolean {
+  return value === 'true';
+}
+
+function parseList(value: string | undefined): string[] {
+  if (!value) return [];
+  return value.split(';').map((v) => v.trim()).filter(Boolean);
+}
+
+/**
+ * ImportService - Reads JSON/ZIP exports back into the database
+ *
+ * Parsing runs in the popup (where the file is picked); merging runs in the
+ * background via the IMPORT_DATA message, which has full database access.
+ */
+export class ImportService {
+  /**
+   * Parse an export file (JSON or ZIP) picked by the user
+   */
+  async parseFile(file: Blob, filename: string): Promise<ExportData> {
+    if (filename.toLowerCase().endsWith('.zip')) {
+      return this.parseZip(file);
+    }
+    return this.parseJSON(await file.text());
+  }
+
+  /**
+   * Parse a JSON export
+   */
+  parseJSON(text: string): ExportData {
+    let parsed: ExportData;
+    try {
+      parsed = JSON.parse(text) as ExportData;
+    } catch {
+      throw new Error('Import file is not valid JSON');
+    }
+
+    assertSupportedVersion(parsed?.manifest?.version);
+
+    return {
+      ...parsed,
+      sessions: parsed.sessions || [],
+      windows: parsed.windows || [],
+      tabs: parsed.tabs || [],
+    };
+  }
+
+  /**
+   * Parse a ZIP export
+   * Uses the lossless data.json when present, otherwise rebuilds records from the CSV files
+   */
+  async parseZip(content: Blob | ArrayBuffer): Promise<ExportData> {
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(content);
+    } catch {
+      throw new Error('Import file is not a valid ZIP archive');
+    }
+
+    const manifestFile = zip.file('manifest.json');
+    if (!manifestFile) {
+      throw new Error('ZIP archive has no manifest.json');
+    }
+    const manifest = JSON.parse(await manifestFile.async('string'));
+    assertSupportedVersion(manifest.version);
+
+    const dataFile = zip.file('data.json');
+    if (dataFile) {
+      return this.parseJSON(await dataFile.async('string'));
+    }
+
+    const readCSV = async (prefix: string): Promise<CSVRow[]> => {
+      const file = zip.file(new RegExp(`^${prefix}_.*\\.csv$`))[0];
+      return file ? parseCSV(await file.async('string')) : [];
+    };
+
+    const exportedAt = parseTime(manifest.exportedAt) ?? Date.now();
+    const [sessionRows, windowRows, groupRows, tabRows, visitRows, navigationRows, relationshipRows, tagRows] =
+      await Promise.all([
+        readCSV('sessions'),
+        readCSV('windows'),
+        readCSV('tab_groups'),
+        readCSV('tabs'),
+        readCSV('visits'),
+        readCSV('navigations'),
+        readCSV('relationships'),
+        readCSV('tags'),
+      ]);
+
+    const tabs: TrackedTab[] = [];
+    for (const row of tabRows) {
+      tabs.push(await this.tabFromCSV(row, exportedAt));
+    }
+
+    return {
+      manifest: {
+        version: manifest.version,
+        exportedAt,
+        exportType: manifest.exportType ?? 'full',
+        filters: manifest.filters ?? { includeIncognito: true, includeVisitHistory: true },
+        stats: {
+          sessionCount: sessionRows.length,
+          windowCount: windowRows.length,
+          tabCount: tabRows.length,
+          visitCount: visitRows.length,
+        },
+      },
+      sessions: sessionRows.map((row) => this.sessionFromCSV(row, exportedAt)),
+      windows: windowRows.map((row) => this.windowFromCSV(row, exportedAt)),
+      tabGroups: groupRows.map((row) => this.tabGroupFromCSV(row, exportedAt)),
+      tabs,
+      visits: visitRows.map((row) => this.visitFromCSV(row)),
+      navigations: navigationRows.map((row) => this.navigationFromCSV(row)),
+      relationships: relationshipRows.map((row) => this.relationshipFromCSV(row)),
+      tags: tagRows.map((row) => this.tagFromCSV(row, exportedAt)),
+    };
+  }
+
+  // ============================================
+  // CSV Row Mapping (durations are rounded in CSV exports)
+  // ============================================
+
+  private sessionFromCSV(row: CSVRow, exportedAt: number): Session {
+    const startedAt = parseTime(row.startedAt) ?? exportedAt;
+    return {
+      id: row.id ?? generateUUID(),
+      name: row.name ?? '',
+      description: row.description ?? '',
+      isNamedByUser: parseBool(row.isNamedByUser),
+      startedAt,
+      endedAt: parseTime(row.endedAt),
+      isActive: parseBool(row.isActive),
+      isSaved: parseBool(row.isSaved),
+      windowCount: parseNumber(row.windowCount),
+      tabCount: parseNumber(row.tabCount),
+      totalActiveTime: parseNumber(row.totalActiveTime) * 60000,
+      expiresAt: parseTime(row.expiresAt),
+      tags: parseList(row.tags),
+      customMetadata: {},
+      createdAt: parseTime(row.createdAt) ?? startedAt,
+      updatedAt: parseTime(row.updatedAt) ?? exportedAt,
+    };
+  }
+
+  private windowFromCSV(row: CSVRow, exportedAt: number): TrackedWindow {
+    return {
+      persistentId: row.persistentId ?? generateUUID(),
+      chromeWindowId: parseNumber(row.chromeWindowId, -1),
+      type: (row.type || 'normal') as TrackedWindow['type'],
+      state: row.state || 'normal',
+      incognito: parseBool(row.incognito),
+      left: parseNumber(row.left),
+      top: parseNumber(row.top),
+      width: parseNumber(row.width),
+      height: parseNumber(row.height),
+      createdAt: parseTime(row.createdAt) ?? exportedAt,
+      lastFocusedAt: parseTime(row.lastFocusedAt) ?? 0,
+      totalFocusTime: parseNumber(row.totalFocusTimeMinutes) * 60000,
+      sessionId: row.sessionId ?? '',
+      isSaved: parseBool(row.isSaved),
+      tabCount: parseNumber(row.tabCount),
+      activeTabPersistentId: row.activeTabPersistentId || null,
+      closedAt: parseTime(row.closedAt),
+      updatedAt: parseTime(row.updatedAt) ?? exportedAt,
+    };
+  }
+
+  private tabGroupFromCSV(row: CSVRow, exportedAt: number): TrackedTabGroup {
+    return {
+      persistentId: row.persistentId ?? generateUUID(),
+      chromeGroupId: parseNumber(row.chromeGroupId, -1),
+      chromeWindowId: parseNumber(row.chromeWindowId, -1),
+      windowPersistentId: row.windowPersistentId ?? '',
+      sessionId: row.sessionId ?? '',
+      title: row.title ?? '',
+      color: (row.color || 'grey') as TabGroupColor,
+      collapsed: parseBool(row.collapsed),
+      createdAt: parseTime(row.createdAt) ?? exportedAt,
+      closedAt: parseTime(row.closedAt),
+      updatedAt: parseTime(row.updatedAt) ?? exportedAt,
+    };
+  }
+
+  private async tabFromCSV(row: CSVRow, exportedAt: number): Promise<TrackedTab> {
+    const url = row.url ?? '';
+    const pinned = parseBool(row.pinned);
+    return {
+      persistentId: row.persistentId ?? generateUUID(),
+      chromeTabId: parseNumber(row.chromeTabId, -1),
+      chromeWindowId: parseNumber(row.chromeWindowId, -1),
+      url,
+      urlHash: await hashUrl(url),
+      title: row.title ?? '',
+      faviconUrl: null,
+      status: 'complete',
+      pinned,
+      index: parseNumber(row.index),
+      groupId: parseNumber(row.groupId, -1),
+      groupPersistentId: row.groupPersistentId || null,
+      openerPersistentId: null,
+      createdAt: parseTime(row.createdAt) ?? exportedAt,
+      lastActivatedAt: parseTime(row.lastActivatedAt) ?? 0,
+      totalActiveTime: parseNumber(row.totalActiveTimeMinutes) * 60000,
+      sessionId: row.sessionId ?? '',
+      windowPersistentId: row.windowPersistentId ?? '',
+      isSaved: parseBool(row.isSaved),
+      isPinned: pinned,
+      visitCount: 0,
+      tags: parseList(row.tags),
+      notes: row.notes || null,
+      customMetadata: {},
+      closedAt: parseTime(row.closedAt),
+      updatedAt: exportedAt,
+    };
+  }
+
+  private visitFromCSV(row: CSVRow): TabVisit {
+    return {
+      id: row.id ? parseNumber(row.id) : undefined,
+      tabPersistentId: row.tabPersistentId ?? '',
+      sessionId: row.sessionId ?? '',
+      url: row.url ?? '',
+      urlHash: row.urlHash ?? '',
+      title: row.title ?? '',
+      activatedAt: parseTime(row.activatedAt) ?? 0,
+      deactivatedAt: parseTime(row.deactivatedAt),
+      duration: parseNumber(row.durationMinutes) * 60000,
+      awayDuration: parseNumber(row.awayMinutes) * 60000,
+      windowPersistentId: row.windowPersistentId ?? '',
+      fromTabPersistentId: row.fromTabPersistentId || null,
+    };
+  }
+
+  private navigationFromCSV(row: CSVRow): TabNavigation {
+    return {
+      id: row.id ? parseNumber(row.id) : undefined,
+      tabPersistentId: row.tabPersistentId ?? '',
+      sessionId: row.sessionId ?? '',
+      url: row.url ?? '',
+      urlHash: row.urlHash ?? '',
+      title: row.title ?? '',
+      navigatedAt: parseTime(row.navigatedAt) ?? 0,
+      leftAt: parseTime(row.leftAt),
+      dwellTime: parseNumber(row.dwellTimeSeconds) * 1000,
+      previousNavigationId: row.previousNavigationId ? parseNumber(row.previousNavigationId) : null,
+      windowPersistentId: row.windowPersistentId ?? '',
+    };
+  }
+
+  private relationshipFromCSV(row: CSVRow): TabRelationship {
+    return {
+      sourceTabPersistentId: row.sourceTabPersistentId ?? '',
+      targetTabPersistentId: row.targetTabPersistentId ?? '',
+      relationshipType: (row.relationshipType || 'temporal') as RelationshipType,
+      createdAt: parseTime(row.createdAt) ?? 0,
+      strength: parseNumber(row.strength),
+      metadata: {},
+    };
+  }
+
+  private tagFromCSV(row: CSVRow, exportedAt: number): Tag {
+    // The parent column is informational - the name is the path
+    const name = row.name ?? '';
+    return {
+      name,
+      parent: parentTagName(name),
+      aliases: parseList(row.aliases),
+      color: row.color || '#6366f1',
+      createdAt: parseTime(row.createdAt) ?? exportedAt,
+      usageCount: parseNumber(row.usageCount),
+    };
+  }
+
+  // ============================================
+  // Merge (background context)
+  // ============================================
+
+  /**
+   * Merge parsed export data into the database
+   *
+   * - Records already present locally are skipped (local data wins on conflict)
+   * - Persistent IDs that collide with a different local entity are remapped
+   * - Imported sessions are never made active, and imported tabs/windows are
+   *   marked closed since they do not exist in this browser
+   */
+  async importData(data: ExportData): Promise<ImportReport> {
+    assertSupportedVersion(data?.manifest?.version);
+
+    const db = getDatabase();
+    const closedAt = data.manifest.exportedAt || Date.now();
+
+    const report: ImportReport = {
+      manifestVersion: data.manifest.version,
+      sessions: emptyCounts(),
+      windows: emptyCounts(),
+      tabGroups: emptyCounts(),
+      tabs: emptyCounts(),
+      visits: emptyCounts(),
+      navigations: emptyCounts(),
+      relationships: emptyCounts(),
+      tags: emptyCounts(),
+      archives: emptyCounts(),
+      remappedIds: 0,
+      conflicts: [],
+    };
+
+    // Old persistent ID -> ID used locally
+    const windowIdMap = new Map<string, string>();
+    const groupIdMap = new Map<string, string>();
+    const tabIdMap = new Map<string, string>();
+    const mapWindow = (id: string) => windowIdMap.get(id) ?? id;
+    const mapGroup = (id: string) => groupIdMap.get(id) ?? id;
+    const mapGroupOrNull = (id: string | null) => (id ? mapGroup(id) : null);
+    const mapTab = (id: string) => tabIdMap.get(id) ?? id;
+    const mapTabOrNull = (id: string | null) => (id ? mapTab(id) : null);
+
+    await db.transaction(
+      'rw',
+      [
+        db.sessions,
+        db.windows,
+        db.tabGroups,
+        db.tabs,
+        db.tabVisits,
+        db.tabNavigations,
+        db.tabRelationships,
+        db.tags,
+        db.archivedSessions,
+      ],
+      async () => {
+        // Sessions
+        for (const session of data.sessions) {
+          const existing = await db.sessions.get(session.id);
+          if (!existing) {
+            await db.sessions.add({
+              ...session,
+              // Exports from before the tag vocabulary carry free-form tags
+              tags: normalizeTags(session.tags ?? []),
+              isNamedByUser: session.isNamedByUser ?? false,
+              isActive: false,
+              endedAt: session.endedAt ?? closedAt,
+            });
+            report.sessions.added++;
+          } else if (existing.updatedAt === session.updatedAt) {
+            report.sessions.skipped++;
+          } else {
+            report.sessions.conflicted++;
+            report.conflicts.push(`Session "${existing.name}" differs from the imported copy; kept local version`);
+          }
+        }
+
+        // Windows - resolve IDs before writing so tabs can follow remaps
+        const windowsToAdd: TrackedWindow[] = [];
+        for (const window of data.windows) {
+          const existing = await db.windows.where('persistentId').equals(window.persistentId).first();
+          if (existing && existing.createdAt === window.createdAt) {
+            report.windows.skipped++;
+            continue;
+          }
+          if (existing) {
+            windowIdMap.set(window.persistentId, generateUUID());
+            report.remappedIds++;
+          }
+          windowsToAdd.push(window);
+        }
+
+        // Tab groups - resolved like windows so tabs can follow remaps
+        const groupsToAdd: TrackedTabGroup[] = [];
+        for (const group of data.tabGroups || []) {
+          const existing = await db.tabGroups.where('persistentId').equals(group.persistentId).first();
+          if (existing && existing.createdAt === group.createdAt) {
+            report.tabGroups.skipped++;
+            continue;
+          }
+          if (existing) {
+            groupIdMap.set(group.persistentId, generateUUID());
+            report.remappedIds++;
+          }
+          groupsToAdd.push(group);
+        }
+
+        // Tabs - resolve every ID first so opener links can be remapped
+        const tabsToAdd: TrackedTab[] = [];
+        for (const tab of data.tabs) {
+          const existing = await db.tabs.where('persistentId').equals(tab.persistentId).first();
+          if (existing && existing.createdAt === tab.createdAt) {
+            await this.mergeTabMetadata(existing, tab, report);
+            continue;
+          }
+          if (existing) {
+            tabIdMap.set(tab.persistentId, generateUUID());
+            report.remappedIds++;
+          }
+          tabsToAdd.push(tab);
+        }
+
+        for (const { id: _id, ...window } of windowsToAdd) {
+          await db.windows.add({
+            ...window,
+            persistentId: mapWindow(window.persistentId),
+            activeTabPersistentId: mapTabOrNull(window.activeTabPersistentId),
+            closedAt: window.closedAt ?? closedAt,
+          });
+          report.windows.added++;
+        }
+
+        for (const { id: _id, ...group } of groupsToAdd) {
+          await db.tabGroups.add({
+            ...group,
+            persistentId: mapGroup(group.persistentId),
+            windowPersistentId: mapWindow(group.windowPersistentId),
+            closedAt: group.closedAt ?? closedAt,
+          });
+          report.tabGroups.added++;
+        }
+
+        for (const { id: _id, ...tab } of tabsToAdd) {
+          await db.tabs.add({
+            ...tab,
+            persistentId: mapTab(tab.persistentId),
+            tags: normalizeTags(tab.tags ?? []),
+            windowPersistentId: mapWindow(tab.windowPersistentId),
+            openerPersistentId: mapTabOrNull(tab.openerPersistentId),
+            // Exports from before group tracking carry no group link
+            groupPersistentId: mapGroupOrNull(tab.groupPersistentId ?? null),
+            closedAt: tab.closedAt ?? closedAt,
+          });
+          report.tabs.added++;
+        }
+
+        // Visits - deduplicated by tab and activation time
+        for (const { id: _id, ...visit } of data.visits || []) {
+          const tabPersistentId = mapTab(visit.tabPersistentId);
+          const exists = await db.tabVisits
+            .where('[tabPersistentId+activatedAt]')
+            .equals([tabPersistentId, visit.activatedAt])
+            .count();
+          if (exists > 0) {
+            report.visits.skipped++;
+            continue;
+          }
+          await db.tabVisits.add({
+            ...visit,
+            // Exports from before away tracking carry no away time
+            awayDuration: visit.awayDuration ?? 0,
+            tabPersistentId,
+            windowPersistentId: mapWindow(visit.windowPersistentId),
+            fromTabPersistentId: mapTabOrNull(visit.fromTabPersistentId),
+          });
+          report.visits.added++;
+        }
+
+        // Navigations - oldest first so previous links can follow new IDs
+        const navigationIdMap = new Map<number, number>();
+        const navigations = [...(data.navigations || [])].sort(
+          (a, b) => a.navigatedAt - b.navigatedAt
+        );
+        for (const { id: oldId, ...navigation } of navigations) {
+          const tabPersistentId = mapTab(navigation.tabPersistentId);
+          const existing = await db.tabNavigations
+            .where('[tabPersistentId+navigatedAt]')
+            .equals([tabPersistentId, navigation.navigatedAt])
+            .first();
+          if (existing) {
+            if (oldId !== undefined && existing.id !== undefined) {
+              navigationIdMap.set(oldId, existing.id);
+            }
+            report.navigations.skipped++;
+            continue;
+          }
+          const previous = navigation.previousNavigationId;
+          const newId = await db.tabNavigations.add({
+            ...navigation,
+            tabPersistentId,
+            windowPersistentId: mapWindow(navigation.windowPersistentId),
+            previousNavigationId: previous !== null ? navigationIdMap.get(previous) ?? null : null,
+          });
+          if (oldId !== undefined) {
+            navigationIdMap.set(oldId, newId);
+          }
+          report.navigations.added++;
+        }
+
+        // Relationships - deduplicated by endpoints and type
+        for (const { id: _id, ...relationship } of data.relationships || []) {
+          const source = mapTab(relationship.sourceTabPersistentId);
+          const target = mapTab(relationship.targetTabPersistentId);
+          const existing = await db.tabRelationships
+            .where('[sourceTabPersistentId+relationshipType]')
+            .equals([source, relationship.relationshipType])
+            .filter((r) => r.targetTabPersistentId === target)
+            .first();
+          if (existing) {
+            report.relationships.skipped++;
+            continue;
+          }
+          await db.tabRelationships.add({
+            ...relationship,
+            sourceTabPersistentId: source,
+            targetTabPersistentId: target,
+          });
+          report.relationships.added++;
+        }
+
+        // Tags - unique by name. Exports before 1.3.0 have no hierarchy or
+        // aliases; aliases already used here are dropped
+        for (const { id: _id, ...tag } of data.tags || []) {
+          const existing = await db.tags.where('name').equals(tag.name).first();
+          if (!existing) {
+            const aliases: string[] = [];
+            for (const alias of tag.aliases ?? []) {
+              const taken = await db.tags.where('name').equals(alias).or('aliases').equals(alias).count();
+              if (!taken) aliases.push(alias);
+            }
+            await db.tags.add({ ...tag, parent: parentTagName(tag.name), aliases });
+            report.tags.added++;
+          } else if (existing.color === tag.color) {
+            report.tags.skipped++;
+          } else {
+            report.tags.conflicted++;
+            report.conflicts.push(`Tag "${tag.name}" has a different color locally; kept local color`);
+          }
+        }
+
+        // Archives - skipped when the session is stored in full here
+        for (const archive of data.archives || []) {
+          const existing = await db.archivedSessions.get(archive.id);
+          if (!existing && !(await db.sessions.get(archive.id))) {
+            await db.archivedSessions.add(archive);
+            report.archives.added++;
+          } else if (!existing || existing.archivedAt === archive.archivedAt) {
+            report.archives.skipped++;
+          } else {
+            report.archives.conflicted++;
+            report.conflicts.push(`Archive of "${existing.name}" differs from the imported copy; kept local version`);
+          }
+        }
+      }
+    );
+
+    console.log('[ImportService] Import complete:', report);
+    return report;
+  }
+
+  /**
+   * Merge metadata of an imported tab into the matching local tab
+   * Tags are unioned; notes are only filled in when the local tab has none
+   */
+  private async mergeTabMetadata(
+    existing: TrackedTab,
+    imported: TrackedTab,
+    report: ImportReport
+  ): Promise<void> {
+    const db = getDatabase();
+    const tags = normalizeTags([...existing.tags, ...imported.tags]);
+    const updates: Partial<TrackedTab> = {};
+
+    if (tags.length !== existing.tags.length) {
+      updates.tags = tags;
+    }
+
+    if (imported.notes && !existing.notes) {
+      updates.notes = imported.notes;
+    }
+
+    if (Object.keys(updates).length > 0) {
+      await db.tabs.update(existing.id!, { ...updates, updatedAt: Date.now() });
+    }
+
+    if (imported.notes && existing.notes && existing.notes !== imported.notes) {
+      report.tabs.conflicted++;
+      report.conflicts.push(`Notes for "${existing.title || existing.url}" differ; kept local notes`);
+    } else {
+      report.tabs.skipped++;
+    }
+  }
+}
+
+// Singleton instance
+let importService: ImportService | null = null;
+
+/**
+ * Get the ImportService singleton
+ */
+export function getImportService(): ImportService {
+  if (!importService) {
+    importService = new ImportService();
+  }
+  return importService;
+}
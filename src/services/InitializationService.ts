@@ -1,7 +1,10 @@
 import { getDatabase } from '../db/schema';
 import { getStorageManager } from './StorageManager';
+import { getTabGroupTracker } from './TabGroupTracker';
+import { getSessionPolicyService } from './SessionPolicyService';
+import { getSessionSummaryService } from './SessionSummaryService';
+import { getRetentionService } from './RetentionService';
 import { generateUUID } from '../utils/uuid';
-import { calculateSessionExpiry } from '../constants';
 import type { Session, TrackedWindow, TrackedTab } from '../db/types';
 import { hashUrl } from '../utils/hash';
 
@@ -84,42 +87,35 @@ export class InitializationService {
   private async ensureSession(): Promise<Session> {
     const db = getDatabase();
     const now = Date.now();
-    const oneHourAgo = now - 60 * 60 * 1000;
 
-    // Find all active sessions sorted by start time (most recent first)
-    const activeSessions = await db.sessions
-      .where('isActive')
-      .equals(1)
-      .reverse()
-      .sortBy('startedAt');
+    // Active sessions, oldest first - filtered in JS because isActive is a
+    // boolean, which never enters the isActive index
+    const activeSessions = (await db.sessions.filter((s) => s.isActive).toArray()).sort(
+      (a, b) => a.startedAt - b.startedAt
+    );
 
     const mostRecentSession = activeSessions.length > 0 ? activeSessions[activeSessions.length - 1] : null;
+    const continuing =
+      mostRecentSession && (await getSessionPolicyService().continuesAfterRestart(mostRecentSession, now))
+        ? mostRecentSession
+        : null;
 
-    // Continue recent session if < 1 hour old
-    if (mostRecentSession && mostRecentSession.startedAt > oneHourAgo) {
-      console.log('[Init] Continuing recent session:', mostRecentSession.id);
-
-      // Mark all OTHER sessions as inactive
-      for (const session of activeSessions) {
-        if (session.id !== mostRecentSession.id) {
-          await db.sessions.update(session.id, {
-            isActive: false,
-            endedAt: now,
-            updatedAt: now,
-          });
-        }
+    // End every other session where it was last used, not now
+    for (const session of activeSessions) {
+      if (session.id !== continuing?.id) {
+        await db.sessions.update(session.id, {
+          isActive: false,
+          endedAt: session.updatedAt,
+          updatedAt: now,
+        });
+        await getSessionSummaryService().summarize(session.id);
       }
-
-      return mostRecentSession;
     }
 
-    // End all active sessions (they're all too old)
-    for (const session of activeSessions) {
-      await db.sessions.update(session.id, {
-        isActive: false,
-        endedAt: now,
-        updatedAt: now,
-      });
+    // Continue the most recent session unless the session policy starts a new one
+    if (continuing) {
+      console.log('[Init] Continuing recent session:', continuing.id);
+      return continuing;
     }
 
     // Create new session
@@ -127,6 +123,7 @@ export class InitializationService {
       id: generateUUID(),
       name: `Session ${new Date(now).toLocaleString()}`,
       description: '',
+      isNamedByUser: false,
       startedAt: now,
       endedAt: null,
       isActive: true,
@@ -134,7 +131,7 @@ export class InitializationService {
       windowCount: 0,
       tabCount: 0,
       totalActiveTime: 0,
-      expiresAt: calculateSessionExpiry(now),
+      expiresAt: await getRetentionService().getSessionExpiry(now),
       tags: [],
       customMetadata: {},
       createdAt: now,
@@ -159,10 +156,15 @@ export class InitializationService {
     const db = getDatabase();
     const storageManager = getStorageManager();
     const windows = await chrome.windows.getAll({ populate: true });
+    // Populated windows carry tabs but not their groups
+    const groups = await chrome.tabGroups.query({});
+    const tabGroupTracker = getTabGroupTracker();
+    const { perWindow } = await getSessionPolicyService().getPolicy();
 
-    console.log(`[Init] Found ${windows.length} Chrome windows`);
+    console.log(`[Init] Found ${windows.length} Chrome windows and ${groups.length} tab groups`);
 
     let totalTabs = 0;
+    const openGroupIds = new Set<string>();
 
     for (const chromeWindow of windows) {
       // Create window record
@@ -172,6 +174,17 @@ export class InitializationService {
       // Map Chrome window ID to persistent ID
       storageManager.setChromeWindowId(chromeWindow.id!, windowRecord.persistentId);
 
+      // Under per-window sessions the windows open at startup share the startup session
+      if (perWindow) {
+        storageManager.setWindowSession(windowRecord.persistentId, sessionId);
+      }
+
+      // Reconcile the window's groups before its tabs so tabs can link to them
+      for (const group of groups.filter((g) => g.windowId === chromeWindow.id)) {
+        const groupRecord = await tabGroupTracker.reconcileGroup(group, sessionId, windowRecord.persistentId);
+        openGroupIds.add(groupRecord.persistentId);
+      }
+
       // Create or reuse tab records
       const tabs = chromeWindow.tabs || [];
       for (const chromeTab of tabs) {
@@ -184,7 +197,13 @@ export class InitializationService {
       }
     }
 
-    console.log(`[Init] Reconciled ${windows.length} windows and ${totalTabs} tabs`);
+    // Groups left open by an earlier run no longer exist
+    const closedGroups = await tabGroupTracker.closeStaleGroups(openGroupIds);
+
+    console.log(
+      `[Init] Reconciled ${windows.length} windows, ${openGroupIds.size} groups and ${totalTabs} tabs ` +
+        `(closed ${closedGroups} stale groups)`
+    );
 
     // Update session counts
     await db.sessions.update(sessionId, {
@@ -269,6 +288,8 @@ export class InitializationService {
     const now = Date.now();
     const url = chromeTab.url || chromeTab.pendingUrl || '';
     const urlHash = await hashUrl(url);
+    const groupId = chromeTab.groupId ?? -1;
+    const groupPersistentId = getStorageManager().getPersistentGroupId(groupId) ?? null;
 
     // Try to find existing tab
     const existingTab = await this.findExistingTabByUrl(urlHash, sessionId);
@@ -289,6 +310,8 @@ export class InitializationService {
         status: chromeTab.status || 'complete',
         pinned: chromeTab.pinned,
         index: chromeTab.index,
+        groupId,
+        groupPersistentId,
         updatedAt: now,
       });
 
@@ -309,7 +332,8 @@ export class InitializationService {
         status: chromeTab.status || 'complete',
         pinned: chromeTab.pinned,
         index: chromeTab.index,
-        groupId: chromeTab.groupId ?? -1,
+        groupId,
+        groupPersistentId,
         openerPersistentId: null,
         createdAt: now,
         lastActivatedAt: chromeTab.active ? now : 0,
@@ -353,6 +377,7 @@ export class InitializationService {
       pinned: chromeTab.pinned,
       index: chromeTab.index,
       groupId: chromeTab.groupId ?? -1,
+      groupPersistentId: getStorageManager().getPersistentGroupId(chromeTab.groupId ?? -1) ?? null,
       openerPersistentId: null,
       createdAt: now,
       lastActivatedAt: chromeTab.active ? now : 0,
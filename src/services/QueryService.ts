@@ -0,0 +1,196 @@
+import type { Collection } from 'dexie';
+import { getDatabase } from '../db/schema';
+import type { TrackedTab, SavedSearch } from '../db/types';
+import { getStorageManager, type StorageManager } from './StorageManager';
+import { getTagService, type TagService } from './TagService';
+import {
+  parseQuery,
+  resolveDateRange,
+  matchesClause,
+  clauseTag,
+  planGroup,
+  rangeBounds,
+  type ParsedQuery,
+  type QueryClause,
+  type QueryContext,
+  type QuerySeed,
+} from '../query';
+
+/**
+ * Query options
+ */
+export interface QueryOptions {
+  /** Maximum number of tabs to return (default: unlimited) */
+  limit?: number;
+}
+
+/**
+ * QueryService - Evaluates query-language strings against tracked tabs
+ *
+ * Each OR group is seeded from the most selective index its clauses allow
+ * (session, tag, visit time, closed/created time), then filtered in memory
+ * with the same matcher the popup uses. tag: clauses resolve aliases and
+ * also match the tags nested under the tag.
+ */
+export class QueryService {
+  private storageManager: StorageManager;
+  private tagService: TagService;
+
+  constructor(storageManager?: StorageManager, tagService?: TagService) {
+    this.storageManager = storageManager || getStorageManager();
+    this.tagService = tagService || getTagService();
+  }
+
+  /**
+   * Run a query and return matching tabs, most recently active first
+   * Throws QuerySyntaxError for invalid queries
+   */
+  async run(source: string, options: QueryOptions = {}): Promise<TrackedTab[]> {
+    const parsed = parseQuery(source);
+    const context = await this.createContext(parsed);
+    const matches = new Map<string, TrackedTab>();
+
+    for (const group of parsed.groups) {
+      const seed = planGroup(group);
+      const tabs = await this.seedCollection(seed, context)
+        .filter((tab) => group.every((clause) => matchesClause(tab, clause, context)))
+        .toArray();
+
+      for (const tab of tabs) {
+        matches.set(tab.persistentId, tab);
+      }
+    }
+
+    return [...matches.values()]
+      .sort((a, b) => (b.lastActivatedAt || b.createdAt) - (a.lastActivatedAt || a.createdAt))
+      .slice(0, options.limit ?? Infinity);
+  }
+
+  /**
+   * Build the evaluation context, resolving visited: clauses from the visit
+   * index and loading tag aliases for tag: clauses
+   */
+  private async createContext(parsed: ParsedQuery): Promise<QueryContext> {
+    const context: QueryContext = {
+      now: Date.now(),
+      currentSessionId: this.storageManager.getCurrentSessionId(),
+      visitedTabIds: new Map(),
+    };
+
+    for (const clause of parsed.groups.flat()) {
+      if (clause.field === 'visited') {
+        context.visitedTabIds!.set(clause, await this.tabsVisited(clause, context.now));
+      }
+    }
+    if (parsed.groups.flat().some((clause) => clause.field === 'tag')) {
+      context.tagAliases = await this.tagService.getAliases();
+    }
+
+    return context;
+  }
+
+  /**
+   * Tabs with at least one visit matching a visited: clause
+   */
+  private async tabsVisited(clause: QueryClause, now: number): Promise<Set<string>> {
+    const db = getDatabase();
+    const range = resolveDateRange(clause.value, now);
+    if (!range) return new Set();
+
+    const { lower, upper, lowerOpen, upperOpen } = rangeBounds(clause.operator, range);
+    const visits = await db.tabVisits
+      .where('activatedAt')
+      .between(lower, upper, !lowerOpen, !upperOpen)
+      .toArray();
+
+    return new Set(visits.map((v) => v.tabPersistentId));
+  }
+
+  /**
+   * Turn a seed plan into a Dexie collection
+   */
+  private seedCollection(seed: QuerySeed, context: QueryContext): Collection<TrackedTab, number> {
+    const db = getDatabase();
+
+    switch (seed.index) {
+      case 'sessionId': {
+        const sessionId = seed.clause.value === 'current' ? context.currentSessionId : seed.clause.value;
+        return db.tabs.where('sessionId').equals(sessionId ?? '');
+      }
+      case 'tags':
+        // Tags are stored lowercase (see normalizeTagName)
+        return this.tagService.tabsTagged([clauseTag(seed.clause, context)]);
+      case 'visits':
+        return db.tabs
+          .where('persistentId')
+          .anyOf([...(context.visitedTabIds?.get(seed.clause) ?? [])]);
+      case 'closedAt':
+      case 'createdAt': {
+        const range = resolveDateRange(seed.clause.value, context.now);
+        if (!range) return db.tabs.toCollection();
+        const { lower, upper, lowerOpen, upperOpen } = rangeBounds(seed.clause.operator, range);
+        return db.tabs.where(seed.index).between(lower, upper, !lowerOpen, !upperOpen);
+      }
+      default:
+        return db.tabs.toCollection();
+    }
+  }
+
+  // ============================================
+  // Saved Searches
+  // ============================================
+
+  /**
+   * Get saved searches, most recently updated first
+   */
+  async getSavedSearches(): Promise<SavedSearch[]> {
+    const db = getDatabase();
+    return db.savedSearches.orderBy('updatedAt').reverse().toArray();
+  }
+
+  /**
+   * Save a search, replacing any existing search with the same name
+   * Throws QuerySyntaxError for invalid queries
+   */
+  async saveSearch(name: string, query: string): Promise<SavedSearch> {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      throw new Error('Saved search needs a name');
+    }
+    parseQuery(query);
+
+    const db = getDatabase();
+    const now = Date.now();
+    const existing = await db.savedSearches.where('name').equals(trimmedName).first();
+
+    if (existing) {
+      await db.savedSearches.update(existing.id!, { query, updatedAt: now });
+      return { ...existing, query, updatedAt: now };
+    }
+
+    const search: SavedSearch = { name: trimmedName, query, createdAt: now, updatedAt: now };
+    search.id = await db.savedSearches.add(search);
+    return search;
+  }
+
+  /**
+   * Delete a saved search
+   */
+  async deleteSavedSearch(id: number): Promise<void> {
+    const db = getDatabase();
+    await db.savedSearches.delete(id);
+  }
+}
+
+// Singleton instance
+let queryService: QueryService | null = null;
+
+/**
+ * Get the QueryService singleton
+ */
+export function getQueryService(): QueryService {
+  if (!queryService) {
+    queryService = new QueryService();
+  }
+  return queryService;
+}
@@ -1,7 +1,8 @@
 import { getDatabase } from '../db/schema';
 import type { TabRelationship, TrackedTab } from '../db/types';
 import { getStorageManager, type StorageManager } from './StorageManager';
-import { RETENTION, calculateTemporalStrength } from '../constants';
+import { getSettingsService, type SettingsService } from './SettingsService';
+import { calculateTemporalStrength } from '../constants';
 
 /**
  * RelationshipManager - Tracks connections between tabs
@@ -9,13 +10,15 @@ import { RETENTION, calculateTemporalStrength } from '../constants';
  * Relationship types:
  * - opener: Parent-child relationship (which tab opened which)
  * - sibling: Tabs that coexisted in the same window at creation time
- * - temporal: Tabs created within a 10-minute window
+ * - temporal: Tabs created within the temporal proximity window (10 minutes by default)
  */
 export class RelationshipManager {
   private storageManager: StorageManager;
+  private settingsService: SettingsService;
 
-  constructor(storageManager?: StorageManager) {
+  constructor(storageManager?: StorageManager, settingsService?: SettingsService) {
     this.storageManager = storageManager || getStorageManager();
+    this.settingsService = settingsService || getSettingsService();
   }
 
   /**
@@ -101,7 +104,8 @@ export class RelationshipManager {
    */
   async recalculateTemporalRelationships(): Promise<void> {
     const db = getDatabase();
-    const temporalWindowMs = RETENTION.TEMPORAL_PROXIMITY_MINUTES * 60 * 1000;
+    const { relationships } = await this.settingsService.getSettings();
+    const temporalWindowMs = relationships.temporalProximityMinutes * 60 * 1000;
 
     // Get tabs created in the last hour (for efficiency)
     const oneHourAgo = Date.now() - 60 * 60 * 1000;
@@ -139,7 +143,7 @@ export class RelationshipManager {
           .first();
 
         if (!existing) {
-          const strength = calculateTemporalStrength(timeDiff);
+          const strength = calculateTemporalStrength(timeDiff, relationships.temporalProximityMinutes);
 
           newRelationships.push({
             sourceTabPersistentId: tab.persistentId,
@@ -293,7 +297,7 @@ export class RelationshipManager {
    */
   async pruneWeakRelationships(): Promise<number> {
     const db = getDatabase();
-    const threshold = RETENTION.WEAK_RELATIONSHIP_THRESHOLD;
+    const threshold = (await this.settingsService.getSettings()).relationships.weakRelationshipThreshold;
 
     // Delete temporal relationships below threshold
     const deleted = await db.tabRelationships
@@ -0,0 +1,493 @@
+import { getDatabase } from '../db/schema';
+import type {
+  ActivityReport,
+  ReportPeriod,
+  ReportSettings,
+  ReportDay,
+  ReportTab,
+  TabVisit,
+  WindowFocusEvent,
+} from '../db/types';
+import { REPORTS } from '../constants';
+import { getDomain } from '../utils/hash';
+import { getDayStart, addDays } from '../utils/time';
+import { SettingsService, getSettingsService } from './SettingsService';
+
+/** Every report period, shortest first */
+export const REPORT_PERIODS: ReportPeriod[] = ['daily', 'weekly'];
+
+/** The setting holding how many scheduled reports of a period to keep */
+const KEPT_SETTINGS: Record<ReportPeriod, keyof ReportSettings> = {
+  daily: 'dailyReportsKept',
+  weekly: 'weeklyReportsKept',
+};
+
+/**
+ * The day or week a report of a period covers
+ */
+export interface ReportRange {
+  /** Start of the first day */
+  from: number;
+  /** Start of the day after the last */
+  to: number;
+}
+
+/**
+ * The day, or the week starting on weekStartsOn (0 is Sunday), holding a moment
+ */
+export function getReportRange(period: ReportPeriod, date: number, weekStartsOn: number): ReportRange {
+  const day = getDayStart(date, 0);
+  if (period === 'daily') {
+    return { from: day, to: addDays(day, 1) };
+  }
+  const from = addDays(day, -((new Date(day).getDay() - weekStartsOn + 7) % 7));
+  return { from, to: addDays(from, 7) };
+}
+
+/**
+ * Time a visit was read: active time less time away, up to `until` for a visit still open
+ */
+function readingTime(visit: TabVisit, until: number): number {
+  const duration = visit.deactivatedAt === null ? until - visit.activatedAt : visit.duration;
+  return Math.max(0, duration - visit.awayDuration);
+}
+
+/**
+ * Part of a focus event between two moments
+ */
+function focusWithin(event: WindowFocusEvent, from: number, to: number, now: number): number {
+  const end = event.unfocusedAt ?? now;
+  return Math.max(0, Math.min(end, to) - Math.max(event.focusedAt, from));
+}
+
+/**
+ * Add to a tally entry, creating it first
+ */
+function tally<T>(entries: Map<string, T>, key: string, create: () => T, update: (entry: T) => void): void {
+  const entry = entries.get(key) ?? create();
+  update(entry);
+  entries.set(key, entry);
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+function formatDay(day: number): string {
+  return new Date(day).toLocaleDateString(undefined, {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  });
+}
+
+function formatClock(time: number): string {
+  return new Date(time).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+}
+
+/**
+ * "Daily report - Mon, 11 Mar 2024" or "Weekly report - Mon, 11 Mar 2024 to Sun, 17 Mar 2024"
+ */
+export function getReportTitle(report: Pick<ActivityReport, 'period' | 'from' | 'to'>): string {
+  if (report.period === 'daily') {
+    return `Daily report - ${formatDay(report.from)}`;
+  }
+  return `Weekly report - ${formatDay(report.from)} to ${formatDay(addDays(report.to, -1))}`;
+}
+
+/**
+ * Only web pages are linked - other schemes could run script when opened from an export
+ */
+function isLinkable(url: string): boolean {
+  return /^https?:\/\//i.test(url);
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_[\]|<>#]/g, '\\$&').replace(/\s+/g, ' ');
+}
+
+function markdownLink(title: string, url: string): string {
+  const text = escapeMarkdown(title || url);
+  return isLinkable(url) ? `[${text}](<${url.replace(/[<>|]/g, encodeURIComponent)}>)` : text;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function htmlLink(title: string, url: string): string {
+  const text = escapeHtml(title || url);
+  return isLinkable(url) ? `<a href="${escapeHtml(url)}">${text}</a>` : text;
+}
+
+/**
+ * A report's sections as rows, shared by the Markdown and HTML renderers
+ * Cells are plain text unless the renderer's link function made them
+ */
+function reportSections(
+  report: ActivityReport,
+  link: (title: string, url: string) => string,
+  escape: (text: string) => string
+): { heading: string; columns: string[]; rows: string[][]; empty: string }[] {
+  const sessionTimes = (startedAt: number, endedAt: number | null) =>
+    `${formatClock(startedAt)} - ${endedAt === null ? 'running' : formatClock(endedAt)}`;
+
+  const sections = [
+    {
+      heading: 'Top sites',
+      columns: ['Site', 'Time', 'Visits'],
+      rows: report.topDomains.map((d) => [escape(d.domain), formatDuration(d.activeTime), `${d.visitCount}`]),
+      empty: 'No sites visited',
+    },
+    {
+      heading: 'Top tags',
+      columns: ['Tag', 'Time', 'Tabs'],
+      rows: report.topTags.map((t) => [escape(t.tag), formatDuration(t.activeTime), `${t.tabCount}`]),
+      empty: 'No tagged tabs visited',
+    },
+    {
+      heading: 'Most switched-to tabs',
+      columns: ['Tab', 'Switches', 'Time'],
+      rows: report.mostSwitchedTabs.map((t) => [
+        link(t.title, t.url),
+        `${t.switchCount}`,
+        formatDuration(t.activeTime),
+      ]),
+      empty: 'No tabs visited',
+    },
+    {
+      heading: 'Sessions',
+      columns: ['Session', 'Started', 'Times', 'Time'],
+      rows: report.sessions.map((s) => [
+        escape(s.name),
+        formatDay(s.startedAt),
+        sessionTimes(s.startedAt, s.endedAt),
+        formatDuration(s.activeTime),
+      ]),
+      empty: 'No sessions',
+    },
+    {
+      heading: 'Newly saved tabs',
+      columns: ['Tab', 'Saved', 'Tags'],
+      rows: report.newSavedTabs.map((t) => [
+        link(t.title, t.url),
+        `${formatDay(t.savedAt)} ${formatClock(t.savedAt)}`,
+        escape(t.tags.join(', ')),
+      ]),
+      empty: 'No tabs saved',
+    },
+  ];
+
+  if (report.period === 'weekly') {
+    sections.push({
+      heading: 'Days',
+      columns: ['Day', 'Active', 'Browser focus', 'Visits'],
+      rows: report.days.map((d) => [
+        formatDay(d.day),
+        formatDuration(d.activeTime),
+        formatDuration(d.focusTime),
+        `${d.visitCount}`,
+      ]),
+      empty: '',
+    });
+  }
+  return sections;
+}
+
+/**
+ * A report as Markdown, for notes and timesheets
+ */
+export function renderReportMarkdown(report: ActivityReport): string {
+  const lines = [
+    `# ${getReportTitle(report)}`,
+    '',
+    `**Active time:** ${formatDuration(report.activeTime)} · ` +
+      `**Browser focus:** ${formatDuration(report.focusTime)} · ` +
+      `**Visits:** ${report.visitCount}`,
+  ];
+
+  for (const section of reportSections(report, markdownLink, escapeMarkdown)) {
+    lines.push('', `## ${section.heading}`, '');
+    if (section.rows.length === 0) {
+      lines.push(`_${section.empty}_`);
+      continue;
+    }
+    lines.push(`| ${section.columns.join(' | ')} |`, `|${section.columns.map(() => ' --- |').join('')}`);
+    for (const row of section.rows) {
+      lines.push(`| ${row.join(' | ')} |`);
+    }
+  }
+
+  lines.push('', `_Generated ${formatDay(report.generatedAt)} ${formatClock(report.generatedAt)}_`, '');
+  return lines.join('\n');
+}
+
+/**
+ * A report as a standalone HTML page
+ */
+export function renderReportHtml(report: ActivityReport): string {
+  const title = escapeHtml(getReportTitle(report));
+  const body = reportSections(report, htmlLink, escapeHtml)
+    .map((section) => {
+      const content =
+        section.rows.length === 0
+          ? `<p class="empty">${section.empty}</p>`
+          : `<table><thead><tr>${section.columns.map((c) => `<th>${c}</th>`).join('')}</tr></thead><tbody>` +
+            section.rows.map((row) => `<tr>${row.map((cell) => `<td>${cell}</td>`).join('')}</tr>`).join('') +
+            '</tbody></table>';
+      return `<h2>${section.heading}</h2>${content}`;
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<base target="_blank">
+<title>${title}</title>
+<style>
+body { font: 14px/1.5 system-ui, sans-serif; color: #222; max-width: 760px; margin: 24px auto; padding: 0 16px; }
+h1 { font-size: 20px; } h2 { font-size: 16px; margin-top: 24px; }
+table { border-collapse: collapse; width: 100%; }
+th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid #ddd; }
+td { overflow-wrap: anywhere; }
+.totals span { margin-right: 16px; } .empty, .generated { color: #888; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<p class="totals"><span><b>Active time:</b> ${formatDuration(report.activeTime)}</span>` +
+    `<span><b>Browser focus:</b> ${formatDuration(report.focusTime)}</span>` +
+    `<span><b>Visits:</b> ${report.visitCount}</span></p>
+${body}
+<p class="generated">Generated ${formatDay(report.generatedAt)} ${formatClock(report.generatedAt)}</p>
+</body>
+</html>
+`;
+}
+
+/**
+ * ReportService - Daily and weekly activity reports
+ *
+ * A report covers one local day, or one week starting on the day the
+ * reports settings name. It is built from the visits that started in the
+ * period, the time browser windows had focus and the sessions that ran, and
+ * lists the busiest sites and tags, the tabs switched to most and the tabs
+ * saved. Reports of periods that have ended are stored; the report alarm
+ * generates the latest ones on its own and keeps as many as the settings say.
+ */
+export class ReportService {
+  private settingsService: SettingsService;
+
+  constructor(settingsService?: SettingsService) {
+    this.settingsService = settingsService || getSettingsService();
+  }
+
+  /**
+   * The report for the day or week holding a moment (default now)
+   * A stored report is returned as it was generated - retention may have
+   * pruned the visits it came from since - and any other is generated
+   */
+  async getReport(period: ReportPeriod, date: number = Date.now()): Promise<ActivityReport> {
+    const { reports: settings } = await this.settingsService.getSettings();
+    const { from } = getReportRange(period, date, settings.weekStartsOn);
+    return (await getDatabase().reports.get([period, from])) ?? this.generate(period, date);
+  }
+
+  /**
+   * Build the report for the day or week holding a moment (default now)
+   * Reports of periods that have ended with some activity are stored,
+   * replacing any earlier one
+   */
+  async generate(period: ReportPeriod, date: number = Date.now()): Promise<ActivityReport> {
+    const { reports: settings } = await this.settingsService.getSettings();
+    const { from, to } = getReportRange(period, date, settings.weekStartsOn);
+    const report = await this.build(period, from, to);
+
+    if (to <= report.generatedAt && report.visitCount > 0) {
+      await getDatabase().reports.put(report);
+    }
+    return report;
+  }
+
+  /**
+   * Stored reports, newest first, of one period or all of them
+   */
+  async listReports(period?: ReportPeriod): Promise<ActivityReport[]> {
+    const reports = await getDatabase().reports.toArray();
+    return reports
+      .filter((report) => !period || report.period === period)
+      .sort((a, b) => b.from - a.from || a.period.localeCompare(b.period));
+  }
+
+  /**
+   * Generate the reports of ended days and weeks not stored yet, then drop
+   * the oldest of each period over what the settings keep
+   * Goes back over as many periods as are kept, stopping at the first already
+   * stored; periods without visits get no report. Returns how many were generated
+   */
+  async runSchedule(now: number = Date.now()): Promise<number> {
+    const { reports: settings } = await this.settingsService.getSettings();
+    const db = getDatabase();
+    let generated = 0;
+
+    for (const period of REPORT_PERIODS) {
+      const kept = settings[KEPT_SETTINGS[period]];
+      if (kept === 0) continue;
+
+      let range = getReportRange(period, now, settings.weekStartsOn);
+      for (let i = 0; i < kept; i++) {
+        range = getReportRange(period, addDays(range.from, -1), settings.weekStartsOn);
+        if (await db.reports.get([period, range.from])) break;
+        // Skip building reports of days the browser was not used
+        if ((await db.tabVisits.where('activatedAt').between(range.from, range.to, true, false).count()) === 0) {
+          continue;
+        }
+
+        await db.reports.put(await this.build(period, range.from, range.to));
+        generated++;
+      }
+
+      const stale = (await this.listReports(period)).slice(kept);
+      await db.reports.bulkDelete(stale.map((report): [ReportPeriod, number] => [report.period, report.from]));
+    }
+
+    if (generated > 0) {
+      console.log(`[Reports] Generated ${generated} reports`);
+    }
+    return generated;
+  }
+
+  /**
+   * Gather a period's visits, focus time, sessions and saved tabs into a report
+   */
+  private async build(period: ReportPeriod, from: number, to: number): Promise<ActivityReport> {
+    const db = getDatabase();
+    const now = Date.now();
+    // Visits still open count up to the end of the period
+    const until = Math.min(now, to);
+
+    const [visits, focusEvents, sessions, savedTabs] = await Promise.all([
+      db.tabVisits.where('activatedAt').between(from, to, true, false).toArray(),
+      db.windowFocusEvents
+        .where('focusedAt')
+        .below(to)
+        .filter((event) => (event.unfocusedAt ?? now) > from)
+        .toArray(),
+      db.sessions
+        .where('startedAt')
+        .below(to)
+        .filter((session) => (session.endedAt ?? now) >= from)
+        .sortBy('startedAt'),
+      db.tabs
+        .filter((tab) => tab.isSaved && tab.savedAt !== undefined && tab.savedAt >= from && tab.savedAt < to)
+        .toArray(),
+    ]);
+    const tabs = await db.tabs
+      .where('persistentId')
+      .anyOf([...new Set(visits.map((visit) => visit.tabPersistentId))])
+      .toArray();
+    const tabsById = new Map(tabs.map((tab) => [tab.persistentId, tab]));
+
+    const domains = new Map<string, { domain: string; activeTime: number; visitCount: number }>();
+    const tags = new Map<string, { tag: string; activeTime: number; tabs: Set<string> }>();
+    const switched = new Map<string, ReportTab>();
+    const sessionTime = new Map<string, number>();
+    const days = new Map<number, ReportDay>();
+    for (let day = from; day < to; day = addDays(day, 1)) {
+      const dayEnd = addDays(day, 1);
+      const focusTime = focusEvents.reduce((sum, event) => sum + focusWithin(event, day, dayEnd, now), 0);
+      days.set(day, { day, activeTime: 0, focusTime, visitCount: 0 });
+    }
+
+    // Visits are in start order, so the last one read gives a tab's URL and title
+    for (const visit of visits) {
+      const time = readingTime(visit, until);
+      const domain = getDomain(visit.url);
+      if (domain) {
+        tally(domains, domain, () => ({ domain, activeTime: 0, visitCount: 0 }), (entry) => {
+          entry.activeTime += time;
+          entry.visitCount++;
+        });
+      }
+      for (const tag of tabsById.get(visit.tabPersistentId)?.tags ?? []) {
+        tally(tags, tag, () => ({ tag, activeTime: 0, tabs: new Set<string>() }), (entry) => {
+          entry.activeTime += time;
+          entry.tabs.add(visit.tabPersistentId);
+        });
+      }
+      tally(
+        switched,
+        visit.tabPersistentId,
+        () => ({ persistentId: visit.tabPersistentId, url: '', title: '', switchCount: 0, activeTime: 0 }),
+        (entry) => {
+          entry.url = visit.url;
+          entry.title = visit.title;
+          entry.switchCount++;
+          entry.activeTime += time;
+        }
+      );
+      sessionTime.set(visit.sessionId, (sessionTime.get(visit.sessionId) ?? 0) + time);
+      const day = days.get(getDayStart(visit.activatedAt, 0));
+      if (day) {
+        day.activeTime += time;
+        day.visitCount++;
+      }
+    }
+
+    const top = <T extends { activeTime: number }>(entries: Iterable<T>, tieBreak: (a: T, b: T) => number) =>
+      [...entries].sort((a, b) => b.activeTime - a.activeTime || tieBreak(a, b)).slice(0, REPORTS.TOP_ENTRIES);
+
+    return {
+      period,
+      from,
+      to,
+      generatedAt: now,
+      activeTime: visits.reduce((sum, visit) => sum + readingTime(visit, until), 0),
+      focusTime: [...days.values()].reduce((sum, day) => sum + day.focusTime, 0),
+      visitCount: visits.length,
+      topDomains: top(domains.values(), (a, b) => b.visitCount - a.visitCount),
+      topTags: top(tags.values(), (a, b) => b.tabs.size - a.tabs.size).map(({ tag, activeTime, tabs }) => ({
+        tag,
+        activeTime,
+        tabCount: tabs.size,
+      })),
+      mostSwitchedTabs: [...switched.values()]
+        .sort((a, b) => b.switchCount - a.switchCount || b.activeTime - a.activeTime)
+        .slice(0, REPORTS.TOP_ENTRIES),
+      sessions: sessions.map((session) => ({
+        id: session.id,
+        name: session.name,
+        startedAt: session.startedAt,
+        endedAt: session.endedAt,
+        activeTime: sessionTime.get(session.id) ?? 0,
+      })),
+      newSavedTabs: savedTabs
+        .sort((a, b) => a.savedAt! - b.savedAt!)
+        .map((tab) => ({
+          persistentId: tab.persistentId,
+          url: tab.url,
+          title: tab.title,
+          savedAt: tab.savedAt!,
+          tags: tab.tags,
+        })),
+      days: [...days.values()],
+    };
+  }
+}
+
+// Singleton instance
+let reportService: ReportService | null = null;
+
+/**
+ * Get the ReportService singleton
+ */
+export function getReportService(): ReportService {
+  if (!reportService) {
+    reportService = new ReportService();
+  }
+  return reportService;
+}
@@ -0,0 +1,479 @@
+import Dexie from 'dexie';
+import { getDatabase } from '../db/schema';
+import type {
+  Session,
+  TrackedTab,
+  TabVisit,
+  RetentionMatch,
+  RetentionPolicy,
+  RetentionRule,
+  RetentionSettings,
+} from '../db/types';
+import { calculateSessionExpiry } from '../constants';
+import { getDomain, matchesDomain } from '../utils/hash';
+import { isTagWithin } from '../utils/tags';
+import { getArchiveService, type ArchiveService } from './ArchiveService';
+import { getAnalyticsService, type AnalyticsService } from './AnalyticsService';
+import { getSettingsService, type SettingsService } from './SettingsService';
+import { ValidationError } from './errors';
+
+/** chrome.storage.local key the rules are stored under */
+const RULES_KEY = 'retentionRules';
+
+/** chrome.storage.local key the whole policy was stored under before the settings took it over */
+const LEGACY_POLICY_KEY = 'retentionPolicy';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * A session past its retention
+ */
+export interface ExpiredSession {
+  sessionId: string;
+  name: string;
+  /** When it expired */
+  expiredAt: number;
+  /** Index of the rule that set its retention, or null for the defaults */
+  rule: number | null;
+  /** Whether it was archived before being deleted */
+  archived: boolean;
+}
+
+/**
+ * What a retention run deleted - or, for a dry run, would delete
+ */
+export interface RetentionReport {
+  dryRun: boolean;
+  ranAt: number;
+  /** Sessions deleted with everything recorded in them (archived first if the policy says so) */
+  sessions: ExpiredSession[];
+  /** Expired sessions kept because a workspace draws from them */
+  keptForWorkspaces: string[];
+  /** Visits past their time to live */
+  expiredVisits: number;
+  /** Further visits dropped to bring tabs under the per-tab cap */
+  excessVisits: number;
+}
+
+/**
+ * What a record holds for matching against rules
+ */
+interface RuleSubject {
+  tags: string[];
+  domains: string[];
+  saved: boolean;
+  incognito: boolean;
+}
+
+/**
+ * Whether a record meets every condition of a rule
+ */
+export function matchesRetentionRule(match: RetentionMatch, subject: RuleSubject): boolean {
+  if (match.tag !== undefined && !subject.tags.some((tag) => isTagWithin(tag, match.tag!))) return false;
+  if (match.domain !== undefined && !subject.domains.some((d) => matchesDomain(d, match.domain!))) return false;
+  if (match.saved !== undefined && subject.saved !== match.saved) return false;
+  if (match.incognito !== undefined && subject.incognito !== match.incognito) return false;
+  return true;
+}
+
+/**
+ * The first rule of a kind that matches a record, with its index
+ */
+function findRule(
+  rules: RetentionRule[],
+  appliesTo: RetentionRule['appliesTo'],
+  subject: RuleSubject
+): { rule: RetentionRule; index: number } | null {
+  const index = rules.findIndex((r) => r.appliesTo === appliesTo && matchesRetentionRule(r.match, subject));
+  return index === -1 ? null : { rule: rules[index]!, index };
+}
+
+/**
+ * Records grouped by the session holding them
+ */
+function groupBySession<T extends { sessionId: string }>(records: T[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const record of records) {
+    const group = groups.get(record.sessionId) ?? [];
+    group.push(record);
+    groups.set(record.sessionId, group);
+  }
+  return groups;
+}
+
+/**
+ * RetentionService - Decides how long tracked data is kept and deletes the rest
+ *
+ * Default lifetimes for unsaved sessions and visit history, a cap on visits
+ * per tab and the archive switch are the `retention` settings. Rules by tag,
+ * domain, saved state and incognito that override them live in
+ * chrome.storage.local. The first matching rule wins; without one, saved
+ * sessions (and visits to saved tabs or in saved sessions) are kept forever.
+ * Running sessions and sessions a workspace draws from are never deleted.
+ * Unless the settings turn it off, an expired session is archived before it
+ * is deleted. Visits are rolled into the per-site analytics before any are
+ * deleted. A dry run reports what a run would delete without touching anything.
+ */
+export class RetentionService {
+  private archiveService: ArchiveService;
+  private analyticsService: AnalyticsService;
+  private settingsService: SettingsService;
+  private rules: RetentionRule[] | null = null;
+
+  constructor(archiveService?: ArchiveService, analyticsService?: AnalyticsService, settingsService?: SettingsService) {
+    this.archiveService = archiveService || getArchiveService();
+    this.analyticsService = analyticsService || getAnalyticsService();
+    this.settingsService = settingsService || getSettingsService();
+  }
+
+  /**
+   * Current settings with the rules that override them
+   */
+  async getPolicy(): Promise<RetentionPolicy> {
+    // Rules first, so an older stored policy has reached the settings
+    const rules = await this.getRules();
+    const { retention } = await this.settingsService.getSettings();
+    return { ...retention, rules };
+  }
+
+  /**
+   * Replace the rules
+   * Throws if a rule is malformed
+   */
+  async updateRules(rules: RetentionRule[]): Promise<RetentionPolicy> {
+    rules.forEach((rule, index) => this.validateRule(rule, index));
+
+    await chrome.storage.local.set({ [RULES_KEY]: rules });
+    this.rules = rules;
+
+    console.log('[Retention] Rules updated:', rules);
+    return this.getPolicy();
+  }
+
+  /**
+   * Move a policy stored before retention joined the settings - its lifetimes,
+   * cap and archive switch into the settings, its rules under their own key
+   * Does nothing once the old key is gone
+   */
+  async migrateStoredPolicy(): Promise<void> {
+    const stored = (await chrome.storage.local.get(LEGACY_POLICY_KEY))[LEGACY_POLICY_KEY] as
+      | Partial<RetentionPolicy>
+      | undefined;
+    if (!stored) return;
+
+    const { rules, sessionTtlDays, visitTtlDays, maxVisitsPerTab, archiveExpired } = stored;
+    const values = { sessionTtlDays, visitTtlDays, maxVisitsPerTab, archiveExpired };
+    const retention = Object.fromEntries(
+      Object.entries(values).filter(([, value]) => value !== undefined)
+    ) as Partial<RetentionSettings>;
+    try {
+      await this.settingsService.updateSettings({ retention });
+    } catch (err) {
+      console.warn('[Retention] Stored policy out of range, keeping the default lifetimes:', err);
+    }
+    if (rules) {
+      await chrome.storage.local.set({ [RULES_KEY]: rules });
+    }
+    await chrome.storage.local.remove(LEGACY_POLICY_KEY);
+    console.log('[Retention] Moved the stored policy into the settings');
+  }
+
+  /**
+   * Give the unsaved sessions already stored a new lifetime
+   * Call when the sessionTtlDays setting changes
+   */
+  async applySessionLifetime(sessionTtlDays: number): Promise<void> {
+    await getDatabase()
+      .sessions.filter((s) => !s.isSaved)
+      .modify((session) => {
+        session.expiresAt = calculateSessionExpiry(session.startedAt, sessionTtlDays);
+      });
+  }
+
+  /**
+   * Expiry to stamp on a new unsaved session
+   */
+  async getSessionExpiry(startedAt: number): Promise<number> {
+    return calculateSessionExpiry(startedAt, (await this.getPolicy()).sessionTtlDays);
+  }
+
+  /**
+   * Apply the policy: delete expired sessions, then visits past their
+   * lifetime, then the oldest visits of tabs over the cap
+   * With dryRun nothing is deleted; the report says what would be
+   */
+  async run(options: { dryRun?: boolean } = {}): Promise<RetentionReport> {
+    const dryRun = options.dryRun ?? false;
+    const now = Date.now();
+    const policy = await this.getPolicy();
+
+    const report: RetentionReport = {
+      dryRun,
+      ranAt: now,
+      sessions: [],
+      keptForWorkspaces: [],
+      expiredVisits: 0,
+      excessVisits: 0,
+    };
+
+    if (!dryRun) {
+      await this.analyticsService.refresh();
+    }
+    await this.expireSessions(policy, now, dryRun, report);
+    const deletedSessionIds = new Set(report.sessions.map((s) => s.sessionId));
+    await this.expireVisits(policy, now, dryRun, deletedSessionIds, report);
+
+    const verb = dryRun ? 'Would delete' : 'Deleted';
+    const visits = `${report.expiredVisits} expired and ${report.excessVisits} excess visits`;
+    console.log(`[Retention] ${verb} ${report.sessions.length} sessions, ${visits}`);
+    return report;
+  }
+
+  /**
+   * Find (and unless dry-running, delete) the sessions past their retention
+   */
+  private async expireSessions(
+    policy: RetentionPolicy,
+    now: number,
+    dryRun: boolean,
+    report: RetentionReport
+  ): Promise<void> {
+    const db = getDatabase();
+
+    // Windows and tabs referenced by workspaces
+    const workspaces = await db.workspaces.toArray();
+    const workspaceTabIds = new Set(workspaces.flatMap((w) => w.tabPersistentIds));
+    const workspaceWindowIds = new Set(
+      workspaces.flatMap((w) => w.windows.map((window) => window.windowPersistentId))
+    );
+
+    // Only sessions past their expiry, or started long enough ago for a rule to expire them
+    const candidateIds = new Set(await db.sessions.where('expiresAt').belowOrEqual(now).primaryKeys());
+    const ruleDays = policy.rules
+      .filter((r) => r.appliesTo === 'sessions' && r.keepDays !== null)
+      .map((r) => r.keepDays!);
+    if (ruleDays.length > 0) {
+      const startedBy = now - Math.min(...ruleDays) * DAY;
+      for (const id of await db.sessions.where('startedAt').belowOrEqual(startedBy).primaryKeys()) {
+        candidateIds.add(id);
+      }
+    }
+
+    // Filtered in JS - isActive is a boolean, which never enters the isActive index
+    const endedSessions = (await db.sessions.bulkGet([...candidateIds].sort())).filter(
+      (s): s is Session => s !== undefined && !s.isActive
+    );
+    const endedIds = endedSessions.map((s) => s.id);
+    const tabsBySession = groupBySession(await db.tabs.where('sessionId').anyOf(endedIds).toArray());
+    const windowsBySession = groupBySession(await db.windows.where('sessionId').anyOf(endedIds).toArray());
+
+    for (const session of endedSessions) {
+      const tabs = tabsBySession.get(session.id) ?? [];
+      const windows = windowsBySession.get(session.id) ?? [];
+
+      const match = findRule(policy.rules, 'sessions', {
+        tags: [...session.tags, ...tabs.flatMap((t) => t.tags)],
+        domains: tabs.map((t) => getDomain(t.url)).filter((d): d is string => d !== null),
+        saved: session.isSaved,
+        incognito: windows.some((w) => w.incognito),
+      });
+      const expiredAt = match
+        ? match.rule.keepDays === null
+          ? null
+          : session.startedAt + match.rule.keepDays * DAY
+        : session.isSaved
+          ? null
+          : session.expiresAt;
+      if (expiredAt === null || expiredAt > now) continue;
+
+      // A session a workspace draws from is kept until the workspace lets go of it
+      if (
+        tabs.some((t) => workspaceTabIds.has(t.persistentId)) ||
+        windows.some((w) => workspaceWindowIds.has(w.persistentId))
+      ) {
+        report.keptForWorkspaces.push(session.id);
+        continue;
+      }
+
+      report.sessions.push({
+        sessionId: session.id,
+        name: session.name,
+        expiredAt,
+        rule: match?.index ?? null,
+        archived: policy.archiveExpired,
+      });
+      if (!dryRun) {
+        if (policy.archiveExpired) {
+          await this.archiveService.archiveSession(session.id);
+        }
+        await this.deleteSession(session, tabs);
+      }
+    }
+  }
+
+  /**
+   * Find (and unless dry-running, delete) the visits past their lifetime or over the per-tab cap
+   * Visits of sessions deleted in this run went with them and are not counted again
+   */
+  private async expireVisits(
+    policy: RetentionPolicy,
+    now: number,
+    dryRun: boolean,
+    deletedSessionIds: Set<string>,
+    report: RetentionReport
+  ): Promise<void> {
+    const db = getDatabase();
+
+    // Only visits older than the shortest lifetime can have expired
+    const lifetimes = policy.rules
+      .filter((r) => r.appliesTo === 'visits' && r.keepDays !== null)
+      .map((r) => r.keepDays!);
+    if (policy.visitTtlDays > 0) lifetimes.push(policy.visitTtlDays);
+    const candidates =
+      lifetimes.length > 0
+        ? await db.tabVisits
+            .where('activatedAt')
+            .below(now - Math.min(...lifetimes) * DAY)
+            .filter((v) => v.deactivatedAt !== null && !deletedSessionIds.has(v.sessionId))
+            .toArray()
+        : [];
+
+    const tabIds = [...new Set(candidates.map((v) => v.tabPersistentId))];
+    const windowIds = [...new Set(candidates.map((v) => v.windowPersistentId))];
+    const sessionIds = [...new Set(candidates.map((v) => v.sessionId))];
+    const tabs = new Map(
+      (await db.tabs.where('persistentId').anyOf(tabIds).toArray()).map((t) => [t.persistentId, t])
+    );
+    const incognitoWindowIds = new Set(
+      (await db.windows.where('persistentId').anyOf(windowIds).toArray())
+        .filter((w) => w.incognito)
+        .map((w) => w.persistentId)
+    );
+    const savedSessionIds = new Set(
+      (await db.sessions.bulkGet(sessionIds)).filter((s) => s?.isSaved).map((s) => s!.id)
+    );
+
+    const keepDaysFor = (visit: TabVisit): number | null => {
+      const tab = tabs.get(visit.tabPersistentId);
+      const saved = (tab?.isSaved ?? false) || savedSessionIds.has(visit.sessionId);
+      const domain = getDomain(visit.url);
+      const match = findRule(policy.rules, 'visits', {
+        tags: tab?.tags ?? [],
+        domains: domain ? [domain] : [],
+        saved,
+        incognito: incognitoWindowIds.has(visit.windowPersistentId),
+      });
+      if (match) return match.rule.keepDays;
+      return saved || policy.visitTtlDays === 0 ? null : policy.visitTtlDays;
+    };
+
+    // A running visit is never expired
+    const expiredIds = candidates
+      .filter((visit) => {
+        const keepDays = keepDaysFor(visit);
+        return keepDays !== null && visit.activatedAt < now - keepDays * DAY;
+      })
+      .map((visit) => visit.id!);
+
+    // Oldest first past the cap; visits are counted on the index, and only
+    // the tabs over the cap have theirs read
+    const expired = new Set(expiredIds);
+    const excessIds: number[] = [];
+    if (policy.maxVisitsPerTab > 0) {
+      const counts = new Map<string, number>();
+      await db.tabVisits.orderBy('tabPersistentId').eachKey((key) => {
+        counts.set(key as string, (counts.get(key as string) ?? 0) + 1);
+      });
+      for (const [tabPersistentId, count] of counts) {
+        if (count <= policy.maxVisitsPerTab) continue;
+        const visits = await db.tabVisits
+          .where('[tabPersistentId+activatedAt]')
+          .between([tabPersistentId, Dexie.minKey], [tabPersistentId, Dexie.maxKey])
+          .toArray();
+        const kept = visits.filter((v) => !expired.has(v.id!) && !deletedSessionIds.has(v.sessionId));
+        const excess = kept.length - policy.maxVisitsPerTab;
+        if (excess > 0) {
+          excessIds.push(...kept.slice(0, excess).map((v) => v.id!));
+        }
+      }
+    }
+
+    report.expiredVisits = expiredIds.length;
+    report.excessVisits = excessIds.length;
+    if (!dryRun) {
+      await db.tabVisits.bulkDelete([...expiredIds, ...excessIds]);
+    }
+  }
+
+  /**
+   * Delete a session with everything recorded in it
+   */
+  private async deleteSession(session: Session, tabs: TrackedTab[]): Promise<void> {
+    const db = getDatabase();
+    const tabIds = tabs.map((t) => t.persistentId);
+
+    if (tabIds.length > 0) {
+      // Delete relationships for these tabs
+      await db.tabRelationships.where('sourceTabPersistentId').anyOf(tabIds).delete();
+      await db.tabRelationships.where('targetTabPersistentId').anyOf(tabIds).delete();
+
+      // Delete search index entries for these tabs
+      await db.searchIndex.where('tabPersistentId').anyOf(tabIds).delete();
+      await db.searchDocuments.bulkDelete(tabIds);
+    }
+
+    // Delete related data
+    await db.tabVisits.where('sessionId').equals(session.id).delete();
+    await db.tabNavigations.where('sessionId').equals(session.id).delete();
+    await db.windowFocusEvents.where('sessionId').equals(session.id).delete();
+    await db.idlePeriods
+      .where('[sessionId+startedAt]')
+      .between([session.id, Dexie.minKey], [session.id, Dexie.maxKey])
+      .delete();
+    await db.tabs.where('sessionId').equals(session.id).delete();
+    await db.windows.where('sessionId').equals(session.id).delete();
+    await db.tabGroups.where('sessionId').equals(session.id).delete();
+    await db.sessions.delete(session.id);
+  }
+
+  /**
+   * Stored rules, moving an older stored policy over on first use
+   */
+  private async getRules(): Promise<RetentionRule[]> {
+    if (!this.rules) {
+      await this.migrateStoredPolicy();
+      const stored = await chrome.storage.local.get(RULES_KEY);
+      this.rules = (stored[RULES_KEY] as RetentionRule[] | undefined) ?? [];
+    }
+    return this.rules;
+  }
+
+  /**
+   * Throws if a rule is malformed
+   */
+  private validateRule(rule: RetentionRule, index: number): void {
+    const label = `Rule ${index + 1}`;
+    if (rule.appliesTo !== 'sessions' && rule.appliesTo !== 'visits') {
+      throw new ValidationError(`${label} must apply to sessions or visits`);
+    }
+    if (rule.keepDays !== null && !(typeof rule.keepDays === 'number' && rule.keepDays >= 0)) {
+      throw new ValidationError(`${label} must keep records for a number of days, or forever (null)`);
+    }
+    if (typeof rule.match !== 'object' || rule.match === null) {
+      throw new ValidationError(`${label} needs conditions to match`);
+    }
+  }
+}
+
+// Singleton instance
+let retentionService: RetentionService | null = null;
+
+/**
+ * Get the RetentionService singleton
+ */
+export function getRetentionService(): RetentionService {
+  if (!retentionService) {
+    retentionService = new RetentionService();
+  }
+  return retentionService;
+}
@@ -0,0 +1,439 @@
+import { getDatabase } from '../db/schema';
+import type { TrackedTab, ArchivedTab, SearchField, SearchPosting } from '../db/types';
+import { getStorageManager, type StorageManager } from './StorageManager';
+import { getSettingsService, type SettingsService } from './SettingsService';
+import { tokenize, countTokens } from '../utils/tokenize';
+import { debounce } from '../utils/debounce';
+import { tagAncestors } from '../utils/tags';
+
+/**
+ * Search options
+ */
+export interface SearchOptions {
+  /** Maximum number of results (default: 50) */
+  limit?: number;
+  /** Include closed tabs (default: true) */
+  includeClosed?: boolean;
+  /** Restrict results to one session */
+  sessionId?: string;
+}
+
+/**
+ * Ranked search hit
+ */
+export interface SearchResult {
+  tab: TrackedTab;
+  /** Relevance score (higher is better) */
+  score: number;
+  /** Fields that matched at least one query term */
+  matchedFields: SearchField[];
+}
+
+/**
+ * Search hit in an archived session
+ */
+export interface ArchiveSearchResult {
+  tab: ArchivedTab;
+  /** ID of the archived session */
+  sessionId: string;
+  sessionName: string;
+  archivedAt: number;
+  score: number;
+  matchedFields: SearchField[];
+}
+
+/** Relative importance of each field when ranking */
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  tags: 2.5,
+  notes: 2,
+  url: 1,
+  visit: 1,
+};
+
+/** BM25 term frequency saturation */
+const BM25_K1 = 1.2;
+/** BM25 document length normalization */
+const BM25_B = 0.75;
+/** Score multiplier for tokens that only start with the query term */
+const PREFIX_MATCH_WEIGHT = 0.6;
+/** Cap on longer tokens a query term expands to, so short prefixes stay fast */
+const MAX_PREFIX_EXPANSIONS = 50;
+const DEFAULT_SEARCH_LIMIT = 50;
+
+/**
+ * Build the search postings for a tab
+ * Visit titles cover what the tab showed before its current page; tag
+ * aliases let the tab be found by another name for one of its tags
+ */
+export function buildSearchPostings(
+  tab: TrackedTab,
+  visitTitles: string[] = [],
+  tagAliases: string[] = []
+): { postings: SearchPosting[]; length: number } {
+  const fields: Array<[SearchField, string[]]> = [
+    ['title', tokenize(tab.title)],
+    ['url', tokenize(tab.url)],
+    ['notes', tokenize(tab.notes || '')],
+    ['tags', [...tab.tags, ...tagAliases].flatMap((tag) => tokenize(tag))],
+    ['visit', [...new Set(visitTitles)].filter((t) => t !== tab.title).flatMap((t) => tokenize(t))],
+  ];
+
+  const postings: SearchPosting[] = [];
+  let length = 0;
+
+  for (const [field, tokens] of fields) {
+    length += tokens.length;
+    for (const [token, termFrequency] of countTokens(tokens)) {
+      postings.push({ token, tabPersistentId: tab.persistentId, field, termFrequency });
+    }
+  }
+
+  return { postings, length };
+}
+
+/**
+ * Score an archived tab against query terms, weighted by field
+ * Returns null unless every term matches a token in full or as a prefix
+ */
+function matchArchivedTab(
+  tab: ArchivedTab,
+  terms: string[]
+): { score: number; matchedFields: SearchField[] } | null {
+  const fields: Array<[SearchField, string[]]> = [
+    ['title', tokenize(tab.title)],
+    ['url', tokenize(tab.url)],
+    ['notes', tokenize(tab.notes || '')],
+    ['tags', tab.tags.flatMap((tag) => tokenize(tag))],
+  ];
+
+  let score = 0;
+  const matchedFields = new Set<SearchField>();
+  for (const term of terms) {
+    let best = 0;
+    for (const [field, tokens] of fields) {
+      for (const token of tokens) {
+        if (!token.startsWith(term)) continue;
+        best = Math.max(best, FIELD_WEIGHTS[field] * (token === term ? 1 : PREFIX_MATCH_WEIGHT));
+        matchedFields.add(field);
+      }
+    }
+    if (best === 0) return null;
+    score += best;
+  }
+
+  return { score, matchedFields: [...matchedFields] };
+}
+
+/**
+ * SearchService - Full-text search over tabs across all sessions
+ *
+ * Maintains an inverted index (token -> tab postings) in IndexedDB and ranks
+ * matches with BM25, weighted by field. Runs in the background context.
+ */
+export class SearchService {
+  private storageManager: StorageManager;
+  private settingsService: SettingsService;
+  private pendingTabIds = new Set<string>();
+  private corpusStats: { documentCount: number; averageLength: number } | null = null;
+
+  // Coalesce bursts of tab changes into one reindex pass
+  private debouncedReindex = debounce(
+    () => {
+      this.processPendingReindex().catch(console.error);
+    },
+    () => this.settingsService.getCurrent().timing.searchReindexDebounceMs,
+    { maxWait: () => this.settingsService.getCurrent().timing.searchReindexMaxWaitMs }
+  );
+
+  constructor(storageManager?: StorageManager, settingsService?: SettingsService) {
+    this.storageManager = storageManager || getStorageManager();
+    this.settingsService = settingsService || getSettingsService();
+  }
+
+  // ============================================
+  // Indexing
+  // ============================================
+
+  /**
+   * Queue a tab for reindexing
+   */
+  scheduleReindex(persistentId: string): void {
+    this.pendingTabIds.add(persistentId);
+    this.debouncedReindex();
+  }
+
+  /**
+   * Reindex all queued tabs
+   */
+  private async processPendingReindex(): Promise<void> {
+    const tabIds = [...this.pendingTabIds];
+    this.pendingTabIds.clear();
+    if (tabIds.length === 0) return;
+
+    // Make sure queued tab writes have landed before reading them back
+    await this.storageManager.flushWrites();
+
+    for (const persistentId of tabIds) {
+      await this.indexTab(persistentId);
+    }
+  }
+
+  /**
+   * Replace the index entries for a single tab
+   */
+  async indexTab(persistentId: string): Promise<void> {
+    const db = getDatabase();
+    const tab = await db.tabs.where('persistentId').equals(persistentId).first();
+
+    if (!tab) {
+      await this.removeTabs([persistentId]);
+      return;
+    }
+
+    const visits = await db.tabVisits.where('tabPersistentId').equals(persistentId).toArray();
+    const { postings, length } = buildSearchPostings(
+      tab,
+      visits.map((v) => v.title),
+      await this.getTagAliases(tab.tags)
+    );
+
+    await db.transaction('rw', db.searchIndex, db.searchDocuments, async () => {
+      await db.searchIndex.where('tabPersistentId').equals(persistentId).delete();
+      if (postings.length > 0) {
+        await db.searchIndex.bulkAdd(postings);
+      }
+      await db.searchDocuments.put({ tabPersistentId: persistentId, length, indexedAt: Date.now() });
+    });
+
+    this.corpusStats = null;
+  }
+
+  /**
+   * Aliases of some tags and of the tags they are nested under
+   */
+  private async getTagAliases(tags: string[]): Promise<string[]> {
+    if (tags.length === 0) return [];
+    const names = [...new Set(tags.flatMap((tag) => [...tagAncestors(tag), tag]))];
+    const records = await getDatabase().tags.where('name').anyOf(names).toArray();
+    return records.flatMap((tag) => tag.aliases);
+  }
+
+  /**
+   * Remove tabs from the index
+   */
+  async removeTabs(persistentIds: string[]): Promise<void> {
+    if (persistentIds.length === 0) return;
+    const db = getDatabase();
+
+    await db.transaction('rw', db.searchIndex, db.searchDocuments, async () => {
+      await db.searchIndex.where('tabPersistentId').anyOf(persistentIds).delete();
+      await db.searchDocuments.bulkDelete(persistentIds);
+    });
+
+    this.corpusStats = null;
+  }
+
+  /**
+   * Index every tab that has no index entry yet
+   * Covers tabs tracked before the index existed and imported tabs
+   */
+  async ensureIndexed(): Promise<number> {
+    const db = getDatabase();
+    const [tabIds, indexedIds] = await Promise.all([
+      db.tabs.orderBy('persistentId').keys(),
+      db.searchDocuments.toCollection().primaryKeys(),
+    ]);
+    const indexed = new Set(indexedIds);
+    const missing = (tabIds as string[]).filter((id) => !indexed.has(id));
+
+    for (const persistentId of missing) {
+      await this.indexTab(persistentId);
+    }
+
+    if (missing.length > 0) {
+      console.log(`[SearchService] Indexed ${missing.length} tabs`);
+    }
+    return missing.length;
+  }
+
+  /**
+   * Drop and rebuild the whole index
+   */
+  async rebuildIndex(): Promise<number> {
+    const db = getDatabase();
+    await db.transaction('rw', db.searchIndex, db.searchDocuments, async () => {
+      await db.searchIndex.clear();
+      await db.searchDocuments.clear();
+    });
+    this.corpusStats = null;
+    return this.ensureIndexed();
+  }
+
+  // ============================================
+  // Querying
+  // ============================================
+
+  /**
+   * Search tabs by title, URL, notes, tags and visit titles
+   * Every query term also matches longer tokens it is a prefix of
+   */
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0) return [];
+
+    const db = getDatabase();
+    const { documentCount, averageLength } = await this.getCorpusStats();
+    if (documentCount === 0) return [];
+
+    // Per term: tab -> index token -> weighted term frequency
+    const termMatches: Array<Map<string, Map<string, number>>> = [];
+    const documentFrequency = new Map<string, number>();
+    const matchedFields = new Map<string, Set<SearchField>>();
+
+    for (const term of terms) {
+      // Every posting of the matched tokens is read, so document frequencies
+      // come from the whole index; only the prefix expansions are capped
+      const prefixKeys = await db.searchIndex
+        .where('token')
+        .startsWith(term)
+        .limit(MAX_PREFIX_EXPANSIONS + 1)
+        .uniqueKeys();
+      const expansions = prefixKeys
+        .map(String)
+        .filter((token) => token !== term)
+        .slice(0, MAX_PREFIX_EXPANSIONS);
+      const postings = await db.searchIndex
+        .where('token')
+        .anyOf([term, ...expansions])
+        .toArray();
+
+      const byTab = new Map<string, Map<string, number>>();
+      const tabsPerToken = new Map<string, Set<string>>();
+
+      for (const posting of postings) {
+        const tokens = byTab.get(posting.tabPersistentId) ?? new Map<string, number>();
+        const weighted = posting.termFrequency * FIELD_WEIGHTS[posting.field];
+        tokens.set(posting.token, (tokens.get(posting.token) ?? 0) + weighted);
+        byTab.set(posting.tabPersistentId, tokens);
+
+        const tabs = tabsPerToken.get(posting.token) ?? new Set<string>();
+        tabs.add(posting.tabPersistentId);
+        tabsPerToken.set(posting.token, tabs);
+
+        const fields = matchedFields.get(posting.tabPersistentId) ?? new Set<SearchField>();
+        fields.add(posting.field);
+        matchedFields.set(posting.tabPersistentId, fields);
+      }
+
+      for (const [token, tabs] of tabsPerToken) {
+        documentFrequency.set(token, tabs.size);
+      }
+      termMatches.push(byTab);
+    }
+
+    const candidateIds = [...new Set(termMatches.flatMap((m) => [...m.keys()]))];
+    if (candidateIds.length === 0) return [];
+
+    const documents = await db.searchDocuments.bulkGet(candidateIds);
+    const lengths = new Map(candidateIds.map((id, i) => [id, documents[i]?.length ?? averageLength]));
+
+    // BM25 per term; a tab's best-matching expansion of a term counts once
+    const scores = new Map<string, number>();
+    const termsMatched = new Map<string, number>();
+
+    terms.forEach((term, i) => {
+      for (const [tabId, tokens] of termMatches[i] ?? []) {
+        const lengthNorm = 1 - BM25_B + BM25_B * ((lengths.get(tabId) ?? averageLength) / averageLength);
+        let best = 0;
+
+        for (const [token, tf] of tokens) {
+          const df = documentFrequency.get(token) ?? 1;
+          const idf = Math.log(1 + (documentCount - df + 0.5) / (df + 0.5));
+          const weight = token === term ? 1 : PREFIX_MATCH_WEIGHT;
+          best = Math.max(best, weight * idf * ((tf * (BM25_K1 + 1)) / (tf + BM25_K1 * lengthNorm)));
+        }
+
+        scores.set(tabId, (scores.get(tabId) ?? 0) + best);
+        termsMatched.set(tabId, (termsMatched.get(tabId) ?? 0) + 1);
+      }
+    });
+
+    // Favor tabs that match more of the query terms
+    for (const [tabId, score] of scores) {
+      scores.set(tabId, score * ((termsMatched.get(tabId) ?? 0) / terms.length));
+    }
+
+    const includeClosed = options.includeClosed ?? true;
+    const tabs = await db.tabs.where('persistentId').anyOf(candidateIds).toArray();
+
+    return tabs
+      .filter((tab) => includeClosed || !tab.closedAt)
+      .filter((tab) => !options.sessionId || tab.sessionId === options.sessionId)
+      .map((tab) => ({
+        tab,
+        score: scores.get(tab.persistentId) ?? 0,
+        matchedFields: [...(matchedFields.get(tab.persistentId) ?? [])],
+      }))
+      .sort((a, b) => b.score - a.score || (b.tab.lastActivatedAt || 0) - (a.tab.lastActivatedAt || 0))
+      .slice(0, options.limit ?? DEFAULT_SEARCH_LIMIT);
+  }
+
+  /**
+   * Search the tabs of archived sessions by title, URL, notes and tags
+   * Archives have no index entries, so they are scanned; every query term
+   * must match, in full or as a prefix
+   */
+  async searchArchives(query: string, limit = DEFAULT_SEARCH_LIMIT): Promise<ArchiveSearchResult[]> {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0) return [];
+
+    const results: ArchiveSearchResult[] = [];
+    await getDatabase().archivedSessions.each((archive) => {
+      for (const tab of archive.tabs) {
+        const match = matchArchivedTab(tab, terms);
+        if (!match) continue;
+        const { id: sessionId, name: sessionName, archivedAt } = archive;
+        results.push({ tab, sessionId, sessionName, archivedAt, ...match });
+      }
+    });
+
+    return results
+      .sort((a, b) => b.score - a.score || b.tab.lastActivatedAt - a.tab.lastActivatedAt)
+      .slice(0, limit);
+  }
+
+  /**
+   * Document count and average length, cached until the index changes
+   */
+  private async getCorpusStats(): Promise<{ documentCount: number; averageLength: number }> {
+    if (this.corpusStats) return this.corpusStats;
+
+    const db = getDatabase();
+    let documentCount = 0;
+    let totalLength = 0;
+    await db.searchDocuments.each((doc) => {
+      documentCount++;
+      totalLength += doc.length;
+    });
+
+    this.corpusStats = {
+      documentCount,
+      averageLength: documentCount > 0 ? Math.max(1, totalLength / documentCount) : 1,
+    };
+    return this.corpusStats;
+  }
+}
+
+// Singleton instance
+let searchService: SearchService | null = null;
+
+/**
+ * Get the SearchService singleton
+ */
+export function getSearchService(): SearchService {
+  if (!searchService) {
+    searchService = new SearchService();
+  }
+  return searchService;
+}
@@ -0,0 +1,159 @@
+import { getDatabase } from '../db/schema';
+import type { Session } from '../db/types';
+import { getDomain } from '../utils/hash';
+
+/**
+ * A page seen in a session, one per urlHash
+ */
+export interface SessionPage {
+  urlHash: string;
+  url: string;
+  title: string;
+  /** Active time spent on the page during the session (ms) */
+  activeTime: number;
+}
+
+/**
+ * A page in one or both of the compared sessions
+ */
+export interface SessionDiffTab {
+  urlHash: string;
+  url: string;
+  title: string;
+  baseActiveTime: number;
+  compareActiveTime: number;
+}
+
+/**
+ * How active time on a domain moved between the sessions
+ */
+export interface DomainShift {
+  domain: string;
+  baseActiveTime: number;
+  compareActiveTime: number;
+  /** compareActiveTime - baseActiveTime */
+  change: number;
+}
+
+/**
+ * Comparison of two sessions, base first
+ */
+export interface SessionDiff {
+  base: Session;
+  compare: Session;
+  /** Pages only in the compare session, most active first */
+  added: SessionDiffTab[];
+  /** Pages only in the base session, most active first */
+  dropped: SessionDiffTab[];
+  /** Pages in both, most active (in the compare session) first */
+  kept: SessionDiffTab[];
+  /** Every domain either session spent time on, biggest shift first */
+  domains: DomainShift[];
+}
+
+/**
+ * Match two sessions' pages by urlHash and total active time per domain
+ */
+export function diffSessionPages(
+  base: SessionPage[],
+  compare: SessionPage[]
+): Omit<SessionDiff, 'base' | 'compare'> {
+  const baseByHash = new Map(base.map((page) => [page.urlHash, page]));
+  const compareByHash = new Map(compare.map((page) => [page.urlHash, page]));
+
+  const toDiffTab = (page: SessionPage): SessionDiffTab => ({
+    urlHash: page.urlHash,
+    url: page.url,
+    title: page.title,
+    baseActiveTime: baseByHash.get(page.urlHash)?.activeTime ?? 0,
+    compareActiveTime: compareByHash.get(page.urlHash)?.activeTime ?? 0,
+  });
+
+  const added = compare.filter((page) => !baseByHash.has(page.urlHash)).map(toDiffTab);
+  const dropped = base.filter((page) => !compareByHash.has(page.urlHash)).map(toDiffTab);
+  const kept = compare.filter((page) => baseByHash.has(page.urlHash)).map(toDiffTab);
+  added.sort((a, b) => b.compareActiveTime - a.compareActiveTime);
+  dropped.sort((a, b) => b.baseActiveTime - a.baseActiveTime);
+  kept.sort((a, b) => b.compareActiveTime - a.compareActiveTime);
+
+  const shifts = new Map<string, DomainShift>();
+  const tally = (pages: SessionPage[], field: 'baseActiveTime' | 'compareActiveTime') => {
+    for (const page of pages) {
+      const domain = getDomain(page.url);
+      if (!domain) continue;
+      const shift = shifts.get(domain) ?? { domain, baseActiveTime: 0, compareActiveTime: 0, change: 0 };
+      shift[field] += page.activeTime;
+      shift.change = shift.compareActiveTime - shift.baseActiveTime;
+      shifts.set(domain, shift);
+    }
+  };
+  tally(base, 'baseActiveTime');
+  tally(compare, 'compareActiveTime');
+  const domains = [...shifts.values()].sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+
+  return { added, dropped, kept, domains };
+}
+
+/**
+ * SessionDiffService - Compares what two sessions were spent on
+ *
+ * Pages are matched by urlHash, the same key startup uses to match tabs
+ * across restarts. A session's pages are its own tabs plus every page it
+ * has visits for - tabs still open when a session ends move on to the next
+ * one, but their visits stay, so they count in both.
+ */
+export class SessionDiffService {
+  /**
+   * Compare two sessions
+   * Returns null if either session does not exist
+   */
+  async diffSessions(baseSessionId: string, compareSessionId: string): Promise<SessionDiff | null> {
+    const db = getDatabase();
+    const [base, compare] = await Promise.all([db.sessions.get(baseSessionId), db.sessions.get(compareSessionId)]);
+    if (!base || !compare) return null;
+
+    const diff = diffSessionPages(await this.getPages(baseSessionId), await this.getPages(compareSessionId));
+    console.log(
+      `[SessionDiff] ${baseSessionId} -> ${compareSessionId}: +${diff.added.length} -${diff.dropped.length} =${diff.kept.length}`
+    );
+    return { base, compare, ...diff };
+  }
+
+  /**
+   * Pages seen in a session, with active time from its visits
+   */
+  private async getPages(sessionId: string): Promise<SessionPage[]> {
+    const db = getDatabase();
+    const pages = new Map<string, SessionPage>();
+
+    const visits = await db.tabVisits.where('sessionId').equals(sessionId).sortBy('activatedAt');
+    for (const visit of visits) {
+      const page = pages.get(visit.urlHash) ?? { urlHash: visit.urlHash, url: '', title: '', activeTime: 0 };
+      page.url = visit.url;
+      page.title = visit.title;
+      page.activeTime += Math.max(0, visit.duration - (visit.awayDuration || 0));
+      pages.set(visit.urlHash, page);
+    }
+
+    for (const tab of await db.tabs.where('sessionId').equals(sessionId).toArray()) {
+      if (!pages.has(tab.urlHash)) {
+        pages.set(tab.urlHash, { urlHash: tab.urlHash, url: tab.url, title: tab.title, activeTime: 0 });
+      }
+    }
+
+    return [...pages.values()];
+  }
+}
+
+// Singleton instance
+let sessionDiffService: SessionDiffService | null = null;
+
+/**
+ * Get the SessionDiffService singleton
+ */
+export function getSessionDiffService(): SessionDiffService {
+  if (!sessionDiffService) {
+    sessionDiffService = new SessionDiffService();
+  }
+  return sessionDiffService;
+}
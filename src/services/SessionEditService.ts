@@ -0,0 +1,326 @@
+import Dexie from 'dexie';
+import { getDatabase } from '../db/schema';
+import type {
+  Session,
+  TrackedTab,
+  TrackedWindow,
+  TrackedTabGroup,
+  TabVisit,
+  TabNavigation,
+  WindowFocusEvent,
+  IdlePeriod,
+} from '../db/types';
+import { getStorageManager, type StorageManager } from './StorageManager';
+import { generateUUID } from '../utils/uuid';
+import { ValidationError } from './errors';
+
+/**
+ * Windows and tabs picked out for moveToSession
+ */
+export interface SessionSelection {
+  /** Windows to move, with their tabs, groups and focus events */
+  windowPersistentIds?: string[];
+  /** Single tabs to move, with their visits and navigations */
+  tabPersistentIds?: string[];
+}
+
+/**
+ * Which of a session's records an edit moves, one test per table
+ */
+interface RecordMatch {
+  window: (window: TrackedWindow) => boolean;
+  tab: (tab: TrackedTab) => boolean;
+  group: (group: TrackedTabGroup) => boolean;
+  visit: (visit: TabVisit) => boolean;
+  navigation: (navigation: TabNavigation) => boolean;
+  focusEvent: (event: WindowFocusEvent) => boolean;
+  idlePeriod: (period: IdlePeriod) => boolean;
+}
+
+const ALL_RECORDS: RecordMatch = {
+  window: () => true,
+  tab: () => true,
+  group: () => true,
+  visit: () => true,
+  navigation: () => true,
+  focusEvent: () => true,
+  idlePeriod: () => true,
+};
+
+/**
+ * SessionEditService - Fixes session boundaries after the fact
+ *
+ * Merge two sessions, split one at a timestamp, or move windows and tabs
+ * into another session. Every record carrying a sessionId moves with the
+ * entity it belongs to, and the sessions' tabCount, windowCount and
+ * totalActiveTime are brought back in line. Each edit runs in one
+ * transaction; the working state follows once it has committed.
+ */
+export class SessionEditService {
+  private storageManager: StorageManager;
+
+  constructor(storageManager?: StorageManager) {
+    this.storageManager = storageManager || getStorageManager();
+  }
+
+  /**
+   * Fold one session into another and delete it
+   * The merged session spans both and stays running if either was
+   * Returns null if either session does not exist
+   */
+  async mergeSessions(targetId: string, sourceId: string): Promise<Session | null> {
+    if (targetId === sourceId) {
+      throw new ValidationError('Cannot merge a session into itself');
+    }
+
+    const db = getDatabase();
+    const now = Date.now();
+
+    const merged = await db.transaction('rw', this.sessionTables(), async () => {
+      const target = await db.sessions.get(targetId);
+      const source = await db.sessions.get(sourceId);
+      if (!target || !source) return null;
+
+      await this.moveRecords(sourceId, targetId, ALL_RECORDS);
+
+      const isActive = target.isActive || source.isActive;
+      const isSaved = target.isSaved || source.isSaved;
+      await db.sessions.update(targetId, {
+        description: target.description || source.description,
+        startedAt: Math.min(target.startedAt, source.startedAt),
+        endedAt: isActive ? null : Math.max(target.endedAt ?? 0, source.endedAt ?? 0),
+        isActive,
+        isSaved,
+        // No expiry (null) wins
+        expiresAt:
+          isSaved || target.expiresAt === null || source.expiresAt === null
+            ? null
+            : Math.max(target.expiresAt, source.expiresAt),
+        totalActiveTime: (target.totalActiveTime || 0) + (source.totalActiveTime || 0),
+        tags: [...new Set([...target.tags, ...source.tags])],
+        customMetadata: { ...source.customMetadata, ...target.customMetadata },
+      });
+      await this.recount(targetId, now);
+
+      await db.workspaces
+        .filter((w) => w.sourceSessionId === sourceId)
+        .modify({ sourceSessionId: targetId });
+      await db.sessions.delete(sourceId);
+
+      return (await db.sessions.get(targetId))!;
+    });
+    if (!merged) return null;
+
+    await this.followSession(sourceId, targetId);
+    console.log(`[SessionEdit] Merged session ${sourceId} into ${targetId}`);
+    return merged;
+  }
+
+  /**
+   * Split a session in two at a timestamp
+   * The new, later session takes the events that started from then on and
+   * the windows, tabs and groups still open at that point; the earlier one
+   * ends there. A running session carries on as the later one.
+   * Returns the later session, or null if the session does not exist
+   * Throws if the timestamp is not inside the session
+   */
+  async splitSession(sessionId: string, at: number): Promise<Session | null> {
+    const db = getDatabase();
+    const now = Date.now();
+
+    const later = await db.transaction('rw', this.sessionTables(), async () => {
+      const session = await db.sessions.get(sessionId);
+      if (!session) return null;
+      if (at <= session.startedAt || at >= (session.endedAt ?? now)) {
+        throw new ValidationError('Split time must fall inside the session');
+      }
+
+      const openAfter = (record: { closedAt: number | null }) => record.closedAt === null || record.closedAt >= at;
+      const next: Session = {
+        ...session,
+        id: generateUUID(),
+        name: `Session ${new Date(at).toLocaleString()}`,
+        isNamedByUser: false,
+        startedAt: at,
+        windowCount: 0,
+        tabCount: 0,
+        totalActiveTime: 0,
+        tags: [...session.tags],
+        customMetadata: { ...session.customMetadata },
+        createdAt: now,
+        updatedAt: now,
+      };
+      await db.sessions.add(next);
+
+      const movedTime = await this.moveRecords(sessionId, next.id, {
+        window: openAfter,
+        tab: openAfter,
+        group: openAfter,
+        visit: (v) => v.activatedAt >= at,
+        navigation: (n) => n.navigatedAt >= at,
+        focusEvent: (e) => e.focusedAt >= at,
+        idlePeriod: (p) => p.startedAt >= at,
+      });
+
+      await db.sessions.update(sessionId, {
+        endedAt: at,
+        isActive: false,
+        totalActiveTime: Math.max(0, (session.totalActiveTime || 0) - movedTime),
+      });
+      await db.sessions.update(next.id, { totalActiveTime: movedTime });
+      await this.recount(sessionId, now);
+      await this.recount(next.id, now);
+
+      return (await db.sessions.get(next.id))!;
+    });
+    if (!later) return null;
+
+    await this.followSession(sessionId, later.id);
+    console.log(`[SessionEdit] Split session ${sessionId} at ${new Date(at).toISOString()} -> ${later.id}`);
+    return later;
+  }
+
+  /**
+   * Move windows (with their tabs, groups and focus events) and single tabs
+   * (with their visits and navigations) into another session
+   * Idle periods stay where they are - they belong to the user, not a tab
+   * Returns the updated target session, or null if it does not exist
+   */
+  async moveToSession(targetId: string, selection: SessionSelection): Promise<Session | null> {
+    const db = getDatabase();
+    const now = Date.now();
+    const windowIds = new Set(selection.windowPersistentIds ?? []);
+    const tabIds = new Set(selection.tabPersistentIds ?? []);
+
+    const target = await db.transaction('rw', this.sessionTables(), async () => {
+      if (!(await db.sessions.get(targetId))) return null;
+
+      // A window takes the tabs it holds in its own session along
+      const selectedTab = (t: TrackedTab) => tabIds.has(t.persistentId) || windowIds.has(t.windowPersistentId);
+      const windows = await db.windows.where('persistentId').anyOf([...windowIds]).toArray();
+      const tabs = await db.tabs.where('persistentId').anyOf([...tabIds]).toArray();
+      const sourceIds = new Set([...windows, ...tabs].map((r) => r.sessionId));
+      sourceIds.delete(targetId);
+
+      for (const sourceId of sourceIds) {
+        const movedTabIds = new Set(
+          (await db.tabs.where('sessionId').equals(sourceId).filter(selectedTab).toArray()).map((t) => t.persistentId)
+        );
+        const movedTime = await this.moveRecords(sourceId, targetId, {
+          window: (w) => windowIds.has(w.persistentId),
+          tab: (t) => movedTabIds.has(t.persistentId),
+          group: (g) => windowIds.has(g.windowPersistentId),
+          visit: (v) => movedTabIds.has(v.tabPersistentId),
+          navigation: (n) => movedTabIds.has(n.tabPersistentId),
+          focusEvent: (e) => windowIds.has(e.windowPersistentId),
+          idlePeriod: () => false,
+        });
+
+        await db.sessions.where('id').anyOf([sourceId, targetId]).modify((session) => {
+          const delta = session.id === targetId ? movedTime : -movedTime;
+          session.totalActiveTime = Math.max(0, (session.totalActiveTime || 0) + delta);
+        });
+        await this.recount(sourceId, now);
+      }
+      await this.recount(targetId, now);
+
+      return (await db.sessions.get(targetId))!;
+    });
+    if (!target) return null;
+
+    // Open windows keep reporting into the session they moved to
+    for (const windowPersistentId of windowIds) {
+      if (this.storageManager.getWindowSessionId(windowPersistentId)) {
+        this.storageManager.setWindowSession(windowPersistentId, targetId);
+      }
+    }
+
+    console.log(`[SessionEdit] Moved ${windowIds.size} windows and ${tabIds.size} tabs into session ${targetId}`);
+    return target;
+  }
+
+  /**
+   * Tables an edit touches - everything keyed by sessionId, plus workspaces
+   */
+  private sessionTables() {
+    const db = getDatabase();
+    return [
+      db.sessions,
+      db.windows,
+      db.tabs,
+      db.tabGroups,
+      db.tabVisits,
+      db.tabNavigations,
+      db.windowFocusEvents,
+      db.idlePeriods,
+      db.workspaces,
+    ];
+  }
+
+  /**
+   * Reassign a session's matching records to another session
+   * Returns the active time (duration less time away) of the visits moved
+   */
+  private async moveRecords(fromId: string, toId: string, match: RecordMatch): Promise<number> {
+    const db = getDatabase();
+    const to = { sessionId: toId };
+
+    await db.windows.where('sessionId').equals(fromId).filter(match.window).modify(to);
+    await db.tabs.where('sessionId').equals(fromId).filter(match.tab).modify(to);
+    await db.tabGroups.where('sessionId').equals(fromId).filter(match.group).modify(to);
+    await db.tabNavigations.where('sessionId').equals(fromId).filter(match.navigation).modify(to);
+    await db.windowFocusEvents.where('sessionId').equals(fromId).filter(match.focusEvent).modify(to);
+    await db.idlePeriods
+      .where('[sessionId+startedAt]')
+      .between([fromId, Dexie.minKey], [fromId, Dexie.maxKey])
+      .filter(match.idlePeriod)
+      .modify(to);
+
+    let movedTime = 0;
+    await db.tabVisits
+      .where('sessionId')
+      .equals(fromId)
+      .filter(match.visit)
+      .modify((visit) => {
+        movedTime += Math.max(0, visit.duration - (visit.awayDuration || 0));
+        visit.sessionId = toId;
+      });
+    return movedTime;
+  }
+
+  /**
+   * Set a session's tabCount and windowCount to its open records, the
+   * numbers live tracking keeps (up on open, down on close)
+   */
+  private async recount(sessionId: string, now: number): Promise<void> {
+    const db = getDatabase();
+    const isOpen = (record: { closedAt: number | null }) => record.closedAt === null;
+    const windowCount = await db.windows.where('sessionId').equals(sessionId).filter(isOpen).count();
+    const tabCount = await db.tabs.where('sessionId').equals(sessionId).filter(isOpen).count();
+    await db.sessions.update(sessionId, { windowCount, tabCount, updatedAt: now });
+  }
+
+  /**
+   * Point the working state at the session that took over from another
+   */
+  private async followSession(fromId: string, toId: string): Promise<void> {
+    await this.storageManager.ensureInitialized();
+    this.storageManager.moveWindowSessions(fromId, toId);
+    if (this.storageManager.getCurrentSessionId() === fromId) {
+      await this.storageManager.setCurrentSessionId(toId);
+    }
+  }
+}
+
+// Singleton instance
+let sessionEditService: SessionEditService | null = null;
+
+/**
+ * Get the SessionEditService singleton
+ */
+export function getSessionEditService(): SessionEditService {
+  if (!sessionEditService) {
+    sessionEditService = new SessionEditService();
+  }
+  return sessionEditService;
+}
@@ -0,0 +1,253 @@
+import { getDatabase } from '../db/schema';
+import type { Session, SessionBoundary, SessionPolicy } from '../db/types';
+import { getStorageManager, type StorageManager } from './StorageManager';
+import { getTabTracker, type TabTracker } from './TabTracker';
+import { getSessionSummaryService, type SessionSummaryService } from './SessionSummaryService';
+import { getDayStart } from '../utils/time';
+import { ValidationError } from './errors';
+
+/** chrome.storage.local key the policy is stored under */
+const POLICY_KEY = 'sessionPolicy';
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Rules in effect until the user changes them
+ */
+export const DEFAULT_SESSION_POLICY: SessionPolicy = {
+  idleGapMinutes: 60,
+  splitDaily: false,
+  dayStartHour: 4,
+  perWindow: false,
+};
+
+/**
+ * The rule that ends a session before activity at `now`, or null if it continues
+ * lastActivityAt is when the user was last seen (the start of an absence)
+ */
+export function findSessionBoundary(
+  policy: SessionPolicy,
+  session: Pick<Session, 'startedAt'>,
+  lastActivityAt: number,
+  now: number
+): SessionBoundary | null {
+  if (policy.idleGapMinutes > 0 && now - lastActivityAt >= policy.idleGapMinutes * MINUTE) {
+    return 'idle-gap';
+  }
+  if (policy.splitDaily && getDayStart(now, policy.dayStartHour) > session.startedAt) {
+    return 'new-day';
+  }
+  return null;
+}
+
+/**
+ * SessionPolicyService - Decides where one session ends and the next begins
+ *
+ * The policy lives in chrome.storage.local. At startup it decides whether the
+ * last session carries on; while running, a return from idle, the day
+ * rolling over or a manual request ends the running session and starts a new
+ * one. Open windows, tabs and groups move into the new session, so it starts
+ * with what is on screen - unless the old session is saved, which keeps them;
+ * visits and idle periods stay where they happened.
+ * Every session that ends is named and described by the summarizer.
+ */
+export class SessionPolicyService {
+  private storageManager: StorageManager;
+  private tabTracker: TabTracker;
+  private summaryService: SessionSummaryService;
+  private policy: SessionPolicy | null = null;
+
+  constructor(storageManager?: StorageManager, tabTracker?: TabTracker, summaryService?: SessionSummaryService) {
+    this.storageManager = storageManager || getStorageManager();
+    this.tabTracker = tabTracker || getTabTracker();
+    this.summaryService = summaryService || getSessionSummaryService();
+  }
+
+  /**
+   * Current policy, with defaults for anything not stored
+   */
+  async getPolicy(): Promise<SessionPolicy> {
+    if (!this.policy) {
+      const stored = await chrome.storage.local.get(POLICY_KEY);
+      this.policy = { ...DEFAULT_SESSION_POLICY, ...(stored[POLICY_KEY] as Partial<SessionPolicy> | undefined) };
+    }
+    return this.policy;
+  }
+
+  /**
+   * Change some of the rules
+   * Throws if a value is out of range
+   */
+  async updatePolicy(changes: Partial<SessionPolicy>): Promise<SessionPolicy> {
+    if (changes.idleGapMinutes !== undefined && !(changes.idleGapMinutes >= 0)) {
+      throw new ValidationError('Idle gap must be zero (off) or a number of minutes');
+    }
+    const { dayStartHour } = changes;
+    if (dayStartHour !== undefined && !(Number.isInteger(dayStartHour) && dayStartHour >= 0 && dayStartHour <= 23)) {
+      throw new ValidationError('Day start must be a whole hour from 0 to 23');
+    }
+
+    const policy: SessionPolicy = { ...(await this.getPolicy()), ...changes };
+    await chrome.storage.local.set({ [POLICY_KEY]: policy });
+    this.policy = policy;
+
+    console.log('[SessionPolicy] Policy updated:', policy);
+    return policy;
+  }
+
+  /**
+   * Whether the most recent session carries on after a browser restart
+   * Its last update stands in for when the browser was last used
+   */
+  async continuesAfterRestart(session: Session, now = Date.now()): Promise<boolean> {
+    const boundary = findSessionBoundary(await this.getPolicy(), session, session.updatedAt, now);
+    if (boundary) {
+      console.log(`[SessionPolicy] Not continuing session ${session.id} (${boundary})`);
+    }
+    return boundary === null;
+  }
+
+  /**
+   * End the current session if a rule says so and start the next one
+   * Pass when the user was last seen on return from an absence; the default
+   * (now) only checks the day rollover
+   * Returns the new session, or null if the current one continues
+   */
+  async checkBoundary(now = Date.now(), lastActivityAt = now): Promise<Session | null> {
+    await this.storageManager.ensureInitialized();
+    const sessionId = this.storageManager.getCurrentSessionId();
+    // While the user is away the check waits for their return (IdleTracker)
+    if (!sessionId || this.storageManager.getIdleState() !== 'active') return null;
+
+    const session = await getDatabase().sessions.get(sessionId);
+    if (!session) return null;
+
+    const policy = await this.getPolicy();
+    const boundary = findSessionBoundary(policy, session, lastActivityAt, now);
+    if (!boundary) return null;
+
+    // The old session ends when the user left, or at the rollover if they were still around
+    const endedAt =
+      boundary === 'new-day' ? Math.min(lastActivityAt, getDayStart(now, policy.dayStartHour)) : lastActivityAt;
+    return this.startNewSession(boundary, now, endedAt);
+  }
+
+  /**
+   * End the running sessions and continue each in a new one
+   * Under per-window sessions every window's session is rotated
+   * Returns the session that becomes current
+   */
+  async startNewSession(reason: SessionBoundary, now = Date.now(), endedAt = now): Promise<Session> {
+    await this.storageManager.ensureInitialized();
+    const currentId = this.storageManager.getCurrentSessionId();
+
+    // Close the running visit so it stays with the old session
+    await this.tabTracker.pauseActiveTime(now);
+
+    let current: Session | null = null;
+    for (const session of await this.getRunningSessions(currentId)) {
+      const next = await this.continueSession(session, Math.max(session.startedAt, endedAt), now);
+      this.storageManager.moveWindowSessions(session.id, next.id);
+      if (session.id === currentId) {
+        current = next;
+      }
+    }
+
+    current ??= await this.storageManager.createSession();
+    await this.storageManager.setCurrentSessionId(current.id);
+
+    // Restart the clock in the new session, unless the user is away
+    if (this.storageManager.getIdleState() === 'active') {
+      await this.tabTracker.resumeActiveTime(now);
+    }
+
+    console.log(`[SessionPolicy] Started session ${current.id} (${reason})`);
+    return current;
+  }
+
+  /**
+   * New session for a window opened while running - only under per-window
+   * sessions; otherwise null and the window joins the current session
+   */
+  async startWindowSession(): Promise<Session | null> {
+    if (!(await this.getPolicy()).perWindow) return null;
+    return this.storageManager.createSession();
+  }
+
+  /**
+   * Release a closed window's session, ending it once none of its windows are left
+   */
+  async endWindowSession(windowPersistentId: string, now = Date.now()): Promise<void> {
+    const sessionId = this.storageManager.getWindowSessionId(windowPersistentId);
+    if (!sessionId) return;
+
+    this.storageManager.removeWindowSession(windowPersistentId);
+    const remaining = this.storageManager.getWindowSessionIds();
+    if (remaining.includes(sessionId)) return;
+
+    await getDatabase().sessions.update(sessionId, { isActive: false, endedAt: now, updatedAt: now });
+    await this.summaryService.summarize(sessionId);
+
+    // Activity carries on in a session that still has windows
+    if (this.storageManager.getCurrentSessionId() === sessionId && remaining[0]) {
+      await this.storageManager.setCurrentSessionId(remaining[0]);
+    }
+    console.log(`[SessionPolicy] Ended session ${sessionId} with its last window`);
+  }
+
+  /**
+   * Sessions still running, plus the current one
+   * Filtered in JS - isActive is a boolean, which never enters the isActive index
+   */
+  private async getRunningSessions(currentId: string | null): Promise<Session[]> {
+    return getDatabase()
+      .sessions.filter((s) => s.isActive || s.id === currentId)
+      .toArray();
+  }
+
+  /**
+   * End a session and move its open windows, tabs and groups into a new one
+   * A saved session keeps its records, so ending it loses nothing it was saved with
+   */
+  private async continueSession(session: Session, endedAt: number, now: number): Promise<Session> {
+    const db = getDatabase();
+    const next = await this.storageManager.createSession();
+    const isOpen = (record: { closedAt: number | null }) => record.closedAt === null;
+
+    const { windowCount, tabCount } = await db.transaction('rw', [db.sessions, db.windows, db.tabs, db.tabGroups], async () => {
+      let windowCount = 0;
+      let tabCount = 0;
+      if (!session.isSaved) {
+        windowCount = await db.windows.where('sessionId').equals(session.id).filter(isOpen).modify({ sessionId: next.id });
+        tabCount = await db.tabs.where('sessionId').equals(session.id).filter(isOpen).modify({ sessionId: next.id });
+        await db.tabGroups.where('sessionId').equals(session.id).filter(isOpen).modify({ sessionId: next.id });
+      }
+
+      await db.sessions.update(next.id, { windowCount, tabCount, updatedAt: now });
+      await db.sessions.where('id').equals(session.id).modify((ended) => {
+        ended.windowCount = Math.max(0, (ended.windowCount || 0) - windowCount);
+        ended.tabCount = Math.max(0, (ended.tabCount || 0) - tabCount);
+        ended.isActive = false;
+        ended.endedAt = endedAt;
+        ended.updatedAt = now;
+      });
+      return { windowCount, tabCount };
+    });
+    await this.summaryService.summarize(session.id);
+
+    return { ...next, windowCount, tabCount, updatedAt: now };
+  }
+}
+
+// Singleton instance
+let sessionPolicyService: SessionPolicyService | null = null;
+
+/**
+ * Get the SessionPolicyService singleton
+ */
+export function getSessionPolicyService(): SessionPolicyService {
+  if (!sessionPolicyService) {
+    sessionPolicyService = new SessionPolicyService();
+  }
+  return sessionPolicyService;
+}
@@ -0,0 +1,291 @@
+import { getDatabase } from '../db/schema';
+import type { TrackedTab, TrackedWindow, TrackedTabGroup } from '../db/types';
+import { getStorageManager, type StorageManager } from './StorageManager';
+
+/**
+ * Options for restoring a session
+ */
+export interface RestoreOptions {
+  /** Discard background tabs so they only load when activated */
+  lazy?: boolean;
+}
+
+/**
+ * Outcome of a restore
+ */
+export interface RestoreReport {
+  windows: number;
+  tabs: number;
+  groups: number;
+  /** Tabs left alone because they are already open */
+  skipped: number;
+  /** Windows, tabs or groups Chrome refused to create */
+  failed: number;
+}
+
+/**
+ * A stored window and the tabs to reopen in it, in display order
+ */
+export interface RestoreTarget {
+  window: TrackedWindow;
+  tabs: TrackedTab[];
+}
+
+/**
+ * SessionRestoreService - Reopens stored windows and tabs
+ *
+ * New Chrome windows, tabs and groups are relinked to the stored records
+ * (through restore claims on StorageManager), so tags, notes and visit
+ * history carry over. Restored records stay in the session they came from.
+ */
+export class SessionRestoreService {
+  private storageManager: StorageManager;
+
+  constructor(storageManager?: StorageManager) {
+    this.storageManager = storageManager || getStorageManager();
+  }
+
+  /**
+   * Restore the windows and tabs that were open when a session ended
+   * Returns null if the session does not exist
+   */
+  async restoreSession(sessionId: string, options: RestoreOptions = {}): Promise<RestoreReport | null> {
+    const targets = await this.getSessionTargets(sessionId);
+    if (!targets) return null;
+
+    const report = await this.restore(targets, options);
+    console.log(
+      `[SessionRestore] Restored ${report.windows} windows, ${report.tabs} tabs and ${report.groups} groups ` +
+        `from ${sessionId} (${report.skipped} already open, ${report.failed} failed)`
+    );
+    return report;
+  }
+
+  /**
+   * Windows and tabs that were open when a session ended, oldest window first
+   * Returns null if the session does not exist
+   */
+  async getSessionTargets(sessionId: string): Promise<RestoreTarget[] | null> {
+    const db = getDatabase();
+
+    const session = await db.sessions.get(sessionId);
+    if (!session) return null;
+
+    // Open at the end: never closed, or closed by the session ending (browser shutdown)
+    const openAtEnd = (record: { closedAt: number | null }) =>
+      record.closedAt === null || (session.endedAt !== null && record.closedAt >= session.endedAt);
+
+    const windows = (await db.windows.where('sessionId').equals(sessionId).toArray())
+      .filter(openAtEnd)
+      .sort((a, b) => a.createdAt - b.createdAt);
+    const tabs = (await db.tabs.where('sessionId').equals(sessionId).toArray()).filter(openAtEnd);
+
+    return windows.map((window) => ({
+      window,
+      tabs: tabs
+        .filter((t) => t.windowPersistentId === window.persistentId)
+        .sort((a, b) => a.index - b.index),
+    }));
+  }
+
+  /**
+   * Reopen stored windows with their tabs
+   * Tabs that are already open are skipped; a window that is still open gets
+   * its missing tabs back instead of a second Chrome window
+   */
+  async restore(targets: RestoreTarget[], options: RestoreOptions = {}): Promise<RestoreReport> {
+    await this.storageManager.ensureInitialized();
+    const report: RestoreReport = { windows: 0, tabs: 0, groups: 0, skipped: 0, failed: 0 };
+
+    try {
+      for (const { window, tabs } of targets) {
+        const closedTabs = tabs.filter((t) => t.url && !this.isOpen(t));
+        report.skipped += tabs.filter((t) => this.isOpen(t)).length;
+
+        if (closedTabs.length > 0) {
+          await this.restoreWindow(window, closedTabs, options, report);
+        }
+      }
+    } finally {
+      this.storageManager.clearRestoreClaims();
+    }
+
+    return report;
+  }
+
+  /**
+   * Recreate one window with its tabs, active tab and groups
+   */
+  private async restoreWindow(
+    window: TrackedWindow,
+    tabs: TrackedTab[],
+    options: RestoreOptions,
+    report: RestoreReport
+  ): Promise<void> {
+    const chromeTabIds = new Map<string, number>();
+    let windowId: number;
+    let remaining = tabs;
+    let activeTabId: number | undefined;
+
+    if (this.isWindowOpen(window)) {
+      // Still open - the missing tabs go back into it, leaving the user's active tab alone
+      windowId = window.chromeWindowId;
+    } else {
+      const [first, ...rest] = tabs;
+      if (!first) return;
+
+      // Geometry cannot be combined with a minimized/maximized/fullscreen state,
+      // so the window opens at its stored bounds and takes its state afterwards
+      let chromeWindow: chrome.windows.Window;
+      this.storageManager.expectRestoredWindow(window.persistentId);
+      this.storageManager.expectRestoredTab(first.url, first.persistentId);
+      try {
+        chromeWindow = await chrome.windows.create({
+          url: first.url,
+          type: window.type === 'popup' ? 'popup' : 'normal',
+          incognito: window.incognito,
+          left: window.left,
+          top: window.top,
+          width: window.width || undefined,
+          height: window.height || undefined,
+        });
+      } catch (error) {
+        console.warn(`[SessionRestore] Could not reopen window ${window.persistentId}:`, error);
+        this.storageManager.clearRestoreClaims();
+        report.failed += 1 + tabs.length;
+        return;
+      }
+      report.windows++;
+      report.tabs++;
+
+      windowId = chromeWindow.id!;
+      activeTabId = chromeWindow.tabs?.[0]?.id;
+      if (activeTabId !== undefined) {
+        chromeTabIds.set(first.persistentId, activeTabId);
+        if (first.pinned) {
+          await chrome.tabs.update(activeTabId, { pinned: true }).catch(() => undefined);
+        }
+      }
+      remaining = rest;
+    }
+
+    // Tabs in stored order, pinned ones first as Chrome keeps them
+    for (const tab of remaining) {
+      this.storageManager.expectRestoredTab(tab.url, tab.persistentId);
+      try {
+        const chromeTab = await chrome.tabs.create({ windowId, url: tab.url, pinned: tab.pinned, active: false });
+        chromeTabIds.set(tab.persistentId, chromeTab.id!);
+        report.tabs++;
+      } catch (error) {
+        console.warn(`[SessionRestore] Could not reopen tab ${tab.persistentId}:`, error);
+        report.failed++;
+      }
+    }
+
+    report.groups += await this.restoreGroups(windowId, tabs, chromeTabIds, report);
+
+    if (activeTabId !== undefined) {
+      // Bring back the tab that was active in the window
+      const storedActiveId = window.activeTabPersistentId ? chromeTabIds.get(window.activeTabPersistentId) : undefined;
+      if (storedActiveId !== undefined) {
+        await chrome.tabs.update(storedActiveId, { active: true }).catch(() => undefined);
+        activeTabId = storedActiveId;
+      }
+
+      if (window.state !== 'normal') {
+        await chrome.windows
+          .update(windowId, { state: window.state as chrome.windows.windowStateEnum })
+          .catch(() => undefined);
+      }
+    }
+
+    if (options.lazy) {
+      for (const chromeTabId of chromeTabIds.values()) {
+        if (chromeTabId !== activeTabId) {
+          // Not every tab can be discarded (e.g. before it starts loading) - it just stays loaded
+          await chrome.tabs.discard(chromeTabId).catch(() => undefined);
+        }
+      }
+    }
+  }
+
+  /**
+   * Regroup restored tabs with their stored titles, colors and collapse state
+   * Returns the number of groups recreated
+   */
+  private async restoreGroups(
+    windowId: number,
+    tabs: TrackedTab[],
+    chromeTabIds: Map<string, number>,
+    report: RestoreReport
+  ): Promise<number> {
+    const members = new Map<string, number[]>();
+    for (const tab of tabs) {
+      const chromeTabId = chromeTabIds.get(tab.persistentId);
+      if (tab.groupPersistentId && chromeTabId !== undefined) {
+        members.set(tab.groupPersistentId, [...(members.get(tab.groupPersistentId) ?? []), chromeTabId]);
+      }
+    }
+    if (members.size === 0) return 0;
+
+    const groups = await getDatabase().tabGroups.where('persistentId').anyOf([...members.keys()]).toArray();
+    const groupsById = new Map<string, TrackedTabGroup>(groups.map((g) => [g.persistentId, g]));
+
+    let restored = 0;
+    for (const [groupPersistentId, tabIds] of members) {
+      const group = groupsById.get(groupPersistentId);
+      if (!group) continue;
+
+      // Still open - the tabs rejoin it
+      if (this.storageManager.getPersistentGroupId(group.chromeGroupId) === groupPersistentId) {
+        await chrome.tabs.group({ tabIds, groupId: group.chromeGroupId }).catch((error) => {
+          console.warn(`[SessionRestore] Could not regroup ${groupPersistentId}:`, error);
+          report.failed++;
+        });
+        continue;
+      }
+
+      this.storageManager.expectRestoredGroup(windowId, groupPersistentId);
+      try {
+        const chromeGroupId = await chrome.tabs.group({ tabIds, createProperties: { windowId } });
+        await chrome.tabGroups.update(chromeGroupId, {
+          title: group.title,
+          color: group.color,
+          collapsed: group.collapsed,
+        });
+        restored++;
+      } catch (error) {
+        console.warn(`[SessionRestore] Could not regroup ${groupPersistentId}:`, error);
+        report.failed++;
+      }
+    }
+    return restored;
+  }
+
+  /**
+   * Whether a stored tab is linked to a Chrome tab that is open right now
+   */
+  private isOpen(tab: TrackedTab): boolean {
+    return this.storageManager.getPersistentTabId(tab.chromeTabId) === tab.persistentId;
+  }
+
+  /**
+   * Whether a stored window is linked to a Chrome window that is open right now
+   */
+  private isWindowOpen(window: TrackedWindow): boolean {
+    return this.storageManager.getPersistentWindowId(window.chromeWindowId) === window.persistentId;
+  }
+}
+
+// Singleton instance
+let sessionRestoreService: SessionRestoreService | null = null;
+
+/**
+ * Get the SessionRestoreService singleton
+ */
+export function getSessionRestoreService(): SessionRestoreService {
+  if (!sessionRestoreService) {
+    sessionRestoreService = new SessionRestoreService();
+  }
+  return sessionRestoreService;
+}
@@ -0,0 +1,251 @@
+import { getDatabase } from '../db/schema';
+import type { Session, SummaryRules } from '../db/types';
+import { getDomain } from '../utils/hash';
+
+/** chrome.storage.local key the rules are stored under */
+const RULES_KEY = 'summaryRules';
+
+/**
+ * Rules in effect until the user changes them
+ */
+export const DEFAULT_SUMMARY_RULES: SummaryRules = {
+  maxDomains: 2,
+  maxTags: 2,
+  maxTitles: 3,
+  ignoredDomains: ['localhost'],
+};
+
+/**
+ * What one tab contributed to a session, the summarizer's input
+ */
+export interface TabActivity {
+  url: string;
+  title: string;
+  /** Active time spent in the tab during the session (ms) */
+  activeTime: number;
+  tags: string[];
+}
+
+/**
+ * Generated name and description for a session
+ */
+export interface SessionSummary {
+  name: string;
+  description: string;
+}
+
+/**
+ * Keys of a tally, highest first; ties go to whichever was seen first
+ */
+function topKeys(tally: Map<string, number>, limit: number): string[] {
+  return [...tally.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, Math.max(0, limit))
+    .map(([key]) => key);
+}
+
+function formatActiveTime(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Name and describe a session from its dominant domains, tags and most active tabs
+ * Domains rank by active time, then by how many tabs were on them. With
+ * nothing to go on the session keeps its current name.
+ */
+export function summarizeSession(
+  session: Pick<Session, 'name' | 'tags'>,
+  tabs: TabActivity[],
+  rules: SummaryRules
+): SessionSummary {
+  const isIgnored = (domain: string) =>
+    rules.ignoredDomains.some((ignored) => domain === ignored || domain.endsWith(`.${ignored}`));
+
+  const domainTime = new Map<string, number>();
+  const domainTabs = new Map<string, number>();
+  const tagCounts = new Map<string, number>();
+  for (const tag of session.tags) {
+    tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1);
+  }
+  for (const tab of tabs) {
+    const domain = getDomain(tab.url);
+    if (domain && !isIgnored(domain)) {
+      domainTime.set(domain, (domainTime.get(domain) ?? 0) + tab.activeTime);
+      domainTabs.set(domain, (domainTabs.get(domain) ?? 0) + 1);
+    }
+    for (const tag of tab.tags) {
+      tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1);
+    }
+  }
+
+  const domains = [...domainTime.keys()]
+    .sort((a, b) => domainTime.get(b)! - domainTime.get(a)! || domainTabs.get(b)! - domainTabs.get(a)!)
+    .slice(0, Math.max(0, rules.maxDomains));
+  const tags = topKeys(tagCounts, rules.maxTags);
+
+  const nameParts = [domains.join(', '), tags.map((tag) => `#${tag}`).join(' ')].filter(Boolean);
+  const name = nameParts.length > 0 ? nameParts.join(' · ') : session.name;
+
+  const totalTime = tabs.reduce((sum, tab) => sum + tab.activeTime, 0);
+  const titles = [...tabs]
+    .filter((tab) => tab.title && tab.activeTime > 0)
+    .sort((a, b) => b.activeTime - a.activeTime)
+    .slice(0, Math.max(0, rules.maxTitles))
+    .map((tab) => `"${tab.title}"`);
+
+  const sites = plural(domainTabs.size, 'site');
+  let description = `${formatActiveTime(totalTime)} active across ${plural(tabs.length, 'tab')} on ${sites}.`;
+  if (titles.length > 0) {
+    description += ` Most active: ${titles.join(', ')}`;
+  }
+
+  return { name, description };
+}
+
+/**
+ * SessionSummaryService - Names and describes sessions without leaving the machine
+ *
+ * When a session ends, its name and description are generated from the tabs
+ * it was spent in (visits record where the time went, even for tabs that
+ * moved on to the next session). The rules live in chrome.storage.local.
+ * A name the user sets sticks: the summarizer leaves that session alone
+ * until asked to summarize it again.
+ */
+export class SessionSummaryService {
+  private rules: SummaryRules | null = null;
+
+  /**
+   * Current rules, with defaults for anything not stored
+   */
+  async getRules(): Promise<SummaryRules> {
+    if (!this.rules) {
+      const stored = await chrome.storage.local.get(RULES_KEY);
+      this.rules = { ...DEFAULT_SUMMARY_RULES, ...(stored[RULES_KEY] as Partial<SummaryRules> | undefined) };
+    }
+    return this.rules;
+  }
+
+  /**
+   * Change some of the rules
+   * Throws if a limit is not a whole number of zero or more
+   */
+  async updateRules(changes: Partial<SummaryRules>): Promise<SummaryRules> {
+    for (const key of ['maxDomains', 'maxTags', 'maxTitles'] as const) {
+      const value = changes[key];
+      if (value !== undefined && !(Number.isInteger(value) && value >= 0)) {
+        throw new Error(`${key} must be a whole number of zero or more`);
+      }
+    }
+
+    const rules: SummaryRules = {
+      ...(await this.getRules()),
+      ...changes,
+    };
+    if (changes.ignoredDomains) {
+      rules.ignoredDomains = changes.ignoredDomains.map((d) => d.trim().toLowerCase()).filter(Boolean);
+    }
+    await chrome.storage.local.set({ [RULES_KEY]: rules });
+    this.rules = rules;
+
+    console.log('[SessionSummary] Rules updated:', rules);
+    return rules;
+  }
+
+  /**
+   * Generate a session's name and description
+   * A session the user named is left as it is, unless forced - which also
+   * hands the name back to the summarizer
+   * Returns the session, or null if it does not exist
+   */
+  async summarize(sessionId: string, options: { force?: boolean } = {}): Promise<Session | null> {
+    const db = getDatabase();
+    const session = await db.sessions.get(sessionId);
+    if (!session) return null;
+    if (session.isNamedByUser && !options.force) return session;
+
+    const summary = summarizeSession(session, await this.getActivity(sessionId), await this.getRules());
+    const changes = { ...summary, isNamedByUser: false, updatedAt: Date.now() };
+    await db.sessions.update(sessionId, changes);
+
+    console.log(`[SessionSummary] Summarized session ${sessionId}: ${summary.name}`);
+    return { ...session, ...changes };
+  }
+
+  /**
+   * Set a session's name (and optionally description) by hand
+   * Returns the session, or null if it does not exist
+   * Throws if the name is blank
+   */
+  async rename(sessionId: string, name: string, description?: string): Promise<Session | null> {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Session name cannot be empty');
+    }
+
+    const db = getDatabase();
+    const session = await db.sessions.get(sessionId);
+    if (!session) return null;
+
+    const changes = {
+      name: trimmed,
+      description: description ?? session.description,
+      isNamedByUser: true,
+      updatedAt: Date.now(),
+    };
+    await db.sessions.update(sessionId, changes);
+
+    console.log(`[SessionSummary] Renamed session ${sessionId}: ${trimmed}`);
+    return { ...session, ...changes };
+  }
+
+  /**
+   * Per-tab activity in a session: active time from its visits, plus the
+   * tabs it holds that were never visited
+   */
+  private async getActivity(sessionId: string): Promise<TabActivity[]> {
+    const db = getDatabase();
+    const activity = new Map<string, TabActivity>();
+
+    const visits = await db.tabVisits.where('sessionId').equals(sessionId).sortBy('activatedAt');
+    for (const visit of visits) {
+      const entry = activity.get(visit.tabPersistentId) ?? { url: '', title: '', activeTime: 0, tags: [] };
+      // The latest visit has the page the tab ended up on
+      entry.url = visit.url;
+      entry.title = visit.title;
+      entry.activeTime += Math.max(0, visit.duration - (visit.awayDuration || 0));
+      activity.set(visit.tabPersistentId, entry);
+    }
+
+    const sessionTabs = await db.tabs.where('sessionId').equals(sessionId).toArray();
+    const visitedTabs = await db.tabs.where('persistentId').anyOf([...activity.keys()]).toArray();
+    for (const tab of [...sessionTabs, ...visitedTabs]) {
+      const entry = activity.get(tab.persistentId);
+      if (entry) {
+        entry.tags = tab.tags;
+      } else {
+        activity.set(tab.persistentId, { url: tab.url, title: tab.title, activeTime: 0, tags: tab.tags });
+      }
+    }
+
+    return [...activity.values()];
+  }
+}
+
+// Singleton instance
+let sessionSummaryService: SessionSummaryService | null = null;
+
+/**
+ * Get the SessionSummaryService singleton
+ */
+export function getSessionSummaryService(): SessionSummaryService {
+  if (!sessionSummaryService) {
+    sessionSummaryService = new SessionSummaryService();
+  }
+  return sessionSummaryService;
+}
@@ -0,0 +1,341 @@
+import type { Settings, SettingsChanges, SettingsSection } from '../db/types';
+import { TIMING, RETENTION, STORAGE_LIMITS, REPORTS } from '../constants';
+import { ValidationError } from './errors';
+
+/** chrome.storage.sync key the settings are stored under */
+const SETTINGS_KEY = 'settings';
+
+/**
+ * Settings in effect until the user changes them
+ */
+export const DEFAULT_SETTINGS: Settings = {
+  version: 1,
+  timing: {
+    tabUpdateDebounceMs: TIMING.TAB_UPDATE_DEBOUNCE_MS,
+    tabUpdateMaxWaitMs: TIMING.TAB_UPDATE_MAX_WAIT_MS,
+    windowFocusDebounceMs: TIMING.WINDOW_FOCUS_DEBOUNCE_MS,
+    searchReindexDebounceMs: TIMING.SEARCH_REINDEX_DEBOUNCE_MS,
+    searchReindexMaxWaitMs: TIMING.SEARCH_REINDEX_MAX_WAIT_MS,
+    idleDetectionSeconds: TIMING.IDLE_DETECTION_SECONDS,
+    writeBatchIntervalMs: TIMING.WRITE_BATCH_INTERVAL_MS,
+    flushAlarmMinutes: TIMING.FLUSH_ALARM_MINUTES,
+    cleanupAlarmMinutes: TIMING.CLEANUP_ALARM_MINUTES,
+    relationshipAlarmMinutes: TIMING.RELATIONSHIP_ALARM_MINUTES,
+    sessionBoundaryAlarmMinutes: TIMING.SESSION_BOUNDARY_ALARM_MINUTES,
+    reportAlarmMinutes: TIMING.REPORT_ALARM_MINUTES,
+  },
+  relationships: {
+    temporalProximityMinutes: RETENTION.TEMPORAL_PROXIMITY_MINUTES,
+    weakRelationshipThreshold: RETENTION.WEAK_RELATIONSHIP_THRESHOLD,
+  },
+  storage: {
+    maxPendingWrites: STORAGE_LIMITS.MAX_PENDING_WRITES,
+    dataPageSize: STORAGE_LIMITS.DATA_PAGE_SIZE,
+    maxDataPageSize: STORAGE_LIMITS.MAX_DATA_PAGE_SIZE,
+  },
+  reports: {
+    weekStartsOn: REPORTS.WEEK_STARTS_ON,
+    dailyReportsKept: REPORTS.DAILY_REPORTS_KEPT,
+    weeklyReportsKept: REPORTS.WEEKLY_REPORTS_KEPT,
+  },
+  retention: {
+    sessionTtlDays: RETENTION.UNSAVED_SESSION_TTL_DAYS,
+    visitTtlDays: RETENTION.VISIT_HISTORY_TTL_DAYS,
+    maxVisitsPerTab: STORAGE_LIMITS.MAX_VISITS_PER_TAB,
+    archiveExpired: true,
+  },
+};
+
+/**
+ * Accepted values of a numeric setting
+ */
+export interface NumberSettingSchema {
+  /** Shown on the options page */
+  label: string;
+  min: number;
+  max: number;
+  integer?: boolean;
+}
+
+/**
+ * A setting that is on or off
+ */
+export interface BooleanSettingSchema {
+  /** Shown on the options page */
+  label: string;
+  boolean: true;
+}
+
+/**
+ * Accepted values of one setting
+ */
+export type SettingSchema = NumberSettingSchema | BooleanSettingSchema;
+
+/**
+ * Every setting with its label and accepted range
+ */
+export const SETTINGS_SCHEMA: { [S in SettingsSection]: Record<keyof Settings[S], SettingSchema> } = {
+  timing: {
+    tabUpdateDebounceMs: { label: 'Tab update debounce (ms)', min: 0, max: 10_000, integer: true },
+    tabUpdateMaxWaitMs: { label: 'Tab update max wait (ms)', min: 0, max: 60_000, integer: true },
+    windowFocusDebounceMs: { label: 'Window focus debounce (ms)', min: 0, max: 10_000, integer: true },
+    searchReindexDebounceMs: { label: 'Search reindex debounce (ms)', min: 0, max: 60_000, integer: true },
+    searchReindexMaxWaitMs: { label: 'Search reindex max wait (ms)', min: 0, max: 300_000, integer: true },
+    idleDetectionSeconds: { label: 'Idle after (seconds)', min: 15, max: 3600, integer: true },
+    writeBatchIntervalMs: { label: 'Write batch interval (ms)', min: 50, max: 10_000, integer: true },
+    flushAlarmMinutes: { label: 'Flush alarm (minutes)', min: 0.5, max: 60 },
+    cleanupAlarmMinutes: { label: 'Cleanup alarm (minutes)', min: 0.5, max: 1440 },
+    relationshipAlarmMinutes: { label: 'Relationship alarm (minutes)', min: 0.5, max: 1440 },
+    sessionBoundaryAlarmMinutes: { label: 'Session boundary alarm (minutes)', min: 0.5, max: 60 },
+    reportAlarmMinutes: { label: 'Report alarm (minutes)', min: 0.5, max: 1440 },
+  },
+  relationships: {
+    temporalProximityMinutes: { label: 'Temporal proximity (minutes)', min: 1, max: 240 },
+    weakRelationshipThreshold: { label: 'Prune relationships weaker than', min: 0, max: 1 },
+  },
+  storage: {
+    maxPendingWrites: { label: 'Pending writes before a flush', min: 1, max: 10_000, integer: true },
+    dataPageSize: { label: 'Export page size (rows)', min: 1, max: 50_000, integer: true },
+    maxDataPageSize: { label: 'Largest export page (rows)', min: 1, max: 50_000, integer: true },
+  },
+  reports: {
+    weekStartsOn: { label: 'Weeks start on (0 = Sunday, 1 = Monday...)', min: 0, max: 6, integer: true },
+    dailyReportsKept: { label: 'Daily reports kept (0 = none)', min: 0, max: 366, integer: true },
+    weeklyReportsKept: { label: 'Weekly reports kept (0 = none)', min: 0, max: 104, integer: true },
+  },
+  retention: {
+    sessionTtlDays: { label: 'Keep unsaved sessions (days)', min: 1, max: 3650, integer: true },
+    visitTtlDays: { label: 'Keep visit history (days, 0 = forever)', min: 0, max: 3650, integer: true },
+    maxVisitsPerTab: { label: 'Visits kept per tab (0 = no cap)', min: 0, max: 1_000_000, integer: true },
+    archiveExpired: { label: 'Archive expired sessions instead of deleting them', boolean: true },
+  },
+};
+
+const SECTIONS = Object.keys(SETTINGS_SCHEMA) as SettingsSection[];
+
+/**
+ * One step in the stored settings format
+ */
+export interface SettingsMigration {
+  version: number;
+  description: string;
+  /** Rewrites settings stored at the previous version */
+  migrate: (stored: Record<string, unknown>) => Record<string, unknown>;
+}
+
+/**
+ * Every settings format, oldest first
+ * Append an entry (and bump DEFAULT_SETTINGS.version) when a setting is
+ * renamed, moved or changes unit
+ */
+export const SETTINGS_MIGRATIONS: SettingsMigration[] = [
+  {
+    version: 1,
+    description: 'Timing, relationship and storage sections',
+    migrate: (stored) => stored,
+  },
+];
+
+/**
+ * Bring stored settings up to the latest format and fill in defaults
+ * Unknown sections and keys are dropped
+ */
+export function migrateSettings(
+  stored: Record<string, unknown> | undefined,
+  migrations: SettingsMigration[] = SETTINGS_MIGRATIONS
+): Settings {
+  let current = stored ?? {};
+  const from = typeof current.version === 'number' ? current.version : 0;
+
+  for (const migration of migrations) {
+    if (migration.version > from) {
+      current = migration.migrate(current);
+    }
+  }
+
+  const settings = structuredClone(DEFAULT_SETTINGS);
+  settings.version = migrations[migrations.length - 1]?.version ?? DEFAULT_SETTINGS.version;
+  for (const section of SECTIONS) {
+    const values = current[section] as Record<string, unknown> | undefined;
+    const target = settings[section] as unknown as Record<string, number | boolean>;
+    for (const key of Object.keys(target)) {
+      if (typeof values?.[key] === typeof target[key]) {
+        target[key] = values![key] as number | boolean;
+      }
+    }
+  }
+  return settings;
+}
+
+/**
+ * Thrown when a settings change is unknown or out of range
+ */
+export class SettingsValidationError extends ValidationError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SettingsValidationError';
+  }
+}
+
+/**
+ * Check changes against SETTINGS_SCHEMA and the settings they apply to
+ * Throws naming the first setting that is unknown or out of range
+ */
+export function validateSettings(changes: SettingsChanges, settings: Settings = DEFAULT_SETTINGS): Settings {
+  const next = structuredClone(settings);
+
+  for (const [section, values] of Object.entries(changes)) {
+    const schema = SETTINGS_SCHEMA[section as SettingsSection] as Record<string, SettingSchema> | undefined;
+    if (!schema) {
+      throw new SettingsValidationError(`Unknown settings section: ${section}`);
+    }
+    for (const [key, value] of Object.entries(values ?? {})) {
+      const rule = schema[key];
+      if (!rule) {
+        throw new SettingsValidationError(`Unknown setting: ${section}.${key}`);
+      }
+      if ('boolean' in rule) {
+        if (typeof value !== 'boolean') {
+          throw new SettingsValidationError(`${rule.label} must be on or off`);
+        }
+      } else {
+        if (typeof value !== 'number' || !(value >= rule.min && value <= rule.max)) {
+          throw new SettingsValidationError(`${rule.label} must be between ${rule.min} and ${rule.max}`);
+        }
+        if (rule.integer && !Number.isInteger(value)) {
+          throw new SettingsValidationError(`${rule.label} must be a whole number`);
+        }
+      }
+      (next[section as SettingsSection] as unknown as Record<string, number | boolean>)[key] = value;
+    }
+  }
+
+  if (next.timing.tabUpdateMaxWaitMs < next.timing.tabUpdateDebounceMs) {
+    throw new SettingsValidationError('Tab update max wait must be at least the debounce');
+  }
+  if (next.timing.searchReindexMaxWaitMs < next.timing.searchReindexDebounceMs) {
+    throw new SettingsValidationError('Search reindex max wait must be at least the debounce');
+  }
+  if (next.storage.dataPageSize > next.storage.maxDataPageSize) {
+    throw new SettingsValidationError('Export page size must not exceed the largest export page');
+  }
+  return next;
+}
+
+/**
+ * Called with the new settings and the ones they replaced
+ */
+export type SettingsListener = (settings: Settings, previous: Settings) => void;
+
+/**
+ * SettingsService - Typed, validated settings that services read at runtime
+ *
+ * Settings live in chrome.storage.sync, so they follow the user across
+ * browsers; TIMING, RETENTION and STORAGE_LIMITS only supply the defaults.
+ * Stored settings are migrated to the latest format on load. Listeners hear
+ * about every change, whether made here or synced from another browser.
+ */
+export class SettingsService {
+  private settings: Settings | null = null;
+  private loading: Promise<Settings> | null = null;
+  private listeners = new Set<SettingsListener>();
+
+  /**
+   * Current settings, loading them on first use
+   */
+  async getSettings(): Promise<Settings> {
+    if (!this.settings) {
+      // One read for every caller waiting on it
+      this.loading ??= chrome.storage.sync
+        .get(SETTINGS_KEY)
+        .then((stored) => migrateSettings(stored[SETTINGS_KEY] as Record<string, unknown> | undefined));
+      const loaded = await this.loading;
+      // Settings changed while the read was under way are newer
+      this.settings ??= loaded;
+    }
+    return this.settings;
+  }
+
+  /**
+   * Settings as last loaded, or the defaults before the first load
+   * For code that cannot wait, like debounce timings
+   */
+  getCurrent(): Settings {
+    return this.settings ?? DEFAULT_SETTINGS;
+  }
+
+  /**
+   * Change some settings
+   * Throws if a setting is unknown or out of range
+   */
+  async updateSettings(changes: SettingsChanges): Promise<Settings> {
+    const settings = validateSettings(changes, await this.getSettings());
+    await this.store(settings);
+    console.log('[Settings] Settings updated:', changes);
+    return settings;
+  }
+
+  /**
+   * Go back to the defaults
+   */
+  async resetSettings(): Promise<Settings> {
+    await this.getSettings();
+    await this.store(structuredClone(DEFAULT_SETTINGS));
+    console.log('[Settings] Settings reset');
+    return this.getCurrent();
+  }
+
+  /**
+   * Listen for changes; returns a function that stops listening
+   */
+  onChange(listener: SettingsListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Take in settings written to chrome.storage.sync elsewhere
+   * Pass from a chrome.storage.onChanged listener; writes made here are ignored
+   * Waits for the first load, so the change is compared with the stored
+   * settings rather than the defaults
+   */
+  async handleStorageChange(changes: Record<string, chrome.storage.StorageChange>, areaName: string): Promise<void> {
+    if (areaName !== 'sync' || !changes[SETTINGS_KEY]) return;
+
+    const current = await this.getSettings();
+    const settings = migrateSettings(changes[SETTINGS_KEY].newValue as Record<string, unknown> | undefined);
+    if (JSON.stringify(settings) === JSON.stringify(current)) return;
+    this.apply(settings);
+    console.log('[Settings] Settings changed in another browser');
+  }
+
+  private async store(settings: Settings): Promise<void> {
+    await chrome.storage.sync.set({ [SETTINGS_KEY]: settings });
+    this.apply(settings);
+  }
+
+  private apply(settings: Settings): void {
+    const previous = this.getCurrent();
+    this.settings = settings;
+    for (const listener of this.listeners) {
+      try {
+        listener(settings, previous);
+      } catch (err) {
+        console.error('[Settings] Listener failed:', err);
+      }
+    }
+  }
+}
+
+// Singleton instance
+let settingsService: SettingsService | null = null;
+
+/**
+ * Get the SettingsService singleton
+ */
+export function getSettingsService(): SettingsService {
+  if (!settingsService) {
+    settingsService = new SettingsService();
+  }
+  return settingsService;
+}
@@ -5,10 +5,13 @@ import type {
   TabVisit,
   Session,
   WorkingState,
+  IdleState,
 } from '../db/types';
 import { generateUUID } from '../utils/uuid';
 import { hashUrl } from '../utils/hash';
-import { TIMING, STORAGE_LIMITS, calculateSessionExpiry } from '../constants';
+import { STORAGE_LIMITS } from '../constants';
+import { getRetentionService } from './RetentionService';
+import { getSettingsService } from './SettingsService';
 
 /**
  * Pending write operation
@@ -102,6 +105,15 @@ export class StorageManager {
   // ID mapping caches
   private tabIdCache = new LRUCache<number, string>(STORAGE_LIMITS.MAX_CACHED_TAB_MAPPINGS);
   private windowIdCache = new LRUCache<number, string>(STORAGE_LIMITS.MAX_CACHED_WINDOW_MAPPINGS);
+  private groupIdCache = new LRUCache<number, string>(STORAGE_LIMITS.MAX_CACHED_GROUP_MAPPINGS);
+
+  // Window persistent ID -> session ID, only filled under per-window sessions
+  private windowSessionIds = new Map<string, string>();
+
+  // Stored records waiting to be relinked to the Chrome objects a restore is creating
+  private restoredWindowClaims: string[] = [];
+  private restoredTabClaims = new Map<string, string[]>();
+  private restoredGroupClaims = new Map<number, string[]>();
 
   /**
    * Ensure the storage manager is initialized
@@ -132,6 +144,12 @@ export class StorageManager {
       if (this.workingState.chromeWindowIdMap) {
         this.windowIdCache.fromObject(this.workingState.chromeWindowIdMap);
       }
+      if (this.workingState.chromeGroupIdMap) {
+        this.groupIdCache.fromObject(this.workingState.chromeGroupIdMap);
+      }
+      if (this.workingState.windowSessionMap) {
+        this.windowSessionIds = new Map(Object.entries(this.workingState.windowSessionMap));
+      }
       console.log('[StorageManager] Restored working state from session storage');
     } else {
       // Fresh session - will be initialized during reconciliation
@@ -184,8 +202,12 @@ export class StorageManager {
       activeWindowPersistentId: null,
       tabActivationTimestamp: 0,
       windowFocusTimestamp: 0,
+      idleState: 'active',
+      browserBlurredAt: 0,
       chromeTabIdMap: this.tabIdCache.toObject(),
       chromeWindowIdMap: this.windowIdCache.toObject(),
+      chromeGroupIdMap: this.groupIdCache.toObject(),
+      windowSessionMap: Object.fromEntries(this.windowSessionIds),
     };
 
     await this.persistWorkingState();
@@ -205,6 +227,7 @@ export class StorageManager {
       id: generateUUID(),
       name: `Session ${new Date(now).toLocaleString()}`,
       description: '',
+      isNamedByUser: false,
       startedAt: now,
       endedAt: null,
       isActive: true,
@@ -212,7 +235,7 @@ export class StorageManager {
       windowCount: 0,
       tabCount: 0,
       totalActiveTime: 0,
-      expiresAt: calculateSessionExpiry(now),
+      expiresAt: await getRetentionService().getSessionExpiry(now),
       tags: [],
       customMetadata: {},
       createdAt: now,
@@ -344,6 +367,7 @@ export class StorageManager {
         pinned: chromeTab.pinned,
         index: chromeTab.index,
         groupId: chromeTab.groupId ?? -1,
+        groupPersistentId: this.getPersistentGroupId(chromeTab.groupId ?? -1) ?? null,
         openerPersistentId,
         createdAt: now,
         lastActivatedAt: chromeTab.active ? now : 0,
@@ -403,6 +427,13 @@ export class StorageManager {
     return this.windowIdCache.get(chromeWindowId);
   }
 
+  /**
+   * Get persistent ID for a Chrome tab group ID
+   */
+  getPersistentGroupId(chromeGroupId: number): string | undefined {
+    return this.groupIdCache.get(chromeGroupId);
+  }
+
   /**
    * Set mapping for a tab
    */
@@ -419,6 +450,14 @@ export class StorageManager {
     this.updateWorkingStateMappings();
   }
 
+  /**
+   * Set mapping for a tab group
+   */
+  setGroupMapping(chromeGroupId: number, persistentId: string): void {
+    this.groupIdCache.set(chromeGroupId, persistentId);
+    this.updateWorkingStateMappings();
+  }
+
   /**
    * Remove tab mapping
    */
@@ -435,6 +474,83 @@ export class StorageManager {
     this.updateWorkingStateMappings();
   }
 
+  /**
+   * Remove tab group mapping
+   */
+  removeGroupMapping(chromeGroupId: number): void {
+    this.groupIdCache.delete(chromeGroupId);
+    this.updateWorkingStateMappings();
+  }
+
+  // ============================================
+  // Restore Claims
+  // ============================================
+  // A restore registers each record before asking Chrome to create its
+  // window, tab or group; the tracker handling the creation event takes the
+  // claim and reuses the record instead of creating a new one. Claims are
+  // taken in the order they were made.
+
+  /**
+   * Expect the next created window to reopen a stored window
+   */
+  expectRestoredWindow(persistentId: string): void {
+    this.restoredWindowClaims.push(persistentId);
+  }
+
+  /**
+   * Take the stored window a new Chrome window reopens, if any
+   */
+  claimRestoredWindow(): string | undefined {
+    return this.restoredWindowClaims.shift();
+  }
+
+  /**
+   * Expect a tab created with this URL to reopen a stored tab
+   */
+  expectRestoredTab(url: string, persistentId: string): void {
+    const claims = this.restoredTabClaims.get(url) ?? [];
+    claims.push(persistentId);
+    this.restoredTabClaims.set(url, claims);
+  }
+
+  /**
+   * Take the stored tab a new Chrome tab with this URL reopens, if any
+   */
+  claimRestoredTab(url: string): string | undefined {
+    const claims = this.restoredTabClaims.get(url);
+    const persistentId = claims?.shift();
+    if (claims?.length === 0) this.restoredTabClaims.delete(url);
+    return persistentId;
+  }
+
+  /**
+   * Expect the next group created in a window to reopen a stored group
+   */
+  expectRestoredGroup(chromeWindowId: number, persistentId: string): void {
+    const claims = this.restoredGroupClaims.get(chromeWindowId) ?? [];
+    claims.push(persistentId);
+    this.restoredGroupClaims.set(chromeWindowId, claims);
+  }
+
+  /**
+   * Take the stored group a new Chrome group in this window reopens, if any
+   */
+  claimRestoredGroup(chromeWindowId: number): string | undefined {
+    const claims = this.restoredGroupClaims.get(chromeWindowId);
+    const persistentId = claims?.shift();
+    if (claims?.length === 0) this.restoredGroupClaims.delete(chromeWindowId);
+    return persistentId;
+  }
+
+  /**
+   * Drop claims no creation event took (failed or unmatched creations)
+   */
+  clearRestoreClaims(): void {
+    this.restoredWindowClaims = [];
+    this.restoredTabClaims.clear();
+    this.restoredGroupClaims.clear();
+  }
+
   // ============================================
   // Working State Methods
   // ============================================
@@ -453,6 +569,75 @@ export class StorageManager {
     return this.workingState?.currentSessionId || null;
   }
 
+  /**
+   * Switch the current session (new tabs, visits and active time go to it)
+   */
+  async setCurrentSessionId(sessionId: string): Promise<void> {
+    if (!this.workingState) return;
+    this.workingState.currentSessionId = sessionId;
+    await this.persistWorkingState();
+  }
+
+  /**
+   * Session a window's activity belongs to - its own under per-window
+   * sessions, otherwise the current one
+   */
+  getSessionIdForWindow(windowPersistentId: string | null | undefined): string | null {
+    return (windowPersistentId && this.windowSessionIds.get(windowPersistentId)) || this.getCurrentSessionId();
+  }
+
+  /**
+   * Session a reopened window, tab or group belongs to - a saved session
+   * keeps its records, anything else moves into the session it is open in now
+   */
+  async getReopenedSessionId(recordSessionId: string, openSessionId: string): Promise<string> {
+    if (recordSessionId === openSessionId) return openSessionId;
+    const session = await getDatabase().sessions.get(recordSessionId);
+    return session?.isSaved ? recordSessionId : openSessionId;
+  }
+
+  /**
+   * Session a window was given under per-window sessions, if any
+   */
+  getWindowSessionId(windowPersistentId: string): string | undefined {
+    return this.windowSessionIds.get(windowPersistentId);
+  }
+
+  /**
+   * Give a window its own session
+   */
+  setWindowSession(windowPersistentId: string, sessionId: string): void {
+    this.windowSessionIds.set(windowPersistentId, sessionId);
+    this.updateWorkingStateMappings();
+  }
+
+  /**
+   * Forget a window's session (window closed)
+   */
+  removeWindowSession(windowPersistentId: string): void {
+    this.windowSessionIds.delete(windowPersistentId);
+    this.updateWorkingStateMappings();
+  }
+
+  /**
+   * Sessions that windows are assigned to right now
+   */
+  getWindowSessionIds(): string[] {
+    return [...new Set(this.windowSessionIds.values())];
+  }
+
+  /**
+   * Reassign every window of one session to another (session rotated)
+   */
+  moveWindowSessions(fromSessionId: string, toSessionId: string): void {
+    for (const [windowPersistentId, sessionId] of this.windowSessionIds) {
+      if (sessionId === fromSessionId) {
+        this.windowSessionIds.set(windowPersistentId, toSessionId);
+      }
+    }
+    this.updateWorkingStateMappings();
+  }
+
   /**
    * Get active tab's persistent ID
    */
@@ -481,6 +666,38 @@ export class StorageManager {
     return this.workingState?.windowFocusTimestamp || 0;
   }
 
+  /**
+   * Get presence state (working state from before idle tracking counts as active)
+   */
+  getIdleState(): IdleState {
+    return this.workingState?.idleState || 'active';
+  }
+
+  /**
+   * Update presence state
+   */
+  async setIdleState(state: IdleState): Promise<void> {
+    if (!this.workingState) return;
+    this.workingState.idleState = state;
+    await this.persistWorkingState();
+  }
+
+  /**
+   * Get when the browser lost focus (0 while focused)
+   */
+  getBrowserBlurTimestamp(): number {
+    return this.workingState?.browserBlurredAt || 0;
+  }
+
+  /**
+   * Update browser focus state (0 marks the browser as focused)
+   */
+  async setBrowserBlurTimestamp(timestamp: number): Promise<void> {
+    if (!this.workingState) return;
+    this.workingState.browserBlurredAt = timestamp;
+    await this.persistWorkingState();
+  }
+
   /**
    * Update active tab state
    */
@@ -508,6 +725,8 @@ export class StorageManager {
     if (!this.workingState) return;
     this.workingState.chromeTabIdMap = this.tabIdCache.toObject();
     this.workingState.chromeWindowIdMap = this.windowIdCache.toObject();
+    this.workingState.chromeGroupIdMap = this.groupIdCache.toObject();
+    this.workingState.windowSessionMap = Object.fromEntries(this.windowSessionIds);
     // Don't await - fire and forget for performance
     this.persistWorkingState().catch(console.error);
   }
@@ -539,8 +758,12 @@ export class StorageManager {
       activeWindowPersistentId: null,
       tabActivationTimestamp: 0,
       windowFocusTimestamp: 0,
+      idleState: 'active',
+      browserBlurredAt: 0,
       chromeTabIdMap: this.tabIdCache.toObject(),
       chromeWindowIdMap: this.windowIdCache.toObject(),
+      chromeGroupIdMap: this.groupIdCache.toObject(),
+      windowSessionMap: Object.fromEntries(this.windowSessionIds),
     };
 
     await this.persistWorkingState();
@@ -561,6 +784,13 @@ export class StorageManager {
     this.windowIdCache.set(chromeWindowId, persistentId);
   }
 
+  /**
+   * Set Chrome tab group ID mapping (used by InitializationService)
+   */
+  setChromeGroupId(chromeGroupId: number, persistentId: string): void {
+    this.groupIdCache.set(chromeGroupId, persistentId);
+  }
+
   // ============================================
   // Write Queue Methods
   // ============================================
@@ -586,7 +816,7 @@ export class StorageManager {
     });
 
     // Flush immediately if queue is full
-    if (this.writeQueue.size >= STORAGE_LIMITS.MAX_PENDING_WRITES) {
+    if (this.writeQueue.size >= getSettingsService().getCurrent().storage.maxPendingWrites) {
       this.flushWrites().catch(console.error);
       return;
     }
@@ -604,7 +834,7 @@ export class StorageManager {
     this.flushTimer = setTimeout(() => {
       this.flushWrites().catch(console.error);
       this.flushTimer = null;
-    }, TIMING.WRITE_BATCH_INTERVAL_MS);
+    }, getSettingsService().getCurrent().timing.writeBatchIntervalMs);
   }
 
   /**
@@ -657,54 +887,6 @@ export class StorageManager {
   // Cleanup Methods
   // ============================================
 
-  /**
-   * Cleanup expired sessions and related data
-   */
-  async cleanupExpiredSessions(): Promise<number> {
-    const db = getDatabase();
-    const now = Date.now();
-    let deletedCount = 0;
-
-    // Find expired, unsaved sessions
-    const expiredSessions = await db.sessions
-      .where('expiresAt')
-      .below(now)
-      .filter((s) => !s.isSaved)
-      .toArray();
-
-    for (const session of expiredSessions) {
-      // Get tab IDs for relationship cleanup
-      const sessionTabs = await db.tabs
-        .where('sessionId')
-        .equals(session.id)
-        .toArray();
-      const tabIds = sessionTabs.map((t) => t.persistentId);
-
-      // Delete relationships for these tabs
-      if (tabIds.length > 0) {
-        await db.tabRelationships
-          .filter(
-            (r) =>
-              tabIds.includes(r.sourceTabPersistentId) ||
-              tabIds.includes(r.targetTabPersistentId)
-          )
-          .delete();
-      }
-
-      // Delete related data
-      await db.tabVisits.where('sessionId').equals(session.id).delete();
-      await db.tabs.where('sessionId').equals(session.id).delete();
-      await db.windows.where('sessionId').equals(session.id).delete();
-      await db.sessions.delete(session.id);
-      deletedCount++;
-    }
-
-    if (deletedCount > 0) {
-      console.log(`[StorageManager] Cleaned up ${deletedCount} expired sessions`);
-    }
-
-    return deletedCount;
-  }
 }
 
 // Singleton instance
@@ -0,0 +1,244 @@
+import { getDatabase } from '../db/schema';
+import type { TrackedTabGroup, TabGroupColor } from '../db/types';
+import { getStorageManager, type StorageManager } from './StorageManager';
+import { generateUUID } from '../utils/uuid';
+
+/**
+ * TabGroupTracker - Handles chrome.tabGroups events
+ *
+ * Responsibilities:
+ * - Track group creation, changes (title, color, collapse), moves and removal
+ * - Keep each tab's group membership current
+ * - Reconcile open groups with stored records on startup
+ */
+export class TabGroupTracker {
+  private storageManager: StorageManager;
+
+  constructor(storageManager?: StorageManager) {
+    this.storageManager = storageManager || getStorageManager();
+  }
+
+  /**
+   * Handle group creation
+   */
+  async handleGroupCreated(group: chrome.tabGroups.TabGroup): Promise<void> {
+    const persistentId = await this.upsertGroup(group);
+    if (persistentId) {
+      console.log(`[TabGroupTracker] Created group: ${persistentId}`);
+    }
+  }
+
+  /**
+   * Handle a title, color or collapse change
+   */
+  async handleGroupUpdated(group: chrome.tabGroups.TabGroup): Promise<void> {
+    await this.upsertGroup(group);
+  }
+
+  /**
+   * Handle a group moved within or between windows
+   */
+  async handleGroupMoved(group: chrome.tabGroups.TabGroup): Promise<void> {
+    await this.upsertGroup(group);
+  }
+
+  /**
+   * Handle group removal (closed, or its last tab left)
+   */
+  async handleGroupRemoved(group: chrome.tabGroups.TabGroup): Promise<void> {
+    const persistentId = this.storageManager.getPersistentGroupId(group.id);
+    if (!persistentId) {
+      console.warn(`[TabGroupTracker] Unknown group removed: ${group.id}`);
+      return;
+    }
+
+    const now = Date.now();
+    await getDatabase().tabGroups.where('persistentId').equals(persistentId).modify({
+      closedAt: now,
+      updatedAt: now,
+    });
+    this.storageManager.removeGroupMapping(group.id);
+
+    console.log(`[TabGroupTracker] Removed group: ${persistentId}`);
+  }
+
+  /**
+   * Handle a tab joining or leaving a group (tabs.onUpdated with groupId)
+   */
+  async handleTabGroupChanged(tabId: number, chromeGroupId: number): Promise<void> {
+    await this.storageManager.ensureInitialized();
+    const persistentId = this.storageManager.getPersistentTabId(tabId);
+    if (!persistentId) return;
+
+    // Group events and tab events are not ordered, so the group may be new to us
+    const groupPersistentId =
+      chromeGroupId === chrome.tabGroups.TAB_GROUP_ID_NONE ? null : await this.ensureGroup(chromeGroupId);
+
+    await getDatabase().tabs.where('persistentId').equals(persistentId).modify({
+      groupId: chromeGroupId,
+      groupPersistentId,
+      updatedAt: Date.now(),
+    });
+  }
+
+  /**
+   * Match an open Chrome group to a stored record on startup, or create one
+   * A record is reused when the session continues and Chrome kept the group ID
+   * (service worker restart); after a browser restart every group is new.
+   */
+  async reconcileGroup(
+    group: chrome.tabGroups.TabGroup,
+    sessionId: string,
+    windowPersistentId: string
+  ): Promise<TrackedTabGroup> {
+    const db = getDatabase();
+    const now = Date.now();
+
+    const existing = await db.tabGroups
+      .where('chromeGroupId')
+      .equals(group.id)
+      .filter((g) => g.sessionId === sessionId && g.closedAt === null)
+      .first();
+
+    let record: TrackedTabGroup;
+    if (existing) {
+      record = { ...existing, ...this.fromChrome(group, windowPersistentId), updatedAt: now };
+      await db.tabGroups.put(record);
+    } else {
+      record = this.createRecord(group, sessionId, windowPersistentId, now);
+      await db.tabGroups.add(record);
+    }
+
+    this.storageManager.setChromeGroupId(group.id, record.persistentId);
+    return record;
+  }
+
+  /**
+   * Close every open group record that was not reconciled
+   * Returns the number of groups closed
+   */
+  async closeStaleGroups(openPersistentIds: Set<string>): Promise<number> {
+    const now = Date.now();
+    return getDatabase()
+      .tabGroups.filter((g) => g.closedAt === null && !openPersistentIds.has(g.persistentId))
+      .modify({ closedAt: now, updatedAt: now });
+  }
+
+  /**
+   * Get all groups in a session
+   */
+  async getGroupsInSession(sessionId: string): Promise<TrackedTabGroup[]> {
+    return getDatabase().tabGroups.where('sessionId').equals(sessionId).toArray();
+  }
+
+  /**
+   * Persistent ID for a Chrome group, creating its record if it is not tracked yet
+   * Returns null if the group no longer exists
+   */
+  private async ensureGroup(chromeGroupId: number): Promise<string | null> {
+    const known = this.storageManager.getPersistentGroupId(chromeGroupId);
+    if (known) return known;
+
+    try {
+      return await this.upsertGroup(await chrome.tabGroups.get(chromeGroupId));
+    } catch (error) {
+      console.warn(`[TabGroupTracker] Group ${chromeGroupId} is gone:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Create or update the record for a Chrome group
+   * Returns its persistent ID, or null without an active session
+   */
+  private async upsertGroup(group: chrome.tabGroups.TabGroup): Promise<string | null> {
+    await this.storageManager.ensureInitialized();
+    const sessionId = this.storageManager.getCurrentSessionId();
+    if (!sessionId) return null;
+
+    const db = getDatabase();
+    const now = Date.now();
+    const windowPersistentId = this.storageManager.getPersistentWindowId(group.windowId) || '';
+
+    // A group reopened by a session restore takes over its stored record
+    const restoredPersistentId = this.storageManager.getPersistentGroupId(group.id)
+      ? undefined
+      : this.storageManager.claimRestoredGroup(group.windowId);
+    if (restoredPersistentId) {
+      this.storageManager.setGroupMapping(group.id, restoredPersistentId);
+    }
+
+    const persistentId = this.storageManager.getPersistentGroupId(group.id);
+    if (persistentId) {
+      // Reopened into the current session like its window and tabs, unless a saved session holds it
+      const restored = restoredPersistentId
+        ? await db.tabGroups.where('persistentId').equals(restoredPersistentId).first()
+        : undefined;
+      const restoredSessionId = restored && (await this.storageManager.getReopenedSessionId(restored.sessionId, sessionId));
+      await db.tabGroups.where('persistentId').equals(persistentId).modify((record) => {
+        Object.assign(record, this.fromChrome(group, windowPersistentId || record.windowPersistentId));
+        if (restoredSessionId) {
+          record.sessionId = restoredSessionId;
+          record.closedAt = null;
+        }
+        record.updatedAt = now;
+      });
+      return persistentId;
+    }
+
+    // Mapped before the write so a concurrent event for the same group reuses it
+    const record = this.createRecord(group, sessionId, windowPersistentId, now);
+    this.storageManager.setGroupMapping(group.id, record.persistentId);
+    await db.tabGroups.add(record);
+    return record.persistentId;
+  }
+
+  /**
+   * Build a new group record
+   */
+  private createRecord(
+    group: chrome.tabGroups.TabGroup,
+    sessionId: string,
+    windowPersistentId: string,
+    now: number
+  ): TrackedTabGroup {
+    return {
+      persistentId: generateUUID(),
+      sessionId,
+      ...this.fromChrome(group, windowPersistentId),
+      createdAt: now,
+      closedAt: null,
+      updatedAt: now,
+    };
+  }
+
+  /**
+   * Fields copied from Chrome's view of a group
+   */
+  private fromChrome(
+    group: chrome.tabGroups.TabGroup,
+    windowPersistentId: string
+  ): Pick<TrackedTabGroup, 'chromeGroupId' | 'chromeWindowId' | 'windowPersistentId' | 'title' | 'color' | 'collapsed'> {
+    return {
+      chromeGroupId: group.id,
+      chromeWindowId: group.windowId,
+      windowPersistentId,
+      title: group.title || '',
+      color: group.color as TabGroupColor,
+      collapsed: group.collapsed,
+    };
+  }
+}
+
+// Singleton instance
+let tabGroupTracker: TabGroupTracker | null = null;
+
+/**
+ * Get the TabGroupTracker singleton
+ */
+export function getTabGroupTracker(): TabGroupTracker {
+  if (!tabGroupTracker) {
+    tabGroupTracker = new TabGroupTracker();
+  }
+  return tabGroupTracker;
+}
@@ -1,10 +1,12 @@
+import Dexie from 'dexie';
 import { getDatabase } from '../db/schema';
-import type { TrackedTab, TabVisit } from '../db/types';
+import type { TrackedTab, TabVisit, TabNavigation } from '../db/types';
 import { getStorageManager, type StorageManager } from './StorageManager';
 import { generateUUID } from '../utils/uuid';
 import { hashUrl } from '../utils/hash';
 import { debounce } from '../utils/debounce';
-import { TIMING } from '../constants';
+import { getSettingsService, type SettingsService } from './SettingsService';
+import { getAutoTagService, type AutoTagService } from './AutoTagService';
 
 /**
  * TabTracker - Handles all tab-related Chrome events
@@ -12,27 +14,36 @@ import { TIMING } from '../constants';
  * Responsibilities:
  * - Track tab creation, removal, activation
  * - Update tab metadata on changes
- * - Calculate and record time spent on tabs
+ * - Calculate and record time spent on tabs (paused while the user is idle)
  * - Create visit records
+ * - Record in-tab navigation history
+ * - Apply auto-tagging rules to new, navigated and retitled tabs
  */
 export class TabTracker {
   private storageManager: StorageManager;
+  private settingsService: SettingsService;
+  private autoTagService: AutoTagService;
 
   // Debounced handler for tab updates
   private debouncedHandleUpdate = debounce(
     this._handleTabUpdated.bind(this),
-    TIMING.TAB_UPDATE_DEBOUNCE_MS,
-    { maxWait: TIMING.TAB_UPDATE_MAX_WAIT_MS }
+    () => this.settingsService.getCurrent().timing.tabUpdateDebounceMs,
+    { maxWait: () => this.settingsService.getCurrent().timing.tabUpdateMaxWaitMs }
   );
 
-  constructor(storageManager?: StorageManager) {
+  constructor(storageManager?: StorageManager, settingsService?: SettingsService, autoTagService?: AutoTagService) {
     this.storageManager = storageManager || getStorageManager();
+    this.settingsService = settingsService || getSettingsService();
+    this.autoTagService = autoTagService || getAutoTagService();
   }
 
   /**
    * Handle tab creation
    */
   async handleTabCreated(tab: chrome.tabs.Tab): Promise<TrackedTab | null> {
+    // Taken before any await, so the claim goes to the tab that fired first
+    const restoredPersistentId = this.storageManager.claimRestoredTab(tab.pendingUrl || tab.url || '');
+
     await this.storageManager.ensureInitialized();
     const sessionId = this.storageManager.getCurrentSessionId();
     if (!sessionId) {
@@ -50,6 +61,8 @@ export class TabTracker {
     if (!windowPersistentId) {
       console.warn(`[TabTracker] Unknown window ${tab.windowId} for new tab`);
     }
+    // The window's own session under per-window sessions
+    const tabSessionId = this.storageManager.getSessionIdForWindow(windowPersistentId) ?? sessionId;
 
     // Get opener's persistent ID if available
     let openerPersistentId: string | null = null;
@@ -57,19 +70,30 @@ export class TabTracker {
       openerPersistentId = this.storageManager.getPersistentTabId(tab.openerTabId) || null;
     }
 
-    // Check for recently closed tab with same URL (within 5 minutes)
+    // Group the tab was opened into, if any
+    const groupId = tab.groupId ?? -1;
+    const groupPersistentId = this.storageManager.getPersistentGroupId(groupId) ?? null;
+
+    // Reopen the tab a session restore asked for, else check for a recently
+    // closed tab with same URL (within 5 minutes)
     const fiveMinutesAgo = now - 5 * 60 * 1000;
-    const recentTab = await db.tabs
-      .where('urlHash')
-      .equals(urlHash)
-      .filter(t => t.closedAt !== null && t.closedAt > fiveMinutesAgo)
-      .last();
+    const recentTab = restoredPersistentId
+      ? await db.tabs.where('persistentId').equals(restoredPersistentId).first()
+      : await db.tabs
+          .where('urlHash')
+          .equals(urlHash)
+          .filter(t => t.closedAt !== null && t.closedAt > fiveMinutesAgo)
+          .last();
 
     if (recentTab) {
-      // REUSE recently closed tab
-      console.log(`[TabTracker] Reusing recently closed tab: ${recentTab.persistentId} for URL: ${url.slice(0, 50)}`);
+      // REUSE recently closed (or restored) tab. Unless a saved session holds
+      // it, it moves into the session it is open in now, so the old session's
+      // retention cannot remove an open tab
+      console.log(`[TabTracker] Reusing ${restoredPersistentId ? 'restored' : 'recently closed'} tab: ${recentTab.persistentId} for URL: ${url.slice(0, 50)}`);
+      const reusedSessionId = await this.storageManager.getReopenedSessionId(recentTab.sessionId, tabSessionId);
 
       await db.tabs.update(recentTab.id!, {
+        sessionId: reusedSessionId,
         chromeTabId: tab.id!,
         chromeWindowId: tab.windowId,
         windowPersistentId: windowPersistentId || recentTab.windowPersistentId,
@@ -80,14 +104,26 @@ export class TabTracker {
         status: tab.status || 'loading',
         pinned: tab.pinned,
         index: tab.index,
+        groupId,
+        groupPersistentId,
         openerPersistentId: openerPersistentId || recentTab.openerPersistentId,
         updatedAt: now,
       });
 
       this.storageManager.setTabMapping(tab.id!, recentTab.persistentId);
 
-      // Update session tab count
-      await db.sessions.where('id').equals(sessionId).modify((session) => {
+      // Reopening the URL counts as a new navigation for the reused tab
+      await this.recordNavigation(
+        recentTab.persistentId,
+        url,
+        urlHash,
+        tab.title || recentTab.title,
+        windowPersistentId || recentTab.windowPersistentId,
+        now
+      );
+
+      // Update the tab count of the session holding the tab
+      await db.sessions.where('id').equals(reusedSessionId).modify((session) => {
         session.tabCount = (session.tabCount || 0) + 1;
         session.updatedAt = now;
       });
@@ -100,7 +136,9 @@ export class TabTracker {
         });
       }
 
-      return (await db.tabs.get(recentTab.id!))!;
+      const reusedTab = (await db.tabs.get(recentTab.id!))!;
+      reusedTab.tags.push(...(await this.applyAutoTags(reusedTab)));
+      return reusedTab;
     }
 
     // CREATE new tab (genuinely new)
@@ -116,12 +154,13 @@ export class TabTracker {
       status: tab.status || 'loading',
       pinned: tab.pinned,
       index: tab.index,
-      groupId: tab.groupId ?? -1,
+      groupId,
+      groupPersistentId,
       openerPersistentId,
       createdAt: now,
       lastActivatedAt: tab.active ? now : 0,
       totalActiveTime: 0,
-      sessionId,
+      sessionId: tabSessionId,
       windowPersistentId: windowPersistentId || '',
       isSaved: false,
       isPinned: false,
@@ -136,8 +175,11 @@ export class TabTracker {
     await db.tabs.add(tabRecord);
     this.storageManager.setTabMapping(tab.id!, persistentId);
 
+    // Record the tab's first navigation
+    await this.recordNavigation(persistentId, url, urlHash, tabRecord.title, tabRecord.windowPersistentId, now);
+
     // Update session tab count
-    await db.sessions.where('id').equals(sessionId).modify((session) => {
+    await db.sessions.where('id').equals(tabSessionId).modify((session) => {
       session.tabCount = (session.tabCount || 0) + 1;
       session.updatedAt = now;
     });
@@ -150,6 +192,8 @@ export class TabTracker {
       });
     }
 
+    tabRecord.tags.push(...(await this.applyAutoTags(tabRecord)));
+
     console.log(`[TabTracker] Created NEW tab: ${persistentId} (${url.substring(0, 50)}...)`);
     return tabRecord;
   }
@@ -170,19 +214,20 @@ export class TabTracker {
     }
 
     const db = getDatabase();
-    const sessionId = this.storageManager.getCurrentSessionId();
+    // Counts and time go to the session holding the tab, which need not be
+    // the current one (a saved session's reopened tab, another window's session)
+    const record = await db.tabs.where('persistentId').equals(persistentId).first();
+    const sessionId = record?.sessionId;
 
-    // Close any active visit for this tab
+    // Close any active visit and navigation for this tab
     await this.closeActiveVisit(persistentId, now);
+    await this.closeActiveNavigation(persistentId, now);
 
     // Calculate final active time if this was the active tab
     if (this.storageManager.getActiveTabPersistentId() === persistentId) {
       const activationTime = this.storageManager.getTabActivationTimestamp();
-      if (activationTime > 0) {
-        const duration = now - activationTime;
-        await db.tabs.where('persistentId').equals(persistentId).modify((tab) => {
-          tab.totalActiveTime = (tab.totalActiveTime || 0) + duration;
-        });
+      if (activationTime > 0 && sessionId) {
+        await this.creditActiveTime(persistentId, sessionId, now - activationTime, now);
       }
       await this.storageManager.setActiveTab(null, 0);
     }
@@ -226,23 +271,15 @@ export class TabTracker {
     const previousTabId = this.storageManager.getActiveTabPersistentId();
     const activationTime = this.storageManager.getTabActivationTimestamp();
 
-    if (previousTabId && activationTime > 0) {
-      const duration = now - activationTime;
-
-      // Update total active time for previous tab
-      await db.tabs.where('persistentId').equals(previousTabId).modify((tab) => {
-        tab.totalActiveTime = (tab.totalActiveTime || 0) + duration;
-        tab.updatedAt = now;
-      });
+    // A zero activation time means the clock is paused (user idle or browser
+    // unfocused) and the time up to the pause was already credited
+    if (previousTabId) {
+      if (activationTime > 0) {
+        await this.creditActiveTime(previousTabId, sessionId, now - activationTime, now);
+      }
 
-      // Close the visit record
+      // Close the visit record (idle pauses have closed it already)
       await this.closeActiveVisit(previousTabId, now);
-
-      // Update session total active time
-      await db.sessions.where('id').equals(sessionId).modify((session) => {
-        session.totalActiveTime = (session.totalActiveTime || 0) + duration;
-        session.updatedAt = now;
-      });
     }
 
     // Get persistent ID for new active tab
@@ -271,12 +308,101 @@ export class TabTracker {
     // Create a new visit record
     await this.createVisit(newPersistentId, previousTabId, windowPersistentId || null, now);
 
-    // Update working state
-    await this.storageManager.setActiveTab(newPersistentId, now);
+    // Update working state - the clock stays stopped while the browser is unfocused
+    await this.storageManager.setActiveTab(newPersistentId, this.clockStartFor(now));
 
     console.log(`[TabTracker] Activated tab: ${newPersistentId}`);
   }
 
+  /**
+   * Stop the active-time clock (user went idle or locked the screen)
+   * Credits time up to pausedAt and closes the active visit there; the tab
+   * stays active so the clock can resume on it
+   */
+  async pauseActiveTime(pausedAt: number): Promise<void> {
+    const persistentId = this.storageManager.getActiveTabPersistentId();
+    const activationTime = this.storageManager.getTabActivationTimestamp();
+    const sessionId = this.storageManager.getCurrentSessionId();
+    if (!persistentId || !sessionId) return;
+
+    // With the browser unfocused the clock is already stopped, but the visit is open
+    const end = Math.max(pausedAt, activationTime);
+    if (activationTime > 0) {
+      await this.creditActiveTime(persistentId, sessionId, end - activationTime, end);
+    }
+    await this.closeActiveVisit(persistentId, end);
+    await this.storageManager.setActiveTab(persistentId, 0);
+
+    console.log(`[TabTracker] Paused active time on tab: ${persistentId}`);
+  }
+
+  /**
+   * Restart the active-time clock on the active tab with a new visit
+   * The visit names its own tab in fromTabPersistentId, marking it as the
+   * continuation of the visit split by the pause
+   */
+  async resumeActiveTime(resumedAt: number): Promise<void> {
+    const persistentId = this.storageManager.getActiveTabPersistentId();
+    if (!persistentId) return;
+    // A tab switch while away already opened a visit
+    if (await this.findOpenVisit(persistentId)) return;
+
+    const tab = await this.getTab(persistentId);
+    if (!tab || tab.closedAt) {
+      await this.storageManager.setActiveTab(null, 0);
+      return;
+    }
+
+    await this.createVisit(persistentId, persistentId, tab.windowPersistentId, resumedAt);
+    await this.storageManager.setActiveTab(persistentId, this.clockStartFor(resumedAt));
+
+    console.log(`[TabTracker] Resumed active time on tab: ${persistentId}`);
+  }
+
+  /**
+   * Stop the active-time clock while another application has focus
+   * Unlike an idle pause the visit stays open; the time until the browser
+   * regains focus is added to its awayDuration
+   */
+  async handleBrowserBlurred(blurredAt: number): Promise<void> {
+    if (this.storageManager.getBrowserBlurTimestamp() > 0) return;
+
+    const persistentId = this.storageManager.getActiveTabPersistentId();
+    const activationTime = this.storageManager.getTabActivationTimestamp();
+    const sessionId = this.storageManager.getCurrentSessionId();
+
+    if (persistentId && sessionId && activationTime > 0) {
+      const end = Math.max(blurredAt, activationTime);
+      await this.creditActiveTime(persistentId, sessionId, end - activationTime, end);
+      await this.storageManager.setActiveTab(persistentId, 0);
+    }
+
+    await this.storageManager.setBrowserBlurTimestamp(blurredAt);
+  }
+
+  /**
+   * Restart the active-time clock when the browser regains focus
+   */
+  async handleBrowserFocused(focusedAt: number): Promise<void> {
+    const blurredAt = this.storageManager.getBrowserBlurTimestamp();
+    if (blurredAt === 0) return;
+
+    await this.storageManager.setBrowserBlurTimestamp(0);
+
+    const persistentId = this.storageManager.getActiveTabPersistentId();
+    if (!persistentId) return;
+
+    // No open visit means the user is idle - IdleTracker restarts the clock
+    const visit = await this.findOpenVisit(persistentId);
+    if (!visit?.id) return;
+
+    const awayFrom = Math.max(blurredAt, visit.activatedAt);
+    await getDatabase().tabVisits.update(visit.id, {
+      awayDuration: (visit.awayDuration || 0) + Math.max(0, focusedAt - awayFrom),
+    });
+    await this.storageManager.setActiveTab(persistentId, focusedAt);
+  }
+
   /**
    * Handle tab update (URL, title, etc. changes)
    */
@@ -303,13 +429,25 @@ export class TabTracker {
     const db = getDatabase();
     const now = Date.now();
 
+    const existing = await db.tabs.where('persistentId').equals(persistentId).first();
+    if (!existing) return;
+
     const updates: Partial<TrackedTab> = {
       updatedAt: now,
     };
 
-    if (changeInfo.url !== undefined) {
-      updates.url = changeInfo.url;
-      updates.urlHash = await hashUrl(changeInfo.url);
+    // Debouncing keeps only the latest changeInfo, so fall back to the tab's
+    // current URL to avoid missing a navigation followed by a title change
+    const url = changeInfo.url ?? tab.url;
+    let navigated = false;
+
+    if (url) {
+      const urlHash = await hashUrl(url);
+      if (urlHash !== existing.urlHash) {
+        updates.url = url;
+        updates.urlHash = urlHash;
+        navigated = true;
+      }
     }
 
     if (changeInfo.title !== undefined) {
@@ -330,6 +468,23 @@ export class TabTracker {
 
     await db.tabs.where('persistentId').equals(persistentId).modify(updates);
 
+    if (navigated) {
+      await this.recordNavigation(
+        persistentId,
+        updates.url!,
+        updates.urlHash!,
+        updates.title ?? tab.title ?? '',
+        existing.windowPersistentId,
+        now
+      );
+    } else if (updates.title !== undefined) {
+      await this.updateActiveNavigationTitle(persistentId, updates.title);
+    }
+
+    if (navigated || updates.title !== undefined) {
+      await this.applyAutoTags({ ...existing, ...updates });
+    }
+
     console.log(`[TabTracker] Updated tab: ${persistentId}`);
   }
 
@@ -431,6 +586,7 @@ export class TabTracker {
       activatedAt,
       deactivatedAt: null,
       duration: 0,
+      awayDuration: 0,
       windowPersistentId: windowPersistentId || '',
       fromTabPersistentId,
     };
@@ -439,27 +595,163 @@ export class TabTracker {
   }
 
   /**
-   * Close the active visit for a tab
+   * Add active time to a tab and its session
    */
-  private async closeActiveVisit(tabPersistentId: string, deactivatedAt: number): Promise<void> {
+  private async creditActiveTime(
+    tabPersistentId: string,
+    sessionId: string,
+    duration: number,
+    now: number
+  ): Promise<void> {
     const db = getDatabase();
 
-    // Find the most recent unclosed visit for this tab
-    const openVisit = await db.tabVisits
+    await db.tabs.where('persistentId').equals(tabPersistentId).modify((tab) => {
+      tab.totalActiveTime = (tab.totalActiveTime || 0) + duration;
+      tab.updatedAt = now;
+    });
+
+    await db.sessions.where('id').equals(sessionId).modify((session) => {
+      session.totalActiveTime = (session.totalActiveTime || 0) + duration;
+      session.updatedAt = now;
+    });
+  }
+
+  /**
+   * Find the most recent unclosed visit for a tab
+   */
+  private async findOpenVisit(tabPersistentId: string): Promise<TabVisit | undefined> {
+    const db = getDatabase();
+    return db.tabVisits
       .where('tabPersistentId')
       .equals(tabPersistentId)
       .filter((v) => v.deactivatedAt === null)
       .last();
+  }
+
+  /**
+   * Close the active visit for a tab
+   * Time since the browser lost focus (if it has) counts as away
+   */
+  private async closeActiveVisit(tabPersistentId: string, deactivatedAt: number): Promise<void> {
+    const openVisit = await this.findOpenVisit(tabPersistentId);
 
     if (openVisit && openVisit.id) {
-      const duration = deactivatedAt - openVisit.activatedAt;
-      await db.tabVisits.update(openVisit.id, {
-        deactivatedAt,
-        duration,
+      const end = Math.max(deactivatedAt, openVisit.activatedAt);
+      const blurredAt = this.storageManager.getBrowserBlurTimestamp();
+      const away = blurredAt > 0 ? Math.max(0, end - Math.max(blurredAt, openVisit.activatedAt)) : 0;
+
+      await getDatabase().tabVisits.update(openVisit.id, {
+        deactivatedAt: end,
+        duration: end - openVisit.activatedAt,
+        awayDuration: (openVisit.awayDuration || 0) + away,
       });
     }
   }
 
+  /**
+   * Activation timestamp for a clock starting now - 0 (stopped) while the
+   * browser is unfocused
+   */
+  private clockStartFor(now: number): number {
+    return this.storageManager.getBrowserBlurTimestamp() > 0 ? 0 : now;
+  }
+
+  /**
+   * Apply the auto-tagging rules to a tab as stored now, returning the tags added
+   * A broken rule is logged rather than failing the event that got here
+   */
+  private async applyAutoTags(tab: TrackedTab): Promise<string[]> {
+    try {
+      return await this.autoTagService.applyToTab(tab);
+    } catch (error) {
+      console.error('[TabTracker] Auto-tagging failed:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Record a navigation to a new URL, closing the tab's previous navigation
+   */
+  private async recordNavigation(
+    tabPersistentId: string,
+    url: string,
+    urlHash: string,
+    title: string,
+    windowPersistentId: string,
+    navigatedAt: number
+  ): Promise<void> {
+    if (!url) return;
+
+    const sessionId = this.storageManager.getCurrentSessionId();
+    if (!sessionId) return;
+
+    const db = getDatabase();
+
+    // Link to the most recent navigation, whether or not it is still open
+    const previous = await this.closeActiveNavigation(tabPersistentId, navigatedAt);
+
+    const navigation: TabNavigation = {
+      tabPersistentId,
+      sessionId,
+      url,
+      urlHash,
+      title,
+      navigatedAt,
+      leftAt: null,
+      dwellTime: 0,
+      previousNavigationId: previous?.id ?? null,
+      windowPersistentId,
+    };
+
+    await db.tabNavigations.add(navigation);
+  }
+
+  /**
+   * Close the open navigation for a tab
+   * Returns the tab's most recent navigation (if any)
+   */
+  private async closeActiveNavigation(
+    tabPersistentId: string,
+    leftAt: number
+  ): Promise<TabNavigation | undefined> {
+    const db = getDatabase();
+
+    const latest = await this.navigationsOf(tabPersistentId).last();
+
+    if (latest && latest.id && latest.leftAt === null) {
+      const dwellTime = leftAt - latest.navigatedAt;
+      await db.tabNavigations.update(latest.id, {
+        leftAt,
+        dwellTime,
+      });
+    }
+
+    return latest;
+  }
+
+  /**
+   * A tab's navigations in the order they happened
+   */
+  private navigationsOf(tabPersistentId: string) {
+    const db = getDatabase();
+    return db.tabNavigations
+      .where('[tabPersistentId+navigatedAt]')
+      .between([tabPersistentId, Dexie.minKey], [tabPersistentId, Dexie.maxKey]);
+  }
+
+  /**
+   * Update the title of the tab's open navigation (titles arrive after the URL)
+   */
+  private async updateActiveNavigationTitle(tabPersistentId: string, title: string): Promise<void> {
+    const db = getDatabase();
+
+    const latest = await this.navigationsOf(tabPersistentId).last();
+
+    if (latest && latest.id && latest.leftAt === null) {
+      await db.tabNavigations.update(latest.id, { title });
+    }
+  }
+
   /**
    * Get tab by persistent ID
    */
@@ -506,9 +798,12 @@ export class TabTracker {
    */
   async saveTab(persistentId: string): Promise<void> {
     const db = getDatabase();
-    await db.tabs.where('persistentId').equals(persistentId).modify({
-      isSaved: true,
-      updatedAt: Date.now(),
+    const now = Date.now();
+    await db.tabs.where('persistentId').equals(persistentId).modify((tab) => {
+      // Saving again keeps the time the tab was first saved
+      if (!tab.isSaved) tab.savedAt = now;
+      tab.isSaved = true;
+      tab.updatedAt = now;
     });
   }
 
@@ -524,6 +819,16 @@ export class TabTracker {
       .limit(limit)
       .toArray();
   }
+
+  /**
+   * Get navigation history for a tab (most recent first)
+   */
+  async getTabNavigations(persistentId: string, limit = 100): Promise<TabNavigation[]> {
+    return this.navigationsOf(persistentId)
+      .reverse()
+      .limit(limit)
+      .toArray();
+  }
 }
 
 // Singleton instance
@@ -0,0 +1,524 @@
+import type { Collection, Table } from 'dexie';
+import { getDatabase } from '../db/schema';
+import type { Tag, TrackedTab } from '../db/types';
+import {
+  TAG_PATH_SEPARATOR,
+  normalizeTagName,
+  normalizeTags,
+  parentTagName,
+  tagAncestors,
+  isTagWithin,
+  rewriteTagPath,
+} from '../utils/tags';
+import { getSearchService, type SearchService } from './SearchService';
+import { ValidationError } from './errors';
+
+/**
+ * Colors handed out to new tags
+ */
+export const TAG_COLORS = [
+  '#6366f1',
+  '#8b5cf6',
+  '#ec4899',
+  '#ef4444',
+  '#f59e0b',
+  '#22c55e',
+  '#14b8a6',
+  '#3b82f6',
+] as const;
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Whether a string is a #rrggbb color
+ */
+export function isTagColor(color: string): boolean {
+  return COLOR_PATTERN.test(color);
+}
+
+/**
+ * Color a new tag gets unless one is given - the same name always gets the same color
+ */
+export function defaultTagColor(name: string): string {
+  let hash = 5381;
+  for (let i = 0; i < name.length; i++) {
+    hash = (hash * 33) ^ name.charCodeAt(i);
+  }
+  return TAG_COLORS[(hash >>> 0) % TAG_COLORS.length]!;
+}
+
+/**
+ * Key that near-duplicate tags share
+ * Ignores punctuation, spacing and a trailing plural "s", so "to-read",
+ * "toread" and "to reads" collide
+ */
+export function tagSimilarityKey(name: string): string {
+  const key = normalizeTagName(name).replace(/[^\p{L}\p{N}]/gu, '');
+  return key.length > 3 && key.endsWith('s') ? key.slice(0, -1) : key;
+}
+
+/**
+ * Vocabulary record for a tag not stored yet
+ */
+function createTagRecord(name: string, usageCount: number, color = defaultTagColor(name)): Tag {
+  return { name, parent: parentTagName(name), aliases: [], color, createdAt: Date.now(), usageCount };
+}
+
+/**
+ * Records tagged with any of some tags or a tag nested under them, through
+ * the *tags index
+ */
+function whereTagged<T, K>(table: Table<T, K>, names: string[]): Collection<T, K> {
+  return table
+    .where('tags')
+    .anyOf(names)
+    .or('tags')
+    .startsWithAnyOf(names.map((name) => name + TAG_PATH_SEPARATOR))
+    .distinct();
+}
+
+/**
+ * Tags named any of some names or nested under them
+ */
+function whereNamed(table: Table<Tag, number>, names: string[]): Collection<Tag, number> {
+  return table
+    .where('name')
+    .anyOf(names)
+    .or('name')
+    .startsWithAnyOf(names.map((name) => name + TAG_PATH_SEPARATOR));
+}
+
+/**
+ * TagService - The tag vocabulary behind TrackedTab.tags and Session.tags
+ *
+ * Tabs and sessions store tag names; the tags table gives each name a color
+ * and a usage count (tabs plus sessions carrying it). Nested tags are paths
+ * ("project/unos/backend") and every level has a vocabulary entry; a tag
+ * covers the tags nested under it. Aliases resolve other names to a tag
+ * wherever tags are written or searched.
+ *
+ * Renames, merges and deletes carry along the tags nested under the tag and
+ * are applied to every tab, session and archive that carries them; the
+ * affected tabs are reindexed for search.
+ */
+export class TagService {
+  private searchService: SearchService;
+
+  constructor(searchService?: SearchService) {
+    this.searchService = searchService || getSearchService();
+  }
+
+  /**
+   * Every tag, most used first
+   */
+  async getTags(): Promise<Tag[]> {
+    const tags = await getDatabase().tags.toArray();
+    return tags.sort((a, b) => b.usageCount - a.usageCount || a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Look a tag up by name (normalized first)
+   */
+  async getTag(name: string): Promise<Tag | undefined> {
+    return getDatabase().tags.where('name').equals(normalizeTagName(name)).first();
+  }
+
+  /**
+   * The tag an alias resolves to
+   */
+  async getTagByAlias(alias: string): Promise<Tag | undefined> {
+    return getDatabase().tags.where('aliases').equals(normalizeTagName(alias)).first();
+  }
+
+  /**
+   * Every alias, mapped to the name of its tag
+   */
+  async getAliases(): Promise<Map<string, string>> {
+    const tags = await getDatabase().tags.orderBy('aliases').distinct().toArray();
+    return new Map(tags.flatMap((tag) => tag.aliases.map((alias): [string, string] => [alias, tag.name])));
+  }
+
+  /**
+   * Normalize a tag name and swap an alias for the tag it stands for
+   */
+  async resolveTag(name: string): Promise<string> {
+    return rewriteTagPath(normalizeTagName(name), await this.getAliases());
+  }
+
+  /**
+   * Normalize tags, swap aliases for their tags, and drop blanks and repeats
+   */
+  async resolveTags(names: string[]): Promise<string[]> {
+    const aliases = await this.getAliases();
+    return normalizeTags(names.map((name) => rewriteTagPath(normalizeTagName(name), aliases)));
+  }
+
+  /**
+   * Tabs tagged with any of some tags or a tag nested under them
+   * Names are matched as given - resolve aliases first
+   */
+  tabsTagged(names: string[]): Collection<TrackedTab, number> {
+    return whereTagged(getDatabase().tabs, names);
+  }
+
+  /**
+   * Groups of tags that look like spellings of the same thing, most used first
+   */
+  async findDuplicates(): Promise<Tag[][]> {
+    const groups = new Map<string, Tag[]>();
+    for (const tag of await this.getTags()) {
+      const key = tagSimilarityKey(tag.name);
+      groups.set(key, [...(groups.get(key) ?? []), tag]);
+    }
+    return [...groups.values()].filter((group) => group.length > 1);
+  }
+
+  /**
+   * Add a tag to the vocabulary, along with the tags it is nested under
+   * Aliases in the name are resolved. Throws if the name is blank, taken, or
+   * the color is not #rrggbb
+   */
+  async createTag(name: string, color?: string): Promise<Tag> {
+    const db = getDatabase();
+    const resolved = await this.resolveTag(name);
+    if (!resolved) {
+      throw new ValidationError('Tag name cannot be empty');
+    }
+    if (color !== undefined && !isTagColor(color)) {
+      throw new ValidationError(`Invalid tag color: ${color}`);
+    }
+    if (await this.getTag(resolved)) {
+      throw new ValidationError(`Tag "${resolved}" already exists`);
+    }
+
+    const tag = createTagRecord(resolved, await this.countUsage(resolved), color);
+    await db.transaction('rw', [db.tags, db.tabs, db.sessions], async () => {
+      await this.addMissingTags(tagAncestors(resolved));
+      tag.id = await db.tags.add(tag);
+    });
+    return tag;
+  }
+
+  /**
+   * Rename a tag everywhere it is used, moving the tags nested under it along
+   * (renaming "project" to "work/project" moves "project/unos" to
+   * "work/project/unos"); a nested tag whose new name is taken is merged in
+   * Returns null if there is no such tag; throws if the new name is taken
+   * (merge the tags instead) or nested under the tag itself
+   */
+  async renameTag(name: string, newName: string): Promise<Tag | null> {
+    const tag = await this.getTag(name);
+    if (!tag) return null;
+
+    const resolved = await this.resolveTag(newName);
+    if (!resolved) {
+      throw new ValidationError('Tag name cannot be empty');
+    }
+    if (resolved === tag.name) return tag;
+    if (isTagWithin(resolved, tag.name)) {
+      throw new ValidationError(`Cannot move "${tag.name}" under itself`);
+    }
+    if (await this.getTag(resolved)) {
+      throw new ValidationError(`Tag "${resolved}" already exists`);
+    }
+
+    await this.moveTags(new Map([[tag.name, resolved]]));
+
+    console.log(`[Tags] Renamed "${tag.name}" to "${resolved}"`);
+    return (await this.getTag(resolved))!;
+  }
+
+  /**
+   * Change a tag's color
+   * Returns null if there is no such tag; throws if the color is not #rrggbb
+   */
+  async recolorTag(name: string, color: string): Promise<Tag | null> {
+    if (!isTagColor(color)) {
+      throw new ValidationError(`Invalid tag color: ${color}`);
+    }
+
+    const db = getDatabase();
+    const tag = await this.getTag(name);
+    if (!tag) return null;
+
+    await db.tags.update(tag.id!, { color });
+    return { ...tag, color };
+  }
+
+  /**
+   * Fold tags into another one, keeping its color and gaining their aliases
+   * Tabs and sessions that carried any of them carry the target once; tags
+   * nested under a source move under the target
+   * Returns null if the target does not exist; unknown sources are ignored.
+   * Throws if the target is nested under a source
+   */
+  async mergeTags(sources: string[], target: string): Promise<Tag | null> {
+    const db = getDatabase();
+    const targetTag = await this.getTag(target);
+    if (!targetTag) return null;
+
+    const sourceNames = (await db.tags.where('name').anyOf(normalizeTags(sources)).toArray())
+      .map((tag) => tag.name)
+      .filter((name) => name !== targetTag.name);
+    if (sourceNames.length === 0) return targetTag;
+
+    const enclosing = sourceNames.find((name) => isTagWithin(targetTag.name, name));
+    if (enclosing) {
+      throw new ValidationError(`Cannot merge "${enclosing}" into "${targetTag.name}", which is nested under it`);
+    }
+
+    await this.moveTags(new Map(sourceNames.map((name) => [name, targetTag.name])));
+
+    console.log(`[Tags] Merged ${sourceNames.join(', ')} into "${targetTag.name}"`);
+    return (await this.getTag(targetTag.name))!;
+  }
+
+  /**
+   * Delete a tag and the tags nested under it, taking them off every tab,
+   * session and archive
+   * Returns false if there was no such tag
+   */
+  async deleteTag(name: string): Promise<boolean> {
+    const db = getDatabase();
+    const tag = await this.getTag(name);
+    if (!tag) return false;
+
+    await this.replaceTags([tag.name], () => null, async () => {
+      await whereNamed(db.tags, [tag.name]).delete();
+    });
+
+    console.log(`[Tags] Deleted "${tag.name}"`);
+    return true;
+  }
+
+  /**
+   * Make another name resolve to a tag, along with the names nested under it
+   * ("js/react" resolves to "javascript/react" once "js" is an alias of
+   * "javascript"). Tabs, sessions and tags already using the name are merged in.
+   * Returns null if there is no such tag; throws if the alias is blank,
+   * nested with the tag, or already an alias of another tag
+   */
+  async addAlias(name: string, alias: string): Promise<Tag | null> {
+    const db = getDatabase();
+    const tag = await this.getTag(name);
+    if (!tag) return null;
+
+    const normalized = normalizeTagName(alias);
+    if (!normalized) {
+      throw new ValidationError('Alias cannot be empty');
+    }
+    if (isTagWithin(tag.name, normalized) || isTagWithin(normalized, tag.name)) {
+      throw new ValidationError(`"${normalized}" is nested with "${tag.name}" and cannot be its alias`);
+    }
+    const owner = await this.getTagByAlias(normalized);
+    if (owner) {
+      if (owner.id === tag.id) return tag;
+      throw new ValidationError(`"${normalized}" is already an alias of "${owner.name}"`);
+    }
+
+    await this.moveTags(new Map([[normalized, tag.name]]), async () => {
+      // Read back - a tag under the alias's name brings its own aliases
+      const { aliases } = (await db.tags.get(tag.id!))!;
+      await db.tags.update(tag.id!, { aliases: [...aliases, normalized] });
+    });
+    await this.reindexTagged(tag.name);
+
+    console.log(`[Tags] Added alias "${normalized}" for "${tag.name}"`);
+    return (await db.tags.get(tag.id!))!;
+  }
+
+  /**
+   * Stop a name resolving to a tag
+   * Returns null if there is no such tag
+   */
+  async removeAlias(name: string, alias: string): Promise<Tag | null> {
+    const db = getDatabase();
+    const tag = await this.getTag(name);
+    if (!tag) return null;
+
+    const normalized = normalizeTagName(alias);
+    if (!tag.aliases.includes(normalized)) return tag;
+
+    const aliases = tag.aliases.filter((a) => a !== normalized);
+    await db.tags.update(tag.id!, { aliases });
+    await this.reindexTagged(tag.name);
+    return { ...tag, aliases };
+  }
+
+  /**
+   * Swap aliases for their tags on tabs, sessions and archives still carrying
+   * them (imported, or tagged elsewhere before the alias existed)
+   */
+  async resolveStoredAliases(): Promise<void> {
+    const aliases = await this.getAliases();
+    if (aliases.size > 0) {
+      await this.moveTags(aliases);
+    }
+  }
+
+  /**
+   * Bring the usage counts of some tags up to date, adding any not in the
+   * vocabulary yet along with the tags they are nested under
+   * Call with the tags a tab had and has after its tags change
+   */
+  async refreshUsage(names: string[]): Promise<void> {
+    const db = getDatabase();
+    await db.transaction('rw', [db.tags, db.tabs, db.sessions], async () => {
+      for (const name of normalizeTags(names)) {
+        const usageCount = await this.countUsage(name);
+        const tag = await db.tags.where('name').equals(name).first();
+        if (tag) {
+          if (tag.usageCount !== usageCount) await db.tags.update(tag.id!, { usageCount });
+        } else if (usageCount > 0) {
+          await this.addMissingTags([...tagAncestors(name), name]);
+        }
+      }
+    });
+  }
+
+  /**
+   * Recount every tag, adding tags used on tabs or sessions but missing from
+   * the vocabulary (tracked before it existed, imported, or left by cleanup)
+   * Returns how many tags were added
+   */
+  async recountUsage(): Promise<number> {
+    const db = getDatabase();
+    const [stored, tabTags, sessionTags] = await Promise.all([
+      db.tags.toArray(),
+      db.tabs.orderBy('tags').uniqueKeys(),
+      db.sessions.orderBy('tags').uniqueKeys(),
+    ]);
+    const used = new Set([...tabTags, ...sessionTags].map(String));
+
+    await this.refreshUsage([...stored.map((tag) => tag.name), ...used]);
+    const added = (await db.tags.count()) - stored.length;
+    if (added > 0) {
+      console.log(`[Tags] Added ${added} tags found on tabs and sessions`);
+    }
+    return added;
+  }
+
+  /**
+   * Tabs and sessions carrying a tag
+   */
+  private async countUsage(name: string): Promise<number> {
+    const db = getDatabase();
+    const [tabs, sessions] = await Promise.all([
+      db.tabs.where('tags').equals(name).count(),
+      db.sessions.where('tags').equals(name).count(),
+    ]);
+    return tabs + sessions;
+  }
+
+  /**
+   * Add tags missing from the vocabulary, counting their usage
+   */
+  private async addMissingTags(names: string[]): Promise<void> {
+    const db = getDatabase();
+    for (const name of names) {
+      if ((await db.tags.where('name').equals(name).count()) === 0) {
+        await db.tags.add(createTagRecord(name, await this.countUsage(name)));
+      }
+    }
+  }
+
+  /**
+   * Move tags, with the tags nested under them, to new names (source -> destination)
+   * A tag whose new name is taken is folded into the tag holding it, which
+   * gains its aliases. Runs afterMove in the same transaction
+   */
+  private async moveTags(moves: ReadonlyMap<string, string>, afterMove?: () => Promise<void>): Promise<void> {
+    const db = getDatabase();
+    const roots = [...moves.keys()];
+
+    await this.replaceTags(roots, (name) => rewriteTagPath(name, moves), async () => {
+      const destinations = new Set<string>();
+      for (const tag of await whereNamed(db.tags, roots).toArray()) {
+        const name = rewriteTagPath(tag.name, moves);
+        const existing = await db.tags.where('name').equals(name).first();
+        if (existing) {
+          await db.tags.delete(tag.id!);
+          await db.tags.update(existing.id!, { aliases: normalizeTags([...existing.aliases, ...tag.aliases]) });
+        } else {
+          await db.tags.update(tag.id!, { name, parent: parentTagName(name) });
+        }
+        destinations.add(name);
+      }
+
+      for (const name of [...moves.values(), ...destinations]) {
+        await this.addMissingTags(tagAncestors(name));
+        const tag = await db.tags.where('name').equals(name).first();
+        if (tag) await db.tags.update(tag.id!, { usageCount: await this.countUsage(name) });
+      }
+      await afterMove?.();
+    });
+  }
+
+  /**
+   * Queue the tabs carrying a tag, or a tag nested under it, for reindexing
+   */
+  private async reindexTagged(name: string): Promise<void> {
+    for (const tab of await this.tabsTagged([name]).toArray()) {
+      this.searchService.scheduleReindex(tab.persistentId);
+    }
+  }
+
+  /**
+   * Rewrite tags on every tab, session and archive carrying one of some tags
+   * or a tag nested under them - replace gives each such tag its new name, or
+   * null to drop it. Runs updateVocabulary in the same transaction
+   */
+  private async replaceTags(
+    roots: string[],
+    replace: (name: string) => string | null,
+    updateVocabulary: () => Promise<void>
+  ): Promise<void> {
+    const db = getDatabase();
+    const affected = (tag: string) => roots.some((root) => isTagWithin(tag, root));
+    const carries = (tags: string[]) => tags.some(affected);
+    const retag = (tags: string[]) =>
+      carries(tags) ? normalizeTags(tags.flatMap((tag) => (affected(tag) ? (replace(tag) ?? []) : tag))) : tags;
+    const now = Date.now();
+    const retaggedTabIds: string[] = [];
+
+    await db.transaction('rw', [db.tags, db.tabs, db.sessions, db.archivedSessions], async () => {
+      await whereTagged(db.tabs, roots).modify((tab) => {
+        tab.tags = retag(tab.tags);
+        tab.updatedAt = now;
+        retaggedTabIds.push(tab.persistentId);
+      });
+
+      await whereTagged(db.sessions, roots).modify((session) => {
+        session.tags = retag(session.tags);
+        session.updatedAt = now;
+      });
+
+      // Archived tabs are not indexed by tag
+      await db.archivedSessions
+        .filter((archive) => carries(archive.tags) || archive.tabs.some((tab) => carries(tab.tags)))
+        .modify((archive) => {
+          archive.tags = retag(archive.tags);
+          archive.tabs = archive.tabs.map((tab) => ({ ...tab, tags: retag(tab.tags) }));
+        });
+
+      await updateVocabulary();
+    });
+
+    for (const persistentId of retaggedTabIds) {
+      this.searchService.scheduleReindex(persistentId);
+    }
+  }
+}
+
+// Singleton instance
+let tagService: TagService | null = null;
+
+/**
+ * Get the TagService singleton
+ */
+export function getTagService(): TagService {
+  if (!tagService) {
+    tagService = new TagService();
+  }
+  return tagService;
+}
@@ -1,9 +1,11 @@
 import { getDatabase } from '../db/schema';
 import type { TrackedWindow, WindowFocusEvent } from '../db/types';
 import { getStorageManager, type StorageManager } from './StorageManager';
+import { getTabTracker, type TabTracker } from './TabTracker';
+import { getSessionPolicyService, type SessionPolicyService } from './SessionPolicyService';
 import { generateUUID } from '../utils/uuid';
 import { debounce } from '../utils/debounce';
-import { TIMING } from '../constants';
+import { getSettingsService, type SettingsService } from './SettingsService';
 
 /**
  * WindowTracker - Handles all window-related Chrome events
@@ -12,24 +14,40 @@ import { TIMING } from '../constants';
  * - Track window creation and removal
  * - Track window focus changes
  * - Calculate focus time
+ * - Pause the tab activation clock while the browser is unfocused
+ * - Give windows their own sessions when the session policy asks for it
  */
 export class WindowTracker {
   private storageManager: StorageManager;
+  private tabTracker: TabTracker;
+  private sessionPolicyService: SessionPolicyService;
+  private settingsService: SettingsService;
 
   // Debounced handler for focus changes
   private debouncedHandleFocus = debounce(
     this._handleWindowFocusChanged.bind(this),
-    TIMING.WINDOW_FOCUS_DEBOUNCE_MS
+    () => this.settingsService.getCurrent().timing.windowFocusDebounceMs
   );
 
-  constructor(storageManager?: StorageManager) {
+  constructor(
+    storageManager?: StorageManager,
+    tabTracker?: TabTracker,
+    sessionPolicyService?: SessionPolicyService,
+    settingsService?: SettingsService
+  ) {
     this.storageManager = storageManager || getStorageManager();
+    this.tabTracker = tabTracker || getTabTracker();
+    this.sessionPolicyService = sessionPolicyService || getSessionPolicyService();
+    this.settingsService = settingsService || getSettingsService();
   }
 
   /**
    * Handle window creation
    */
   async handleWindowCreated(window: chrome.windows.Window): Promise<TrackedWindow | null> {
+    // Taken before any await, so the claim goes to the window that fired first
+    const restoredPersistentId = this.storageManager.claimRestoredWindow();
+
     await this.storageManager.ensureInitialized();
     const sessionId = this.storageManager.getCurrentSessionId();
     if (!sessionId) {
@@ -40,6 +58,38 @@ export class WindowTracker {
     const db = getDatabase();
     const now = Date.now();
 
+    const restoredWindow = restoredPersistentId
+      ? await db.windows.where('persistentId').equals(restoredPersistentId).first()
+      : undefined;
+
+    if (restoredWindow) {
+      // REOPEN a window from a restored session - into the current one unless
+      // the restored session is saved; tab counts rebuild as its tabs arrive
+      const restoredSessionId = await this.storageManager.getReopenedSessionId(restoredWindow.sessionId, sessionId);
+      await db.windows.update(restoredWindow.id!, {
+        sessionId: restoredSessionId,
+        chromeWindowId: window.id!,
+        state: window.state || restoredWindow.state,
+        lastFocusedAt: window.focused ? now : restoredWindow.lastFocusedAt,
+        tabCount: 0,
+        closedAt: null,
+        updatedAt: now,
+      });
+      this.storageManager.setWindowMapping(window.id!, restoredWindow.persistentId);
+
+      await db.sessions.where('id').equals(restoredSessionId).modify((session) => {
+        session.windowCount = (session.windowCount || 0) + 1;
+        session.updatedAt = now;
+      });
+
+      console.log(`[WindowTracker] Restored window: ${restoredWindow.persistentId}`);
+      return (await db.windows.get(restoredWindow.id!))!;
+    }
+
+    // Under per-window sessions a window opened while running starts its own
+    const windowSession = await this.sessionPolicyService.startWindowSession();
+    const windowSessionId = windowSession?.id ?? sessionId;
+
     const persistentId = generateUUID();
     const windowRecord: TrackedWindow = {
       persistentId,
@@ -54,7 +104,7 @@ export class WindowTracker {
       createdAt: now,
       lastFocusedAt: window.focused ? now : 0,
       totalFocusTime: 0,
-      sessionId,
+      sessionId: windowSessionId,
       isSaved: false,
       tabCount: window.tabs?.length || 0,
       activeTabPersistentId: null,
@@ -64,9 +114,12 @@ export class WindowTracker {
 
     await db.windows.add(windowRecord);
     this.storageManager.setWindowMapping(window.id!, persistentId);
+    if (windowSession) {
+      this.storageManager.setWindowSession(persistentId, windowSession.id);
+    }
 
     // Update session window count
-    await db.sessions.where('id').equals(sessionId).modify((session) => {
+    await db.sessions.where('id').equals(windowSessionId).modify((session) => {
       session.windowCount = (session.windowCount || 0) + 1;
       session.updatedAt = now;
     });
@@ -88,7 +141,8 @@ export class WindowTracker {
     }
 
     const db = getDatabase();
-    const sessionId = this.storageManager.getCurrentSessionId();
+    // The count goes down on the session holding the window, whichever is current
+    const sessionId = (await db.windows.where('persistentId').equals(persistentId).first())?.sessionId;
 
     // Close any active focus event
     await this.closeActiveFocusEvent(persistentId, now);
@@ -121,6 +175,7 @@ export class WindowTracker {
 
     // Remove from cache
     this.storageManager.removeWindowMapping(windowId);
+    await this.sessionPolicyService.endWindowSession(persistentId, now);
 
     console.log(`[WindowTracker] Removed window: ${persistentId}`);
   }
@@ -164,10 +219,14 @@ export class WindowTracker {
     // chrome.windows.WINDOW_ID_NONE means no window has focus
     if (windowId === chrome.windows.WINDOW_ID_NONE) {
       await this.storageManager.setActiveWindow(null, 0);
+      await this.tabTracker.handleBrowserBlurred(now);
       console.log('[WindowTracker] All windows lost focus');
       return;
     }
 
+    // Any browser window regaining focus restarts the tab clock
+    await this.tabTracker.handleBrowserFocused(now);
+
     // Get persistent ID for new focused window
     const newPersistentId = this.storageManager.getPersistentWindowId(windowId);
     if (!newPersistentId) {
@@ -176,6 +235,12 @@ export class WindowTracker {
       return;
     }
 
+    // Under per-window sessions activity follows the focused window's session
+    const windowSessionId = this.storageManager.getWindowSessionId(newPersistentId);
+    if (windowSessionId && windowSessionId !== sessionId) {
+      await this.storageManager.setCurrentSessionId(windowSessionId);
+    }
+
     // Update window's last focused time
     await db.windows.where('persistentId').equals(newPersistentId).modify((window) => {
       window.lastFocusedAt = now;
@@ -0,0 +1,307 @@
+import { getDatabase } from '../db/schema';
+import type { TrackedTab, TrackedWindow, Workspace, WorkspaceWindow } from '../db/types';
+import { getStorageManager, type StorageManager } from './StorageManager';
+import {
+  getSessionRestoreService,
+  type SessionRestoreService,
+  type RestoreOptions,
+  type RestoreReport,
+  type RestoreTarget,
+} from './SessionRestoreService';
+
+/**
+ * Where a new workspace takes its windows and tabs from (one of the two)
+ */
+export interface WorkspaceSource {
+  /** The windows and tabs open when this session ended */
+  sessionId?: string;
+  /** The tabs in this Chrome window right now */
+  chromeWindowId?: number;
+}
+
+/**
+ * WorkspaceService - Named sets of windows and tabs, opened and closed as a unit
+ *
+ * A workspace only references tracked windows and tabs by persistent ID.
+ * Opening one goes through SessionRestoreService, so its tabs come back with
+ * their tags, notes and history; closing one writes the current tabs of its
+ * open windows back to the workspace before Chrome closes them.
+ */
+export class WorkspaceService {
+  private storageManager: StorageManager;
+  private sessionRestoreService: SessionRestoreService;
+
+  constructor(storageManager?: StorageManager, sessionRestoreService?: SessionRestoreService) {
+    this.storageManager = storageManager || getStorageManager();
+    this.sessionRestoreService = sessionRestoreService || getSessionRestoreService();
+  }
+
+  /**
+   * All workspaces, most recently edited first
+   */
+  async getWorkspaces(): Promise<Workspace[]> {
+    const db = getDatabase();
+    return db.workspaces.orderBy('updatedAt').reverse().toArray();
+  }
+
+  /**
+   * Get a workspace by ID
+   */
+  async getWorkspace(id: number): Promise<Workspace | undefined> {
+    const db = getDatabase();
+    return db.workspaces.get(id);
+  }
+
+  /**
+   * Create a workspace from a session or a Chrome window
+   * Returns null if the session or window is not tracked
+   * Throws if the name is empty or already taken
+   */
+  async createWorkspace(name: string, source: WorkspaceSource, description = ''): Promise<Workspace | null> {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      throw new Error('Workspace needs a name');
+    }
+
+    const db = getDatabase();
+    if ((await db.workspaces.where('name').equals(trimmedName).count()) > 0) {
+      throw new Error(`Workspace "${trimmedName}" already exists`);
+    }
+
+    let windows: WorkspaceWindow[];
+    if (source.sessionId !== undefined) {
+      const targets = await this.sessionRestoreService.getSessionTargets(source.sessionId);
+      if (!targets) return null;
+      windows = targets
+        .filter(({ tabs }) => tabs.length > 0)
+        .map(({ window, tabs }) => ({
+          windowPersistentId: window.persistentId,
+          tabPersistentIds: tabs.map((t) => t.persistentId),
+        }));
+    } else if (source.chromeWindowId !== undefined) {
+      const window = await this.captureWindow(source.chromeWindowId);
+      if (!window) return null;
+      windows = [window];
+    } else {
+      throw new Error('Workspace needs a session or a window to start from');
+    }
+
+    const now = Date.now();
+    const workspace: Workspace = {
+      name: trimmedName,
+      description,
+      windows,
+      tabPersistentIds: windows.flatMap((w) => w.tabPersistentIds),
+      sourceSessionId: source.sessionId ?? null,
+      openedAt: null,
+      closedAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    workspace.id = await db.workspaces.add(workspace);
+
+    console.log(`[Workspace] Created "${trimmedName}" with ${workspace.tabPersistentIds.length} tabs`);
+    return workspace;
+  }
+
+  /**
+   * Replace a workspace window with the current tabs of a Chrome window
+   * The window is added to the workspace if it is not part of it yet
+   * Returns null if the workspace or the window is not found
+   */
+  async updateFromWindow(id: number, chromeWindowId: number): Promise<Workspace | null> {
+    const workspace = await this.getWorkspace(id);
+    if (!workspace) return null;
+
+    const captured = await this.captureWindow(chromeWindowId);
+    if (!captured) return null;
+
+    const windows = workspace.windows.some((w) => w.windowPersistentId === captured.windowPersistentId)
+      ? workspace.windows.map((w) => (w.windowPersistentId === captured.windowPersistentId ? captured : w))
+      : [...workspace.windows, captured];
+
+    return this.saveWindows(workspace, windows, {});
+  }
+
+  /**
+   * Open a workspace's windows and tabs
+   * Tabs that are already open are left alone
+   * Returns null if the workspace does not exist
+   */
+  async openWorkspace(id: number, options: RestoreOptions = {}): Promise<RestoreReport | null> {
+    const workspace = await this.getWorkspace(id);
+    if (!workspace) return null;
+
+    const report = await this.sessionRestoreService.restore(await this.getTargets(workspace), options);
+    await getDatabase().workspaces.update(id, { openedAt: Date.now() });
+
+    console.log(
+      `[Workspace] Opened "${workspace.name}": ${report.windows} windows, ${report.tabs} tabs ` +
+        `(${report.skipped} already open, ${report.failed} failed)`
+    );
+    return report;
+  }
+
+  /**
+   * Close a workspace to storage
+   * Its open windows are captured first, so tabs opened since are kept, then
+   * closed along with any workspace tabs open in other windows
+   * Returns null if the workspace does not exist
+   */
+  async closeWorkspace(id: number): Promise<Workspace | null> {
+    await this.storageManager.ensureInitialized();
+    const workspace = await this.getWorkspace(id);
+    if (!workspace) return null;
+
+    const db = getDatabase();
+    const records = await db.windows
+      .where('persistentId')
+      .anyOf(workspace.windows.map((w) => w.windowPersistentId))
+      .toArray();
+    const openWindowIds = new Map(
+      records.filter((w) => this.isWindowOpen(w)).map((w) => [w.persistentId, w.chromeWindowId])
+    );
+
+    const windows: WorkspaceWindow[] = [];
+    for (const entry of workspace.windows) {
+      const chromeWindowId = openWindowIds.get(entry.windowPersistentId);
+      const captured = chromeWindowId !== undefined ? await this.captureWindow(chromeWindowId) : null;
+      windows.push(captured ?? entry);
+    }
+
+    // Stored before anything closes, so nothing is lost if Chrome refuses
+    const updated = await this.saveWindows(workspace, windows, { closedAt: Date.now() });
+
+    const closingWindowIds = new Set(openWindowIds.values());
+    const strayTabIds = (await db.tabs.where('persistentId').anyOf(updated.tabPersistentIds).toArray())
+      .filter((t) => this.isTabOpen(t) && !closingWindowIds.has(t.chromeWindowId))
+      .map((t) => t.chromeTabId);
+
+    if (strayTabIds.length > 0) {
+      await chrome.tabs.remove(strayTabIds).catch((error) => {
+        console.warn(`[Workspace] Could not close tabs of "${workspace.name}":`, error);
+      });
+    }
+    if (closingWindowIds.size > 0) {
+      await this.keepBrowserOpen(closingWindowIds);
+      for (const chromeWindowId of closingWindowIds) {
+        await chrome.windows.remove(chromeWindowId).catch((error) => {
+          console.warn(`[Workspace] Could not close window ${chromeWindowId}:`, error);
+        });
+      }
+    }
+
+    console.log(
+      `[Workspace] Closed "${workspace.name}": ${closingWindowIds.size} windows, ${strayTabIds.length} other tabs`
+    );
+    return updated;
+  }
+
+  /**
+   * Delete a workspace (its windows and tabs stay in their sessions)
+   */
+  async deleteWorkspace(id: number): Promise<void> {
+    const db = getDatabase();
+    await db.workspaces.delete(id);
+  }
+
+  /**
+   * Tracked tabs of a Chrome window, in tab strip order
+   * Returns null if the window is not tracked
+   */
+  private async captureWindow(chromeWindowId: number): Promise<WorkspaceWindow | null> {
+    await this.storageManager.ensureInitialized();
+    const windowPersistentId = this.storageManager.getPersistentWindowId(chromeWindowId);
+    if (!windowPersistentId) return null;
+
+    const chromeTabs = await chrome.tabs.query({ windowId: chromeWindowId });
+    const tabPersistentIds = chromeTabs
+      .sort((a, b) => a.index - b.index)
+      .map((t) => (t.id !== undefined ? this.storageManager.getPersistentTabId(t.id) : undefined))
+      .filter((persistentId): persistentId is string => !!persistentId);
+
+    return { windowPersistentId, tabPersistentIds };
+  }
+
+  /**
+   * Store a workspace's new window list
+   */
+  private async saveWindows(
+    workspace: Workspace,
+    windows: WorkspaceWindow[],
+    changes: Partial<Workspace>
+  ): Promise<Workspace> {
+    const updated: Workspace = {
+      ...workspace,
+      ...changes,
+      windows,
+      tabPersistentIds: windows.flatMap((w) => w.tabPersistentIds),
+      updatedAt: Date.now(),
+    };
+    await getDatabase().workspaces.put(updated);
+    return updated;
+  }
+
+  /**
+   * Stored windows and tabs of a workspace, in workspace order
+   * Windows or tabs whose records are gone are dropped
+   */
+  private async getTargets(workspace: Workspace): Promise<RestoreTarget[]> {
+    const db = getDatabase();
+    const windows = await db.windows
+      .where('persistentId')
+      .anyOf(workspace.windows.map((w) => w.windowPersistentId))
+      .toArray();
+    const tabs = await db.tabs.where('persistentId').anyOf(workspace.tabPersistentIds).toArray();
+    const windowsById = new Map<string, TrackedWindow>(windows.map((w) => [w.persistentId, w]));
+    const tabsById = new Map<string, TrackedTab>(tabs.map((t) => [t.persistentId, t]));
+
+    const targets: RestoreTarget[] = [];
+    for (const entry of workspace.windows) {
+      const window = windowsById.get(entry.windowPersistentId);
+      if (!window) continue;
+      targets.push({
+        window,
+        tabs: entry.tabPersistentIds.map((id) => tabsById.get(id)).filter((t): t is TrackedTab => !!t),
+      });
+    }
+    return targets;
+  }
+
+  /**
+   * Open an empty window when closing these would close the last one (and the browser with it)
+   */
+  private async keepBrowserOpen(closingWindowIds: Set<number>): Promise<void> {
+    const windows = await chrome.windows.getAll({ windowTypes: ['normal'] });
+    if (windows.every((w) => w.id === undefined || closingWindowIds.has(w.id))) {
+      await chrome.windows.create({}).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Whether a stored window is linked to a Chrome window that is open right now
+   */
+  private isWindowOpen(window: TrackedWindow): boolean {
+    return this.storageManager.getPersistentWindowId(window.chromeWindowId) === window.persistentId;
+  }
+
+  /**
+   * Whether a stored tab is linked to a Chrome tab that is open right now
+   */
+  private isTabOpen(tab: TrackedTab): boolean {
+    return this.storageManager.getPersistentTabId(tab.chromeTabId) === tab.persistentId;
+  }
+}
+
+// Singleton instance
+let workspaceService: WorkspaceService | null = null;
+
+/**
+ * Get the WorkspaceService singleton
+ */
+export function getWorkspaceService(): WorkspaceService {
+  if (!workspaceService) {
+    workspaceService = new WorkspaceService();
+  }
+  return workspaceService;
+}
@@ -0,0 +1,10 @@
+/**
+ * Thrown when a request to a service is out of range or contradicts itself
+ * The RPC layer reports it as INVALID_REQUEST rather than INTERNAL
+ */
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
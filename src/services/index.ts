@@ -1,7 +1,105 @@
 // Services module exports
+export { ValidationError } from './errors';
 export { StorageManager, getStorageManager } from './StorageManager';
 export { TabTracker, getTabTracker } from './TabTracker';
 export { WindowTracker, getWindowTracker } from './WindowTracker';
+export { TabGroupTracker, getTabGroupTracker } from './TabGroupTracker';
 export { RelationshipManager, getRelationshipManager } from './RelationshipManager';
 export { ExportService, getExportService } from './ExportService';
-export type { ExportOptions } from './ExportService';
+export { ImportService, getImportService } from './ImportService';
+export { ExportQueryService, getExportQueryService } from './ExportQueryService';
+export { SearchService, getSearchService } from './SearchService';
+export { QueryService, getQueryService } from './QueryService';
+export { IdleTracker, getIdleTracker } from './IdleTracker';
+export { SessionRestoreService, getSessionRestoreService } from './SessionRestoreService';
+export { WorkspaceService, getWorkspaceService } from './WorkspaceService';
+export {
+  SessionPolicyService,
+  getSessionPolicyService,
+  DEFAULT_SESSION_POLICY,
+  findSessionBoundary,
+} from './SessionPolicyService';
+export { SessionEditService, getSessionEditService } from './SessionEditService';
+export {
+  SessionSummaryService,
+  getSessionSummaryService,
+  DEFAULT_SUMMARY_RULES,
+  summarizeSession,
+} from './SessionSummaryService';
+export { SessionDiffService, getSessionDiffService, diffSessionPages } from './SessionDiffService';
+export {
+  RetentionService,
+  getRetentionService,
+  matchesRetentionRule,
+} from './RetentionService';
+export { ArchiveService, getArchiveService, buildSessionArchive } from './ArchiveService';
+export {
+  SettingsService,
+  getSettingsService,
+  DEFAULT_SETTINGS,
+  SETTINGS_SCHEMA,
+  SETTINGS_MIGRATIONS,
+  SettingsValidationError,
+  migrateSettings,
+  validateSettings,
+} from './SettingsService';
+export {
+  TagService,
+  getTagService,
+  TAG_COLORS,
+  isTagColor,
+  defaultTagColor,
+  tagSimilarityKey,
+} from './TagService';
+export {
+  AutoTagService,
+  getAutoTagService,
+  compileUrlPattern,
+  matchesAutoTagRule,
+  evaluateAutoTagRules,
+} from './AutoTagService';
+export { AnalyticsService, getAnalyticsService, normalizeDomain, rollUpVisits } from './AnalyticsService';
+export {
+  ReportService,
+  getReportService,
+  REPORT_PERIODS,
+  getReportRange,
+  getReportTitle,
+  renderReportMarkdown,
+  renderReportHtml,
+} from './ReportService';
+export type { ExportOptions, ExportProgress } from './ExportService';
+export type {
+  ExportScope,
+  ExportQuery,
+  ExportQueryResult,
+  ExportTable,
+  ExportRows,
+  ExportPlan,
+  ExportPage,
+} from './ExportQueryService';
+export type { SearchOptions, SearchResult, ArchiveSearchResult } from './SearchService';
+export type { QueryOptions } from './QueryService';
+export type { ImportReport, ImportCounts, ImportEntity } from './ImportService';
+export type { RestoreOptions, RestoreReport, RestoreTarget } from './SessionRestoreService';
+export type { WorkspaceSource } from './WorkspaceService';
+export type { SessionSelection } from './SessionEditService';
+export type { TabActivity, SessionSummary } from './SessionSummaryService';
+export type { SessionPage, SessionDiff, SessionDiffTab, DomainShift } from './SessionDiffService';
+export type { RetentionReport, ExpiredSession } from './RetentionService';
+export type {
+  SettingSchema,
+  NumberSettingSchema,
+  BooleanSettingSchema,
+  SettingsMigration,
+  SettingsListener,
+} from './SettingsService';
+export type { AutoTagSubject, AutoTagReport, AutoTaggedTab } from './AutoTagService';
+export type {
+  DomainSummary,
+  DayTotals,
+  DomainAnalytics,
+  DomainHistory,
+  AnalyticsRange,
+} from './AnalyticsService';
+export type { ReportRange } from './ReportService';
@@ -1,13 +1,16 @@
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type AnyFunction = (...args: any[]) => any;
 
+/** Milliseconds, or a function read each time the wait is needed */
+type Wait = number | (() => number);
+
 interface DebounceOptions {
   /** Call on the leading edge (default: false) */
   leading?: boolean;
   /** Call on the trailing edge (default: true) */
   trailing?: boolean;
   /** Maximum time to wait before forcing invocation */
-  maxWait?: number;
+  maxWait?: Wait;
 }
 
 interface DebouncedFunction<T extends AnyFunction> {
@@ -23,14 +26,18 @@ interface DebouncedFunction<T extends AnyFunction> {
 /**
  * Creates a debounced function that delays invoking func until after
  * wait milliseconds have elapsed since the last time the debounced
- * function was invoked.
+ * function was invoked. A wait given as a function is read on every call,
+ * so it can follow settings that change at runtime.
  */
 export function debounce<T extends AnyFunction>(
   func: T,
-  wait: number,
+  wait: Wait,
   options: DebounceOptions = {}
 ): DebouncedFunction<T> {
-  const { leading = false, trailing = true, maxWait } = options;
+  const { leading = false, trailing = true } = options;
+  const getWait = (): number => (typeof wait === 'function' ? wait() : wait);
+  const getMaxWait = (): number | undefined =>
+    typeof options.maxWait === 'function' ? options.maxWait() : options.maxWait;
 
   let timeoutId: ReturnType<typeof setTimeout> | null = null;
   let lastArgs: Parameters<T> | null = null;
@@ -52,10 +59,11 @@ export function debounce<T extends AnyFunction>(
   function shouldInvoke(time: number): boolean {
     const timeSinceLastCall = lastCallTime === undefined ? 0 : time - lastCallTime;
     const timeSinceLastInvoke = time - lastInvokeTime;
+    const maxWait = getMaxWait();
 
     return (
       lastCallTime === undefined ||
-      timeSinceLastCall >= wait ||
+      timeSinceLastCall >= getWait() ||
       timeSinceLastCall < 0 ||
       (maxWait !== undefined && timeSinceLastInvoke >= maxWait)
     );
@@ -64,7 +72,8 @@ export function debounce<T extends AnyFunction>(
   function remainingWait(time: number): number {
     const timeSinceLastCall = lastCallTime === undefined ? 0 : time - lastCallTime;
     const timeSinceLastInvoke = time - lastInvokeTime;
-    const timeWaiting = wait - timeSinceLastCall;
+    const timeWaiting = getWait() - timeSinceLastCall;
+    const maxWait = getMaxWait();
 
     return maxWait === undefined
       ? timeWaiting
@@ -83,7 +92,7 @@ export function debounce<T extends AnyFunction>(
 
   function leadingEdge(time: number): void {
     lastInvokeTime = time;
-    timeoutId = setTimeout(timerExpired, wait);
+    timeoutId = setTimeout(timerExpired, getWait());
 
     if (leading) {
       invokeFunc(time);
@@ -133,15 +142,15 @@ export function debounce<T extends AnyFunction>(
         return;
       }
 
-      if (maxWait !== undefined) {
-        timeoutId = setTimeout(timerExpired, wait);
+      if (getMaxWait() !== undefined) {
+        timeoutId = setTimeout(timerExpired, getWait());
         invokeFunc(time);
         return;
       }
     }
 
     if (timeoutId === null) {
-      timeoutId = setTimeout(timerExpired, wait);
+      timeoutId = setTimeout(timerExpired, getWait());
     }
   }
 
@@ -20,6 +20,27 @@ export function normalizeUrl(url: string): string {
   }
 }
 
+/**
+ * Site a URL belongs to - its lowercased host without a leading "www."
+ * Returns null for URLs that are not web pages (chrome://, about:, files)
+ */
+export function getDomain(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+    return parsed.hostname.toLowerCase().replace(/^www\./, '') || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a domain is another domain or a subdomain of it
+ */
+export function matchesDomain(domain: string, wanted: string): boolean {
+  return domain === wanted || domain.endsWith(`.${wanted}`);
+}
+
 /**
  * Generate a SHA-256 hash of a URL
  * Returns hex string
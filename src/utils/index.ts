@@ -1,4 +1,15 @@
 // Utility module exports
 export { generateUUID } from './uuid';
-export { normalizeUrl, hashUrl, hashUrlSync } from './hash';
+export { normalizeUrl, getDomain, matchesDomain, hashUrl, hashUrlSync } from './hash';
 export { debounce, throttle } from './debounce';
+export { tokenize, countTokens } from './tokenize';
+export {
+  TAG_PATH_SEPARATOR,
+  normalizeTagName,
+  normalizeTags,
+  parentTagName,
+  tagAncestors,
+  isTagWithin,
+  rewriteTagPath,
+} from './tags';
+export { getDayStart, addDays } from './time';
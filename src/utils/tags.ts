@@ -0,0 +1,73 @@
+/**
+ * Tag paths and aliases
+ *
+ * Nested tags are paths separated by "/" (project/unos/backend); a tag
+ * covers itself and every tag nested under it. Aliases map another name
+ * onto a tag (js -> javascript), including the paths under it (js/react ->
+ * javascript/react).
+ */
+
+/** Separator between the levels of a nested tag */
+export const TAG_PATH_SEPARATOR = '/';
+
+/**
+ * Canonical form of a tag name: trimmed, lowercase, single spaces, with
+ * blank levels of a nested tag dropped ("Project / /UNOS" -> "project/unos")
+ */
+export function normalizeTagName(name: string): string {
+  return name
+    .split(TAG_PATH_SEPARATOR)
+    .map((level) => level.trim().toLowerCase().replace(/\s+/g, ' '))
+    .filter(Boolean)
+    .join(TAG_PATH_SEPARATOR);
+}
+
+/**
+ * Normalize a list of tags, dropping blanks and repeats
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map(normalizeTagName).filter(Boolean))];
+}
+
+/**
+ * The tag a nested tag sits under, or null at the top level
+ */
+export function parentTagName(name: string): string | null {
+  const index = name.lastIndexOf(TAG_PATH_SEPARATOR);
+  return index > 0 ? name.slice(0, index) : null;
+}
+
+/**
+ * Every tag a nested tag sits under, outermost first
+ * tagAncestors('project/unos/backend') -> ['project', 'project/unos']
+ */
+export function tagAncestors(name: string): string[] {
+  const ancestors: string[] = [];
+  for (let parent = parentTagName(name); parent; parent = parentTagName(parent)) {
+    ancestors.unshift(parent);
+  }
+  return ancestors;
+}
+
+/**
+ * Whether a tag is another tag or nested under it
+ */
+export function isTagWithin(name: string, ancestor: string): boolean {
+  return name === ancestor || name.startsWith(ancestor + TAG_PATH_SEPARATOR);
+}
+
+/**
+ * Replace the longest prefix of a tag path found in a map, keeping the
+ * levels below it - resolves aliases, and moves tags renamed or merged
+ * with everything nested under them
+ * Names with no prefix in the map come back unchanged
+ */
+export function rewriteTagPath(name: string, prefixes: ReadonlyMap<string, string>): string {
+  for (let prefix: string | null = name; prefix; prefix = parentTagName(prefix)) {
+    const replacement = prefixes.get(prefix);
+    if (replacement !== undefined) {
+      return replacement + name.slice(prefix.length);
+    }
+  }
+  return name;
+}
@@ -0,0 +1,25 @@
+/**
+ * Local calendar days
+ */
+
+/**
+ * Start (local time) of the day a timestamp falls in, with days rolling over at dayStartHour
+ */
+export function getDayStart(timestamp: number, dayStartHour: number): number {
+  const date = new Date(timestamp);
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate(), dayStartHour);
+  if (start.getTime() > timestamp) {
+    start.setDate(start.getDate() - 1);
+  }
+  return start.getTime();
+}
+
+/**
+ * The same local time some days later (or earlier) - a day is not always
+ * 24 hours across a daylight saving change
+ */
+export function addDays(timestamp: number, days: number): number {
+  const date = new Date(timestamp);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+}
@@ -0,0 +1,45 @@
+/**
+ * Text tokenization for the search index
+ */
+
+/** Tokens shorter than this are not indexed */
+const MIN_TOKEN_LENGTH = 2;
+
+/** Tokens longer than this are truncated (long hashes, base64 blobs in URLs) */
+const MAX_TOKEN_LENGTH = 40;
+
+/** Common words and URL noise that carry no meaning for search */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is',
+  'it', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'with',
+  'http', 'https', 'www', 'html', 'htm', 'php',
+]);
+
+/**
+ * Split text into normalized search tokens
+ * - Lowercased, with accents stripped (café -> cafe)
+ * - Split on anything that is not a letter or digit
+ * - Stop words and single characters are dropped
+ */
+export function tokenize(text: string): string[] {
+  if (!text) return [];
+
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length >= MIN_TOKEN_LENGTH && !STOP_WORDS.has(token))
+    .map((token) => token.slice(0, MAX_TOKEN_LENGTH));
+}
+
+/**
+ * Count occurrences of each token
+ */
+export function countTokens(tokens: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokens) {
+    counts.set(token, (counts.get(token) ?? 0) + 1);
+  }
+  return counts;
+}
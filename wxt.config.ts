@@ -6,7 +6,7 @@ export default defineConfig({
     name: 'UNOS Tab Tracker',
     description: 'Track tab usage, relationships, and metadata',
     version: '0.0.1',
-    permissions: ['tabs', 'storage', 'alarms'],
+    permissions: ['tabs', 'storage', 'alarms', 'idle', 'tabGroups'],
     host_permissions: ['<all_urls>'],
   },
 });